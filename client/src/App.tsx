@@ -5,12 +5,21 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
+import { useWorkshopEvents } from "@/hooks/use-workshop-events";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { LogOut } from "lucide-react";
+import AuthPage from "@/pages/auth-page";
 import Dashboard from "@/pages/dashboard";
 import UserRequest from "@/pages/user-request";
 import Workers from "@/pages/workers";
 import ActiveServices from "@/pages/active-services";
 import InventoryPage from "@/pages/inventory";
+import PurchasingPage from "@/pages/purchasing";
+import ReceivablesPage from "@/pages/receivables";
 import AnalyticsPage from "@/pages/analytics";
+import AppointmentsPage from "@/pages/appointments";
+import WhatIfPage from "@/pages/what-if";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -18,40 +27,90 @@ function Router() {
     <Switch>
       <Route path="/" component={Dashboard} />
       <Route path="/request" component={UserRequest} />
+      <Route path="/appointments" component={AppointmentsPage} />
       <Route path="/workers" component={Workers} />
       <Route path="/services" component={ActiveServices} />
       <Route path="/inventory" component={InventoryPage} />
+      <Route path="/purchasing" component={PurchasingPage} />
+      <Route path="/receivables" component={ReceivablesPage} />
       <Route path="/analytics" component={AnalyticsPage} />
+      <Route path="/what-if" component={WhatIfPage} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
-export default function App() {
+const roleLabels: Record<string, string> = {
+  service_advisor: "Service Advisor",
+  technician: "Technician",
+  inventory_manager: "Inventory Manager",
+  admin: "Admin",
+};
+
+function AppShell() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return <div className="min-h-screen bg-background" />;
+  }
+  if (!user) {
+    return <AuthPage />;
+  }
+  return <Workshop />;
+}
+
+function Workshop() {
+  const { user, logoutMutation } = useAuth();
+  useWorkshopEvents();
+
   const style = {
     "--sidebar-width": "16rem",
     "--sidebar-width-icon": "3rem",
   };
 
+  return (
+    <SidebarProvider style={style as React.CSSProperties}>
+      <div className="flex h-screen w-full">
+        <AppSidebar />
+        <div className="flex flex-col flex-1 overflow-hidden">
+          <header className="flex items-center justify-between p-4 border-b">
+            <SidebarTrigger data-testid="button-sidebar-toggle" />
+            <div className="flex items-center gap-4">
+              <div className="text-sm text-muted-foreground">
+                AI-Powered Workshop Intelligence
+              </div>
+              <div className="text-sm text-right" data-testid="text-current-user">
+                <div className="font-medium">{user?.displayName}</div>
+                <div className="text-xs text-muted-foreground">{roleLabels[user?.role ?? ""] ?? user?.role}</div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                data-testid="button-logout"
+              >
+                <LogOut className="h-4 w-4 mr-1" />
+                Sign Out
+              </Button>
+            </div>
+          </header>
+          <main className="flex-1 overflow-auto">
+            <Router />
+          </main>
+        </div>
+      </div>
+    </SidebarProvider>
+  );
+}
+
+export default function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
-        <SidebarProvider style={style as React.CSSProperties}>
-          <div className="flex h-screen w-full">
-            <AppSidebar />
-            <div className="flex flex-col flex-1 overflow-hidden">
-              <header className="flex items-center justify-between p-4 border-b">
-                <SidebarTrigger data-testid="button-sidebar-toggle" />
-                <div className="text-sm text-muted-foreground">
-                  AI-Powered Workshop Intelligence
-                </div>
-              </header>
-              <main className="flex-1 overflow-auto">
-                <Router />
-              </main>
-            </div>
-          </div>
-        </SidebarProvider>
+        <AuthProvider>
+          <AppShell />
+        </AuthProvider>
         <Toaster />
       </TooltipProvider>
     </QueryClientProvider>
@@ -10,7 +10,7 @@ import {
   SidebarMenuItem,
   SidebarHeader,
 } from "@/components/ui/sidebar";
-import { LayoutDashboard, Users, Wrench, Package, BarChart3, ClipboardList } from "lucide-react";
+import { LayoutDashboard, Users, Wrench, Package, BarChart3, ClipboardList, CalendarDays, ShoppingCart, Receipt, FlaskConical } from "lucide-react";
 
 const menuItems = [
   {
@@ -23,6 +23,11 @@ const menuItems = [
     url: "/request",
     icon: ClipboardList,
   },
+  {
+    title: "Appointments",
+    url: "/appointments",
+    icon: CalendarDays,
+  },
   {
     title: "Workers",
     url: "/workers",
@@ -38,11 +43,26 @@ const menuItems = [
     url: "/inventory",
     icon: Package,
   },
+  {
+    title: "Purchasing",
+    url: "/purchasing",
+    icon: ShoppingCart,
+  },
+  {
+    title: "Receivables",
+    url: "/receivables",
+    icon: Receipt,
+  },
   {
     title: "Analytics",
     url: "/analytics",
     icon: BarChart3,
   },
+  {
+    title: "What-If",
+    url: "/what-if",
+    icon: FlaskConical,
+  },
 ];
 
 export function AppSidebar() {
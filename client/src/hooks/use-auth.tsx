@@ -0,0 +1,66 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useMutation, useQuery, type UseMutationResult } from "@tanstack/react-query";
+import type { PublicUser, UserRole } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type LoginData = { username: string; password: string };
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, LoginData>;
+  logoutMutation: UseMutationResult<unknown, Error, void>;
+  // True when the current user holds one of the roles (admins hold every role)
+  hasRole: (...roles: UserRole[]) => boolean;
+};
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ['/api/user'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      return await apiRequest<PublicUser>('POST', '/api/login', credentials);
+    },
+    onSuccess: (loggedIn) => {
+      queryClient.setQueryData(['/api/user'], loggedIn);
+    },
+    onError: () => {
+      toast({ title: "Login failed", description: "Invalid username or password", variant: "destructive" });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('POST', '/api/logout');
+    },
+    onSuccess: () => {
+      // Drop every cached workshop query so the next user starts clean
+      queryClient.clear();
+      queryClient.setQueryData(['/api/user'], null);
+    },
+  });
+
+  const hasRole = (...roles: UserRole[]) =>
+    !!user && (user.role === "admin" || roles.includes(user.role));
+
+  return (
+    <AuthContext.Provider value={{ user: user ?? null, isLoading, loginMutation, logoutMutation, hasRole }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
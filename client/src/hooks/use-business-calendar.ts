@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_BUSINESS_CALENDAR, type BusinessCalendar } from "@shared/business-calendar";
+
+// Workshop opening calendar, so remaining-time displays count the same
+// working hours the server used for the ETA.
+export function useBusinessCalendar(): BusinessCalendar {
+  const { data } = useQuery<BusinessCalendar>({
+    queryKey: ['/api/business-calendar'],
+    staleTime: Infinity,
+  });
+  return data ?? DEFAULT_BUSINESS_CALENDAR;
+}
@@ -0,0 +1,80 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import type { ActiveService } from "@shared/schema";
+import { REALTIME_PATH, type WorkshopEvent } from "@shared/realtime";
+
+// Queries made stale by each event type
+const staleQueries: Record<WorkshopEvent["type"], string[]> = {
+  "service.created": ['/api/active-services', '/api/dashboard-stats', '/api/queue/explanation'],
+  "service.started": ['/api/active-services', '/api/dashboard-stats', '/api/queue/explanation'],
+  "service.updated": ['/api/dashboard-stats'],
+  "service.completed": ['/api/active-services', '/api/dashboard-stats', '/api/completed-services', '/api/analytics'],
+  "service.cancelled": ['/api/active-services', '/api/dashboard-stats', '/api/cancelled-services', '/api/queue/explanation'],
+  "worker.load_changed": ['/api/workers', '/api/dashboard-stats', '/api/analytics'],
+  "roster.changed": ['/api/roster', '/api/shifts', '/api/leave-requests', '/api/workers', '/api/dashboard-stats'],
+  "bay.changed": ['/api/machines', '/api/dashboard-stats'],
+  "stock.changed": ['/api/inventory', '/api/dashboard-stats', '/api/active-services'],
+  "purchase_order.changed": ['/api/purchase-orders', '/api/inventory'],
+  "payment.recorded": ['/api/completed-services', '/api/receivables'],
+  "queue_policy.changed": ['/api/queue-policy', '/api/queue/explanation'],
+  "appointment.changed": ['/api/appointments', '/api/inventory'],
+  "business_calendar.changed": ['/api/business-calendar', '/api/queue/explanation'],
+};
+
+function applyEvent(event: WorkshopEvent) {
+  if (event.type === "service.updated") {
+    // Progress ticks are frequent, so patch the list in place instead of refetching it
+    queryClient.setQueryData<ActiveService[]>(['/api/active-services'], (services) =>
+      services?.map((s) => (s.id === event.service.id ? event.service : s)),
+    );
+  }
+  for (const key of staleQueries[event.type] ?? []) {
+    queryClient.invalidateQueries({ queryKey: [key] });
+  }
+}
+
+// Keeps React Query caches in sync with server-pushed workshop events.
+// Reconnects with backoff and refetches everything after a dropped connection.
+export function useWorkshopEvents() {
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}`);
+
+      socket.onopen = () => {
+        if (attempts > 0) {
+          queryClient.invalidateQueries();
+        }
+        attempts = 0;
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          applyEvent(JSON.parse(message.data) as WorkshopEvent);
+        } catch {
+          // ignore malformed messages
+        }
+      };
+
+      socket.onclose = () => {
+        if (closed) return;
+        const delay = Math.min(30000, 1000 * 2 ** attempts);
+        attempts++;
+        retryTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, []);
+}
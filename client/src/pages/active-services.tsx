@@ -1,37 +1,83 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useState } from "react";
+import { Fragment, useEffect, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Progress } from "@/components/ui/progress";
-import { CheckCircle2, FileText, Clock, Car } from "lucide-react";
+import { CheckCircle2, FileText, Clock, Car, ChevronDown, ChevronRight, Play, SkipForward, RotateCcw, Printer, Wallet, Pause, XCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useBusinessCalendar } from "@/hooks/use-business-calendar";
+import { businessHoursBetween } from "@shared/business-calendar";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { ActiveService, CompletedService } from "@shared/schema";
+import {
+  balanceDue,
+  canComplete,
+  formatInvoiceNumber,
+  holdStatuses,
+  isOnHold,
+  paymentMethods,
+  paymentStatus,
+  type ActiveService,
+  type CancelledService,
+  type CompletedService,
+  type HoldStatus,
+  type InvoiceItem,
+  type PartReservation,
+  type Payment,
+  type PaymentKind,
+  type PaymentMethod,
+  type PaymentStatus,
+  type ServiceTaskState,
+  type Worker,
+} from "@shared/schema";
+import { invoiceTotals } from "@shared/pricing";
 import { motion, AnimatePresence } from "framer-motion";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function ActiveServices() {
   const { toast } = useToast();
+  const calendar = useBusinessCalendar();
   const [editing, setEditing] = useState<CompletedService | null>(null);
-  const [editItems, setEditItems] = useState<Array<{ description: string; quantity: number; unitPrice: number }>>([]);
+  const [editItems, setEditItems] = useState<Array<Omit<InvoiceItem, 'id' | 'amount'> & { id?: string }>>([]);
+  const [editDiscount, setEditDiscount] = useState<number>(0);
+  const [reportedProgress, setReportedProgress] = useState<number>(0);
+  const [expanded, setExpanded] = useState<string | null>(null);
   
   const { data: services, isLoading } = useQuery<ActiveService[]>({
     queryKey: ['/api/active-services'],
-    refetchInterval: 5000,
     staleTime: 10000,
     refetchOnWindowFocus: false,
   });
 
+  const { data: workers } = useQuery<Worker[]>({
+    queryKey: ['/api/workers'],
+    staleTime: 30000,
+    refetchOnWindowFocus: false,
+  });
+
   const { data: completed, isLoading: completedLoading } = useQuery<CompletedService[]>({
     queryKey: ['/api/completed-services'],
     staleTime: 30000,
     refetchOnWindowFocus: false,
   });
 
+  const { data: cancelled } = useQuery<CancelledService[]>({
+    queryKey: ['/api/cancelled-services'],
+    staleTime: 30000,
+    refetchOnWindowFocus: false,
+  });
+
+  const { data: expandedParts } = useQuery<PartReservation[]>({
+    queryKey: ['/api/active-services', expanded, 'parts'],
+    enabled: !!expanded,
+    staleTime: 10000,
+  });
+
   const completeMutation = useMutation({
     mutationFn: async (serviceId: string) => {
       return await apiRequest('POST', `/api/complete-service/${serviceId}`, {});
@@ -55,9 +101,38 @@ export default function ActiveServices() {
     },
   });
 
+  const progressMutation = useMutation({
+    mutationFn: async (payload: { id: string; progress: number }) => {
+      return await apiRequest<ActiveService>('PATCH', `/api/active-services/${payload.id}/progress`, { progress: payload.progress });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/active-services'] });
+      toast({ title: 'Progress Updated', description: 'Estimated completion has been recalculated.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Update Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const taskMutation = useMutation({
+    mutationFn: async (payload: { id: string; taskName: string; action: 'start' | 'complete' | 'skip' | 'reset' }) => {
+      return await apiRequest<ActiveService>('POST', `/api/active-services/${payload.id}/tasks/${encodeURIComponent(payload.taskName)}/${payload.action}`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/active-services'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Task Update Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
   const updateInvoiceMutation = useMutation({
-    mutationFn: async (payload: { id: string; items: Array<{ description: string; quantity: number; unitPrice: number }>; currency?: string }) => {
-      return await apiRequest('PUT', `/api/completed-services/${payload.id}`, { items: payload.items, currency: payload.currency ?? 'INR' });
+    mutationFn: async (payload: { id: string; items: typeof editItems; discount: number; currency?: string }) => {
+      return await apiRequest('PUT', `/api/completed-services/${payload.id}`, {
+        items: payload.items,
+        discount: payload.discount,
+        currency: payload.currency ?? 'INR',
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/completed-services'] });
@@ -79,6 +154,9 @@ export default function ActiveServices() {
         return 'bg-green-100 text-green-800 border-green-200';
       case 'Completed':
         return 'bg-gray-100 text-gray-800 border-gray-200';
+      case 'On Hold – awaiting parts':
+      case 'On Hold – awaiting customer approval':
+        return 'bg-orange-100 text-orange-800 border-orange-200';
       default:
         return 'bg-gray-100 text-gray-800 border-gray-200';
     }
@@ -87,8 +165,8 @@ export default function ActiveServices() {
   const calculateTimeRemaining = (estimatedCompletion: string | Date, progress: number) => {
     const now = new Date();
     const completion = new Date(estimatedCompletion as any);
-    const totalTime = completion.getTime() - now.getTime();
-    const remainingTime = (totalTime * (100 - progress)) / 100;
+    // estimatedCompletion is already adjusted for reported progress; count only open hours
+    const remainingTime = progress >= 100 ? 0 : businessHoursBetween(calendar, now, completion) * 60 * 60 * 1000;
     
     if (remainingTime <= 0) return 'Completing';
     
@@ -108,76 +186,53 @@ export default function ActiveServices() {
       const t = new Date(s.estimatedCompletion as any).getTime();
       return Math.min(min, t);
     }, Infinity);
-    const now = Date.now();
-    const diff = earliest - now;
+    const diff = businessHoursBetween(calendar, new Date(), new Date(earliest)) * 60 * 60 * 1000;
     if (diff <= 0) return 'Starting soon';
     const hours = Math.floor(diff / (1000 * 60 * 60));
     const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
     return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
   };
 
-  const initials = (name: string) => name.split(' ').map((n) => n[0]).join('').slice(0,2).toUpperCase();
+  const getTaskStatusColor = (status: ServiceTaskState['status']) => {
+    switch (status) {
+      case 'In Progress':
+        return 'bg-blue-100 text-blue-800 border-blue-200';
+      case 'Done':
+        return 'bg-green-100 text-green-800 border-green-200';
+      case 'Skipped':
+        return 'bg-gray-100 text-gray-500 border-gray-200 line-through';
+      default:
+        return 'bg-gray-100 text-gray-800 border-gray-200';
+    }
+  };
 
-  const downloadReceipt = (record: CompletedService) => {
-    const dateStr = new Date(record.completedAt).toLocaleString();
-    const currencySymbol = record.currency === 'INR' ? '₹' : (record.currency || '$');
-    const html = `<!doctype html><html lang="en"><head><meta charset="utf-8"/>
-    <title>Receipt ${record.id}</title>
-    <meta name="viewport" content="width=device-width, initial-scale=1"/>
-    <style>
-      body{font-family:Inter,system-ui,-apple-system,Segoe UI,Roboto,Helvetica,Arial; background:#fff; color:#0f172a;}
-      .card{max-width:720px;margin:24px auto;padding:24px;border:1px solid #CBD3DF;border-radius:16px;background:#F7F9FB}
-      .row{display:flex;justify-content:space-between;gap:16px}
-      .muted{color:#64748b;font-size:12px}
-      h1{font-size:20px;margin:0 0 8px}
-      table{width:100%;border-collapse:collapse;margin-top:16px}
-      th,td{border:1px solid #CBD3DF;padding:10px;text-align:left;font-size:14px}
-      th{background:#eaf1fb}
-      .total{font-weight:600;color:#1A73E8}
-      .badge{display:inline-block;padding:4px 8px;border:1px solid #CBD3DF;border-radius:8px;background:#fff;color:#1A73E8;font-size:12px}
-    </style></head><body>
-      <div class="card">
-        <h1>Service Receipt</h1>
-        <div class="muted">${dateStr}</div>
-        <div class="row" style="margin-top:12px">
-          <div>
-            <div><strong>Service ID:</strong> ${record.id}</div>
-            <div><strong>Vehicle:</strong> ${record.carModel} (${record.carNumber})</div>
-            <div><strong>Type:</strong> ${record.serviceType}</div>
-          </div>
-          <div>
-            <div><span class="badge">${record.assignedMachine}</span></div>
-            <div class="muted" style="margin-top:6px">Workers: ${record.assignedWorkers.join(', ') || '—'}</div>
-          </div>
-        </div>
-        <table>
-          <thead><tr><th>Item</th><th>Qty</th><th>Rate</th><th>Amount</th></tr></thead>
-          <tbody>
-            ${record.items.map(i => `
-              <tr>
-                <td>${i.description}</td>
-                <td>${typeof i.quantity === 'number' ? i.quantity.toFixed(2) : i.quantity}</td>
-                <td>${currencySymbol}${i.unitPrice.toFixed(2)}</td>
-                <td>${currencySymbol}${i.amount.toFixed(2)}</td>
-              </tr>
-            `).join('')}
-            <tr><td colspan="3" class="total">Total</td><td class="total">${currencySymbol}${record.amount.toFixed(2)}</td></tr>
-          </tbody>
-        </table>
-        <div class="muted" style="margin-top:12px">Note: Parts priced separately if used.</div>
-      </div>
-    </body></html>`;
-    const blob = new Blob([html], { type: 'text/html' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${record.id}_receipt.html`;
-    document.body.appendChild(a);
-    a.click();
-    a.remove();
-    URL.revokeObjectURL(url);
+  const getReservationColor = (status: PartReservation['status']) => {
+    switch (status) {
+      case 'Reserved':
+        return 'bg-blue-50 text-blue-700 border-blue-200';
+      case 'Awaiting Stock':
+        return 'bg-amber-50 text-amber-800 border-amber-200';
+      case 'Consumed':
+        return 'bg-green-50 text-green-700 border-green-200';
+      default:
+        return 'bg-gray-50 text-gray-500 border-gray-200';
+    }
+  };
+
+  const workerName = (id: string | null) => {
+    if (!id) return '—';
+    return (workers || []).find((w) => w.id === id)?.name ?? id;
   };
 
+  const initials = (name: string) => name.split(' ').map((n) => n[0]).join('').slice(0,2).toUpperCase();
+
+  // Printed invoices and job cards link back here with ?service=<id> in their QR code
+  const linkedService = new URLSearchParams(window.location.search).get('service');
+  useEffect(() => {
+    if (!linkedService) return;
+    document.getElementById(`service-${linkedService}`)?.scrollIntoView({ block: 'center' });
+  }, [linkedService, services, completed]);
+
   return (
     <div className="space-y-6 p-6 bg-background min-h-[calc(100vh-64px)]">
       <div>
@@ -252,9 +307,18 @@ export default function ActiveServices() {
                 <TableBody>
                   <AnimatePresence>
                   {services.map((service) => (
-                    <motion.tr key={service.id} data-testid={`row-service-${service.id}`} initial={{ opacity: 0, y: 6 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.2 }}>
+                    <Fragment key={service.id}>
+                    <motion.tr id={`service-${service.id}`} className={linkedService === service.id ? 'bg-primary/10' : undefined} data-testid={`row-service-${service.id}`} initial={{ opacity: 0, y: 6 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.2 }}>
                       <TableCell className="font-mono text-sm" data-testid={`text-service-id-${service.id}`}>
-                        {service.id}
+                        <button
+                          type="button"
+                          className="flex items-center gap-1"
+                          onClick={() => setExpanded(expanded === service.id ? null : service.id)}
+                          data-testid={`button-toggle-checklist-${service.id}`}
+                        >
+                          {expanded === service.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          {service.id}
+                        </button>
                       </TableCell>
                       <TableCell>
                         <div>
@@ -292,7 +356,19 @@ export default function ActiveServices() {
                       <TableCell data-testid={`text-time-remaining-${service.id}`}>
                         {service.status === 'Queued'
                           ? `Starts in ${calculateQueuedStartEta(services, service)}`
-                          : calculateTimeRemaining(service.estimatedCompletion, service.progress)}
+                          : isOnHold(service)
+                            ? 'Paused'
+                            : calculateTimeRemaining(service.estimatedCompletion, service.progress)}
+                        {isOnHold(service) && service.heldAt && (
+                          <div className="text-xs text-muted-foreground mt-1" data-testid={`text-held-at-${service.id}`}>
+                            Since {new Date(service.heldAt).toLocaleString()}
+                          </div>
+                        )}
+                        {service.status === 'Queued' && service.queueReason && (
+                          <div className="text-xs text-muted-foreground mt-1" data-testid={`text-queue-reason-${service.id}`}>
+                            {service.queueReason}
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell>
                         <div className="flex flex-wrap gap-2 max-w-[200px]">
@@ -331,22 +407,141 @@ export default function ActiveServices() {
                             size="sm"
                             variant="outline"
                             onClick={() => completeMutation.mutate(service.id)}
-                            disabled={completeMutation.isPending || service.status === 'Completed'}
+                            disabled={completeMutation.isPending || !canComplete(service)}
                             data-testid={`button-complete-${service.id}`}
                           >
                             <CheckCircle2 className="h-4 w-4 mr-1" />
                             Complete
                           </Button>
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            data-testid={`button-report-${service.id}`}
-                          >
-                            <FileText className="h-4 w-4" />
+                          <Button size="sm" variant="ghost" asChild data-testid={`button-jobcard-${service.id}`}>
+                            <a href={`/api/active-services/${encodeURIComponent(service.id)}/jobcard.pdf`} target="_blank" rel="noreferrer" title="Print job card">
+                              <Printer className="h-4 w-4" />
+                            </a>
                           </Button>
+                          <Dialog>
+                            <DialogTrigger asChild>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => setReportedProgress(service.progress)}
+                                disabled={service.status === 'Queued' || isOnHold(service)}
+                                data-testid={`button-report-${service.id}`}
+                              >
+                                <FileText className="h-4 w-4" />
+                              </Button>
+                            </DialogTrigger>
+                            <DialogContent>
+                              <DialogHeader>
+                                <DialogTitle>Report Progress</DialogTitle>
+                              </DialogHeader>
+                              <div className="space-y-3">
+                                <div className="text-sm text-muted-foreground">
+                                  Actual progress on {service.id}. This replaces the time-based estimate.
+                                </div>
+                                <div className="flex items-center gap-3">
+                                  <Input
+                                    type="number"
+                                    min={0}
+                                    max={100}
+                                    value={reportedProgress}
+                                    onChange={(e) => {
+                                      const v = parseInt(e.target.value || '0');
+                                      setReportedProgress(isNaN(v) ? 0 : Math.max(0, Math.min(100, v)));
+                                    }}
+                                    data-testid={`input-progress-${service.id}`}
+                                  />
+                                  <span className="text-sm text-muted-foreground">%</span>
+                                </div>
+                                <Progress value={reportedProgress} className="h-2" />
+                              </div>
+                              <DialogFooter>
+                                <Button
+                                  onClick={() => progressMutation.mutate({ id: service.id, progress: reportedProgress })}
+                                  disabled={progressMutation.isPending}
+                                  data-testid={`button-save-progress-${service.id}`}
+                                >
+                                  Save
+                                </Button>
+                              </DialogFooter>
+                            </DialogContent>
+                          </Dialog>
+                          <ServiceControls service={service} />
                         </div>
                       </TableCell>
                     </motion.tr>
+                    {expanded === service.id && (
+                      <TableRow data-testid={`row-checklist-${service.id}`}>
+                        <TableCell colSpan={10} className="bg-muted/40">
+                          <div className="space-y-2">
+                            <div className="text-sm font-medium text-muted-foreground">Task Checklist</div>
+                            {service.taskChecklist.map((task) => {
+                              const parts = (expandedParts || []).filter((p) => p.taskName === task.name && p.status !== 'Released');
+                              const awaitingParts = parts.some((p) => p.status === 'Awaiting Stock');
+                              return (
+                              <div key={task.name} className="flex flex-wrap items-center gap-3 text-sm" data-testid={`row-task-${service.id}-${task.name}`}>
+                                <div className="min-w-[200px] font-medium">{task.name}</div>
+                                <Badge variant="outline" className={getTaskStatusColor(task.status)}>{task.status}</Badge>
+                                {parts.map((p) => (
+                                  <Badge key={p.id} variant="outline" className={`text-xs ${getReservationColor(p.status)}`} data-testid={`badge-part-${service.id}-${p.id}`}>
+                                    {p.partName} ×{p.quantity} · {p.status}
+                                  </Badge>
+                                ))}
+                                <div className="text-muted-foreground min-w-[140px]">{workerName(task.workerId)}</div>
+                                <div className="text-muted-foreground min-w-[160px]">
+                                  {task.actualMinutes !== null
+                                    ? `${task.actualMinutes} min (book ${Math.round(task.baseTimeHours * 60)} min)`
+                                    : task.startedAt
+                                      ? `Started ${new Date(task.startedAt).toLocaleTimeString()}`
+                                      : `Book ${Math.round(task.baseTimeHours * 60)} min`}
+                                </div>
+                                <div className="flex gap-1 ml-auto">
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={() => taskMutation.mutate({ id: service.id, taskName: task.name, action: 'start' })}
+                                    disabled={taskMutation.isPending || service.status === 'Queued' || isOnHold(service) || task.status !== 'Pending' || awaitingParts}
+                                  >
+                                    <Play className="h-4 w-4 mr-1" />
+                                    Start
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={() => taskMutation.mutate({ id: service.id, taskName: task.name, action: 'complete' })}
+                                    disabled={taskMutation.isPending || service.status === 'Queued' || isOnHold(service) || task.status === 'Done' || task.status === 'Skipped' || awaitingParts}
+                                  >
+                                    <CheckCircle2 className="h-4 w-4 mr-1" />
+                                    Done
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={() => taskMutation.mutate({ id: service.id, taskName: task.name, action: 'skip' })}
+                                    disabled={taskMutation.isPending || service.status === 'Queued' || isOnHold(service) || task.status === 'Done' || task.status === 'Skipped'}
+                                  >
+                                    <SkipForward className="h-4 w-4 mr-1" />
+                                    Skip
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={() => taskMutation.mutate({ id: service.id, taskName: task.name, action: 'reset' })}
+                                    disabled={taskMutation.isPending || service.status === 'Queued' || isOnHold(service) || task.status === 'Pending'}
+                                  >
+                                    <RotateCcw className="h-4 w-4" />
+                                  </Button>
+                                </div>
+                              </div>
+                              );
+                            })}
+                            {service.taskChecklist.length === 0 && (
+                              <div className="text-sm text-muted-foreground">No tasks recorded for this service.</div>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    </Fragment>
                   ))}
                   </AnimatePresence>
                 </TableBody>
@@ -391,14 +586,18 @@ export default function ActiveServices() {
                     <TableHead>Service Type</TableHead>
                     <TableHead>Hours</TableHead>
                     <TableHead>Amount</TableHead>
+                    <TableHead>Payment</TableHead>
                     <TableHead>Completed</TableHead>
                     <TableHead>Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {completed.map((rec) => (
-                    <TableRow key={rec.id} data-testid={`row-completed-${rec.id}`}>
-                      <TableCell className="font-mono text-sm">{rec.id}</TableCell>
+                    <TableRow key={rec.id} id={`service-${rec.id}`} className={linkedService === rec.id ? 'bg-primary/10' : undefined} data-testid={`row-completed-${rec.id}`}>
+                      <TableCell className="font-mono text-sm">
+                        {rec.id}
+                        <div className="text-xs text-muted-foreground" data-testid={`text-invoice-number-${rec.id}`}>{formatInvoiceNumber(rec)}</div>
+                      </TableCell>
                       <TableCell>
                         <div>
                           <div className="font-medium">{rec.carModel}</div>
@@ -407,17 +606,44 @@ export default function ActiveServices() {
                       </TableCell>
                       <TableCell>{rec.serviceType}</TableCell>
                       <TableCell>{rec.predictedHours.toFixed(2)}h</TableCell>
-                      <TableCell className="text-[#1A73E8]">{rec.currency === 'INR' ? '₹' : (rec.currency || '$')}{rec.amount.toFixed(2)}</TableCell>
+                      <TableCell className="text-[#1A73E8]">{rec.currency === 'INR' ? '₹' : (rec.currency || '$')}{rec.total.toFixed(2)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={paymentStatusColors[paymentStatus(rec)]} data-testid={`badge-payment-${rec.id}`}>
+                          {paymentStatus(rec)}
+                        </Badge>
+                        {balanceDue(rec) !== 0 && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {balanceDue(rec) > 0 ? `Due ₹${balanceDue(rec).toFixed(2)}` : `Credit ₹${(-balanceDue(rec)).toFixed(2)}`}
+                          </div>
+                        )}
+                      </TableCell>
                       <TableCell>{new Date(rec.completedAt).toLocaleString()}</TableCell>
                       <TableCell>
                         <div className="flex gap-2">
-                          <Button size="sm" variant="outline" onClick={() => downloadReceipt(rec)} data-testid={`button-download-receipt-${rec.id}`}>
-                            <FileText className="h-4 w-4 mr-1" />
-                            Download Receipt
+                          <Button size="sm" variant="outline" asChild data-testid={`button-download-receipt-${rec.id}`}>
+                            <a href={`/api/completed-services/${encodeURIComponent(rec.id)}/invoice.pdf`} target="_blank" rel="noreferrer">
+                              <FileText className="h-4 w-4 mr-1" />
+                              Invoice PDF
+                            </a>
                           </Button>
                           <Dialog>
                             <DialogTrigger asChild>
-                              <Button size="sm" variant="secondary" onClick={() => { setEditing(rec); setEditItems(rec.items.map(i => ({ description: i.description, quantity: i.quantity, unitPrice: i.unitPrice }))); }}>Edit Invoice</Button>
+                              <Button size="sm" variant="outline" data-testid={`button-payments-${rec.id}`}>
+                                <Wallet className="h-4 w-4 mr-1" />
+                                Payments
+                              </Button>
+                            </DialogTrigger>
+                            <DialogContent className="max-w-lg">
+                              <PaymentsPanel record={rec} />
+                            </DialogContent>
+                          </Dialog>
+                          <Dialog>
+                            <DialogTrigger asChild>
+                              <Button size="sm" variant="secondary" onClick={() => {
+                                setEditing(rec);
+                                setEditItems(rec.items.map(({ amount: _amount, ...item }) => item));
+                                setEditDiscount(rec.discount);
+                              }}>Edit Invoice</Button>
                             </DialogTrigger>
                             <DialogContent>
                               <DialogHeader>
@@ -439,12 +665,32 @@ export default function ActiveServices() {
                                   </div>
                                 ))}
                                 <div className="flex gap-2">
-                                  <Button variant="outline" onClick={() => setEditItems([...editItems, { description: 'New Item', quantity: 1, unitPrice: 0 }])}>Add Item</Button>
-                                  <div className="ml-auto font-medium">Total: ₹{editItems.reduce((sum, i) => sum + i.quantity * i.unitPrice, 0).toFixed(2)}</div>
+                                  <Button variant="outline" onClick={() => setEditItems([...editItems, { kind: 'Other', description: 'New Item', quantity: 1, unitPrice: 0, warrantyCovered: false }])}>Add Item</Button>
                                 </div>
+                                <div className="flex items-center gap-2">
+                                  <span className="text-sm text-muted-foreground">Discount ₹</span>
+                                  <Input className="w-32" type="number" value={editDiscount} onChange={(e) => {
+                                    const v = parseFloat(e.target.value || '0'); setEditDiscount(isNaN(v) ? 0 : v);
+                                  }} />
+                                </div>
+                                {(() => {
+                                  const totals = invoiceTotals(
+                                    editItems.map(i => (i.warrantyCovered ? 0 : i.quantity * i.unitPrice)),
+                                    editDiscount,
+                                    rec.taxLines,
+                                  );
+                                  return (
+                                    <div className="text-sm space-y-1 text-right">
+                                      <div>Subtotal: ₹{totals.subtotal.toFixed(2)}</div>
+                                      {totals.discount > 0 && <div>Discount: -₹{totals.discount.toFixed(2)}</div>}
+                                      {totals.taxLines.map(t => <div key={t.name}>{t.name} ({t.ratePercent}%): ₹{t.amount.toFixed(2)}</div>)}
+                                      <div className="font-medium">Total: ₹{totals.total.toFixed(2)}</div>
+                                    </div>
+                                  );
+                                })()}
                               </div>
                               <DialogFooter>
-                                <Button onClick={() => updateInvoiceMutation.mutate({ id: rec.id, items: editItems, currency: 'INR' })} disabled={updateInvoiceMutation.isPending}>Save</Button>
+                                <Button onClick={() => updateInvoiceMutation.mutate({ id: rec.id, items: editItems, discount: editDiscount, currency: 'INR' })} disabled={updateInvoiceMutation.isPending}>Save</Button>
                               </DialogFooter>
                             </DialogContent>
                           </Dialog>
@@ -460,10 +706,323 @@ export default function ActiveServices() {
           )}
         </CardContent>
       </Card>
+
+      {cancelled && cancelled.length > 0 && (
+        <Card className="rounded-2xl border bg-card shadow">
+          <CardHeader>
+            <CardTitle>Cancelled Services</CardTitle>
+            <CardDescription>Jobs called off before completion; nothing was billed</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Service ID</TableHead>
+                    <TableHead>Vehicle</TableHead>
+                    <TableHead>Service Type</TableHead>
+                    <TableHead>Stage</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Cancelled</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {cancelled.map((rec) => (
+                    <TableRow key={rec.id} id={`service-${rec.id}`} className={linkedService === rec.id ? 'bg-primary/10' : undefined} data-testid={`row-cancelled-${rec.id}`}>
+                      <TableCell className="font-mono text-sm">{rec.id}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{rec.carModel}</div>
+                        <div className="text-sm text-muted-foreground">{rec.carNumber}</div>
+                      </TableCell>
+                      <TableCell>{rec.serviceType}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={getStatusColor(rec.statusAtCancellation)}>{rec.statusAtCancellation}</Badge>
+                        <div className="text-xs text-muted-foreground mt-1">{rec.progress}% done</div>
+                      </TableCell>
+                      <TableCell className="max-w-[280px]">{rec.reason}</TableCell>
+                      <TableCell>
+                        {new Date(rec.cancelledAt).toLocaleString()}
+                        {rec.cancelledBy && <div className="text-xs text-muted-foreground">by {rec.cancelledBy}</div>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
 
+// Hold, resume and cancel actions of an active service
+function ServiceControls({ service }: { service: ActiveService }) {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const [holdStatus, setHoldStatus] = useState<HoldStatus>(holdStatuses[0]);
+  const [reason, setReason] = useState('');
+  const [cancelOpen, setCancelOpen] = useState(false);
+
+  const onError = (error: Error) => {
+    toast({ title: 'Update Failed', description: error.message, variant: 'destructive' });
+  };
+
+  const holdMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<ActiveService>('POST', `/api/active-services/${service.id}/hold`, { status: holdStatus });
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/active-services'] });
+      toast({ title: 'Service On Hold', description: `${updated.id} is ${updated.status.toLowerCase()}.` });
+    },
+    onError,
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<ActiveService>('POST', `/api/active-services/${service.id}/resume`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/active-services'] });
+      toast({ title: 'Service Resumed', description: 'Estimated completion has been recalculated.' });
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<CancelledService>('POST', `/api/active-services/${service.id}/cancel`, { reason });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/active-services'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/cancelled-services'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/workers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+      setCancelOpen(false);
+      setReason('');
+      toast({ title: 'Service Cancelled', description: 'Workers, bay and reserved parts have been released.' });
+    },
+    onError,
+  });
+
+  return (
+    <>
+      {isOnHold(service) ? (
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => resumeMutation.mutate()}
+          disabled={resumeMutation.isPending}
+          title="Resume"
+          data-testid={`button-resume-${service.id}`}
+        >
+          <Play className="h-4 w-4" />
+        </Button>
+      ) : (
+        <Dialog>
+          <DialogTrigger asChild>
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={service.status !== 'In Progress'}
+              title="Put on hold"
+              data-testid={`button-hold-${service.id}`}
+            >
+              <Pause className="h-4 w-4" />
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Put {service.id} On Hold</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-3">
+              <div className="text-sm text-muted-foreground">
+                The job keeps its bay and crew. Progress and the ETA stop until it is resumed.
+              </div>
+              <Select value={holdStatus} onValueChange={(value) => setHoldStatus(value as HoldStatus)}>
+                <SelectTrigger data-testid={`select-hold-status-${service.id}`}><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {holdStatuses.map((status) => <SelectItem key={status} value={status}>{status}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <DialogFooter>
+              <Button onClick={() => holdMutation.mutate()} disabled={holdMutation.isPending} data-testid={`button-confirm-hold-${service.id}`}>
+                Put On Hold
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+      {hasRole('service_advisor') && (
+        <Dialog open={cancelOpen} onOpenChange={setCancelOpen}>
+          <DialogTrigger asChild>
+            <Button size="sm" variant="ghost" title="Cancel service" data-testid={`button-cancel-${service.id}`}>
+              <XCircle className="h-4 w-4 text-red-600" />
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Cancel {service.id}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-3">
+              <div className="text-sm text-muted-foreground">
+                Nothing is billed. Workers, the bay and reserved parts are released and the next queued job can start.
+              </div>
+              <Input
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason (e.g. customer withdrew)"
+                data-testid={`input-cancel-reason-${service.id}`}
+              />
+            </div>
+            <DialogFooter>
+              <Button
+                variant="destructive"
+                onClick={() => cancelMutation.mutate()}
+                disabled={cancelMutation.isPending || reason.trim() === ''}
+                data-testid={`button-confirm-cancel-${service.id}`}
+              >
+                Cancel Service
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+    </>
+  );
+}
+
+const paymentStatusColors: Record<PaymentStatus, string> = {
+  Unpaid: 'bg-red-100 text-red-800 border-red-200',
+  'Partially Paid': 'bg-amber-100 text-amber-800 border-amber-200',
+  Paid: 'bg-green-100 text-green-800 border-green-200',
+};
+
+type PaymentSplit = { method: PaymentMethod; amount: number; reference: string };
+
+function PaymentsPanel({ record }: { record: CompletedService }) {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const due = Math.max(0, balanceDue(record));
+  const [kind, setKind] = useState<PaymentKind>('Payment');
+  const [splits, setSplits] = useState<PaymentSplit[]>([{ method: 'Cash', amount: due, reference: '' }]);
+  const [note, setNote] = useState('');
+
+  const { data: payments, isLoading } = useQuery<Payment[]>({
+    queryKey: ['/api/completed-services', record.id, 'payments'],
+  });
+
+  const entered = splits.reduce((sum, split) => sum + (split.amount || 0), 0);
+  const updateSplit = (idx: number, changes: Partial<PaymentSplit>) =>
+    setSplits(splits.map((split, i) => (i === idx ? { ...split, ...changes } : split)));
+
+  const paymentMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<{ record: CompletedService; payments: Payment[] }>('POST', `/api/completed-services/${record.id}/payments`, {
+        kind,
+        splits: splits.map((split) => ({ ...split, reference: split.reference || undefined })),
+        note: note || undefined,
+      });
+    },
+    onSuccess: ({ record: updated }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/completed-services'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/receivables'] });
+      setKind('Payment');
+      setSplits([{ method: 'Cash', amount: Math.max(0, balanceDue(updated)), reference: '' }]);
+      setNote('');
+      toast({
+        title: kind === 'Refund' ? 'Refund Recorded' : 'Payment Recorded',
+        description: `${formatInvoiceNumber(updated)} is ${paymentStatus(updated).toLowerCase()}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Payment Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Payments · {formatInvoiceNumber(record)}</DialogTitle>
+      </DialogHeader>
+      <div className="grid grid-cols-3 gap-2 text-sm">
+        <div><div className="text-xs text-muted-foreground">Total</div>₹{record.total.toFixed(2)}</div>
+        <div><div className="text-xs text-muted-foreground">Paid</div>₹{record.amountPaid.toFixed(2)}</div>
+        <div><div className="text-xs text-muted-foreground">Balance</div><span className="font-medium">₹{balanceDue(record).toFixed(2)}</span></div>
+      </div>
+
+      <div className="space-y-2">
+        {hasRole('admin') && (
+          <Select value={kind} onValueChange={(value) => setKind(value as PaymentKind)}>
+            <SelectTrigger data-testid="select-payment-kind"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="Payment">Payment</SelectItem>
+              <SelectItem value="Refund">Refund</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+        {splits.map((split, idx) => (
+          <div key={idx} className="grid grid-cols-[110px_1fr_1fr_auto] gap-2 items-center">
+            <Select value={split.method} onValueChange={(value) => updateSplit(idx, { method: value as PaymentMethod })}>
+              <SelectTrigger data-testid={`select-payment-method-${idx}`}><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {paymentMethods.map((m) => <SelectItem key={m} value={m}>{m}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Input type="number" value={split.amount} onChange={(e) => {
+              const v = parseFloat(e.target.value || '0'); updateSplit(idx, { amount: isNaN(v) ? 0 : v });
+            }} placeholder="Amount" data-testid={`input-payment-amount-${idx}`} />
+            <Input value={split.reference} onChange={(e) => updateSplit(idx, { reference: e.target.value })} placeholder={split.method === 'Cash' ? 'Reference' : 'Slip / UPI ref'} />
+            <Button variant="ghost" size="sm" onClick={() => setSplits(splits.filter((_, i) => i !== idx))} disabled={splits.length === 1}>Remove</Button>
+          </div>
+        ))}
+        <div className="flex items-center justify-between gap-2">
+          <Button variant="outline" size="sm" onClick={() => setSplits([...splits, { method: 'Card', amount: Math.max(0, due - entered), reference: '' }])}>
+            Split Payment
+          </Button>
+          <span className="text-sm text-muted-foreground">Entered ₹{entered.toFixed(2)}</span>
+        </div>
+        <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Note (optional)" />
+      </div>
+      <DialogFooter>
+        <Button
+          onClick={() => paymentMutation.mutate()}
+          disabled={paymentMutation.isPending || entered <= 0}
+          data-testid="button-record-payment"
+        >
+          {kind === 'Refund' ? 'Record Refund' : 'Record Payment'}
+        </Button>
+      </DialogFooter>
+
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-muted-foreground">History</div>
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : payments && payments.length > 0 ? (
+          payments.map((p) => (
+            <div key={p.id} className="flex items-start justify-between gap-3 border-b pb-2 text-sm" data-testid={`row-payment-${p.id}`}>
+              <div>
+                <div className="font-medium">{p.kind} · {p.method}{p.reference && <span className="text-muted-foreground"> · {p.reference}</span>}</div>
+                <div className="text-xs text-muted-foreground">
+                  {new Date(p.receivedAt).toLocaleString()} · {p.recordedBy ?? 'system'}
+                </div>
+                {p.note && <div className="text-xs text-muted-foreground">{p.note}</div>}
+              </div>
+              <div className={`font-mono font-semibold ${p.kind === 'Refund' ? 'text-red-700' : 'text-green-700'}`}>
+                {p.kind === 'Refund' ? '-' : '+'}₹{p.amount.toFixed(2)}
+              </div>
+            </div>
+          ))
+        ) : (
+          <div className="text-sm text-muted-foreground">No payments recorded.</div>
+        )}
+      </div>
+    </>
+  );
+}
+
 const Wrench = ({ className }: { className?: string }) => (
   <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.121 14.121L19 19m-7-7l7-7m-7 7l-2.879 2.879M12 12L9.121 9.121m0 5.758a3 3 0 10-4.243 4.243 3 3 0 004.243-4.243zm0-5.758a3 3 0 10-4.243-4.243 3 3 0 004.243 4.243z" />
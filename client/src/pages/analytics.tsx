@@ -1,16 +1,63 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
-import { TrendingUp, Clock, Users, DollarSign } from "lucide-react";
-import type { Analytics } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { TrendingUp, Clock, Users, IndianRupee, Receipt, Gauge } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { Analytics, AnalyticsGrouping } from "@shared/schema";
+import { format, subDays } from "date-fns";
+
+const groupingLabels: Record<AnalyticsGrouping, string> = {
+  day: "By day",
+  week: "By week",
+  month: "By month",
+  serviceType: "By service type",
+  carModel: "By car model",
+};
+
+const revenueChartConfig = {
+  labour: { label: "Labour", color: "hsl(var(--chart-1))" },
+  parts: { label: "Parts", color: "hsl(var(--chart-2))" },
+  other: { label: "Other", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig;
+
+const volumeChartConfig = {
+  services: { label: "Services", color: "hsl(var(--chart-4))" },
+  averageTicket: { label: "Average ticket", color: "hsl(var(--chart-5))" },
+} satisfies ChartConfig;
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
 
 export default function AnalyticsPage() {
+  const [from, setFrom] = useState(() => format(subDays(new Date(), 29), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [groupBy, setGroupBy] = useState<AnalyticsGrouping>('day');
+
   const { data: analytics, isLoading } = useQuery<Analytics>({
-    queryKey: ['/api/analytics'],
-    refetchInterval: 10000,
+    queryKey: ['/api/analytics', from, to, groupBy],
+    queryFn: () => apiRequest<Analytics>('GET', `/api/analytics?from=${from}&to=${to}&groupBy=${groupBy}`),
+    enabled: !!from && !!to && from <= to,
   });
 
+  const lineTotal = analytics ? analytics.labourRevenue + analytics.partsRevenue + analytics.otherRevenue : 0;
+  const share = (amount: number) => (lineTotal > 0 ? (amount / lineTotal) * 100 : 0);
+
   const metricCards = [
+    {
+      title: "Revenue",
+      value: analytics?.totalRevenue || 0,
+      icon: IndianRupee,
+      color: "text-emerald-600",
+      bgColor: "bg-emerald-50",
+      prefix: "₹",
+      suffix: "",
+      decimals: 2,
+      description: "Invoiced, after discounts and tax",
+    },
     {
       title: "Completed Services",
       value: analytics?.completedServices || 0,
@@ -18,6 +65,18 @@ export default function AnalyticsPage() {
       color: "text-green-600",
       bgColor: "bg-green-50",
       suffix: "",
+      description: "Services completed in the selected range",
+    },
+    {
+      title: "Average Ticket",
+      value: analytics?.averageTicket || 0,
+      icon: Receipt,
+      color: "text-sky-600",
+      bgColor: "bg-sky-50",
+      prefix: "₹",
+      suffix: "",
+      decimals: 2,
+      description: "Revenue per completed service",
     },
     {
       title: "Avg Service Time",
@@ -27,6 +86,7 @@ export default function AnalyticsPage() {
       bgColor: "bg-blue-50",
       suffix: " hrs",
       decimals: 2,
+      description: "Average predicted time per service",
     },
     {
       title: "Worker Utilization",
@@ -36,31 +96,53 @@ export default function AnalyticsPage() {
       bgColor: "bg-purple-50",
       suffix: "%",
       decimals: 1,
+      description: "Current average worker capacity usage",
     },
     {
       title: "Machine Utilization",
       value: analytics?.machineUtilization || 0,
-      icon: DollarSign,
+      icon: Gauge,
       color: "text-amber-600",
       bgColor: "bg-amber-50",
       suffix: "%",
       decimals: 1,
+      description: "Current average machine capacity usage",
     },
   ];
 
   return (
     <div className="space-y-6 p-6">
-      <div>
-        <h1 className="text-2xl font-semibold tracking-tight" data-testid="text-page-title">Analytics & Performance</h1>
-        <p className="text-sm text-muted-foreground mt-1">
-          Workshop performance metrics and insights
-        </p>
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight" data-testid="text-page-title">Analytics & Performance</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Workshop performance metrics and insights
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <div>
+            <div className="text-xs text-muted-foreground mb-1">From</div>
+            <Input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} data-testid="input-analytics-from" />
+          </div>
+          <div>
+            <div className="text-xs text-muted-foreground mb-1">To</div>
+            <Input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} data-testid="input-analytics-to" />
+          </div>
+          <Select value={groupBy} onValueChange={(value) => setGroupBy(value as AnalyticsGrouping)}>
+            <SelectTrigger className="w-44" data-testid="select-analytics-grouping"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {Object.entries(groupingLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {isLoading ? (
           <>
-            {[1, 2, 3, 4].map((i) => (
+            {[1, 2, 3, 4, 5, 6].map((i) => (
               <Card key={i}>
                 <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
                   <Skeleton className="h-4 w-32" />
@@ -86,16 +168,14 @@ export default function AnalyticsPage() {
               </CardHeader>
               <CardContent>
                 <div className="text-3xl font-semibold" data-testid={`text-metric-value-${index}`}>
+                  {metric.prefix}
                   {metric.decimals !== undefined 
                     ? metric.value.toFixed(metric.decimals)
                     : metric.value}
                   {metric.suffix}
                 </div>
                 <p className="text-xs text-muted-foreground mt-2">
-                  {index === 0 && "Total services completed today"}
-                  {index === 1 && "Average time per service"}
-                  {index === 2 && "Average worker capacity usage"}
-                  {index === 3 && "Average machine capacity usage"}
+                  {metric.description}
                 </p>
               </CardContent>
             </Card>
@@ -103,6 +183,58 @@ export default function AnalyticsPage() {
         )}
       </div>
 
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Revenue {groupingLabels[groupBy].toLowerCase()}</CardTitle>
+            <CardDescription>Labour, parts and other charges before discounts and tax</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-64 w-full" />
+            ) : (
+              <ChartContainer config={revenueChartConfig} className="h-64 w-full" data-testid="chart-revenue">
+                <BarChart data={analytics?.groups ?? []}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+                  <YAxis tickLine={false} axisLine={false} width={64} tickFormatter={(v: number) => formatAmount(v)} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="labour" stackId="revenue" fill="var(--color-labour)" />
+                  <Bar dataKey="parts" stackId="revenue" fill="var(--color-parts)" />
+                  <Bar dataKey="other" stackId="revenue" fill="var(--color-other)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Services and average ticket</CardTitle>
+            <CardDescription>Completed services and revenue per service {groupingLabels[groupBy].toLowerCase()}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-64 w-full" />
+            ) : (
+              <ChartContainer config={volumeChartConfig} className="h-64 w-full" data-testid="chart-services">
+                <ComposedChart data={analytics?.groups ?? []}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+                  <YAxis yAxisId="services" tickLine={false} axisLine={false} allowDecimals={false} width={32} />
+                  <YAxis yAxisId="ticket" orientation="right" tickLine={false} axisLine={false} width={64} tickFormatter={(v: number) => formatAmount(v)} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar yAxisId="services" dataKey="services" fill="var(--color-services)" radius={[4, 4, 0, 0]} />
+                  <Line yAxisId="ticket" dataKey="averageTicket" stroke="var(--color-averageTicket)" strokeWidth={2} dot={false} />
+                </ComposedChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card>
           <CardHeader>
@@ -131,12 +263,12 @@ export default function AnalyticsPage() {
                 </div>
 
                 <div className="p-4 rounded-md bg-muted">
-                  <div className="text-sm text-muted-foreground mb-1">Service Throughput</div>
-                  <div className="text-2xl font-semibold" data-testid="text-throughput">
-                    {analytics?.completedServices || 0}
+                  <div className="text-sm text-muted-foreground mb-1">Revenue Mix</div>
+                  <div className="text-2xl font-semibold" data-testid="text-revenue-mix">
+                    {share(analytics?.labourRevenue ?? 0).toFixed(0)}% labour · {share(analytics?.partsRevenue ?? 0).toFixed(0)}% parts
                   </div>
                   <div className="text-xs text-muted-foreground mt-1">
-                    Total completed services
+                    {formatAmount(analytics?.labourRevenue ?? 0)} labour, {formatAmount(analytics?.partsRevenue ?? 0)} parts, {formatAmount(analytics?.otherRevenue ?? 0)} other before discounts and tax
                   </div>
                 </div>
 
@@ -0,0 +1,410 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format, isSameDay, startOfDay, startOfMonth, endOfMonth, addDays } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Calendar } from "@/components/ui/calendar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CalendarDays, Clock, LogIn, X, Search } from "lucide-react";
+import { motion } from "framer-motion";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  normalizeCarNumber,
+  type Appointment,
+  type AppointmentSlot,
+  type ServiceRequest,
+  type ServiceTask,
+  type VehicleHistory,
+} from "@shared/schema";
+
+interface SuggestResult {
+  predictedHours: number;
+  modelVersion: string;
+  primarySkill: string;
+  slots: AppointmentSlot[];
+}
+
+const carModels = ["XC40", "XC60", "XC90", "S60", "S90", "V60", "V90"] as const;
+const fuelTypes = ["Petrol", "Diesel", "Hybrid", "Electric"] as const;
+const serviceTypes = ["Regular Service", "Major Service", "Repair", "Diagnostic"] as const;
+
+export default function AppointmentsPage() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canBook = hasRole("service_advisor");
+
+  const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const [month, setMonth] = useState<Date>(new Date());
+  const rangeFrom = startOfMonth(month);
+  const rangeTo = addDays(endOfMonth(month), 1);
+
+  const { data: appointments, isLoading } = useQuery<Appointment[]>({
+    queryKey: ['/api/appointments', rangeFrom.toISOString()],
+    queryFn: () => apiRequest<Appointment[]>('GET', `/api/appointments?from=${encodeURIComponent(rangeFrom.toISOString())}&to=${encodeURIComponent(rangeTo.toISOString())}`),
+  });
+
+  const { data: tasks } = useQuery<ServiceTask[]>({
+    queryKey: ['/api/service-tasks'],
+  });
+
+  // Booking form state
+  const [carNumber, setCarNumber] = useState("");
+  const [carModel, setCarModel] = useState<ServiceRequest['carModel']>("XC60");
+  const [manufactureYear, setManufactureYear] = useState<number>(new Date().getFullYear());
+  const [fuelType, setFuelType] = useState<ServiceRequest['fuelType']>("Petrol");
+  const [totalKilometers, setTotalKilometers] = useState<number>(0);
+  const [serviceType, setServiceType] = useState<ServiceRequest['serviceType']>("Regular Service");
+  const [selectedTasks, setSelectedTasks] = useState<string[]>([]);
+  const [customerName, setCustomerName] = useState("");
+  const [customerPhone, setCustomerPhone] = useState("");
+  const [notes, setNotes] = useState("");
+  const [suggestion, setSuggestion] = useState<SuggestResult | null>(null);
+  const [lookupNumber, setLookupNumber] = useState("");
+
+  const { data: history } = useQuery<VehicleHistory>({
+    queryKey: ['/api/vehicles', lookupNumber, 'history'],
+    enabled: lookupNumber.length >= 4,
+  });
+
+  // Prefill from the registry once the lookup for the typed plate resolves
+  useEffect(() => {
+    if (!history) return;
+    if (history.vehicle) {
+      setCarModel(history.vehicle.carModel as ServiceRequest['carModel']);
+      setManufactureYear(history.vehicle.manufactureYear);
+      setFuelType(history.vehicle.fuelType as ServiceRequest['fuelType']);
+      setTotalKilometers(km => km || history.vehicle!.lastKnownKilometers);
+    }
+    if (history.customer) {
+      setCustomerName(history.customer.name);
+      setCustomerPhone(history.customer.phone);
+    }
+  }, [history]);
+
+  const buildRequest = () => {
+    const last = history?.lastService ?? null;
+    const kmSinceLastService = last?.totalKilometers != null ? Math.max(0, totalKilometers - last.totalKilometers) : 0;
+    const daysSinceLastService = last
+      ? Math.max(0, Math.floor((Date.now() - new Date(last.completedAt).getTime()) / (1000 * 60 * 60 * 24)))
+      : 0;
+    return {
+      carNumber: carNumber.trim(),
+      carModel,
+      manufactureYear,
+      fuelType,
+      totalKilometers,
+      kmSinceLastService,
+      daysSinceLastService,
+      serviceType,
+      selectedTasks,
+      appointmentType: "Appointment",
+      ...(customerName.trim() ? { customerName: customerName.trim() } : {}),
+      ...(customerPhone.trim() ? { customerPhone: customerPhone.trim() } : {}),
+    };
+  };
+
+  const suggestMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<SuggestResult>('POST', '/api/appointments/suggest', {
+        request: buildRequest(),
+        from: selectedDate > new Date() ? startOfDay(selectedDate).toISOString() : undefined,
+      });
+    },
+    onSuccess: (data) => setSuggestion(data),
+    onError: (error: Error) => {
+      toast({ title: 'No Suggestions', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const bookMutation = useMutation({
+    mutationFn: async (slot: AppointmentSlot) => {
+      return await apiRequest<Appointment>('POST', '/api/appointments', {
+        request: buildRequest(),
+        scheduledStart: slot.start,
+        notes,
+      });
+    },
+    onSuccess: (appointment) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+      setSuggestion(null);
+      setSelectedTasks([]);
+      setNotes("");
+      setSelectedDate(new Date(appointment.scheduledStart));
+      setMonth(new Date(appointment.scheduledStart));
+      toast({ title: 'Appointment Booked', description: `${appointment.carNumber} on ${format(new Date(appointment.scheduledStart), 'PPp')}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Booking Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest<{ serviceId: string }>('POST', `/api/appointments/${id}/check-in`);
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/active-services'] });
+      toast({ title: 'Checked In', description: `Service ID: ${data.serviceId}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Check-in Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest('POST', `/api/appointments/${id}/cancel`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/appointments'] });
+      toast({ title: 'Appointment Cancelled' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Cancel Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const bookedDays = useMemo(
+    () => (appointments || []).filter(a => a.status === 'Booked').map(a => new Date(a.scheduledStart)),
+    [appointments],
+  );
+  const dayAppointments = (appointments || []).filter(a => isSameDay(new Date(a.scheduledStart), selectedDate));
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'Booked':
+        return 'bg-blue-100 text-blue-800 border-blue-200';
+      case 'Checked In':
+        return 'bg-green-100 text-green-800 border-green-200';
+      case 'Cancelled':
+        return 'bg-gray-100 text-gray-800 border-gray-200';
+      default:
+        return 'bg-gray-100 text-gray-800 border-gray-200';
+    }
+  };
+
+  const toggleTask = (name: string, checked: boolean) => {
+    setSuggestion(null);
+    setSelectedTasks(prev => checked ? [...prev, name] : prev.filter(t => t !== name));
+  };
+
+  return (
+    <div className="space-y-6 p-6 bg-background min-h-[calc(100vh-64px)]">
+      <div>
+        <h1 className="text-2xl font-semibold tracking-tight text-white" data-testid="text-page-title">Appointments</h1>
+        <p className="text-sm text-[#b7c0cc] mt-1">
+          Book future visits into slots with free bays and technicians
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="rounded-2xl border bg-card shadow">
+          <CardHeader>
+            <CardTitle>Calendar</CardTitle>
+            <CardDescription>Highlighted days have bookings</CardDescription>
+          </CardHeader>
+          <CardContent className="flex justify-center">
+            <Calendar
+              mode="single"
+              selected={selectedDate}
+              onSelect={(d) => d && setSelectedDate(d)}
+              month={month}
+              onMonthChange={setMonth}
+              modifiers={{ booked: bookedDays }}
+              modifiersClassNames={{ booked: "font-bold text-blue-500 underline" }}
+              data-testid="calendar-appointments"
+            />
+          </CardContent>
+        </Card>
+
+        <Card className="rounded-2xl border bg-card shadow lg:col-span-2">
+          <CardHeader>
+            <CardTitle>{format(selectedDate, 'EEEE, d MMMM yyyy')}</CardTitle>
+            <CardDescription>{dayAppointments.length} appointment{dayAppointments.length === 1 ? '' : 's'}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {isLoading ? (
+              <Skeleton className="h-16 w-full" />
+            ) : dayAppointments.length === 0 ? (
+              <div className="text-sm text-muted-foreground">No appointments on this day.</div>
+            ) : (
+              dayAppointments.map((a) => (
+                <motion.div
+                  key={a.id}
+                  initial={{ opacity: 0, y: 4 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="flex items-center justify-between rounded-lg border p-3"
+                  data-testid={`row-appointment-${a.id}`}
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Clock className="h-4 w-4 text-muted-foreground" />
+                      <span className="font-medium">
+                        {format(new Date(a.scheduledStart), 'HH:mm')} – {format(new Date(a.scheduledEnd), isSameDay(new Date(a.scheduledStart), new Date(a.scheduledEnd)) ? 'HH:mm' : 'd MMM HH:mm')}
+                      </span>
+                      <span className="font-mono">{a.carNumber}</span>
+                      <span className="text-muted-foreground">{a.carModel}</span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {a.selectedTasks.join(', ')} · {a.predictedHours.toFixed(1)}h · {a.primarySkill}
+                      {a.serviceId ? ` · ${a.serviceId}` : ''}
+                    </div>
+                    {a.notes && <div className="text-xs text-muted-foreground italic">{a.notes}</div>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className={getStatusColor(a.status)}>{a.status}</Badge>
+                    {canBook && a.status === 'Booked' && (
+                      <>
+                        <Button
+                          size="sm"
+                          onClick={() => checkInMutation.mutate(a.id)}
+                          disabled={checkInMutation.isPending}
+                          data-testid={`button-check-in-${a.id}`}
+                        >
+                          <LogIn className="h-4 w-4 mr-1" />
+                          Check In
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => cancelMutation.mutate(a.id)}
+                          disabled={cancelMutation.isPending}
+                          data-testid={`button-cancel-${a.id}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </motion.div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {canBook && (
+        <Card className="rounded-2xl border bg-card shadow">
+          <CardHeader>
+            <CardTitle>Book Appointment</CardTitle>
+            <CardDescription>Known vehicles are filled in from the registry when you leave the car number field</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Car Number</div>
+                <Input value={carNumber} onChange={(e) => { setCarNumber(e.target.value); setSuggestion(null); }} onBlur={() => setLookupNumber(normalizeCarNumber(carNumber))} data-testid="input-appointment-car-number" />
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Car Model</div>
+                <Select value={carModel} onValueChange={(v) => setCarModel(v as ServiceRequest['carModel'])}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {carModels.map(m => <SelectItem key={m} value={m}>{m}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Manufacture Year</div>
+                <Input type="number" value={manufactureYear} onChange={(e) => setManufactureYear(parseInt(e.target.value))} />
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Fuel Type</div>
+                <Select value={fuelType} onValueChange={(v) => setFuelType(v as ServiceRequest['fuelType'])}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {fuelTypes.map(f => <SelectItem key={f} value={f}>{f}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Total Kilometers</div>
+                <Input type="number" value={totalKilometers} onChange={(e) => setTotalKilometers(parseInt(e.target.value) || 0)} />
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Service Type</div>
+                <Select value={serviceType} onValueChange={(v) => setServiceType(v as ServiceRequest['serviceType'])}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {serviceTypes.map(t => <SelectItem key={t} value={t}>{t}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Owner Name</div>
+                <Input value={customerName} onChange={(e) => setCustomerName(e.target.value)} />
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Owner Phone</div>
+                <Input type="tel" value={customerPhone} onChange={(e) => setCustomerPhone(e.target.value)} />
+              </div>
+            </div>
+
+            <div>
+              <div className="text-xs text-muted-foreground mb-2">Tasks</div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {tasks?.map(task => (
+                  <label key={task.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={selectedTasks.includes(task.name)}
+                      onCheckedChange={(c) => toggleTask(task.name, !!c)}
+                    />
+                    {task.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="text-xs text-muted-foreground mb-1">Notes</div>
+              <Input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Optional" />
+            </div>
+
+            <Button
+              onClick={() => suggestMutation.mutate()}
+              disabled={!carNumber.trim() || selectedTasks.length === 0 || suggestMutation.isPending}
+              data-testid="button-find-slots"
+            >
+              <Search className="h-4 w-4 mr-1" />
+              {suggestMutation.isPending ? 'Searching...' : 'Find Slots'}
+            </Button>
+
+            {suggestion && (
+              <div className="space-y-2">
+                <div className="text-sm text-muted-foreground">
+                  Estimated {suggestion.predictedHours.toFixed(1)}h of {suggestion.primarySkill} work
+                </div>
+                {suggestion.slots.length === 0 ? (
+                  <div className="text-sm text-muted-foreground">No free slots in the next week.</div>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {suggestion.slots.map(slot => (
+                      <Button
+                        key={slot.start}
+                        variant="outline"
+                        onClick={() => bookMutation.mutate(slot)}
+                        disabled={bookMutation.isPending}
+                        data-testid={`button-slot-${slot.start}`}
+                      >
+                        <CalendarDays className="h-4 w-4 mr-1" />
+                        {format(new Date(slot.start), 'EEE d MMM, HH:mm')}
+                        <span className="ml-2 text-xs text-muted-foreground">{slot.freeBays} bays free</span>
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
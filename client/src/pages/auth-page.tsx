@@ -0,0 +1,66 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Wrench } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function AuthPage() {
+  const { loginMutation } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate({ username: username.trim(), password });
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background">
+      <Card className="w-full max-w-sm mx-4 rounded-2xl border bg-card shadow">
+        <CardHeader>
+          <div className="flex items-center gap-3 mb-2">
+            <div className="h-10 w-10 rounded-md bg-primary flex items-center justify-center">
+              <Wrench className="h-6 w-6 text-primary-foreground" />
+            </div>
+            <div>
+              <CardTitle>Car Service</CardTitle>
+              <CardDescription>Sign in with your staff account</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div>
+              <div className="text-xs text-muted-foreground mb-1">Username</div>
+              <Input
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="username"
+                data-testid="input-username"
+              />
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground mb-1">Password</div>
+              <Input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+                data-testid="input-password"
+              />
+            </div>
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={!username.trim() || !password || loginMutation.isPending}
+              data-testid="button-login"
+            >
+              {loginMutation.isPending ? 'Signing in...' : 'Sign In'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
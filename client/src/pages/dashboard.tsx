@@ -1,17 +1,40 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState, type DragEvent } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Users, Wrench, Clock, Package, Activity, CheckCircle2, Car } from "lucide-react";
+import { Users, Wrench, Clock, Package, Activity, CheckCircle2, Car, SlidersHorizontal } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import type { ActiveService, Worker } from "@shared/schema";
+import { canComplete, isOnHold, type ActiveService, type MachineBay, type ServiceAssignment, type Worker } from "@shared/schema";
 import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useBusinessCalendar } from "@/hooks/use-business-calendar";
+import { useAuth } from "@/hooks/use-auth";
+import { businessHoursBetween } from "@shared/business-calendar";
+import {
+  DEFAULT_QUEUE_WEIGHTS,
+  queuePolicies,
+  queuePolicyDescriptions,
+  type QueuePolicy,
+  type QueueWeights,
+} from "@shared/queue-policy";
+
+// What is being dragged on the jobs board: a technician (from the pool or
+// off a job) or a bay
+type DragItem =
+  | { kind: 'worker'; workerId: string; fromServiceId?: string }
+  | { kind: 'bay'; machineId: string };
+
+const DRAG_TYPE = 'application/x-workshop-assignment';
 
 interface DashboardStats {
   totalWorkers: number;
+  onShiftWorkers: number;
   activeJobs: number;
   availableWorkers: number;
   queueCount: number;
@@ -22,18 +45,31 @@ interface DashboardStats {
   lastUpdated: string;
 }
 
+// GET /api/queue/explanation: queued jobs in the order the policy serves them
+interface QueueExplanation {
+  policy: QueuePolicy;
+  entries: {
+    serviceId: string;
+    carNumber: string;
+    rank: number;
+    score: number | null;
+    explanation: string;
+    queueReason: string | null;
+    factors: { name: string; value: string; points?: number }[];
+  }[];
+}
+
 export default function Dashboard() {
   const { toast } = useToast();
+  const calendar = useBusinessCalendar();
   const { data: stats, isLoading } = useQuery<DashboardStats>({
     queryKey: ['/api/dashboard-stats'],
-    refetchInterval: 5000,
     staleTime: 10000,
     refetchOnWindowFocus: false,
   });
 
   const { data: services, isLoading: servicesLoading } = useQuery<ActiveService[]>({
     queryKey: ['/api/active-services'],
-    refetchInterval: 5000,
     staleTime: 10000,
     refetchOnWindowFocus: false,
   });
@@ -44,15 +80,113 @@ export default function Dashboard() {
     refetchOnWindowFocus: false,
   });
 
-  const { data: queuePolicy } = useQuery<{ policy: "FIFO" | "SJF" | "PRIORITY" }>({
+  const { data: queuePolicy } = useQuery<{ policy: QueuePolicy; weights: QueueWeights }>({
     queryKey: ['/api/queue-policy'],
     staleTime: 10000,
     refetchOnWindowFocus: false,
   });
 
+  const { data: queueExplanation } = useQuery<QueueExplanation>({
+    queryKey: ['/api/queue/explanation'],
+    staleTime: 30000,
+    refetchOnWindowFocus: false,
+  });
+  const queueRank = new Map(queueExplanation?.entries.map((e) => [e.serviceId, e]) ?? []);
+  const policy = queuePolicy?.policy || 'FIFO';
+
+  const { data: machines } = useQuery<MachineBay[]>({
+    queryKey: ['/api/machines'],
+    staleTime: 30000,
+    refetchOnWindowFocus: false,
+  });
+
+  const { hasRole } = useAuth();
+  const canReassign = hasRole('service_advisor');
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const assignMutation = useMutation({
+    mutationFn: async (payload: { id: string } & ServiceAssignment) => {
+      const { id, ...assignment } = payload;
+      return await apiRequest<ActiveService>('PUT', `/api/active-services/${id}/assignment`, assignment);
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/active-services'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/workers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/machines'] });
+      toast({ title: 'Job Reassigned', description: `${updated.id} is now in ${updated.assignedMachine}.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Reassignment Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const startDrag = (item: DragItem) => (e: DragEvent<HTMLElement>) => {
+    e.dataTransfer.setData(DRAG_TYPE, JSON.stringify(item));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const readDrag = (e: DragEvent<HTMLElement>): DragItem | null => {
+    try {
+      return JSON.parse(e.dataTransfer.getData(DRAG_TYPE)) as DragItem;
+    } catch {
+      return null;
+    }
+  };
+
+  // Drop zones highlight while something is dragged over them
+  const dropZone = (key: string, onDrop: (item: DragItem) => void) => ({
+    onDragOver: (e: DragEvent<HTMLElement>) => {
+      if (!canReassign || !e.dataTransfer.types.includes(DRAG_TYPE)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(key);
+    },
+    onDragLeave: () => setDropTarget((current) => (current === key ? null : current)),
+    onDrop: (e: DragEvent<HTMLElement>) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(null);
+      const item = readDrag(e);
+      if (item) onDrop(item);
+    },
+  });
+
+  // Dragging a worker off a job back to the pool takes them off it
+  const dropOnPool = (item: DragItem) => {
+    if (item.kind !== 'worker' || !item.fromServiceId) return;
+    const service = (services || []).find((s) => s.id === item.fromServiceId);
+    if (!service) return;
+    assignMutation.mutate({ id: service.id, workerIds: service.assignedWorkers.filter((id) => id !== item.workerId) });
+  };
+
+  // A technician dropped on a job joins its crew; dropped on one of its
+  // workers, they take that worker's place. Dragged from another job, they
+  // come off that job once the move is accepted.
+  const dropWorker = async (service: ActiveService, item: DragItem, replacing?: string) => {
+    if (item.kind !== 'worker' || (item.fromServiceId === service.id && !replacing)) return;
+    const crew = replacing
+      ? service.assignedWorkers.map((id) => (id === replacing ? item.workerId : id))
+      : [...service.assignedWorkers, item.workerId];
+    const workerIds = Array.from(new Set(crew));
+    if (workerIds.join() === service.assignedWorkers.join()) return;
+    try {
+      await assignMutation.mutateAsync({ id: service.id, workerIds });
+      if (item.fromServiceId && item.fromServiceId !== service.id) dropOnPool(item);
+    } catch {
+      // onError has already reported it
+    }
+  };
+
+  const dropBay = (service: ActiveService, item: DragItem) => {
+    if (item.kind !== 'bay') return;
+    assignMutation.mutate({ id: service.id, machineId: item.machineId });
+  };
+
+  const dropHighlight = (key: string) => (dropTarget === key ? 'ring-2 ring-[#1A73E8] rounded-md' : '');
+
   const updatePolicy = useMutation({
-    mutationFn: async (policy: "FIFO" | "SJF" | "PRIORITY") => {
-      return await apiRequest('PUT', '/api/queue-policy', { policy });
+    mutationFn: async (settings: { policy: QueuePolicy; weights?: QueueWeights }) => {
+      return await apiRequest('PUT', '/api/queue-policy', settings);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/queue-policy'] });
@@ -82,8 +216,8 @@ export default function Dashboard() {
   const calculateTimeRemaining = (estimatedCompletion: string | Date, progress: number) => {
     const now = new Date();
     const completion = new Date(estimatedCompletion as any);
-    const totalTime = completion.getTime() - now.getTime();
-    const remainingTime = (totalTime * (100 - progress)) / 100;
+    // estimatedCompletion is already adjusted for reported progress; count only open hours
+    const remainingTime = progress >= 100 ? 0 : businessHoursBetween(calendar, now, completion) * 60 * 60 * 1000;
     if (remainingTime <= 0) return 'Completing';
     const hours = Math.floor(remainingTime / (1000 * 60 * 60));
     const minutes = Math.floor((remainingTime % (1000 * 60 * 60)) / (1000 * 60));
@@ -100,8 +234,7 @@ export default function Dashboard() {
       const t = new Date(s.estimatedCompletion as any).getTime();
       return Math.min(min, t);
     }, Infinity);
-    const now = Date.now();
-    const diff = earliest - now;
+    const diff = businessHoursBetween(calendar, new Date(), new Date(earliest)) * 60 * 60 * 1000;
     if (diff <= 0) return 'Starting soon';
     const hours = Math.floor(diff / (1000 * 60 * 60));
     const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
@@ -175,6 +308,9 @@ export default function Dashboard() {
           <p className="text-sm text-muted-foreground mt-1">
             Real-time workshop status and performance metrics
           </p>
+          <p className="text-xs text-muted-foreground mt-1" data-testid="text-queue-policy-description">
+            Queue: {queuePolicyDescriptions[policy].description}
+          </p>
         </div>
         <div className="flex items-center gap-3">
           {stats && (
@@ -186,14 +322,25 @@ export default function Dashboard() {
           <div className="flex items-center gap-2">
             <span className="text-xs text-muted-foreground">Queue:</span>
             <select
-              className="text-xs border rounded-md px-2 py-1 bg-card"
-              value={queuePolicy?.policy || 'FIFO'}
-              onChange={(e) => updatePolicy.mutate(e.target.value as any)}
+              className="text-xs border rounded-md px-2 py-1 bg-card max-w-[14rem]"
+              value={policy}
+              title={queuePolicyDescriptions[policy].description}
+              onChange={(e) => updatePolicy.mutate({ policy: e.target.value as QueuePolicy })}
+              data-testid="select-queue-policy"
             >
-              <option value="FIFO">FIFO</option>
-              <option value="SJF">SJF</option>
-              <option value="PRIORITY">PRIORITY</option>
+              {queuePolicies.map((p) => (
+                <option key={p} value={p} title={queuePolicyDescriptions[p].description}>
+                  {queuePolicyDescriptions[p].label}
+                </option>
+              ))}
             </select>
+            {policy === 'SCORED' && (
+              <QueueWeightsDialog
+                weights={queuePolicy?.weights ?? DEFAULT_QUEUE_WEIGHTS}
+                saving={updatePolicy.isPending}
+                onSave={(weights) => updatePolicy.mutate({ policy, weights })}
+              />
+            )}
           </div>
           <Button asChild variant="outline" size="sm" data-testid="button-manage-jobs">
             <a href="/services">Manage Active Jobs</a>
@@ -238,6 +385,9 @@ export default function Dashboard() {
                   </CardHeader>
                   <CardContent>
                     <div className="text-3xl font-semibold" data-testid={`text-stat-value-${index}`}><AnimatedNumber value={stat.value as number} /></div>
+                    {stat.title === "Total Workers" && stats && (
+                      <p className="text-xs text-muted-foreground mt-2">{stats.onShiftWorkers} on shift now</p>
+                    )}
                     {stat.title === "Queue Count" && stat.value > 0 && (
                       <p className="text-xs text-[#1A73E8] mt-2">Workshop at capacity</p>
                     )}
@@ -356,16 +506,59 @@ export default function Dashboard() {
                       exit={{ x: 60, opacity: 0 }}
                       transition={{ type: 'spring', stiffness: 200, damping: 20 }}
                       className="absolute top-1/2 -translate-y-1/2 flex items-center gap-2"
-                      style={{ left: Math.min(90, (s.queuePosition || 1) * 12) + '%' }}
+                      style={{ left: Math.min(90, (queueRank.get(s.id)?.rank ?? s.queuePosition ?? 1) * 12) + '%' }}
+                      title={queueRank.get(s.id)?.explanation}
                     >
                       <div className="p-1.5 rounded-full bg-primary/10">
                         <Car className="h-4 w-4 text-primary" />
                       </div>
-                      <Badge variant="outline" className="text-xs">#{s.queuePosition || 1}</Badge>
+                      <Badge variant="outline" className="text-xs">#{queueRank.get(s.id)?.rank ?? s.queuePosition ?? 1}</Badge>
                     </motion.div>
                   ))}
                 </AnimatePresence>
               </div>
+              {queueExplanation && queueExplanation.entries.length > 0 && (
+                <div className="text-xs text-muted-foreground mt-2" data-testid="text-queue-next">
+                  <span className="font-medium text-foreground">{queueExplanation.entries[0].carNumber}</span>
+                  {' '}— {queueExplanation.entries[0].explanation}
+                  {queueExplanation.entries[0].queueReason && ` (waiting: ${queueExplanation.entries[0].queueReason})`}
+                </div>
+              )}
+            </div>
+          )}
+          {canReassign && services && services.some((s) => s.status !== 'Queued') && (
+            <div className="mb-4 space-y-2" data-testid="panel-reassign">
+              <div className="text-sm font-medium text-muted-foreground">
+                Drag a technician onto a job's crew (or onto a worker to swap them), a worker back here to take them off, or a bay onto a job's machine
+              </div>
+              <div className={`flex flex-wrap gap-2 p-2 rounded-md bg-muted ${dropHighlight('pool')}`} {...dropZone('pool', dropOnPool)}>
+                {(workers || []).map((w) => (
+                  <Badge
+                    key={w.id}
+                    variant="outline"
+                    draggable
+                    onDragStart={startDrag({ kind: 'worker', workerId: w.id })}
+                    className="cursor-grab bg-card text-xs"
+                    data-testid={`drag-worker-${w.id}`}
+                  >
+                    {w.name} · {w.skill} · {w.loadPercent}%
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {(machines || []).filter((m) => m.inService).map((m) => (
+                  <Badge
+                    key={m.id}
+                    variant="outline"
+                    draggable
+                    onDragStart={startDrag({ kind: 'bay', machineId: m.id })}
+                    className="cursor-grab text-xs"
+                    data-testid={`drag-bay-${m.id}`}
+                  >
+                    Bay {m.bayNumber} · {m.bayType} · {m.currentLoad}%
+                  </Badge>
+                ))}
+              </div>
             </div>
           )}
           {servicesLoading ? (
@@ -402,6 +595,7 @@ export default function Dashboard() {
                     });
                     const tasks = ((s.selectedTasks as any) as string[]) || [];
                     const reserved = ((s as any).reservedParts as string[]) || [];
+                    const assignable = canReassign && s.status !== 'Queued';
                     return (
                       <TableRow key={s.id}>
                         <TableCell className="font-mono text-sm">{s.id}</TableCell>
@@ -411,10 +605,23 @@ export default function Dashboard() {
                             <div className="text-sm text-muted-foreground">{s.carNumber}</div>
                           </div>
                         </TableCell>
-                        <TableCell>
+                        <TableCell
+                          className={dropHighlight(`crew-${s.id}`)}
+                          {...(assignable ? dropZone(`crew-${s.id}`, (item) => dropWorker(s, item)) : {})}
+                          data-testid={`drop-crew-${s.id}`}
+                        >
                           <div className="flex flex-wrap gap-2 max-w-[240px]">
                             {workerNames.slice(0, 3).map((name, idx) => (
-                              <Badge key={idx} variant="outline" className="text-xs">{name}</Badge>
+                              <Badge
+                                key={idx}
+                                variant="outline"
+                                draggable={assignable}
+                                onDragStart={startDrag({ kind: 'worker', workerId: s.assignedWorkers[idx], fromServiceId: s.id })}
+                                className={`text-xs ${assignable ? 'cursor-grab' : ''} ${dropHighlight(`worker-${s.id}-${idx}`)}`}
+                                {...(assignable ? dropZone(`worker-${s.id}-${idx}`, (item) => dropWorker(s, item, s.assignedWorkers[idx])) : {})}
+                              >
+                                {name}
+                              </Badge>
                             ))}
                             {workerNames.length > 3 && (
                               <Badge variant="secondary" className="text-xs">+{workerNames.length - 3}</Badge>
@@ -435,16 +642,22 @@ export default function Dashboard() {
                           )}
                         </TableCell>
                         <TableCell>{s.predictedHours.toFixed(2)}h</TableCell>
-                        <TableCell>
+                        <TableCell
+                          className={dropHighlight(`bay-${s.id}`)}
+                          {...(assignable ? dropZone(`bay-${s.id}`, (item) => dropBay(s, item)) : {})}
+                          data-testid={`drop-bay-${s.id}`}
+                        >
                           <Badge variant="outline" className="text-xs">{s.assignedMachine}</Badge>
                         </TableCell>
                         <TableCell>
                           <div className="text-xs font-medium">{s.progress}%</div>
                         </TableCell>
-                        <TableCell>
+                        <TableCell title={s.status === 'Queued' ? s.queueReason ?? undefined : undefined}>
                           {s.status === 'Queued'
                             ? `Starts in ${calculateQueuedStartEta(services || [], s)}`
-                            : calculateTimeRemaining(s.estimatedCompletion, s.progress)}
+                            : isOnHold(s)
+                              ? 'Paused'
+                              : calculateTimeRemaining(s.estimatedCompletion, s.progress)}
                         </TableCell>
                         <TableCell>
                           <Badge variant="outline" className="text-xs">{s.status}</Badge>
@@ -454,7 +667,7 @@ export default function Dashboard() {
                             size="sm"
                             variant="outline"
                             onClick={() => completeMutation.mutate(s.id)}
-                            disabled={completeMutation.isPending || s.status === 'Completed'}
+                            disabled={completeMutation.isPending || !canComplete(s)}
                             data-testid={`button-complete-dashboard-${s.id}`}
                           >
                             <CheckCircle2 className="h-4 w-4 mr-1" />
@@ -475,6 +688,67 @@ export default function Dashboard() {
     </div>
   );
 }
+
+// Weights of the scored queue policy
+function QueueWeightsDialog({ weights, saving, onSave }: {
+  weights: QueueWeights;
+  saving: boolean;
+  onSave: (weights: QueueWeights) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<QueueWeights>(weights);
+  const fields: { key: keyof QueueWeights; label: string; hint: string }[] = [
+    { key: 'priority', label: 'Priority', hint: 'per priority step, Low 0 to Urgent 3' },
+    { key: 'waitTime', label: 'Wait time', hint: 'per working hour in the queue' },
+    { key: 'predictedHours', label: 'Predicted hours', hint: 'taken off per predicted hour' },
+    { key: 'customerTier', label: 'Customer tier', hint: 'per tier, Standard 0 to Gold 2' },
+  ];
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (next) setDraft(weights); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-queue-weights">
+          <SlidersHorizontal className="h-4 w-4 mr-1" />
+          Weights
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Queue Score Weights</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          {fields.map(({ key, label, hint }) => (
+            <div key={key} className="grid grid-cols-[1fr_6rem] items-center gap-3">
+              <Label htmlFor={`weight-${key}`}>
+                {label}
+                <span className="block text-xs font-normal text-muted-foreground">{hint}</span>
+              </Label>
+              <Input
+                id={`weight-${key}`}
+                type="number"
+                min={0}
+                max={100}
+                step={0.5}
+                value={draft[key]}
+                onChange={(e) => setDraft({ ...draft, [key]: Number(e.target.value) })}
+                data-testid={`input-weight-${key}`}
+              />
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() => { onSave(draft); setOpen(false); }}
+            disabled={saving}
+            data-testid="button-save-queue-weights"
+          >
+            Save Weights
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
   const AnimatedNumber = ({ value }: { value: number }) => {
     const v = Math.max(0, value || 0);
     return (
@@ -4,17 +4,32 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Package, Plus, AlertTriangle, Trash2, Save } from "lucide-react";
+import { Package, Plus, AlertTriangle, Trash2, Save, History } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Inventory } from "@shared/schema";
+import {
+  availableStock,
+  stockReasonCodes,
+  type Inventory,
+  type InventoryForecast,
+  type StockMovement,
+  type StockMovementType,
+} from "@shared/schema";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { useState } from "react";
+import { format } from "date-fns";
 
 export default function InventoryPage() {
   const { toast } = useToast();
+  const [historyItem, setHistoryItem] = useState<Inventory | null>(null);
   
   const { data: inventory, isLoading } = useQuery<Inventory[]>({
     queryKey: ['/api/inventory'],
-    refetchInterval: 5000,
+  });
+  const { data: forecast } = useQuery<InventoryForecast>({
+    queryKey: ['/api/inventory', 'forecast'],
   });
 
   const restockMutation = useMutation({
@@ -87,7 +102,7 @@ export default function InventoryPage() {
     }
   };
 
-  const lowStockCount = inventory?.filter(item => item.quantity < item.minimumStock).length || 0;
+  const lowStockCount = inventory?.filter(item => availableStock(item) < item.minimumStock).length || 0;
 
   return (
     <div className="space-y-6 p-6">
@@ -163,15 +178,19 @@ export default function InventoryPage() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Part Name</TableHead>
-                    <TableHead>Current Stock</TableHead>
+                    <TableHead>On Hand</TableHead>
+                    <TableHead>Reserved</TableHead>
+                    <TableHead>Available</TableHead>
                     <TableHead>Minimum Stock</TableHead>
                     <TableHead>Stock Status</TableHead>
+                    <TableHead>Projected Stock-out</TableHead>
                     <TableHead>Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {inventory.map((item) => {
-                    const status = getStockStatus(item.quantity, item.minimumStock);
+                    const status = getStockStatus(availableStock(item), item.minimumStock);
+                    const projection = forecast?.parts.find((p) => p.partName === item.partName);
                     return (
                       <TableRow key={item.id} data-testid={`row-inventory-${item.id}`}>
                         <TableCell>
@@ -190,6 +209,8 @@ export default function InventoryPage() {
                             onBlur={(e) => updateMutation.mutate({ id: item.id, quantity: parseInt(e.target.value) })}
                           />
                         </TableCell>
+                        <TableCell className="text-muted-foreground" data-testid={`text-reserved-${item.id}`}>{item.reserved}</TableCell>
+                        <TableCell className="font-medium" data-testid={`text-available-${item.id}`}>{availableStock(item)}</TableCell>
                         <TableCell className="text-muted-foreground" data-testid={`text-min-stock-${item.id}`}>
                           <input
                             className="w-24 border rounded-md h-8 px-2"
@@ -203,6 +224,23 @@ export default function InventoryPage() {
                             {status.label}
                           </Badge>
                         </TableCell>
+                        <TableCell data-testid={`text-stock-out-${item.id}`}>
+                          {projection ? (
+                            <div className="text-sm">
+                              {projection.stockOutDate ? (
+                                <div className="font-medium text-red-700">{format(new Date(projection.stockOutDate), 'dd MMM')}</div>
+                              ) : (
+                                <div className="text-muted-foreground">Not within {forecast?.horizonDays} days</div>
+                              )}
+                              <div className="text-xs text-muted-foreground">
+                                {projection.dailyUsage}/day
+                                {projection.suggestedOrderQuantity > 0 && ` · reorder ${projection.suggestedOrderQuantity}`}
+                              </div>
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
                         <TableCell>
                           <Button
                             size="sm"
@@ -214,6 +252,15 @@ export default function InventoryPage() {
                             <Plus className="h-4 w-4 mr-1" />
                             Restock +5
                           </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setHistoryItem(item)}
+                            data-testid={`button-history-${item.id}`}
+                          >
+                            <History className="h-4 w-4 mr-1" />
+                            History
+                          </Button>
                           <Button
                             size="sm"
                             variant="ghost"
@@ -243,6 +290,131 @@ export default function InventoryPage() {
           )}
         </CardContent>
       </Card>
+
+      <Sheet open={!!historyItem} onOpenChange={(open) => !open && setHistoryItem(null)}>
+        <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+          {historyItem && <StockMovements item={historyItem} />}
+        </SheetContent>
+      </Sheet>
     </div>
   );
 }
+
+// Movement types staff can record by hand; consumption is posted by service tasks
+const manualMovementTypes: StockMovementType[] = ["Receipt", "Adjustment", "Write-off", "Return"];
+
+function StockMovements({ item }: { item: Inventory }) {
+  const { toast } = useToast();
+  const [type, setType] = useState<StockMovementType>("Receipt");
+  const [reasonCode, setReasonCode] = useState<string>(stockReasonCodes.Receipt[0]);
+  const [quantity, setQuantity] = useState<number>(1);
+  const [note, setNote] = useState("");
+
+  const { data: movements, isLoading } = useQuery<StockMovement[]>({
+    queryKey: ['/api/inventory', item.id, 'movements'],
+  });
+  const { data: inventory } = useQuery<Inventory[]>({ queryKey: ['/api/inventory'] });
+  const current = inventory?.find((i) => i.id === item.id) ?? item;
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<StockMovement>('POST', `/api/inventory/${item.id}/movements`, {
+        type,
+        reasonCode,
+        quantity,
+        note,
+      });
+    },
+    onSuccess: () => {
+      setQuantity(1);
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+      toast({ title: 'Movement Recorded', description: `${item.partName} stock updated.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Movement Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <>
+      <SheetHeader>
+        <SheetTitle>{current.partName}</SheetTitle>
+        <SheetDescription>
+          {current.quantity} on hand · {current.reserved} reserved · {availableStock(current)} available
+        </SheetDescription>
+      </SheetHeader>
+
+      <div className="grid grid-cols-2 gap-3 mt-6">
+        <div>
+          <div className="text-xs text-muted-foreground mb-1">Type</div>
+          <Select
+            value={type}
+            onValueChange={(value) => {
+              const next = value as StockMovementType;
+              setType(next);
+              setReasonCode(stockReasonCodes[next][0]);
+            }}
+          >
+            <SelectTrigger data-testid="select-movement-type"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {manualMovementTypes.map((t) => <SelectItem key={t} value={t}>{t}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <div className="text-xs text-muted-foreground mb-1">Reason</div>
+          <Select value={reasonCode} onValueChange={setReasonCode}>
+            <SelectTrigger data-testid="select-movement-reason"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {stockReasonCodes[type].map((r) => <SelectItem key={r} value={r}>{r}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <div className="text-xs text-muted-foreground mb-1">
+            {type === 'Adjustment' ? 'Change (+/−)' : 'Quantity'}
+          </div>
+          <Input type="number" value={quantity} onChange={(e) => setQuantity(parseInt(e.target.value))} data-testid="input-movement-quantity" />
+        </div>
+        <div>
+          <div className="text-xs text-muted-foreground mb-1">Note</div>
+          <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Optional" />
+        </div>
+      </div>
+      <Button
+        className="mt-3 w-full"
+        onClick={() => recordMutation.mutate()}
+        disabled={recordMutation.isPending || !quantity}
+        data-testid="button-record-movement"
+      >
+        Record Movement
+      </Button>
+
+      <div className="mt-6 space-y-2">
+        <div className="text-sm font-medium text-muted-foreground">History</div>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : movements && movements.length > 0 ? (
+          movements.map((m) => (
+            <div key={m.id} className="flex items-start justify-between gap-3 border-b pb-2 text-sm" data-testid={`row-movement-${m.id}`}>
+              <div>
+                <div className="font-medium">{m.type} · {m.reasonCode}</div>
+                <div className="text-xs text-muted-foreground">
+                  {format(new Date(m.createdAt), 'dd MMM yyyy, HH:mm')} · {m.recordedBy ?? 'system'}
+                  {m.serviceId && <> · <span className="font-mono">{m.serviceId}</span></>}
+                </div>
+                {m.note && <div className="text-xs text-muted-foreground">{m.note}</div>}
+              </div>
+              <div className={`font-mono font-semibold ${m.quantity > 0 ? 'text-green-700' : 'text-red-700'}`}>
+                {m.quantity > 0 ? `+${m.quantity}` : m.quantity}
+              </div>
+            </div>
+          ))
+        ) : (
+          <div className="text-sm text-muted-foreground">No movements recorded.</div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,274 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ShoppingCart, RefreshCw, Check, Send, PackageCheck, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  openPurchaseOrderStatuses,
+  purchaseOrderNumber,
+  purchaseOrderTotal,
+  type PurchaseOrder,
+  type PurchaseOrderStatus,
+  type Supplier,
+} from "@shared/schema";
+import { format } from "date-fns";
+
+type PurchaseOrderAction = "approve" | "send" | "receive" | "cancel";
+
+const statusColors: Record<PurchaseOrderStatus, string> = {
+  Draft: 'bg-slate-100 text-slate-800 border-slate-200',
+  Approved: 'bg-blue-100 text-blue-800 border-blue-200',
+  Sent: 'bg-amber-100 text-amber-800 border-amber-200',
+  Received: 'bg-green-100 text-green-800 border-green-200',
+  Cancelled: 'bg-red-100 text-red-800 border-red-200',
+};
+
+const formatAmount = (amount: number) => `₹${amount.toFixed(2)}`;
+
+export default function PurchasingPage() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canManage = hasRole("inventory_manager");
+  const canApprove = hasRole("admin");
+
+  const { data: orders, isLoading } = useQuery<PurchaseOrder[]>({
+    queryKey: ['/api/purchase-orders'],
+  });
+  const { data: suppliers } = useQuery<Supplier[]>({
+    queryKey: ['/api/suppliers'],
+  });
+
+  const supplierName = (id: string) => suppliers?.find((s) => s.id === id)?.name ?? 'Unknown supplier';
+  const openOrders = orders?.filter((o) => openPurchaseOrderStatuses.includes(o.status)) ?? [];
+  const closedOrders = orders?.filter((o) => !openPurchaseOrderStatuses.includes(o.status)).slice(0, 10) ?? [];
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: PurchaseOrderAction }) => {
+      return await apiRequest<PurchaseOrder>('POST', `/api/purchase-orders/${id}/${action}`, {});
+    },
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/purchase-orders'] });
+      if (order.status === 'Received') queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+      toast({ title: `Order ${order.status}`, description: `${purchaseOrderNumber(order)} is now ${order.status.toLowerCase()}.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Order Update Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<PurchaseOrder[]>('POST', '/api/purchase-orders/reorder', {});
+    },
+    onSuccess: (drafted) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/purchase-orders'] });
+      toast({
+        title: 'Reorder Check Complete',
+        description: drafted.length > 0 ? `${drafted.length} draft order(s) created or updated.` : 'Every part is stocked or already on order.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Reorder Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const renderActions = (order: PurchaseOrder) => {
+    const act = (action: PurchaseOrderAction) => actionMutation.mutate({ id: order.id, action });
+    const busy = actionMutation.isPending;
+    return (
+      <div className="flex justify-end gap-2">
+        {order.status === 'Draft' && canApprove && (
+          <Button size="sm" variant="outline" onClick={() => act('approve')} disabled={busy} data-testid={`button-approve-${order.id}`}>
+            <Check className="h-4 w-4 mr-1" />
+            Approve
+          </Button>
+        )}
+        {order.status === 'Approved' && canManage && (
+          <Button size="sm" variant="outline" onClick={() => act('send')} disabled={busy} data-testid={`button-send-${order.id}`}>
+            <Send className="h-4 w-4 mr-1" />
+            Send
+          </Button>
+        )}
+        {order.status === 'Sent' && canManage && (
+          <Button size="sm" onClick={() => act('receive')} disabled={busy} data-testid={`button-receive-${order.id}`}>
+            <PackageCheck className="h-4 w-4 mr-1" />
+            Receive
+          </Button>
+        )}
+        {canManage && (
+          <Button size="sm" variant="ghost" onClick={() => act('cancel')} disabled={busy} data-testid={`button-cancel-${order.id}`}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  const renderLines = (order: PurchaseOrder) => (
+    <div className="space-y-0.5 text-sm">
+      {order.lines.map((line) => (
+        <div key={line.partName}>
+          {line.partName} <span className="text-muted-foreground">× {line.quantity} @ {formatAmount(line.unitPrice)}</span>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6 p-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight" data-testid="text-page-title">Purchasing</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Purchase orders for low-stock parts and the suppliers that fill them
+          </p>
+        </div>
+        {canManage && (
+          <Button variant="outline" onClick={() => reorderMutation.mutate()} disabled={reorderMutation.isPending} data-testid="button-reorder">
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Draft Reorders
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Open Purchase Orders</CardTitle>
+          <CardDescription>
+            Drafts raised when parts fall below their minimum stock, and orders awaiting delivery
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => <Skeleton key={i} className="h-12 w-full" />)}
+            </div>
+          ) : openOrders.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Lines</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Expected Arrival</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {openOrders.map((order) => (
+                  <TableRow key={order.id} data-testid={`row-order-${order.id}`}>
+                    <TableCell className="font-mono">
+                      {purchaseOrderNumber(order)}
+                      {order.autoDrafted && <div className="text-xs text-muted-foreground font-sans">Auto-drafted</div>}
+                    </TableCell>
+                    <TableCell>{supplierName(order.supplierId)}</TableCell>
+                    <TableCell>{renderLines(order)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatAmount(purchaseOrderTotal(order))}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={statusColors[order.status]}>{order.status}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {order.expectedArrival
+                        ? format(new Date(order.expectedArrival), 'dd MMM yyyy')
+                        : <span className="text-muted-foreground">Not sent yet</span>}
+                    </TableCell>
+                    <TableCell>{renderActions(order)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <ShoppingCart className="h-12 w-12 text-muted-foreground mb-3" />
+              <p className="text-muted-foreground">No open purchase orders</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {closedOrders.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Orders</CardTitle>
+            <CardDescription>The last received or cancelled orders</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Lines</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Received</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {closedOrders.map((order) => (
+                  <TableRow key={order.id}>
+                    <TableCell className="font-mono">{purchaseOrderNumber(order)}</TableCell>
+                    <TableCell>{supplierName(order.supplierId)}</TableCell>
+                    <TableCell>{renderLines(order)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(purchaseOrderTotal(order))}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={statusColors[order.status]}>{order.status}</Badge>
+                    </TableCell>
+                    <TableCell>{order.receivedAt ? format(new Date(order.receivedAt), 'dd MMM yyyy') : '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Suppliers</CardTitle>
+          <CardDescription>Lead times, prices and minimum order quantities per part</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Supplier</TableHead>
+                <TableHead>Contact</TableHead>
+                <TableHead>Lead Time</TableHead>
+                <TableHead>Parts</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {suppliers?.map((supplier) => (
+                <TableRow key={supplier.id} data-testid={`row-supplier-${supplier.id}`}>
+                  <TableCell className="font-medium">{supplier.name}</TableCell>
+                  <TableCell className="text-sm">
+                    <div>{supplier.contactEmail ?? '—'}</div>
+                    {supplier.phone && <div className="text-muted-foreground">{supplier.phone}</div>}
+                  </TableCell>
+                  <TableCell>{supplier.leadTimeDays} day{supplier.leadTimeDays === 1 ? '' : 's'}</TableCell>
+                  <TableCell>
+                    <div className="space-y-0.5 text-sm">
+                      {supplier.parts.map((part) => (
+                        <div key={part.partName}>
+                          {part.partName} <span className="text-muted-foreground">{formatAmount(part.unitPrice)}, min {part.minimumOrder}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
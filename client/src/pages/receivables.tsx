@@ -0,0 +1,121 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Receipt } from "lucide-react";
+import { formatInvoiceNumber, type PaymentStatus, type Receivables } from "@shared/schema";
+import { format } from "date-fns";
+
+const statusColors: Record<PaymentStatus, string> = {
+  Unpaid: 'bg-red-100 text-red-800 border-red-200',
+  'Partially Paid': 'bg-amber-100 text-amber-800 border-amber-200',
+  Paid: 'bg-green-100 text-green-800 border-green-200',
+};
+
+const formatAmount = (amount: number) => `₹${amount.toFixed(2)}`;
+
+export default function ReceivablesPage() {
+  const { data: receivables, isLoading } = useQuery<Receivables>({
+    queryKey: ['/api/receivables'],
+  });
+
+  return (
+    <div className="space-y-6 p-6">
+      <div>
+        <h1 className="text-2xl font-semibold tracking-tight" data-testid="text-page-title">Receivables</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Invoices with money still owed, oldest first
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-5">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Total Outstanding</CardDescription>
+            <CardTitle className="text-2xl" data-testid="text-total-outstanding">
+              {receivables ? formatAmount(receivables.totalOutstanding) : <Skeleton className="h-8 w-24" />}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+        {receivables?.buckets.map((bucket) => (
+          <Card key={bucket.label}>
+            <CardHeader className="pb-2">
+              <CardDescription>{bucket.label}</CardDescription>
+              <CardTitle className="text-2xl" data-testid={`text-bucket-${bucket.label}`}>{formatAmount(bucket.balance)}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground">
+              {bucket.count} invoice{bucket.count === 1 ? '' : 's'}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Outstanding Invoices</CardTitle>
+          <CardDescription>Take payments from the Completed Services table on the Active Services page</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => <Skeleton key={i} className="h-12 w-full" />)}
+            </div>
+          ) : receivables && receivables.invoices.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Vehicle</TableHead>
+                  <TableHead>Completed</TableHead>
+                  <TableHead>Age</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Paid</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {receivables.invoices.map((invoice) => (
+                  <TableRow key={invoice.serviceId} data-testid={`row-receivable-${invoice.serviceId}`}>
+                    <TableCell className="font-mono">
+                      <Link href={`/services?service=${encodeURIComponent(invoice.serviceId)}`} className="text-[#1A73E8] hover:underline">
+                        {formatInvoiceNumber(invoice)}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      <div>{invoice.customerName ?? 'Walk-in customer'}</div>
+                      {invoice.customerPhone && <div className="text-sm text-muted-foreground">{invoice.customerPhone}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{invoice.carModel}</div>
+                      <div className="text-sm text-muted-foreground">{invoice.carNumber}</div>
+                    </TableCell>
+                    <TableCell>{format(new Date(invoice.completedAt), 'dd MMM yyyy')}</TableCell>
+                    <TableCell>
+                      {invoice.ageDays} day{invoice.ageDays === 1 ? '' : 's'}
+                      <div className="text-xs text-muted-foreground">{invoice.ageBucket}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{formatAmount(invoice.total)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(invoice.amountPaid)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatAmount(invoice.balance)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={statusColors[invoice.status]}>{invoice.status}</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <Receipt className="h-12 w-12 text-muted-foreground mb-3" />
+              <p className="text-muted-foreground">Every invoice is paid</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
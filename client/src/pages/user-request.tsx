@@ -2,7 +2,7 @@ import { useState, useEffect } from "react";
 import { useForm, useWatch } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { serviceRequestSchema, type ServiceRequest } from "@shared/schema";
+import { serviceRequestSchema, normalizeCarNumber, type ServiceRequest, type VehicleHistory } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -11,7 +11,7 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Clock, Users, Wrench, AlertCircle, CheckCircle2, Calendar } from "lucide-react";
+import { Loader2, Clock, Users, Wrench, AlertCircle, CheckCircle2, Calendar, History } from "lucide-react";
 import { Slider } from "@/components/ui/slider";
 import { motion } from "framer-motion";
 import { Badge } from "@/components/ui/badge";
@@ -28,9 +28,12 @@ interface PredictionResult {
   serviceId: string;
   predictedHours: number;
   assignedWorkers: string[];
+  crew?: Array<{ workerId: string; workerName: string; covers: string[]; reason: string }>;
   assignedMachine: string;
   estimatedCompletion: string;
   queuePosition?: number;
+  modelVersion: string;
+  modelNote?: string;
   warnings: string[];
 }
 
@@ -81,6 +84,48 @@ export default function UserRequest() {
     },
   });
 
+  // Look up the registration once typing pauses and prefill from the registry
+  const carNumber = useWatch({ control: form.control, name: 'carNumber' });
+  const [lookupNumber, setLookupNumber] = useState("");
+  useEffect(() => {
+    const timer = setTimeout(() => setLookupNumber(normalizeCarNumber(carNumber || "")), 400);
+    return () => clearTimeout(timer);
+  }, [carNumber]);
+
+  const { data: history } = useQuery<VehicleHistory>({
+    queryKey: ['/api/vehicles', lookupNumber, 'history'],
+    enabled: lookupNumber.length >= 4,
+  });
+
+  useEffect(() => {
+    if (!history || normalizeCarNumber(form.getValues('carNumber') || "") !== lookupNumber) return;
+    const { vehicle, customer } = history;
+    if (vehicle) {
+      form.setValue('carModel', vehicle.carModel as ServiceRequest['carModel']);
+      form.setValue('manufactureYear', vehicle.manufactureYear);
+      form.setValue('fuelType', vehicle.fuelType as ServiceRequest['fuelType']);
+      if (vehicle.vin) form.setValue('vin', vehicle.vin);
+      if (!form.getValues('totalKilometers')) form.setValue('totalKilometers', vehicle.lastKnownKilometers);
+    }
+    if (customer) {
+      form.setValue('customerName', customer.name);
+      form.setValue('customerPhone', customer.phone);
+      if (customer.email) form.setValue('customerEmail', customer.email);
+    }
+  }, [history, lookupNumber, form]);
+
+  // With a previous visit on record, km/days since last service follow from it
+  const totalKilometers = useWatch({ control: form.control, name: 'totalKilometers' });
+  const lastService = history?.lastService ?? null;
+  useEffect(() => {
+    if (!lastService) return;
+    if (lastService.totalKilometers != null && typeof totalKilometers === 'number' && !isNaN(totalKilometers)) {
+      form.setValue('kmSinceLastService', Math.max(0, totalKilometers - lastService.totalKilometers), { shouldValidate: true });
+    }
+    const days = Math.floor((Date.now() - new Date(lastService.completedAt).getTime()) / (1000 * 60 * 60 * 24));
+    form.setValue('daysSinceLastService', Math.max(0, days), { shouldValidate: true });
+  }, [lastService, totalKilometers, form]);
+
   const onSubmit = (data: ServiceRequest) => {
     submitMutation.mutate(data);
   };
@@ -153,6 +198,10 @@ export default function UserRequest() {
                     {typeof prediction.predictedHours === 'number' ? prediction.predictedHours.toFixed(2) : '0.00'} hours
                   </span>
                 </div>
+                <div className="text-xs text-muted-foreground" data-testid="text-model-version">
+                  {prediction.modelVersion === 'heuristic' ? 'Estimated with heuristic rules' : `Model ${prediction.modelVersion}`}
+                  {prediction.modelNote && ` (${prediction.modelNote})`}
+                </div>
               </div>
             </div>
 
@@ -169,6 +218,15 @@ export default function UserRequest() {
                     </Badge>
                   ))}
                 </div>
+                {prediction.crew && prediction.crew.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-xs text-muted-foreground" data-testid="list-crew-reasons">
+                    {prediction.crew.map((member) => (
+                      <li key={member.workerId}>
+                        <span className="font-medium text-foreground">{member.workerName}:</span> {member.reason}
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
 
               <div>
@@ -254,6 +312,84 @@ export default function UserRequest() {
                             <label className="absolute left-3 top-2 text-muted-foreground transition-all duration-200 peer-placeholder-shown:top-2 peer-placeholder-shown:text-sm peer-focus:-top-3 peer-focus:text-xs peer-focus:text-primary bg-transparent">Car Number</label>
                           </div>
                         </FormControl>
+                        {history && (
+                          <FormDescription className="flex items-center gap-1" data-testid="text-vehicle-history">
+                            <History className="h-3 w-3" />
+                            {history.visits.length > 0
+                              ? `${history.visits.length} previous visit${history.visits.length === 1 ? '' : 's'}, last on ${new Date(history.visits[0].completedAt).toLocaleDateString()}`
+                              : 'Registered vehicle, no completed visits yet'}
+                          </FormDescription>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="vin"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>VIN</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value.toUpperCase() || undefined)}
+                            maxLength={17}
+                            placeholder="17-character VIN (optional)"
+                            data-testid="input-vin"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <FormField
+                      control={form.control}
+                      name="customerName"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Owner Name</FormLabel>
+                          <FormControl>
+                            <Input {...field} value={field.value ?? ""} data-testid="input-customer-name" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="customerPhone"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Owner Phone</FormLabel>
+                          <FormControl>
+                            <Input {...field} value={field.value ?? ""} type="tel" data-testid="input-customer-phone" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <FormField
+                    control={form.control}
+                    name="customerEmail"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Owner Email</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value || undefined)}
+                            type="email"
+                            data-testid="input-customer-email"
+                          />
+                        </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
@@ -465,7 +601,7 @@ export default function UserRequest() {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Car Model</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <Select onValueChange={field.onChange} value={field.value}>
                           <FormControl>
                             <SelectTrigger data-testid="select-car-model">
                               <SelectValue placeholder="Select model" />
@@ -511,7 +647,7 @@ export default function UserRequest() {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Fuel Type</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <Select onValueChange={field.onChange} value={field.value}>
                           <FormControl>
                             <SelectTrigger data-testid="select-fuel-type">
                               <SelectValue placeholder="Select fuel type" />
@@ -585,7 +721,11 @@ export default function UserRequest() {
                             }}
                           />
                         </FormControl>
-                        <FormDescription>Calendar sets days automatically</FormDescription>
+                        <FormDescription>
+                          {lastService
+                            ? `From service history: ${form.getValues('daysSinceLastService')} days ago`
+                            : 'Calendar sets days automatically'}
+                        </FormDescription>
                         <FormMessage />
                       </FormItem>
                     )}
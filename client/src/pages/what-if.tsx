@@ -0,0 +1,443 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { FlaskConical, Play, Plus, Trash2, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { bayTypes, skillCategories, type Worker } from "@shared/schema";
+import { queuePolicies, queuePolicyDescriptions, type QueuePolicy } from "@shared/queue-policy";
+import type { SimulationMetrics, SimulationRequest, SimulationResult, SimulationScenario } from "@shared/simulation";
+
+const MAX_SCENARIOS = 4;
+
+const metricRows: { key: keyof SimulationMetrics; label: string; format: (v: number) => string; better?: 'higher' | 'lower' }[] = [
+  { key: 'completedSameDay', label: 'Completed same day', format: (v) => `${v}`, better: 'higher' },
+  { key: 'throughputPerHour', label: 'Throughput', format: (v) => `${v.toFixed(2)} / h`, better: 'higher' },
+  { key: 'averageWaitHours', label: 'Average wait', format: (v) => `${v.toFixed(2)} h`, better: 'lower' },
+  { key: 'maxWaitHours', label: 'Longest wait', format: (v) => `${v.toFixed(2)} h`, better: 'lower' },
+  { key: 'averageTurnaroundHours', label: 'Average turnaround', format: (v) => `${v.toFixed(2)} h`, better: 'lower' },
+  { key: 'slaMisses', label: 'SLA misses', format: (v) => `${v}`, better: 'lower' },
+  { key: 'slaMissRate', label: 'SLA miss rate', format: (v) => `${(v * 100).toFixed(0)}%`, better: 'lower' },
+  { key: 'workerUtilization', label: 'Worker utilization', format: (v) => `${(v * 100).toFixed(0)}%` },
+  { key: 'bayUtilization', label: 'Bay utilization', format: (v) => `${(v * 100).toFixed(0)}%` },
+  { key: 'completed', label: 'Completed within the week', format: (v) => `${v}`, better: 'higher' },
+];
+
+const chartColors = [1, 2, 3, 4, 5].map((i) => `hsl(var(--chart-${i}))`);
+
+const emptyScenario = (index: number): SimulationScenario => ({
+  name: `Scenario ${index}`,
+  addWorkers: [],
+  removeWorkerIds: [],
+  addBays: [],
+});
+
+export default function WhatIfPage() {
+  const { toast } = useToast();
+  const [date, setDate] = useState('');
+  const [source, setSource] = useState<'synthetic' | 'history'>('synthetic');
+  const [count, setCount] = useState(20);
+  const [seed, setSeed] = useState(1);
+  const [historyDate, setHistoryDate] = useState('');
+  const [slaGraceHours, setSlaGraceHours] = useState(1);
+  const [scenarios, setScenarios] = useState<SimulationScenario[]>([emptyScenario(1)]);
+
+  const { data: workers = [] } = useQuery<Worker[]>({ queryKey: ['/api/workers'] });
+
+  const simulate = useMutation({
+    mutationFn: (body: SimulationRequest) => apiRequest<SimulationResult>('POST', '/api/simulate', body),
+    onError: (error: Error) => {
+      toast({ title: 'Simulation Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+  const result = simulate.data;
+
+  const run = () => simulate.mutate({
+    date: date || undefined,
+    demand: source === 'synthetic' ? { source, count, seed } : { source, date: historyDate },
+    slaGraceHours,
+    scenarios,
+  });
+
+  const updateScenario = (index: number, scenario: SimulationScenario) =>
+    setScenarios(scenarios.map((s, i) => (i === index ? scenario : s)));
+
+  // Chart series are keyed s0, s1, ... in result order, the current workshop first
+  const chartConfig = Object.fromEntries(
+    (result?.scenarios ?? []).map((s, i) => [`s${i}`, { label: s.name, color: chartColors[i % chartColors.length] }]),
+  ) satisfies ChartConfig;
+  const comparison = [
+    { metric: 'Average wait (h)', key: 'averageWaitHours' as const },
+    { metric: 'Turnaround (h)', key: 'averageTurnaroundHours' as const },
+    { metric: 'SLA misses', key: 'slaMisses' as const },
+  ].map(({ metric, key }) => ({
+    metric,
+    ...Object.fromEntries((result?.scenarios ?? []).map((s, i) => [`s${i}`, s.metrics[key]])),
+  }));
+  const times = Array.from(new Set((result?.scenarios ?? []).flatMap((s) => s.timeline.map((p) => p.time)))).sort();
+  const queueTimeline = times.map((time) => ({
+    time,
+    ...Object.fromEntries((result?.scenarios ?? []).map((s, i) => [`s${i}`, s.timeline.find((p) => p.time === time)?.queued])),
+  }));
+
+  return (
+    <div className="space-y-6 p-6">
+      <div>
+        <h1 className="text-2xl font-semibold tracking-tight" data-testid="text-page-title">What-If Simulator</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Replay a day of service requests against the workshop as it is and against changed staffing, bays, hours or queue policy
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Simulated Day</CardTitle>
+          <CardDescription>Every scenario sees the same requests, arriving at the same times</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end gap-4">
+          <div>
+            <Label htmlFor="sim-date" className="text-xs text-muted-foreground">Date</Label>
+            <Input id="sim-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} data-testid="input-sim-date" />
+            <div className="text-xs text-muted-foreground mt-1">Empty: the next day the workshop opens</div>
+          </div>
+          <div>
+            <Label className="text-xs text-muted-foreground">Requests</Label>
+            <Select value={source} onValueChange={(value) => setSource(value as 'synthetic' | 'history')}>
+              <SelectTrigger className="w-44" data-testid="select-sim-demand"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="synthetic">Synthetic</SelectItem>
+                <SelectItem value="history">From a past day</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {source === 'synthetic' ? (
+            <>
+              <div>
+                <Label htmlFor="sim-count" className="text-xs text-muted-foreground">Number of requests</Label>
+                <Input id="sim-count" type="number" min={1} max={100} className="w-28" value={count} onChange={(e) => setCount(Number(e.target.value))} data-testid="input-sim-count" />
+              </div>
+              <div>
+                <Label htmlFor="sim-seed" className="text-xs text-muted-foreground">Seed</Label>
+                <Input id="sim-seed" type="number" className="w-24" value={seed} onChange={(e) => setSeed(Number(e.target.value))} data-testid="input-sim-seed" />
+              </div>
+            </>
+          ) : (
+            <div>
+              <Label htmlFor="sim-history-date" className="text-xs text-muted-foreground">Requests taken in on</Label>
+              <Input id="sim-history-date" type="date" value={historyDate} onChange={(e) => setHistoryDate(e.target.value)} data-testid="input-sim-history-date" />
+            </div>
+          )}
+          <div>
+            <Label htmlFor="sim-grace" className="text-xs text-muted-foreground">SLA grace (h)</Label>
+            <Input id="sim-grace" type="number" min={0} max={24} step={0.5} className="w-24" value={slaGraceHours} onChange={(e) => setSlaGraceHours(Number(e.target.value))} data-testid="input-sim-grace" />
+          </div>
+          <Button onClick={run} disabled={simulate.isPending || (source === 'history' && !historyDate)} data-testid="button-run-simulation">
+            <Play className="h-4 w-4 mr-1" />
+            {simulate.isPending ? 'Simulating...' : 'Run Simulation'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {scenarios.map((scenario, index) => (
+          <ScenarioEditor
+            key={index}
+            index={index}
+            scenario={scenario}
+            workers={workers}
+            onChange={(next) => updateScenario(index, next)}
+            onRemove={() => setScenarios(scenarios.filter((_, i) => i !== index))}
+          />
+        ))}
+        {scenarios.length < MAX_SCENARIOS && (
+          <Button
+            variant="outline"
+            className="h-auto min-h-32 border-dashed"
+            onClick={() => setScenarios([...scenarios, emptyScenario(scenarios.length + 1)])}
+            data-testid="button-add-scenario"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Scenario
+          </Button>
+        )}
+      </div>
+
+      {result && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Comparison</CardTitle>
+              <CardDescription>
+                {result.requests} requests on {result.date}, {result.openHours} open hours. Waits and turnaround are in the
+                workshop's current working hours; differences are against the current workshop.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table data-testid="table-simulation">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead />
+                    {result.scenarios.map((s, i) => (
+                      <TableHead key={i}>
+                        <div className="font-medium text-foreground">{s.name}</div>
+                        <div className="text-xs font-normal">
+                          {s.workers} technicians · {s.bays} bays · {queuePolicyDescriptions[s.policy].label}
+                        </div>
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {metricRows.map((row) => {
+                    const baseline = result.scenarios[0].metrics[row.key];
+                    return (
+                      <TableRow key={row.key}>
+                        <TableCell className="text-muted-foreground">{row.label}</TableCell>
+                        {result.scenarios.map((s, i) => {
+                          const value = s.metrics[row.key];
+                          const delta = Number((value - baseline).toFixed(2));
+                          const improved = row.better === 'higher' ? delta > 0 : delta < 0;
+                          return (
+                            <TableCell key={i} data-testid={`cell-${row.key}-${i}`}>
+                              {row.format(value)}
+                              {i > 0 && delta !== 0 && (
+                                <span className={`ml-2 text-xs ${!row.better ? 'text-muted-foreground' : improved ? 'text-green-600' : 'text-red-600'}`}>
+                                  {delta > 0 ? '+' : '-'}{row.format(Math.abs(delta))}
+                                </span>
+                              )}
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Waiting and SLA</CardTitle>
+                <CardDescription>Average wait, turnaround and SLA misses by scenario</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={chartConfig} className="h-64 w-full" data-testid="chart-simulation-comparison">
+                  <BarChart data={comparison}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="metric" tickLine={false} axisLine={false} tickMargin={8} />
+                    <YAxis tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {result.scenarios.map((_, i) => (
+                      <Bar key={i} dataKey={`s${i}`} fill={`var(--color-s${i})`} radius={[4, 4, 0, 0]} />
+                    ))}
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Queue Through the Day</CardTitle>
+                <CardDescription>Services waiting for a bay or crew at each hour</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={chartConfig} className="h-64 w-full" data-testid="chart-simulation-queue">
+                  <LineChart data={queueTimeline}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="time" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+                    <YAxis tickLine={false} axisLine={false} allowDecimals={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {result.scenarios.map((_, i) => (
+                      <Line key={i} dataKey={`s${i}`} stroke={`var(--color-s${i})`} strokeWidth={2} dot={false} connectNulls />
+                    ))}
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function ScenarioEditor({ index, scenario, workers, onChange, onRemove }: {
+  index: number;
+  scenario: SimulationScenario;
+  workers: Worker[];
+  onChange: (scenario: SimulationScenario) => void;
+  onRemove: () => void;
+}) {
+  const [hireSkill, setHireSkill] = useState<string>(skillCategories[0]);
+  const [hireCount, setHireCount] = useState(1);
+  const [bayType, setBayType] = useState<string>(bayTypes[0]);
+  const [bayCount, setBayCount] = useState(1);
+  const remaining = workers.filter((w) => !scenario.removeWorkerIds.includes(w.id));
+
+  return (
+    <Card data-testid={`card-scenario-${index}`}>
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+        <div className="flex items-center gap-2 flex-1">
+          <FlaskConical className="h-4 w-4 text-muted-foreground" />
+          <Input
+            value={scenario.name}
+            maxLength={60}
+            onChange={(e) => onChange({ ...scenario, name: e.target.value })}
+            className="h-8 font-medium"
+            data-testid={`input-scenario-name-${index}`}
+          />
+        </div>
+        <Button variant="ghost" size="icon" onClick={onRemove} data-testid={`button-remove-scenario-${index}`}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <div className="text-sm font-medium mb-2">Hire technicians</div>
+          <div className="flex flex-wrap gap-2 mb-2">
+            {scenario.addWorkers.map((hire, i) => (
+              <Badge key={i} variant="secondary" className="gap-1">
+                +{hire.count} {hire.skill}
+                <X
+                  className="h-3 w-3 cursor-pointer"
+                  onClick={() => onChange({ ...scenario, addWorkers: scenario.addWorkers.filter((_, j) => j !== i) })}
+                />
+              </Badge>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Select value={hireSkill} onValueChange={setHireSkill}>
+              <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {skillCategories.map((skill) => <SelectItem key={skill} value={skill}>{skill}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Input type="number" min={1} max={10} className="w-20" value={hireCount} onChange={(e) => setHireCount(Number(e.target.value))} />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onChange({
+                ...scenario,
+                addWorkers: [...scenario.addWorkers, { skill: hireSkill as typeof skillCategories[number], count: hireCount }],
+              })}
+              data-testid={`button-hire-${index}`}
+            >
+              Add
+            </Button>
+          </div>
+        </div>
+
+        <div>
+          <div className="text-sm font-medium mb-2">Without technicians</div>
+          <div className="flex flex-wrap gap-2 mb-2">
+            {scenario.removeWorkerIds.map((id) => (
+              <Badge key={id} variant="outline" className="gap-1">
+                {workers.find((w) => w.id === id)?.name ?? id}
+                <X
+                  className="h-3 w-3 cursor-pointer"
+                  onClick={() => onChange({ ...scenario, removeWorkerIds: scenario.removeWorkerIds.filter((w) => w !== id) })}
+                />
+              </Badge>
+            ))}
+          </div>
+          <Select value="" onValueChange={(id) => onChange({ ...scenario, removeWorkerIds: [...scenario.removeWorkerIds, id] })}>
+            <SelectTrigger className="w-64" data-testid={`select-remove-worker-${index}`}><SelectValue placeholder="Take a technician off" /></SelectTrigger>
+            <SelectContent>
+              {remaining.map((w) => <SelectItem key={w.id} value={w.id}>{w.name} ({w.skill})</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <div className="text-sm font-medium mb-2">Add bays</div>
+          <div className="flex flex-wrap gap-2 mb-2">
+            {scenario.addBays.map((bay, i) => (
+              <Badge key={i} variant="secondary" className="gap-1">
+                +{bay.count} {bay.bayType}
+                <X
+                  className="h-3 w-3 cursor-pointer"
+                  onClick={() => onChange({ ...scenario, addBays: scenario.addBays.filter((_, j) => j !== i) })}
+                />
+              </Badge>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Select value={bayType} onValueChange={setBayType}>
+              <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {bayTypes.map((type) => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Input type="number" min={1} max={10} className="w-20" value={bayCount} onChange={(e) => setBayCount(Number(e.target.value))} />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onChange({
+                ...scenario,
+                addBays: [...scenario.addBays, { bayType: bayType as typeof bayTypes[number], count: bayCount }],
+              })}
+              data-testid={`button-add-bay-${index}`}
+            >
+              Add
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <div className="text-sm font-medium mb-2">Opening hours</div>
+            <div className="flex items-center gap-2">
+              <Input
+                type="time"
+                value={scenario.openingHours?.open ?? ''}
+                onChange={(e) => onChange({
+                  ...scenario,
+                  openingHours: e.target.value ? { open: e.target.value, close: scenario.openingHours?.close ?? '19:00' } : undefined,
+                })}
+                data-testid={`input-scenario-open-${index}`}
+              />
+              <span className="text-muted-foreground">to</span>
+              <Input
+                type="time"
+                value={scenario.openingHours?.close ?? ''}
+                onChange={(e) => onChange({
+                  ...scenario,
+                  openingHours: e.target.value ? { open: scenario.openingHours?.open ?? '10:00', close: e.target.value } : undefined,
+                })}
+                data-testid={`input-scenario-close-${index}`}
+              />
+            </div>
+            <div className="text-xs text-muted-foreground mt-1">Empty: the business calendar's hours</div>
+          </div>
+          <div>
+            <div className="text-sm font-medium mb-2">Queue policy</div>
+            <Select
+              value={scenario.queuePolicy ?? 'current'}
+              onValueChange={(value) => onChange({ ...scenario, queuePolicy: value === 'current' ? undefined : value as QueuePolicy })}
+            >
+              <SelectTrigger data-testid={`select-scenario-policy-${index}`}><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="current">Workshop's policy</SelectItem>
+                {queuePolicies.map((policy) => (
+                  <SelectItem key={policy} value={policy}>{queuePolicyDescriptions[policy].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,8 +5,8 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Progress } from "@/components/ui/progress";
-import { Star } from "lucide-react";
-import type { Worker } from "@shared/schema";
+import { Star, LogIn, LogOut } from "lucide-react";
+import type { LeaveRequest, RosterEntry, Worker } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -14,19 +14,42 @@ import { apiRequest } from "@/lib/queryClient";
 import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
 
 export default function Workers() {
   const { data: workers, isLoading } = useQuery<Worker[]>({
     queryKey: ['/api/workers'],
-    refetchInterval: 5000,
     staleTime: 10000,
     refetchOnWindowFocus: false,
   });
 
+  const { user, hasRole } = useAuth();
+  const { toast } = useToast();
+  const isAdmin = hasRole("admin");
+  const canClock = (workerId: string) => isAdmin || (hasRole("technician") && user?.workerId === workerId);
+
+  const { data: roster, isLoading: rosterLoading } = useQuery<RosterEntry[]>({
+    queryKey: ['/api/roster'],
+    staleTime: 30000,
+  });
+
+  const { data: leaveRequests } = useQuery<LeaveRequest[]>({
+    queryKey: ['/api/leave-requests'],
+    staleTime: 30000,
+  });
+
+  const [leaveWorker, setLeaveWorker] = useState<string>(user?.workerId ?? "");
+  const [leaveStart, setLeaveStart] = useState("");
+  const [leaveEnd, setLeaveEnd] = useState("");
+  const [leaveReason, setLeaveReason] = useState("");
+
   const [newName, setNewName] = useState("");
   const [newSkill, setNewSkill] = useState("General");
   const [newExp, setNewExp] = useState<number>(3);
   const [newRating, setNewRating] = useState<number>(4.0);
+  const [newCertifications, setNewCertifications] = useState("");
 
   const createMutation = useMutation({
     mutationFn: async () => {
@@ -35,6 +58,7 @@ export default function Workers() {
         skill: newSkill,
         experienceLevel: newExp,
         rating: newRating,
+        certifications: newCertifications.split(",").map((c) => c.trim()).filter(Boolean),
       });
     },
     onSuccess: () => {
@@ -42,6 +66,7 @@ export default function Workers() {
       setNewSkill("General");
       setNewExp(3);
       setNewRating(4.0);
+      setNewCertifications("");
       queryClient.invalidateQueries({ queryKey: ['/api/workers'] });
     },
   });
@@ -55,6 +80,64 @@ export default function Workers() {
     },
   });
 
+  const clockMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'clock-in' | 'clock-out' }) => {
+      return await apiRequest('POST', `/api/workers/${id}/${action}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/roster'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/workers'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Attendance Not Recorded', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const requestLeaveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<LeaveRequest>('POST', '/api/leave-requests', {
+        workerId: leaveWorker,
+        startDate: leaveStart,
+        endDate: leaveEnd || leaveStart,
+        reason: leaveReason.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      setLeaveStart("");
+      setLeaveEnd("");
+      setLeaveReason("");
+      queryClient.invalidateQueries({ queryKey: ['/api/leave-requests'] });
+      toast({ title: 'Leave Requested', description: 'Waiting for an admin to approve it' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Leave Request Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const decideLeaveMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: string; decision: 'approve' | 'reject' }) => {
+      return await apiRequest<LeaveRequest>('POST', `/api/leave-requests/${id}/${decision}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leave-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/roster'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Update Failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const workerNames = new Map((workers || []).map((w) => [w.id, w.name]));
+  const pendingLeave = (leaveRequests || []).filter((l) => l.status === 'Pending');
+
+  const rosterState = (entry: RosterEntry) => {
+    if (entry.onLeave) return { label: 'On Leave', color: 'bg-amber-100 text-amber-800 border-amber-200' };
+    if (entry.clockedIn) return { label: 'Clocked In', color: 'bg-green-100 text-green-800 border-green-200' };
+    if (entry.onShiftNow) return { label: 'On Shift', color: 'bg-blue-100 text-blue-800 border-blue-200' };
+    if (entry.shifts.length === 0) return { label: 'Day Off', color: 'bg-gray-100 text-gray-500 border-gray-200' };
+    return { label: 'Off Shift', color: 'bg-gray-100 text-gray-800 border-gray-200' };
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'Available':
@@ -135,6 +218,15 @@ export default function Workers() {
               <div className="text-xs text-muted-foreground mb-1">Rating</div>
               <Input type="number" step="0.1" min="1" max="5" value={newRating} onChange={(e) => setNewRating(parseFloat(e.target.value))} />
             </div>
+            <div className="md:col-span-4">
+              <div className="text-xs text-muted-foreground mb-1">Certifications (comma separated)</div>
+              <Input
+                value={newCertifications}
+                onChange={(e) => setNewCertifications(e.target.value)}
+                placeholder="e.g., HVAC Certified, High Voltage Certified"
+                data-testid="input-certifications"
+              />
+            </div>
           </div>
           <div className="mt-4">
             <Button 
@@ -149,6 +241,157 @@ export default function Workers() {
       </Card>
       </motion.div>
 
+      <Card className="rounded-2xl border bg-card shadow">
+        <CardHeader>
+          <CardTitle>Today's Roster</CardTitle>
+          <CardDescription>
+            Shifts, leave and attendance; only technicians on shift are assigned new work
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {rosterLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => <Skeleton key={i} className="h-8 w-full" />)}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Worker</TableHead>
+                    <TableHead>Skill</TableHead>
+                    <TableHead>Shift</TableHead>
+                    <TableHead>Attendance</TableHead>
+                    <TableHead>State</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {roster?.map((entry) => {
+                    const state = rosterState(entry);
+                    return (
+                      <TableRow key={entry.workerId} data-testid={`row-roster-${entry.workerId}`}>
+                        <TableCell className="font-medium">{entry.workerName}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={getSkillColor(entry.skill)}>{entry.skill}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {entry.shifts.length > 0 ? entry.shifts.map((s) => `${s.start}–${s.end}`).join(', ') : '—'}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {entry.attendance.length > 0
+                            ? entry.attendance.map((a) =>
+                                `${format(new Date(a.clockIn), 'HH:mm')}–${a.clockOut ? format(new Date(a.clockOut), 'HH:mm') : 'now'}`,
+                              ).join(', ')
+                            : '—'}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={state.color} data-testid={`badge-roster-${entry.workerId}`}>{state.label}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {canClock(entry.workerId) && (
+                            entry.clockedIn ? (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => clockMutation.mutate({ id: entry.workerId, action: 'clock-out' })}
+                                disabled={clockMutation.isPending}
+                                data-testid={`button-clock-out-${entry.workerId}`}
+                              >
+                                <LogOut className="h-3 w-3 mr-1" /> Clock Out
+                              </Button>
+                            ) : (
+                              <Button
+                                size="sm"
+                                onClick={() => clockMutation.mutate({ id: entry.workerId, action: 'clock-in' })}
+                                disabled={clockMutation.isPending || entry.onLeave}
+                                data-testid={`button-clock-in-${entry.workerId}`}
+                              >
+                                <LogIn className="h-3 w-3 mr-1" /> Clock In
+                              </Button>
+                            )
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="rounded-2xl border bg-card shadow">
+        <CardHeader>
+          <CardTitle>Leave</CardTitle>
+          <CardDescription>Approved leave removes a technician from the roster for those days</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {hasRole("technician") && (
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Worker</div>
+                <Select onValueChange={setLeaveWorker} value={leaveWorker} disabled={!isAdmin}>
+                  <SelectTrigger data-testid="select-leave-worker">
+                    <SelectValue placeholder="Select worker" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {workers?.map((w) => (
+                      <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">From</div>
+                <Input type="date" value={leaveStart} onChange={(e) => setLeaveStart(e.target.value)} data-testid="input-leave-start" />
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">To</div>
+                <Input type="date" value={leaveEnd} min={leaveStart} onChange={(e) => setLeaveEnd(e.target.value)} data-testid="input-leave-end" />
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Reason</div>
+                <Input value={leaveReason} onChange={(e) => setLeaveReason(e.target.value)} placeholder="Optional" />
+              </div>
+              <Button
+                onClick={() => requestLeaveMutation.mutate()}
+                disabled={!leaveWorker || !leaveStart || requestLeaveMutation.isPending}
+                data-testid="button-request-leave"
+              >
+                Request Leave
+              </Button>
+            </div>
+          )}
+          {pendingLeave.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No pending leave requests</p>
+          ) : (
+            <div className="space-y-2">
+              {pendingLeave.map((l) => (
+                <div key={l.id} className="flex items-center justify-between gap-3 rounded-md border p-3" data-testid={`leave-${l.id}`}>
+                  <div className="text-sm">
+                    <span className="font-medium">{workerNames.get(l.workerId) ?? 'Unknown worker'}</span>
+                    <span className="text-muted-foreground"> · {l.startDate === l.endDate ? l.startDate : `${l.startDate} to ${l.endDate}`}</span>
+                    {l.reason && <span className="text-muted-foreground"> · {l.reason}</span>}
+                  </div>
+                  {isAdmin && (
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => decideLeaveMutation.mutate({ id: l.id, decision: 'approve' })} disabled={decideLeaveMutation.isPending}>
+                        Approve
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => decideLeaveMutation.mutate({ id: l.id, decision: 'reject' })} disabled={decideLeaveMutation.isPending}>
+                        Reject
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
        <Card className="rounded-2xl border bg-card shadow">
         <CardHeader>
           <CardTitle>Active Workers</CardTitle>
@@ -175,7 +418,7 @@ export default function Workers() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Worker</TableHead>
-                    <TableHead>Skill</TableHead>
+                    <TableHead>Skills</TableHead>
                     <TableHead>Experience</TableHead>
                     <TableHead>Rating</TableHead>
                     <TableHead>Load</TableHead>
@@ -207,9 +450,24 @@ export default function Workers() {
                         </div>
                       </TableCell>
                       <TableCell>
-                        <Badge variant="outline" className={getSkillColor(worker.skill)} data-testid={`badge-skill-${worker.id}`}>
-                          {worker.skill}
-                        </Badge>
+                        <div className="flex flex-wrap gap-1 max-w-[220px]">
+                          {(worker.skills.length > 0 ? worker.skills : [{ category: worker.skill, proficiency: 3 }]).map((skill) => (
+                            <Badge
+                              key={skill.category}
+                              variant="outline"
+                              className={getSkillColor(skill.category)}
+                              title={`Proficiency ${skill.proficiency}/5`}
+                              data-testid={`badge-skill-${worker.id}-${skill.category}`}
+                            >
+                              {skill.category} {skill.proficiency}/5
+                            </Badge>
+                          ))}
+                        </div>
+                        {worker.certifications.length > 0 && (
+                          <div className="text-xs text-muted-foreground mt-1 max-w-[220px]" data-testid={`text-certifications-${worker.id}`}>
+                            {worker.certifications.join(" · ")}
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell className="text-muted-foreground" data-testid={`text-experience-${worker.id}`}>
                         {worker.experienceLevel} years
@@ -254,7 +512,7 @@ export default function Workers() {
                           variant="destructive" 
                           size="sm" 
                           onClick={() => deleteMutation.mutate(worker.id)} 
-                          disabled={worker.status !== 'Available' || worker.activeJobs.length > 0}
+                          disabled={worker.status === 'Busy' || worker.activeJobs.length > 0}
                           data-testid={`button-delete-${worker.id}`}
                         >
                           Remove
@@ -1,17 +1,40 @@
 import fs from "fs";
 import path from "path";
+import {
+  SERVICE_TIME_FEATURES,
+  encodeCategorical,
+  type ServiceTimeModel,
+} from "../shared/service-time-model";
+import { seedServiceTasks } from "../server/seed";
 
 type Row = Record<string, number | string>;
 
+// Book hours per task in the task catalog, the figures intake sums into baseHours
+const catalogHours = new Map(seedServiceTasks().map((task) => [task.name, task.baseTimeHours]));
+
+// A row may list the job's tasks by name, separated by ";". Their book hours
+// are its baseHours; rows without a task list have none.
+function baseHoursFor(tasks: string | number | undefined): number {
+  if (tasks === undefined || String(tasks).trim() === "") return NaN;
+  return String(tasks).split(";").reduce((sum, name) => {
+    const hours = catalogHours.get(name.trim());
+    if (hours === undefined) throw new Error(`Unknown task "${name.trim()}" in training data`);
+    return sum + hours;
+  }, 0);
+}
+
 function parseArgs() {
   const args = process.argv.slice(2);
   let data = "data/service_times.csv";
+  let out = "models/service-time.json";
   for (let i = 0; i < args.length; i++) {
     const a = args[i];
     if (a.startsWith("--data=")) data = a.split("=")[1];
     else if (a === "--data" && args[i + 1]) data = args[i + 1];
+    else if (a.startsWith("--out=")) out = a.split("=")[1];
+    else if (a === "--out" && args[i + 1]) out = args[i + 1];
   }
-  return { data };
+  return { data, out };
 }
 
 function readCsv(file: string) {
@@ -32,32 +55,29 @@ function readCsv(file: string) {
 }
 
 function mapCategorical(r: Row) {
-  const rustMap: Record<string, number> = { None: 0, Minor: 1, Moderate: 2, Severe: 3 };
-  const damageMap: Record<string, number> = { None: 0, Minor: 1, Moderate: 2, Severe: 3 };
-  const pkgMap: Record<string, number> = { Basic: 0, Standard: 1, Premium: 2 };
-  const approvalMap: Record<string, number> = { Fast: 0, Normal: 1, Slow: 2 };
-  const weatherMap: Record<string, number> = { Clear: 0, Rain: 1, Extreme: 2 };
   const num = (v: any) => {
     const n = Number(v);
     return Number.isFinite(n) ? n : undefined;
   };
+  const cat = (feature: string) => num(r[feature]) ?? encodeCategorical(feature, String(r[feature]));
   return {
+    baseHours: baseHoursFor(r.tasks),
     age: Number(r.age),
     kmSinceLastService: Number(r.kmSinceLastService),
     healthScore: Number(r.healthScore),
     dtcCount: Number(r.dtcCount),
-    rustLevel: num(r.rustLevel) ?? rustMap[String(r.rustLevel)],
-    bodyDamage: num(r.bodyDamage) ?? damageMap[String(r.bodyDamage)],
+    rustLevel: cat("rustLevel"),
+    bodyDamage: cat("bodyDamage"),
     batterySOH: Number(r.batterySOH),
     fluidDegradation: Number(r.fluidDegradation),
     wearTearScore: Number(r.wearTearScore),
     priorServiceCount: Number(r.priorServiceCount),
     telematicsScore: Number(r.telematicsScore),
-    package: num(r.package) ?? pkgMap[String(r.package)],
-    approvalSpeed: num(r.approvalSpeed) ?? approvalMap[String(r.approvalSpeed)],
-    appointmentType: num(r.appointmentType) ?? (String(r.appointmentType) === "Walk-in" ? 1 : 0),
+    package: cat("package"),
+    approvalSpeed: cat("approvalSpeed"),
+    appointmentType: cat("appointmentType"),
     peakHours: Number(r.peakHours),
-    weather: num(r.weather) ?? weatherMap[String(r.weather)],
+    weather: cat("weather"),
     shopLoad: Number(r.shopLoad),
     targetHours: Number(r.targetHours),
   };
@@ -68,7 +88,7 @@ function selectXY(rows: Row[], features: string[], target: string) {
   const y: number[] = [];
   for (const raw of rows) {
     const r = mapCategorical(raw);
-    if (!features.every((f) => f in r)) continue;
+    if (!features.every((f) => Number.isFinite((r as any)[f]))) continue;
     const x = [1, ...features.map((f) => (r as any)[f])];
     X.push(x);
     y.push((r as any)[target]);
@@ -148,26 +168,50 @@ function r2(y: number[], p: number[]) {
   return 1 - ssRes / ssTot;
 }
 
+// Version stamps are sortable so newer artifacts compare greater
+function modelVersion(date: Date) {
+  return `st-${date.toISOString().replace(/[-:T.Z]/g, "").slice(0, 14)}`;
+}
+
 async function main() {
-  const { data } = parseArgs();
+  const { data, out } = parseArgs();
   const { rows } = readCsv(data);
-  const features = [
-    "age","kmSinceLastService","healthScore","dtcCount","rustLevel","bodyDamage",
-    "batterySOH","fluidDegradation","wearTearScore","priorServiceCount","telematicsScore",
-    "package","approvalSpeed","appointmentType","peakHours","weather","shopLoad"
-  ];
+  // baseHours is only learned when the data says which tasks each job had
+  const features = SERVICE_TIME_FEATURES.filter((f) => f !== "baseHours" || rows.some((r) => r.tasks));
   const target = "targetHours";
   const { X, y } = selectXY(rows, features, target);
   if (X.length === 0) {
     console.error("No valid rows parsed from CSV");
     process.exit(1);
   }
-  normalize(X);
+  if (!features.includes("baseHours")) {
+    console.error("warning: no tasks column, so the model cannot see the selected tasks and the server will not use it");
+  }
+  if (X.length <= features.length) {
+    console.error(`warning: ${X.length} rows for ${features.length} features, the fit and its r2 are not meaningful`);
+  }
+  const { means, stds } = normalize(X);
   const w = trainLinearGD(X, y, 0.02, 3000);
   const p = predict(X, w);
   const rm = rmse(y, p);
   const score = r2(y, p);
-  console.log(JSON.stringify({ rows: X.length, rmse: rm, r2: score, weights: w }));
+
+  const trainedAt = new Date();
+  const model: ServiceTimeModel = {
+    version: modelVersion(trainedAt),
+    trainedAt: trainedAt.toISOString(),
+    dataFile: data,
+    target,
+    features,
+    means,
+    stds,
+    weights: w,
+    metrics: { rows: X.length, rmse: rm, r2: score },
+  };
+  const outPath = path.resolve(process.cwd(), out);
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, JSON.stringify(model, null, 2) + "\n");
+  console.log(JSON.stringify({ version: model.version, out, rows: X.length, rmse: rm, r2: score }));
 }
 
-main();
\ No newline at end of file
+main();
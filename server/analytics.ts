@@ -0,0 +1,141 @@
+import {
+  analyticsGroupings,
+  type AnalyticsGrouping,
+  type CompletedService,
+  type RevenueFigures,
+} from "@shared/schema";
+import { localDateTime, type BusinessCalendar } from "@shared/business-calendar";
+import { roundMoney } from "@shared/pricing";
+
+// Longest date range a single analytics request may cover
+const MAX_RANGE_DAYS = 366;
+const DEFAULT_RANGE_DAYS = 30;
+
+export type AnalyticsRange = { from: string; to: string; groupBy: AnalyticsGrouping };
+
+export type RevenueAnalytics = {
+  completedServices: number;
+  averageServiceTime: number;
+  totalRevenue: number;
+  averageTicket: number;
+  labourRevenue: number;
+  partsRevenue: number;
+  otherRevenue: number;
+  groups: (RevenueFigures & { key: string; label: string })[];
+};
+
+// Calendar arithmetic on YYYY-MM-DD strings
+function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+}
+
+// Weeks start on Monday
+function periodKey(date: string, groupBy: "day" | "week" | "month"): string {
+  if (groupBy === "month") return date.slice(0, 7);
+  if (groupBy === "week") return shiftDate(date, -((new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7));
+  return date;
+}
+
+function periodLabel(key: string, groupBy: "day" | "week" | "month"): string {
+  return groupBy === "week" ? `Week of ${key}` : key;
+}
+
+const isPeriod = (groupBy: AnalyticsGrouping): groupBy is "day" | "week" | "month" =>
+  groupBy === "day" || groupBy === "week" || groupBy === "month";
+
+// Reads ?from=&to=&groupBy=. Dates are inclusive days in the workshop
+// timezone; the default is the last 30 days grouped by day.
+export function parseAnalyticsRange(
+  query: Record<string, unknown>,
+  calendar: BusinessCalendar,
+  now: Date,
+): AnalyticsRange | { error: string } {
+  const to = typeof query.to === "string" ? query.to : localDateTime(calendar, now).date;
+  const from = typeof query.from === "string" ? query.from : shiftDate(to, -(DEFAULT_RANGE_DAYS - 1));
+  const groupBy = typeof query.groupBy === "string" ? query.groupBy : "day";
+  const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+  if (!datePattern.test(from) || !datePattern.test(to) || Number.isNaN(Date.parse(from)) || Number.isNaN(Date.parse(to))) {
+    return { error: "from and to must be dates (YYYY-MM-DD)" };
+  }
+  if (from > to) return { error: "from must not be after to" };
+  if (daysBetween(from, to) >= MAX_RANGE_DAYS) return { error: `The range cannot be longer than ${MAX_RANGE_DAYS} days` };
+  if (!(analyticsGroupings as readonly string[]).includes(groupBy)) {
+    return { error: `groupBy must be one of ${analyticsGroupings.join(", ")}` };
+  }
+  return { from, to, groupBy: groupBy as AnalyticsGrouping };
+}
+
+function revenueFigures(records: CompletedService[]): RevenueFigures {
+  const lines = (kind: string) => records
+    .flatMap((r) => r.items)
+    .filter((item) => (item.kind ?? "Other") === kind)
+    .reduce((sum, item) => sum + item.amount, 0);
+  const revenue = roundMoney(records.reduce((sum, r) => sum + r.total, 0));
+  return {
+    services: records.length,
+    revenue,
+    averageTicket: records.length > 0 ? roundMoney(revenue / records.length) : 0,
+    labour: roundMoney(lines("Labour")),
+    parts: roundMoney(lines("Part")),
+    other: roundMoney(lines("Other")),
+    discount: roundMoney(records.reduce((sum, r) => sum + r.discount, 0)),
+    tax: roundMoney(records.reduce((sum, r) => sum + r.tax, 0)),
+  };
+}
+
+// Revenue, ticket size and the labour/parts split of services completed in
+// the range, overall and per group. Time groups cover every period in the
+// range, empty ones included, so charts have no gaps; service types and car
+// models are listed by revenue.
+export function revenueAnalytics(
+  records: CompletedService[],
+  range: AnalyticsRange,
+  calendar: BusinessCalendar,
+): RevenueAnalytics {
+  const dated = records
+    .map((record) => ({ record, date: localDateTime(calendar, new Date(record.completedAt)).date }))
+    .filter(({ date }) => date >= range.from && date <= range.to);
+  const inRange = dated.map(({ record }) => record);
+
+  const buckets = new Map<string, CompletedService[]>();
+  const { groupBy } = range;
+  if (isPeriod(groupBy)) {
+    for (let date = range.from; date <= range.to; date = shiftDate(date, 1)) {
+      buckets.set(periodKey(date, groupBy), []);
+    }
+    for (const { record, date } of dated) buckets.get(periodKey(date, groupBy))!.push(record);
+  } else {
+    for (const record of inRange) {
+      const key = record[groupBy];
+      if (!buckets.has(key)) buckets.set(key, []);
+      buckets.get(key)!.push(record);
+    }
+  }
+
+  const groups = Array.from(buckets.entries()).map(([key, grouped]) => ({
+    key,
+    label: isPeriod(groupBy) ? periodLabel(key, groupBy) : key,
+    ...revenueFigures(grouped),
+  }));
+  if (!isPeriod(groupBy)) groups.sort((a, b) => b.revenue - a.revenue || a.key.localeCompare(b.key));
+
+  const overall = revenueFigures(inRange);
+  return {
+    completedServices: overall.services,
+    averageServiceTime: inRange.length > 0
+      ? inRange.reduce((sum, r) => sum + r.predictedHours, 0) / inRange.length
+      : 0,
+    totalRevenue: overall.revenue,
+    averageTicket: overall.averageTicket,
+    labourRevenue: overall.labour,
+    partsRevenue: overall.parts,
+    otherRevenue: overall.other,
+    groups,
+  };
+}
@@ -0,0 +1,161 @@
+import type { AppointmentSlot, MachineBay, ServiceRequest } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { instantAt, localDateTime } from "@shared/business-calendar";
+import { applyBusinessHours, getBusinessCalendar, isWorkshopOpen } from "./business-hours";
+import { estimateServiceHours } from "./prediction";
+import { primarySkillFor, resolveTasks } from "./intake";
+import { MAX_JOBS_PER_WORKER, hasSkill } from "./crew";
+import { bayMismatch, bayRequirementsFor, isBayCompatible, serviceCapacity, type BayRequirements } from "./bays";
+import { loadRoster, workersOnShift, type RosterSnapshot } from "./roster";
+
+const SLOT_STEP_MINUTES = 30;
+
+export interface AppointmentPlan {
+  predictedHours: number;
+  modelVersion: string;
+  primarySkill: string;
+  bayRequirements: BayRequirements;
+}
+
+// A booking or running service holding a bay and crew between start and end
+interface Occupancy {
+  start: Date;
+  end: Date;
+  skill: string;
+  bayRequirements: BayRequirements;
+}
+
+interface SlotContext {
+  occupancy: Occupancy[];
+  bayCapacity: number;
+  machines: MachineBay[];
+  roster: RosterSnapshot;
+}
+
+// Predicts the duration and crew skill of a request booked for later
+export async function planAppointment(storage: IStorage, request: ServiceRequest): Promise<AppointmentPlan> {
+  const { baseTime, tasks } = await resolveTasks(storage, request.selectedTasks);
+  if (tasks.length === 0) throw new Error("None of the selected tasks are known service tasks");
+  const machines = await storage.getMachines();
+  const bayRequirements = bayRequirementsFor(tasks);
+  const mismatch = bayMismatch(machines, bayRequirements);
+  if (mismatch) throw new Error(mismatch);
+  const machineCount = machines.length;
+  const { hours, modelVersion } = estimateServiceHours(request, {
+    baseTime,
+    // shop load at the booked time is unknown, so plan for an idle workshop
+    activeServiceCount: 0,
+    machineCount,
+  });
+  return { predictedHours: hours, modelVersion, primarySkill: primarySkillFor(tasks), bayRequirements };
+}
+
+async function loadSlotContext(storage: IStorage): Promise<SlotContext> {
+  const now = new Date();
+  const taskSkills = new Map((await storage.getServiceTasks()).map((t) => [t.name, t]));
+  const tasksNamed = (names: string[]) => names.flatMap((name) => taskSkills.get(name) ?? []);
+  const occupancy: Occupancy[] = [];
+
+  for (const service of await storage.getActiveServices()) {
+    const tasks = tasksNamed((service.selectedTasks as string[]) || []);
+    occupancy.push({
+      start: now,
+      end: new Date(service.estimatedCompletion),
+      skill: primarySkillFor(tasks),
+      bayRequirements: bayRequirementsFor(tasks),
+    });
+  }
+  for (const appointment of await storage.getAppointments({ from: new Date(now.getTime() - 24 * 60 * 60 * 1000) })) {
+    if (appointment.status !== "Booked") continue;
+    occupancy.push({
+      start: appointment.scheduledStart,
+      end: appointment.scheduledEnd,
+      skill: appointment.primarySkill,
+      bayRequirements: bayRequirementsFor(tasksNamed(appointment.selectedTasks)),
+    });
+  }
+
+  const machines = await storage.getMachines();
+  return {
+    occupancy,
+    bayCapacity: serviceCapacity(machines),
+    machines,
+    roster: await loadRoster(storage),
+  };
+}
+
+// Free bays and skilled crew for a job starting at `start`, or null when the
+// window overlaps too many bookings. Crew is the technicians rostered on at
+// the start. General jobs can use any technician, so they count against every
+// overlapping job; skilled jobs only against jobs needing the same skill.
+// Overlapping jobs that can only use bays this job also needs take those bays.
+function evaluateSlot(ctx: SlotContext, start: Date, plan: AppointmentPlan): AppointmentSlot | null {
+  const end = applyBusinessHours(start, plan.predictedHours);
+  const overlapping = ctx.occupancy.filter((o) => o.start < end && o.end > start);
+  const onShift = workersOnShift(ctx.roster, start);
+  const skilledWorkers = plan.primarySkill === "General"
+    ? onShift.length
+    : onShift.filter((w) => hasSkill(w, plan.primarySkill)).length;
+  const skilledJobs = plan.primarySkill === "General"
+    ? overlapping.length
+    : overlapping.filter((o) => o.skill === plan.primarySkill).length;
+
+  const compatible = ctx.machines.filter((m) => isBayCompatible(m, plan.bayRequirements));
+  const contending = overlapping.filter((o) => {
+    const usable = ctx.machines.filter((m) => isBayCompatible(m, o.bayRequirements));
+    return usable.length > 0 && usable.every((m) => compatible.includes(m));
+  }).length;
+
+  const freeBays = Math.min(ctx.bayCapacity - overlapping.length, compatible.length - contending);
+  const freeSkilledJobs = skilledWorkers * MAX_JOBS_PER_WORKER - skilledJobs;
+  if (freeBays <= 0 || freeSkilledJobs <= 0) return null;
+  return { start: start.toISOString(), end: end.toISOString(), freeBays, freeSkilledJobs };
+}
+
+// Checks a requested start time; returns the slot or the reason it cannot be booked
+export async function checkSlot(
+  storage: IStorage,
+  start: Date,
+  plan: AppointmentPlan,
+): Promise<{ slot: AppointmentSlot } | { error: string }> {
+  if (start.getTime() < Date.now()) return { error: "Appointments must be in the future" };
+  if (!isWorkshopOpen(start)) return { error: "Appointments must start while the workshop is open" };
+  const slot = evaluateSlot(await loadSlotContext(storage), start, plan);
+  if (!slot) return { error: "No bay or skilled technician is free for that slot" };
+  return { slot };
+}
+
+// Earliest bookable start times on a SLOT_STEP_MINUTES grid, at most
+// `perDay` per day so suggestions spread over the coming days. Days are the
+// workshop's, in its timezone, not the server's.
+export async function suggestSlots(
+  storage: IStorage,
+  plan: AppointmentPlan,
+  options: { from?: Date; days?: number; limit?: number; perDay?: number } = {},
+): Promise<AppointmentSlot[]> {
+  const { days = 7, limit = 6, perDay = 3 } = options;
+  const ctx = await loadSlotContext(storage);
+  const calendar = getBusinessCalendar();
+  const stepMs = SLOT_STEP_MINUTES * 60 * 1000;
+  const from = new Date(Math.max(options.from?.getTime() ?? 0, Date.now()));
+  const local = localDateTime(calendar, from);
+  const lastDay = new Date(`${local.date}T00:00:00Z`);
+  lastDay.setUTCDate(lastDay.getUTCDate() + days);
+  const horizon = instantAt(calendar, lastDay.toISOString().slice(0, 10), local.time);
+
+  const slots: AppointmentSlot[] = [];
+  const perDayCount = new Map<string, number>();
+  let candidate = new Date(Math.ceil(from.getTime() / stepMs) * stepMs);
+  while (candidate < horizon && slots.length < limit) {
+    const dayKey = localDateTime(calendar, candidate).date;
+    if (isWorkshopOpen(candidate) && (perDayCount.get(dayKey) ?? 0) < perDay) {
+      const slot = evaluateSlot(ctx, candidate, plan);
+      if (slot) {
+        slots.push(slot);
+        perDayCount.set(dayKey, (perDayCount.get(dayKey) ?? 0) + 1);
+      }
+    }
+    candidate = new Date(candidate.getTime() + stepMs);
+  }
+  return slots;
+}
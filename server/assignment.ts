@@ -0,0 +1,106 @@
+import { isOnHold, type ActiveService, type ServiceAssignment, type Worker } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { applyBusinessHours } from "./business-hours";
+import { bayOf, bayRequirementsFor, bayUnfitFor } from "./bays";
+import { crewShortfalls, MAX_JOBS_PER_WORKER } from "./crew";
+import { resolveTasks } from "./intake";
+import { remainingWorkHours } from "./lifecycle";
+import { loadRoster, workersOnShift } from "./roster";
+
+export type ReassignmentResult =
+  | { service: ActiveService; workerIds: string[]; bayIds: string[] }
+  | { error: string };
+
+// Swaps the crew of a running (or held) service and/or moves it to another
+// bay. The new crew must be on shift, have room for another job and cover
+// the job's skills and certifications; the bay must suit the tasks and hold
+// the crew. Loads move from the old workers and bay to the new ones, and a
+// running service gets a fresh ETA for the work left. Returns the workers
+// and bays whose load changed.
+export async function reassignService(
+  storage: IStorage,
+  service: ActiveService,
+  assignment: ServiceAssignment,
+  now: Date,
+): Promise<ReassignmentResult> {
+  if (service.status === "Queued") {
+    return { error: "Queued services get their crew and bay when they start" };
+  }
+
+  const machines = await storage.getMachines();
+  const oldBay = bayOf(service, machines);
+  const newBay = assignment.machineId ? machines.find((m) => m.id === assignment.machineId) : oldBay;
+  if (!newBay) return { error: assignment.machineId ? "Machine bay not found" : `${service.assignedMachine} no longer exists` };
+
+  const oldCrew = service.assignedWorkers;
+  const newCrew = Array.from(new Set(assignment.workerIds ?? oldCrew));
+  const crew: Worker[] = [];
+  for (const workerId of newCrew) {
+    const worker = await storage.getWorker(workerId);
+    if (!worker) return { error: `Worker ${workerId} not found` };
+    crew.push(worker);
+  }
+
+  // Only workers joining the job need a free slot and a shift
+  const joining = crew.filter((w) => !oldCrew.includes(w.id));
+  if (joining.length > 0) {
+    const onShift = new Set(workersOnShift(await loadRoster(storage), applyBusinessHours(now, 0)).map((w) => w.id));
+    for (const worker of joining) {
+      if (!onShift.has(worker.id)) return { error: `${worker.name} is not on shift` };
+      if (worker.activeJobs.length >= MAX_JOBS_PER_WORKER) {
+        return { error: `${worker.name} already has ${MAX_JOBS_PER_WORKER} jobs` };
+      }
+    }
+  }
+
+  const { tasks } = await resolveTasks(storage, (service.selectedTasks as string[]) || []);
+  const shortfalls = crewShortfalls(crew, tasks, service.fuelType);
+  if (shortfalls.length > 0) return { error: shortfalls.join("; ") };
+
+  const moving = newBay.id !== oldBay?.id;
+  const unfit = bayUnfitFor(newBay, bayRequirementsFor(tasks), newCrew, {
+    leaving: moving ? [] : oldCrew,
+    movingIn: moving,
+  });
+  if (unfit) return { error: unfit };
+
+  // Workers: leavers give up the job, joiners take it on
+  const leaving = oldCrew.filter((id) => !newCrew.includes(id));
+  for (const workerId of leaving) {
+    const worker = await storage.getWorker(workerId);
+    if (worker) {
+      const newLoad = Math.max(0, worker.loadPercent - (100 / 3));
+      await storage.updateWorkerLoad(workerId, Math.round(newLoad), worker.activeJobs.filter((id) => id !== service.id));
+    }
+  }
+  for (const worker of joining) {
+    const newLoad = Math.min(100, worker.loadPercent + (100 / 3));
+    await storage.updateWorkerLoad(worker.id, Math.round(newLoad), [...worker.activeJobs, service.id]);
+  }
+
+  // Bays: the old crew comes off the old bay and the new crew goes on the new one
+  const bayIds: string[] = [];
+  if (moving && oldBay) {
+    const remaining = oldBay.assignedWorkers.filter((w) => !oldCrew.includes(w));
+    await storage.updateMachineLoad(oldBay.id, Math.max(0, oldBay.currentLoad - 50), remaining);
+    bayIds.push(oldBay.id);
+  }
+  const staying = newBay.assignedWorkers.filter((w) => moving || !oldCrew.includes(w));
+  const newLoad = moving ? Math.min(100, newBay.currentLoad + 50) : newBay.currentLoad;
+  await storage.updateMachineLoad(newBay.id, newLoad, Array.from(new Set([...staying, ...newCrew])));
+  bayIds.push(newBay.id);
+
+  // A held service keeps its paused clock; resuming it sets the ETA
+  const running = !isOnHold(service);
+  const updated = await storage.updateActiveService(service.id, {
+    assignedWorkers: newCrew,
+    assignedMachine: `Bay ${newBay.bayNumber}`,
+    ...(running ? {
+      reportedProgress: service.progress,
+      progressReportedAt: now,
+      estimatedCompletion: applyBusinessHours(now, remainingWorkHours(service)),
+    } : {}),
+  });
+  if (!updated) return { error: "Service not found" };
+  return { service: updated, workerIds: [...leaving, ...joining.map((w) => w.id)], bayIds };
+}
@@ -0,0 +1,245 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express, Request, RequestHandler, Response } from "express";
+import type { IncomingMessage } from "http";
+import session from "express-session";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import fs from "fs";
+import path from "path";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { log } from "./vite";
+import { insertUserSchema, userRoles, type PublicUser, type User as SelectUser, type UserRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: string };
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+async function comparePasswords(supplied: string, stored: string) {
+  const [hashed, salt] = stored.split(".");
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { passwordHash: _omit, ...rest } = user;
+  return rest;
+}
+
+// Requires a logged-in user
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+};
+
+// Requires one of the given roles; admins may do everything
+export function requireRole(...roles: UserRole[]): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (req.user.role !== "admin" && !roles.includes(req.user.role)) {
+      return res.status(403).json({ error: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
+
+// Creates the first admin account on an empty user table. The password comes
+// from ADMIN_PASSWORD; if that is unset one is generated and written to
+// ADMIN_PASSWORD_FILE (admin-password.txt by default), readable only by the
+// server's user, rather than to the log.
+async function ensureAdminUser() {
+  const existing = await storage.getUsers();
+  if (existing.length > 0) return;
+  const username = process.env.ADMIN_USERNAME || "admin";
+  const password = process.env.ADMIN_PASSWORD || randomBytes(9).toString("base64url");
+  if (!process.env.ADMIN_PASSWORD) {
+    // Written before the account exists, so a failed write cannot lock admins out
+    const file = path.resolve(process.cwd(), process.env.ADMIN_PASSWORD_FILE || "admin-password.txt");
+    fs.rmSync(file, { force: true });
+    fs.writeFileSync(file, `${password}\n`, { mode: 0o600, flag: "wx" });
+    log(`created admin user "${username}"; its password is in ${file}, delete the file once you have it`, "auth");
+  }
+  await storage.createUser({
+    username,
+    passwordHash: await hashPassword(password),
+    displayName: "Administrator",
+    role: "admin",
+    workerId: null,
+  });
+}
+
+let sessionMiddleware: RequestHandler | undefined;
+
+// Resolves the staff member behind a raw upgrade request (the WebSocket
+// handshake never passes through the Express middleware stack).
+export function authenticateUpgrade(req: IncomingMessage): Promise<SelectUser | undefined> {
+  return new Promise((resolve) => {
+    if (!sessionMiddleware) return resolve(undefined);
+    sessionMiddleware(req as Request, {} as Response, () => {
+      const userId = (req as Request).session?.passport?.user;
+      if (typeof userId !== "string") return resolve(undefined);
+      storage.getUser(userId).then(resolve, () => resolve(undefined));
+    });
+  });
+}
+
+export async function setupAuth(app: Express) {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    secret = randomBytes(32).toString("hex");
+    log("SESSION_SECRET is not set, sessions will not survive a restart", "auth");
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 1000 * 60 * 60 * 12, // one working day
+    },
+  };
+
+  sessionMiddleware = session(sessionSettings);
+  // Client addresses and HTTPS come from X-Forwarded-* headers only behind a
+  // proxy: TRUST_PROXY takes Express's "trust proxy" value (hop count, IPs or
+  // "false"), and production assumes one proxy hop
+  const trustProxy = process.env.TRUST_PROXY ?? (app.get("env") === "production" ? "1" : "false");
+  if (trustProxy !== "false") {
+    app.set("trust proxy", /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+  }
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.passwordHash))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  await ensureAdminUser();
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) return res.status(401).json({ error: "Invalid username or password" });
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.json({ success: true });
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    res.json(toPublicUser(req.user));
+  });
+
+  // Every other API route needs a session
+  app.use("/api", requireAuth);
+
+  // GET /api/users - List staff accounts
+  app.get("/api/users", requireRole("admin"), async (_req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  // POST /api/users - Create a staff account
+  app.post("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const { username, password, displayName, role, workerId } = req.body || {};
+      if (typeof password !== 'string' || password.length < 8) {
+        return res.status(400).json({ error: "password must be at least 8 characters" });
+      }
+      if (!userRoles.includes(role)) {
+        return res.status(400).json({ error: `role must be one of ${userRoles.join(", ")}` });
+      }
+      const parsed = insertUserSchema.safeParse({
+        username,
+        displayName: displayName || username,
+        role,
+        workerId: workerId ?? null,
+        passwordHash: await hashPassword(password),
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid user" });
+      }
+      if (await storage.getUserByUsername(parsed.data.username)) {
+        return res.status(400).json({ error: "Username already exists" });
+      }
+      const user = await storage.createUser(parsed.data);
+      res.json(toPublicUser(user));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create user" });
+    }
+  });
+
+  // DELETE /api/users/:id - Remove a staff account
+  app.delete("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      if (id === req.user!.id) {
+        return res.status(400).json({ error: "You cannot delete your own account" });
+      }
+      const ok = await storage.deleteUser(id);
+      if (!ok) return res.status(404).json({ error: "User not found" });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete user" });
+    }
+  });
+}
@@ -0,0 +1,97 @@
+import type { ActiveService, MachineBay, ServiceTask } from "@shared/schema";
+
+// Limits on how much work one bay takes at a time
+const MAX_WORKERS_PER_BAY = 3;
+const MAX_BAY_LOAD = 90;
+
+export interface BayRequirements {
+  bayTypes: string[]; // distinct bay types demanded by the tasks (more than one cannot be met)
+  tools: string[];
+}
+
+export function bayRequirementsFor(tasks: ServiceTask[]): BayRequirements {
+  const bayTypes = new Set<string>();
+  const tools = new Set<string>();
+  for (const task of tasks) {
+    if (task.requiredBayType) bayTypes.add(task.requiredBayType);
+    for (const tool of task.requiredTools ?? []) tools.add(tool);
+  }
+  return { bayTypes: Array.from(bayTypes), tools: Array.from(tools) };
+}
+
+export function isBayCompatible(bay: MachineBay, req: BayRequirements): boolean {
+  if (!bay.inService) return false;
+  if (req.bayTypes.some((t) => t !== bay.bayType)) return false;
+  return req.tools.every((tool) => bay.toolsPresent.includes(tool));
+}
+
+function hasRoom(bay: MachineBay): boolean {
+  return bay.assignedWorkers.length < MAX_WORKERS_PER_BAY && bay.currentLoad < MAX_BAY_LOAD;
+}
+
+// Why the bay cannot run the job with the given crew, if it cannot. Workers
+// in `leaving` come off the bay with the change; a bay the job is moving
+// into also needs room for one more service.
+export function bayUnfitFor(
+  bay: MachineBay,
+  req: BayRequirements,
+  crew: string[],
+  options: { leaving: string[]; movingIn: boolean },
+): string | undefined {
+  if (!bay.inService) return `Bay ${bay.bayNumber} is out of service`;
+  const wrongType = req.bayTypes.find((t) => t !== bay.bayType);
+  if (wrongType) return `Bay ${bay.bayNumber} is a ${bay.bayType}; the job needs a ${wrongType}`;
+  const missingTools = req.tools.filter((tool) => !bay.toolsPresent.includes(tool));
+  if (missingTools.length > 0) return `Bay ${bay.bayNumber} has no ${missingTools.join(", ")}`;
+  if (options.movingIn && bay.currentLoad >= MAX_BAY_LOAD) return `Bay ${bay.bayNumber} is fully loaded`;
+  const staying = bay.assignedWorkers.filter((w) => !options.leaving.includes(w));
+  if (new Set([...staying, ...crew]).size > MAX_WORKERS_PER_BAY) {
+    return `Bay ${bay.bayNumber} cannot hold more than ${MAX_WORKERS_PER_BAY} workers`;
+  }
+  return undefined;
+}
+
+// Bays in rotation; each can run one service at a time toward the shop-wide limit
+export function serviceCapacity(machines: MachineBay[]): number {
+  return machines.filter((m) => m.inService).length;
+}
+
+// Services counted against that limit: every one holding a bay, which is all
+// but the queued. Jobs On Hold keep their bay and crew, so they count too.
+export function servicesHoldingBays<S extends Pick<ActiveService, "status">>(services: S[]): S[] {
+  return services.filter((s) => s.status !== "Queued");
+}
+
+// Why no bay in the workshop could ever take the job, however idle it is
+export function bayMismatch(machines: MachineBay[], req: BayRequirements): string | undefined {
+  if (req.bayTypes.length > 1) {
+    return `Selected tasks need different bay types (${req.bayTypes.join(", ")})`;
+  }
+  if (!machines.some((m) => isBayCompatible(m, req))) {
+    const wanted = [req.bayTypes[0] ?? "bay", req.tools.length > 0 ? `with ${req.tools.join(", ")}` : ""]
+      .filter(Boolean)
+      .join(" ");
+    return `No ${wanted} is in service`;
+  }
+  return undefined;
+}
+
+// The bay a running service is in, from its "Bay N" label
+export function bayOf(service: Pick<ActiveService, "assignedMachine">, machines: MachineBay[]): MachineBay | undefined {
+  return machines.find((m) => service.assignedMachine === `Bay ${m.bayNumber}`);
+}
+
+// Least-loaded compatible bay with room, or the reason no bay can take the job
+export function chooseBay(
+  machines: MachineBay[],
+  req: BayRequirements,
+): { bay: MachineBay; reason?: undefined } | { bay?: undefined; reason: string } {
+  const mismatch = bayMismatch(machines, req);
+  if (mismatch) return { reason: mismatch };
+  const compatible = machines.filter((m) => isBayCompatible(m, req));
+  const free = compatible.filter(hasRoom).sort((a, b) => a.currentLoad - b.currentLoad);
+  if (free.length === 0) {
+    return { reason: `All compatible bays are in use (${compatible.map((m) => `Bay ${m.bayNumber}`).join(", ")})` };
+  }
+  return { bay: free[0] };
+}
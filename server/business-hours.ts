@@ -0,0 +1,39 @@
+import {
+  DEFAULT_BUSINESS_CALENDAR,
+  addBusinessHours,
+  businessHoursBetween as calendarHoursBetween,
+  isOpenAt,
+  type BusinessCalendar,
+} from "@shared/business-calendar";
+import type { IStorage } from "./storage";
+
+// Workshop calendar used for every ETA and progress calculation. Loaded from
+// storage at startup and replaced whenever it is edited through the API.
+let calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR;
+
+export async function loadBusinessCalendar(storage: IStorage): Promise<BusinessCalendar> {
+  calendar = await storage.getBusinessCalendar();
+  return calendar;
+}
+
+export function getBusinessCalendar(): BusinessCalendar {
+  return calendar;
+}
+
+export function setBusinessCalendar(next: BusinessCalendar): void {
+  calendar = next;
+}
+
+// Adds `hours` of working time to `start`, skipping the hours the workshop is closed
+export function applyBusinessHours(start: Date, hours: number): Date {
+  return addBusinessHours(calendar, start, hours);
+}
+
+// Working hours elapsed between two instants (0 if `to` is not after `from`)
+export function businessHoursBetween(from: Date, to: Date): number {
+  return calendarHoursBetween(calendar, from, to);
+}
+
+export function isWorkshopOpen(instant: Date): boolean {
+  return isOpenAt(calendar, instant);
+}
@@ -0,0 +1,108 @@
+import type { ServiceTask, ServiceTaskState } from "@shared/schema";
+import { businessHoursBetween } from "./business-hours";
+
+export const taskActions = ["start", "complete", "skip", "reset"] as const;
+export type TaskAction = typeof taskActions[number];
+
+export function buildChecklist(tasks: ServiceTask[]): ServiceTaskState[] {
+  return tasks.map((task) => ({
+    name: task.name,
+    baseTimeHours: task.baseTimeHours,
+    status: "Pending",
+    workerId: null,
+    startedAt: null,
+    completedAt: null,
+    actualMinutes: null,
+  }));
+}
+
+// True once any task has left Pending; from then on the checklist, not the
+// clock, drives the service's progress.
+export function hasChecklistActivity(checklist: ServiceTaskState[]): boolean {
+  return checklist.some((task) => task.status !== "Pending");
+}
+
+// Done work as a share of the tasks' base hours. Skipped tasks drop out of
+// the total rather than counting as done.
+export function checklistProgress(checklist: ServiceTaskState[]): number {
+  const counted = checklist.filter((task) => task.status !== "Skipped");
+  const total = counted.reduce((sum, task) => sum + task.baseTimeHours, 0);
+  if (total <= 0) return checklist.length > 0 ? 100 : 0;
+  const done = counted
+    .filter((task) => task.status === "Done")
+    .reduce((sum, task) => sum + task.baseTimeHours, 0);
+  return Math.floor((done / total) * 100);
+}
+
+// Base hours of the tasks still to do (Pending or In Progress)
+export function remainingChecklistHours(checklist: ServiceTaskState[]): number {
+  return checklist
+    .filter((task) => task.status === "Pending" || task.status === "In Progress")
+    .reduce((sum, task) => sum + task.baseTimeHours, 0);
+}
+
+export type TaskTransitionResult =
+  | { task: ServiceTaskState }
+  | { error: string };
+
+export function transitionTask(
+  task: ServiceTaskState,
+  action: TaskAction,
+  options: { now: Date; workerId?: string | null; actualMinutes?: number },
+): TaskTransitionResult {
+  const { now } = options;
+  switch (action) {
+    case "start":
+      if (task.status !== "Pending") {
+        return { error: `Cannot start a task that is ${task.status.toLowerCase()}` };
+      }
+      return {
+        task: {
+          ...task,
+          status: "In Progress",
+          workerId: options.workerId ?? task.workerId,
+          startedAt: now.toISOString(),
+        },
+      };
+    case "complete": {
+      if (task.status !== "Pending" && task.status !== "In Progress") {
+        return { error: `Cannot complete a task that is ${task.status.toLowerCase()}` };
+      }
+      const startedAt = task.startedAt ?? now.toISOString();
+      const measured = Math.round(businessHoursBetween(new Date(startedAt), now) * 60);
+      return {
+        task: {
+          ...task,
+          status: "Done",
+          workerId: options.workerId ?? task.workerId,
+          startedAt,
+          completedAt: now.toISOString(),
+          actualMinutes: typeof options.actualMinutes === "number" ? options.actualMinutes : measured,
+        },
+      };
+    }
+    case "skip":
+      if (task.status !== "Pending" && task.status !== "In Progress") {
+        return { error: `Cannot skip a task that is ${task.status.toLowerCase()}` };
+      }
+      return {
+        task: {
+          ...task,
+          status: "Skipped",
+          completedAt: now.toISOString(),
+          actualMinutes: null,
+        },
+      };
+    case "reset":
+      return {
+        task: {
+          ...task,
+          status: "Pending",
+          workerId: null,
+          startedAt: null,
+          completedAt: null,
+          actualMinutes: null,
+        },
+      };
+  }
+}
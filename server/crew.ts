@@ -0,0 +1,201 @@
+import type { ServiceRequest, ServiceTask, Worker, WorkerSkill } from "@shared/schema";
+
+// Per-technician job limit used by intake and appointment planning
+export const MAX_JOBS_PER_WORKER = 3;
+export const MAX_CREW_SIZE = 3;
+
+// Certifications the vehicle itself demands of anyone working on it
+const fuelTypeCertifications: Record<string, string[]> = {
+  Electric: ["High Voltage Certified"],
+};
+
+export interface CrewChoice {
+  workerId: string;
+  workerName: string;
+  covers: string[]; // task categories this worker is qualified for in the job
+  reason: string;
+}
+
+export interface CrewPlan {
+  workerIds: string[];
+  explanations: CrewChoice[];
+  warnings: string[];
+  // Why no qualified crew could be formed (workerIds is then empty); the job
+  // waits for one rather than going to a technician who is not qualified
+  shortfall?: string;
+}
+
+// Skills with proficiency; workers created before multi-skill support only
+// carry their primary skill
+export function workerSkills(worker: Worker): WorkerSkill[] {
+  return worker.skills?.length ? worker.skills : [{ category: worker.skill, proficiency: 3 }];
+}
+
+// Proficiency in a category, 0 if the worker lacks it. Every technician can
+// take General work, at least as an assistant.
+export function proficiencyIn(worker: Worker, category: string): number {
+  const skill = workerSkills(worker).find((s) => s.category === category);
+  if (skill) return skill.proficiency;
+  return category === "General" ? 1 : 0;
+}
+
+export function hasSkill(worker: Worker, category: string): boolean {
+  return proficiencyIn(worker, category) > 0;
+}
+
+export function certificationsForFuel(fuelType: string): string[] {
+  return fuelTypeCertifications[fuelType] ?? [];
+}
+
+interface CategoryNeed {
+  category: string;
+  hours: number;
+  certifications: string[];
+}
+
+// Task categories in the job, longest first, with the certifications each needs
+function categoryNeeds(tasks: ServiceTask[]): CategoryNeed[] {
+  const needs = new Map<string, CategoryNeed>();
+  for (const task of tasks) {
+    const need = needs.get(task.category) ?? { category: task.category, hours: 0, certifications: [] };
+    need.hours += task.baseTimeHours;
+    for (const cert of task.requiredCertifications ?? []) {
+      if (!need.certifications.includes(cert)) need.certifications.push(cert);
+    }
+    needs.set(task.category, need);
+  }
+  return Array.from(needs.values()).sort((a, b) => b.hours - a.hours);
+}
+
+function qualifiesFor(worker: Worker, need: CategoryNeed): boolean {
+  return hasSkill(worker, need.category) && need.certifications.every((c) => worker.certifications.includes(c));
+}
+
+function describe(worker: Worker, covers: string[]): string {
+  return covers.map((c) => `${c} ${proficiencyIn(worker, c)}/5`).join(", ");
+}
+
+// Builds a crew from the given (on-shift) workers: first one qualified worker
+// per task category, preferring workers who cover several categories, then
+// extra hands for long jobs up to `size`. Every worker must hold the
+// certifications the fuel type demands. If any category cannot be covered the
+// plan has no workers and says what is missing.
+export function buildCrew(
+  workers: Worker[],
+  tasks: ServiceTask[],
+  request: Pick<ServiceRequest, "fuelType">,
+  size: number,
+): CrewPlan {
+  const explanations: CrewChoice[] = [];
+  const fuelCerts = certificationsForFuel(request.fuelType);
+  const withCapacity = workers.filter((w) => w.activeJobs.length < MAX_JOBS_PER_WORKER);
+  const eligible = withCapacity.filter((w) => fuelCerts.every((c) => w.certifications.includes(c)));
+
+  const unstaffed = (...reasons: string[]): CrewPlan =>
+    ({ workerIds: [], explanations: [], warnings: reasons, shortfall: reasons.join("; ") });
+
+  if (workers.length === 0) return unstaffed("No technicians are on shift");
+  if (withCapacity.length === 0) return unstaffed("All workers are at maximum capacity");
+  if (eligible.length === 0) {
+    return unstaffed(`No available technician holds ${fuelCerts.join(", ")} for ${request.fuelType} vehicles`);
+  }
+
+  const allNeeds = categoryNeeds(tasks);
+  // General work is covered by whoever else is on the crew unless it is the whole job
+  const needs = allNeeds.some((n) => n.category !== "General")
+    ? allNeeds.filter((n) => n.category !== "General" || n.certifications.length > 0)
+    : allNeeds;
+  const chosen = new Set<string>();
+  const coveredBy = (worker: Worker) => allNeeds.filter((n) => qualifiesFor(worker, n)).map((n) => n.category);
+  const byLoadThenRating = (a: Worker, b: Worker) =>
+    a.loadPercent !== b.loadPercent ? a.loadPercent - b.loadPercent : b.rating - a.rating;
+
+  // Cover each category in turn, longest first
+  const uncovered = new Set(needs.map((n) => n.category));
+  for (const need of needs) {
+    if (!uncovered.has(need.category)) continue;
+    if (chosen.size >= MAX_CREW_SIZE) break;
+    const remaining = (w: Worker) => needs.filter((n) => uncovered.has(n.category) && qualifiesFor(w, n)).length;
+    const candidate = eligible
+      .filter((w) => !chosen.has(w.id) && qualifiesFor(w, need))
+      .sort((a, b) =>
+        remaining(b) - remaining(a)
+        || proficiencyIn(b, need.category) - proficiencyIn(a, need.category)
+        || byLoadThenRating(a, b))[0];
+    if (!candidate) continue;
+
+    chosen.add(candidate.id);
+    const covers = needs.filter((n) => uncovered.has(n.category) && qualifiesFor(candidate, n)).map((n) => n.category);
+    for (const category of covers) uncovered.delete(category);
+    const certs = Array.from(new Set([
+      ...fuelCerts,
+      ...needs.filter((n) => covers.includes(n.category)).flatMap((n) => n.certifications),
+    ]));
+    explanations.push({
+      workerId: candidate.id,
+      workerName: candidate.name,
+      covers: coveredBy(candidate),
+      reason: `Covers ${describe(candidate, covers)}${certs.length > 0 ? `; holds ${certs.join(", ")}` : ""}`,
+    });
+  }
+
+  if (uncovered.size > 0) {
+    return unstaffed(...Array.from(uncovered).map((category) => {
+      const need = needs.find((n) => n.category === category)!;
+      const certs = need.certifications.length > 0 ? ` with ${need.certifications.join(", ")}` : "";
+      return `No available ${category} technician${certs} is on shift`;
+    }));
+  }
+
+  // Extra hands for long jobs, strongest in the longest task's category first
+  const lead = allNeeds[0]?.category ?? "General";
+  const helpers = eligible
+    .filter((w) => !chosen.has(w.id) && allNeeds.some((n) => n.category === lead && qualifiesFor(w, n)))
+    .sort((a, b) => proficiencyIn(b, lead) - proficiencyIn(a, lead) || byLoadThenRating(a, b));
+  for (const helper of helpers) {
+    if (chosen.size >= Math.min(size, MAX_CREW_SIZE)) break;
+    chosen.add(helper.id);
+    explanations.push({
+      workerId: helper.id,
+      workerName: helper.name,
+      covers: coveredBy(helper),
+      reason: `Extra ${lead} hand for a long job (${lead} ${proficiencyIn(helper, lead)}/5, ${helper.loadPercent}% load)`,
+    });
+  }
+
+  // No known tasks to match against: the least-loaded technician takes it
+  if (chosen.size === 0) {
+    const fallback = [...eligible].sort(byLoadThenRating)[0];
+    chosen.add(fallback.id);
+    explanations.push({
+      workerId: fallback.id,
+      workerName: fallback.name,
+      covers: coveredBy(fallback),
+      reason: `Least-loaded on shift (${fallback.loadPercent}% load)`,
+    });
+  }
+
+  return { workerIds: Array.from(chosen), explanations, warnings: [] };
+}
+
+// What a hand-picked crew lacks for the job: a task category nobody on it is
+// qualified for, or a certification the vehicle demands of everyone on it
+export function crewShortfalls(crew: Worker[], tasks: ServiceTask[], fuelType: string): string[] {
+  const shortfalls: string[] = [];
+  const fuelCerts = certificationsForFuel(fuelType);
+  for (const worker of crew) {
+    const missing = fuelCerts.filter((c) => !worker.certifications.includes(c));
+    if (missing.length > 0) shortfalls.push(`${worker.name} does not hold ${missing.join(", ")} for ${fuelType} vehicles`);
+  }
+  // General work is covered by whoever else is on the crew unless it is the whole job
+  const allNeeds = categoryNeeds(tasks);
+  const needs = allNeeds.some((n) => n.category !== "General")
+    ? allNeeds.filter((n) => n.category !== "General" || n.certifications.length > 0)
+    : allNeeds;
+  for (const need of needs) {
+    if (crew.some((w) => qualifiesFor(w, need))) continue;
+    const certs = need.certifications.length > 0 ? ` with ${need.certifications.join(", ")}` : "";
+    shortfalls.push(`Nobody on the crew is a ${need.category} technician${certs}`);
+  }
+  return shortfalls;
+}
@@ -0,0 +1,905 @@
+import { randomUUID } from "crypto";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import { and, asc, count, desc, eq, gte, inArray, isNull, lt, ne, sql } from "drizzle-orm";
+import {
+  users,
+  customers,
+  vehicles,
+  appointments,
+  workers,
+  workerShifts,
+  attendanceRecords,
+  leaveRequests,
+  machineBays,
+  inventory,
+  stockMovements,
+  partReservations,
+  suppliers,
+  purchaseOrders,
+  serviceTasks,
+  activeServices,
+  completedServices,
+  invoiceItems,
+  payments,
+  cancelledServices,
+  workshopSettings,
+  normalizeCarNumber,
+  letterheadSchema,
+  DEFAULT_LETTERHEAD,
+} from "@shared/schema";
+import type {
+  User,
+  InsertUser,
+  Customer,
+  InsertCustomer,
+  Vehicle,
+  InsertVehicle,
+  Appointment,
+  InsertAppointment,
+  Worker,
+  InsertWorker,
+  WorkerShift,
+  InsertWorkerShift,
+  AttendanceRecord,
+  LeaveRequest,
+  InsertLeaveRequest,
+  MachineBay,
+  InsertMachineBay,
+  Inventory,
+  InsertInventory,
+  StockMovement,
+  InsertStockMovement,
+  PartReceipt,
+  PartReservation,
+  InsertPartReservation,
+  ReservationStatus,
+  Supplier,
+  InsertSupplier,
+  PurchaseOrder,
+  InsertPurchaseOrder,
+  PurchaseOrderStatus,
+  ServiceTask,
+  ActiveService,
+  InsertActiveService,
+  CompletedService,
+  NewCompletedService,
+  CancelledService,
+  InsertCancelledService,
+  InvoiceItem,
+  Letterhead,
+  Payment,
+  InsertPayment,
+} from "@shared/schema";
+import { DEFAULT_BUSINESS_CALENDAR, businessCalendarSchema, type BusinessCalendar } from "@shared/business-calendar";
+import { DEFAULT_PRICE_LIST, priceListSchema, type PriceList } from "@shared/pricing";
+import {
+  DEFAULT_QUEUE_WEIGHTS,
+  queuePolicies,
+  queueWeightsSchema,
+  type QueuePolicy,
+  type QueueWeights,
+} from "@shared/queue-policy";
+import type { IStorage } from "./storage";
+import type { Database } from "./db";
+import { seedWorkers, seedMachines, seedInventory, seedServiceTasks, seedSuppliers, openingBalance } from "./seed";
+
+const PostgresSessionStore = connectPg(session);
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// Payments less refunds on a completed service, summed from the payments table.
+// The record's id is spelled out because drizzle leaves columns unqualified in
+// single-table selects, where "id" would resolve to the payment's.
+const amountPaidSql = sql<number>`(select coalesce(round(sum(case when p.kind = 'Refund' then -p.amount else p.amount end)::numeric, 2), 0)::float8 from payments p where p.completed_service_id = "completed_services"."id")`;
+
+// Appends to the ledger and recomputes the item's on-hand quantity from it
+async function appendStockMovement(tx: Transaction, movement: InsertStockMovement): Promise<StockMovement> {
+  const [created] = await tx.insert(stockMovements).values({ ...movement, id: randomUUID() }).returning();
+  await tx.update(inventory).set({
+    quantity: sql`(select coalesce(sum(m.quantity), 0) from stock_movements m where m.inventory_id = ${movement.inventoryId})`,
+  }).where(eq(inventory.id, movement.inventoryId));
+  return created;
+}
+
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+  readonly ready: Promise<void>;
+
+  constructor(private db: Database) {
+    this.sessionStore = new PostgresSessionStore({ pool: db.$client, createTableIfMissing: true });
+    this.ready = this.initializeData();
+  }
+
+  // Seed an empty database with the same defaults MemStorage starts with
+  private async initializeData() {
+    const [{ value: workerCount }] = await this.db.select({ value: count() }).from(workers);
+    if (workerCount === 0) {
+      await this.db.transaction(async (tx) => {
+        await tx.insert(workers).values(seedWorkers());
+        await tx.insert(machineBays).values(seedMachines());
+        await tx.insert(inventory).values(seedInventory()).onConflictDoNothing();
+        await tx.insert(serviceTasks).values(seedServiceTasks());
+        await tx.insert(suppliers).values(seedSuppliers()).onConflictDoNothing();
+      });
+    }
+    await this.backfillOpeningBalances();
+  }
+
+  // Stock recorded before the movement ledger existed becomes an opening balance
+  private async backfillOpeningBalances() {
+    const unledgered = await this.db.select().from(inventory)
+      .where(and(
+        ne(inventory.quantity, 0),
+        sql`not exists (select 1 from stock_movements m where m.inventory_id = ${inventory.id})`,
+      ));
+    if (unledgered.length > 0) {
+      await this.db.insert(stockMovements).values(unledgered.map(openingBalance));
+    }
+  }
+
+  // Users
+  async getUsers(): Promise<User[]> {
+    await this.ready;
+    return this.db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    await this.ready;
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    await this.ready;
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    await this.ready;
+    const [created] = await this.db.insert(users).values({
+      id: randomUUID(),
+      ...user,
+      workerId: user.workerId ?? null,
+    }).returning();
+    return created;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    await this.ready;
+    const deleted = await this.db.delete(users).where(eq(users.id, id)).returning({ id: users.id });
+    return deleted.length > 0;
+  }
+
+  // Customers
+  async getCustomers(): Promise<Customer[]> {
+    await this.ready;
+    return this.db.select().from(customers).orderBy(asc(customers.name));
+  }
+
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    await this.ready;
+    const [customer] = await this.db.select().from(customers).where(eq(customers.id, id));
+    return customer;
+  }
+
+  async getCustomerByPhone(phone: string): Promise<Customer | undefined> {
+    await this.ready;
+    const [customer] = await this.db.select().from(customers).where(eq(customers.phone, phone));
+    return customer;
+  }
+
+  async createCustomer(customer: InsertCustomer): Promise<Customer> {
+    await this.ready;
+    const [created] = await this.db.insert(customers).values({
+      id: randomUUID(),
+      name: customer.name,
+      phone: customer.phone,
+      email: customer.email ?? null,
+      tier: customer.tier ?? "Standard",
+    }).returning();
+    return created;
+  }
+
+  async updateCustomer(id: string, updates: Partial<InsertCustomer>): Promise<Customer | undefined> {
+    await this.ready;
+    if (Object.keys(updates).length === 0) return this.getCustomer(id);
+    const [updated] = await this.db.update(customers).set(updates).where(eq(customers.id, id)).returning();
+    return updated;
+  }
+
+  // Vehicles
+  async getVehicles(): Promise<Vehicle[]> {
+    await this.ready;
+    return this.db.select().from(vehicles).orderBy(asc(vehicles.carNumber));
+  }
+
+  async getVehicle(id: string): Promise<Vehicle | undefined> {
+    await this.ready;
+    const [vehicle] = await this.db.select().from(vehicles).where(eq(vehicles.id, id));
+    return vehicle;
+  }
+
+  async getVehicleByCarNumber(carNumber: string): Promise<Vehicle | undefined> {
+    await this.ready;
+    const [vehicle] = await this.db.select().from(vehicles).where(eq(vehicles.carNumber, normalizeCarNumber(carNumber)));
+    return vehicle;
+  }
+
+  async createVehicle(vehicle: InsertVehicle): Promise<Vehicle> {
+    await this.ready;
+    const [created] = await this.db.insert(vehicles).values({
+      ...vehicle,
+      id: randomUUID(),
+      carNumber: normalizeCarNumber(vehicle.carNumber),
+      vin: vehicle.vin ?? null,
+      customerId: vehicle.customerId ?? null,
+    }).returning();
+    return created;
+  }
+
+  async updateVehicle(id: string, updates: Partial<InsertVehicle>): Promise<Vehicle | undefined> {
+    await this.ready;
+    const set = updates.carNumber ? { ...updates, carNumber: normalizeCarNumber(updates.carNumber) } : updates;
+    if (Object.keys(set).length === 0) return this.getVehicle(id);
+    const [updated] = await this.db.update(vehicles).set(set).where(eq(vehicles.id, id)).returning();
+    return updated;
+  }
+
+  // Appointments
+  async getAppointments(range: { from?: Date; to?: Date } = {}): Promise<Appointment[]> {
+    await this.ready;
+    return this.db.select().from(appointments)
+      .where(and(
+        range.from ? gte(appointments.scheduledStart, range.from) : undefined,
+        range.to ? lt(appointments.scheduledStart, range.to) : undefined,
+      ))
+      .orderBy(asc(appointments.scheduledStart));
+  }
+
+  async getAppointment(id: string): Promise<Appointment | undefined> {
+    await this.ready;
+    const [appointment] = await this.db.select().from(appointments).where(eq(appointments.id, id));
+    return appointment;
+  }
+
+  async createAppointment(appointment: InsertAppointment): Promise<Appointment> {
+    await this.ready;
+    const [created] = await this.db.insert(appointments).values({ ...appointment, id: randomUUID() }).returning();
+    return created;
+  }
+
+  async updateAppointment(id: string, updates: Partial<InsertAppointment>): Promise<Appointment | undefined> {
+    await this.ready;
+    if (Object.keys(updates).length === 0) return this.getAppointment(id);
+    const [updated] = await this.db.update(appointments).set(updates).where(eq(appointments.id, id)).returning();
+    return updated;
+  }
+
+  // Workers
+  async getWorkers(): Promise<Worker[]> {
+    await this.ready;
+    return this.db.select().from(workers);
+  }
+
+  async getWorker(id: string): Promise<Worker | undefined> {
+    await this.ready;
+    const [worker] = await this.db.select().from(workers).where(eq(workers.id, id));
+    return worker;
+  }
+
+  async getWorkersBySkill(skill: string): Promise<Worker[]> {
+    await this.ready;
+    return this.db.select().from(workers).where(eq(workers.skill, skill));
+  }
+
+  async createWorker(worker: InsertWorker): Promise<Worker> {
+    await this.ready;
+    const [created] = await this.db.insert(workers).values({
+      id: randomUUID(),
+      name: worker.name,
+      skill: worker.skill,
+      skills: worker.skills?.length ? worker.skills : [{ category: worker.skill, proficiency: 3 }],
+      experienceLevel: worker.experienceLevel,
+      certifications: worker.certifications ?? [],
+      rating: worker.rating ?? 4.0,
+      loadPercent: 0,
+      activeJobs: [],
+      status: 'Available',
+    }).returning();
+    return created;
+  }
+
+  async deleteWorker(id: string): Promise<boolean> {
+    await this.ready;
+    const deleted = await this.db.delete(workers).where(eq(workers.id, id)).returning({ id: workers.id });
+    return deleted.length > 0;
+  }
+
+  async updateWorkerLoad(id: string, loadPercent: number, activeJobs: string[]): Promise<void> {
+    await this.ready;
+    await this.db.update(workers).set({ loadPercent, activeJobs }).where(eq(workers.id, id));
+    // clocked-out workers stay Offline until they clock in again
+    await this.db.update(workers)
+      .set({ status: activeJobs.length === 0 ? "Available" : "Busy" })
+      .where(and(eq(workers.id, id), ne(workers.status, "Offline")));
+  }
+
+  async updateWorkerStatus(id: string, status: string): Promise<void> {
+    await this.ready;
+    await this.db.update(workers).set({ status }).where(eq(workers.id, id));
+  }
+
+  async updateWorkerQualifications(id: string, updates: Pick<Worker, "skill" | "skills" | "certifications">): Promise<Worker | undefined> {
+    await this.ready;
+    const [updated] = await this.db.update(workers).set(updates).where(eq(workers.id, id)).returning();
+    return updated;
+  }
+
+  // Rosters
+  async getWorkerShifts(workerId?: string): Promise<WorkerShift[]> {
+    await this.ready;
+    return this.db.select().from(workerShifts)
+      .where(workerId ? eq(workerShifts.workerId, workerId) : undefined)
+      .orderBy(asc(workerShifts.start));
+  }
+
+  async setWorkerShifts(workerId: string, shifts: InsertWorkerShift[]): Promise<WorkerShift[]> {
+    await this.ready;
+    await this.db.transaction(async (tx) => {
+      await tx.delete(workerShifts).where(eq(workerShifts.workerId, workerId));
+      if (shifts.length > 0) {
+        await tx.insert(workerShifts).values(shifts.map((s) => ({ ...s, id: randomUUID(), workerId })));
+      }
+    });
+    return this.getWorkerShifts(workerId);
+  }
+
+  async getAttendance(range: { from?: Date; to?: Date } = {}): Promise<AttendanceRecord[]> {
+    await this.ready;
+    return this.db.select().from(attendanceRecords)
+      .where(and(
+        range.from ? gte(attendanceRecords.clockIn, range.from) : undefined,
+        range.to ? lt(attendanceRecords.clockIn, range.to) : undefined,
+      ))
+      .orderBy(asc(attendanceRecords.clockIn));
+  }
+
+  async getOpenAttendance(workerId: string): Promise<AttendanceRecord | undefined> {
+    await this.ready;
+    const [row] = await this.db.select().from(attendanceRecords)
+      .where(and(eq(attendanceRecords.workerId, workerId), isNull(attendanceRecords.clockOut)));
+    return row;
+  }
+
+  async clockIn(workerId: string, at: Date): Promise<AttendanceRecord> {
+    await this.ready;
+    const [created] = await this.db.insert(attendanceRecords)
+      .values({ id: randomUUID(), workerId, clockIn: at })
+      .returning();
+    return created;
+  }
+
+  async clockOut(workerId: string, at: Date): Promise<AttendanceRecord | undefined> {
+    await this.ready;
+    const [updated] = await this.db.update(attendanceRecords)
+      .set({ clockOut: at })
+      .where(and(eq(attendanceRecords.workerId, workerId), isNull(attendanceRecords.clockOut)))
+      .returning();
+    return updated;
+  }
+
+  async getLeaveRequests(): Promise<LeaveRequest[]> {
+    await this.ready;
+    return this.db.select().from(leaveRequests).orderBy(asc(leaveRequests.startDate));
+  }
+
+  async getLeaveRequest(id: string): Promise<LeaveRequest | undefined> {
+    await this.ready;
+    const [row] = await this.db.select().from(leaveRequests).where(eq(leaveRequests.id, id));
+    return row;
+  }
+
+  async createLeaveRequest(request: InsertLeaveRequest): Promise<LeaveRequest> {
+    await this.ready;
+    const [created] = await this.db.insert(leaveRequests).values({ ...request, id: randomUUID() }).returning();
+    return created;
+  }
+
+  async updateLeaveRequest(id: string, updates: Partial<InsertLeaveRequest>): Promise<LeaveRequest | undefined> {
+    await this.ready;
+    const [updated] = await this.db.update(leaveRequests).set(updates).where(eq(leaveRequests.id, id)).returning();
+    return updated;
+  }
+
+  // Machines
+  async getMachines(): Promise<MachineBay[]> {
+    await this.ready;
+    return this.db.select().from(machineBays).orderBy(asc(machineBays.bayNumber));
+  }
+
+  async getMachine(id: string): Promise<MachineBay | undefined> {
+    await this.ready;
+    const [machine] = await this.db.select().from(machineBays).where(eq(machineBays.id, id));
+    return machine;
+  }
+
+  async createMachine(machine: InsertMachineBay): Promise<MachineBay> {
+    await this.ready;
+    const [created] = await this.db.insert(machineBays).values({ ...machine, id: randomUUID() }).returning();
+    return created;
+  }
+
+  async updateMachine(id: string, updates: Partial<InsertMachineBay>): Promise<MachineBay | undefined> {
+    await this.ready;
+    const [updated] = await this.db.update(machineBays).set(updates).where(eq(machineBays.id, id)).returning();
+    return updated;
+  }
+
+  async deleteMachine(id: string): Promise<boolean> {
+    await this.ready;
+    const deleted = await this.db.delete(machineBays).where(eq(machineBays.id, id)).returning({ id: machineBays.id });
+    return deleted.length > 0;
+  }
+
+  async updateMachineLoad(id: string, currentLoad: number, assignedWorkers: string[]): Promise<void> {
+    await this.ready;
+    await this.db.update(machineBays).set({
+      currentLoad,
+      assignedWorkers,
+      isAvailable: assignedWorkers.length < 3,
+    }).where(eq(machineBays.id, id));
+  }
+
+  // Inventory
+  async getInventory(options: { includeDiscontinued?: boolean } = {}): Promise<Inventory[]> {
+    await this.ready;
+    if (options.includeDiscontinued) return this.db.select().from(inventory);
+    return this.db.select().from(inventory).where(isNull(inventory.discontinuedAt));
+  }
+
+  async getInventoryItem(partName: string): Promise<Inventory | undefined> {
+    await this.ready;
+    const [item] = await this.db.select().from(inventory)
+      .where(and(eq(inventory.partName, partName), isNull(inventory.discontinuedAt)));
+    return item;
+  }
+
+  async updateReservedStock(partName: string, reserved: number): Promise<void> {
+    await this.ready;
+    await this.db.update(inventory).set({ reserved }).where(eq(inventory.partName, partName));
+  }
+
+  async createInventoryItem(item: InsertInventory): Promise<Inventory> {
+    await this.ready;
+    // A discontinued part of the same name is listed again, with its ledger
+    const [exists] = await this.db.select().from(inventory).where(eq(inventory.partName, item.partName));
+    if (exists) {
+      const [updated] = await this.db.update(inventory).set({
+        minimumStock: item.minimumStock ?? exists.minimumStock,
+        discontinuedAt: null,
+      }).where(eq(inventory.id, exists.id)).returning();
+      return updated;
+    }
+    const [created] = await this.db.insert(inventory).values({
+      id: randomUUID(),
+      partName: item.partName,
+      minimumStock: item.minimumStock ?? 5,
+    }).returning();
+    return created;
+  }
+
+  async updateInventoryItem(id: string, updates: Partial<InsertInventory>): Promise<Inventory | undefined> {
+    await this.ready;
+    const set: Partial<InsertInventory> = {};
+    if (updates.partName) set.partName = updates.partName;
+    if (typeof updates.minimumStock === 'number') set.minimumStock = updates.minimumStock;
+    if (Object.keys(set).length === 0) {
+      const [item] = await this.db.select().from(inventory).where(eq(inventory.id, id));
+      return item;
+    }
+    const [updated] = await this.db.update(inventory).set(set).where(eq(inventory.id, id)).returning();
+    return updated;
+  }
+
+  async discontinueInventoryItem(id: string): Promise<Inventory | undefined> {
+    await this.ready;
+    const [item] = await this.db.update(inventory).set({ discontinuedAt: new Date() })
+      .where(and(eq(inventory.id, id), isNull(inventory.discontinuedAt))).returning();
+    return item;
+  }
+
+  // Stock ledger
+  async getStockMovements(inventoryId: string): Promise<StockMovement[]> {
+    await this.ready;
+    return this.db.select().from(stockMovements)
+      .where(eq(stockMovements.inventoryId, inventoryId))
+      .orderBy(desc(stockMovements.createdAt));
+  }
+
+  async recordStockMovement(movement: InsertStockMovement): Promise<StockMovement> {
+    await this.ready;
+    return this.db.transaction((tx) => appendStockMovement(tx, movement));
+  }
+
+  // Part reservations
+  async getPartReservations(filter: { serviceId?: string; taskName?: string; partName?: string; statuses?: ReservationStatus[] } = {}): Promise<PartReservation[]> {
+    await this.ready;
+    const conditions = [
+      filter.serviceId ? eq(partReservations.serviceId, filter.serviceId) : undefined,
+      filter.taskName ? eq(partReservations.taskName, filter.taskName) : undefined,
+      filter.partName ? eq(partReservations.partName, filter.partName) : undefined,
+      filter.statuses ? inArray(partReservations.status, filter.statuses) : undefined,
+    ];
+    return this.db.select().from(partReservations)
+      .where(and(...conditions))
+      .orderBy(asc(partReservations.createdAt));
+  }
+
+  async createPartReservation(reservation: InsertPartReservation): Promise<PartReservation> {
+    await this.ready;
+    const [created] = await this.db.insert(partReservations).values({ ...reservation, id: randomUUID() }).returning();
+    return created;
+  }
+
+  async updatePartReservation(id: string, updates: Partial<InsertPartReservation>): Promise<PartReservation | undefined> {
+    await this.ready;
+    const [updated] = await this.db.update(partReservations).set(updates).where(eq(partReservations.id, id)).returning();
+    return updated;
+  }
+
+  // Suppliers
+  async getSuppliers(): Promise<Supplier[]> {
+    await this.ready;
+    return this.db.select().from(suppliers).orderBy(asc(suppliers.name));
+  }
+
+  async getSupplier(id: string): Promise<Supplier | undefined> {
+    await this.ready;
+    const [supplier] = await this.db.select().from(suppliers).where(eq(suppliers.id, id));
+    return supplier;
+  }
+
+  async createSupplier(supplier: InsertSupplier): Promise<Supplier> {
+    await this.ready;
+    const [created] = await this.db.insert(suppliers).values({ ...supplier, id: randomUUID() }).returning();
+    return created;
+  }
+
+  async updateSupplier(id: string, updates: Partial<InsertSupplier>): Promise<Supplier | undefined> {
+    await this.ready;
+    if (Object.keys(updates).length === 0) return this.getSupplier(id);
+    const [updated] = await this.db.update(suppliers).set(updates).where(eq(suppliers.id, id)).returning();
+    return updated;
+  }
+
+  async deleteSupplier(id: string): Promise<boolean> {
+    await this.ready;
+    const deleted = await this.db.delete(suppliers).where(eq(suppliers.id, id)).returning({ id: suppliers.id });
+    return deleted.length > 0;
+  }
+
+  // Purchase orders
+  async getPurchaseOrders(filter: { supplierId?: string; statuses?: PurchaseOrderStatus[] } = {}): Promise<PurchaseOrder[]> {
+    await this.ready;
+    const conditions = [
+      filter.supplierId ? eq(purchaseOrders.supplierId, filter.supplierId) : undefined,
+      filter.statuses ? inArray(purchaseOrders.status, filter.statuses) : undefined,
+    ];
+    return this.db.select().from(purchaseOrders)
+      .where(and(...conditions))
+      .orderBy(desc(purchaseOrders.orderNumber));
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined> {
+    await this.ready;
+    const [order] = await this.db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+    return order;
+  }
+
+  async createPurchaseOrder(order: InsertPurchaseOrder): Promise<PurchaseOrder> {
+    await this.ready;
+    const [created] = await this.db.insert(purchaseOrders).values({ ...order, id: randomUUID() }).returning();
+    return created;
+  }
+
+  async updatePurchaseOrder(id: string, updates: Partial<InsertPurchaseOrder>): Promise<PurchaseOrder | undefined> {
+    await this.ready;
+    const [updated] = await this.db.update(purchaseOrders).set(updates).where(eq(purchaseOrders.id, id)).returning();
+    return updated;
+  }
+
+  async receivePurchaseOrder(id: string, receipts: PartReceipt[], receivedAt: Date): Promise<PurchaseOrder | undefined> {
+    await this.ready;
+    return this.db.transaction(async (tx) => {
+      // Claiming the order first means a concurrent receive finds nothing to post
+      const [received] = await tx.update(purchaseOrders)
+        .set({ status: "Received", receivedAt })
+        .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.status, "Sent")))
+        .returning();
+      if (!received) return undefined;
+      for (const { partName, ...receipt } of receipts) {
+        // Parts not stocked yet are listed, discontinued ones listed again
+        const [item] = await tx.insert(inventory).values({ id: randomUUID(), partName })
+          .onConflictDoUpdate({ target: inventory.partName, set: { discontinuedAt: null } })
+          .returning();
+        await appendStockMovement(tx, { ...receipt, inventoryId: item.id });
+      }
+      return received;
+    });
+  }
+
+  // Service Tasks
+  async getServiceTasks(): Promise<ServiceTask[]> {
+    await this.ready;
+    return this.db.select().from(serviceTasks);
+  }
+
+  async getServiceTask(name: string): Promise<ServiceTask | undefined> {
+    await this.ready;
+    const [task] = await this.db.select().from(serviceTasks).where(eq(serviceTasks.name, name));
+    return task;
+  }
+
+  // Active Services
+  async getActiveServices(): Promise<ActiveService[]> {
+    await this.ready;
+    return this.db.select().from(activeServices).orderBy(asc(activeServices.actualStartTime));
+  }
+
+  async getActiveService(id: string): Promise<ActiveService | undefined> {
+    await this.ready;
+    const [service] = await this.db.select().from(activeServices).where(eq(activeServices.id, id));
+    return service;
+  }
+
+  async createActiveService(service: InsertActiveService & { id: string }): Promise<ActiveService> {
+    await this.ready;
+    const [created] = await this.db.insert(activeServices).values({
+      ...service,
+      actualStartTime: new Date(),
+      status: service.status ?? (service.queuePosition ? "Queued" : "In Progress"),
+      progress: service.progress ?? 0,
+      errorCodes: service.errorCodes ?? [],
+      reservedParts: service.reservedParts ?? [],
+      priority: service.priority ?? 'Normal',
+      warrantyStatus: service.warrantyStatus ?? 'Out of Warranty',
+      queuePosition: service.queuePosition ?? null,
+    }).returning();
+    return created;
+  }
+
+  async updateServiceProgress(id: string, progress: number): Promise<void> {
+    await this.ready;
+    await this.db.update(activeServices).set({
+      progress,
+      ...(progress >= 100 ? { status: "Completing" } : {}),
+    }).where(eq(activeServices.id, id));
+  }
+
+  async updateActiveService(id: string, updates: Partial<ActiveService>): Promise<ActiveService | undefined> {
+    await this.ready;
+    // preserve id
+    const { id: _ignored, ...rest } = updates;
+    if (Object.keys(rest).length === 0) return this.getActiveService(id);
+    const [updated] = await this.db.update(activeServices).set(rest).where(eq(activeServices.id, id)).returning();
+    return updated;
+  }
+
+  async removeActiveService(id: string): Promise<void> {
+    await this.ready;
+    await this.db.delete(activeServices).where(eq(activeServices.id, id));
+  }
+
+
+  // Queue Policy
+  async getQueuePolicy(): Promise<QueuePolicy> {
+    await this.ready;
+    const [row] = await this.db.select().from(workshopSettings).where(eq(workshopSettings.key, "queuePolicy"));
+    const policy = row?.value as QueuePolicy | undefined;
+    return policy && queuePolicies.includes(policy) ? policy : "FIFO";
+  }
+
+  async setQueuePolicy(policy: QueuePolicy): Promise<void> {
+    await this.ready;
+    await this.db.insert(workshopSettings)
+      .values({ key: "queuePolicy", value: policy })
+      .onConflictDoUpdate({ target: workshopSettings.key, set: { value: policy } });
+  }
+
+  async getQueueWeights(): Promise<QueueWeights> {
+    await this.ready;
+    const [row] = await this.db.select().from(workshopSettings).where(eq(workshopSettings.key, "queueWeights"));
+    const parsed = queueWeightsSchema.safeParse(row?.value);
+    return parsed.success ? parsed.data : DEFAULT_QUEUE_WEIGHTS;
+  }
+
+  async setQueueWeights(weights: QueueWeights): Promise<void> {
+    await this.ready;
+    await this.db.insert(workshopSettings)
+      .values({ key: "queueWeights", value: weights })
+      .onConflictDoUpdate({ target: workshopSettings.key, set: { value: weights } });
+  }
+
+  // Business Calendar
+  async getBusinessCalendar(): Promise<BusinessCalendar> {
+    await this.ready;
+    const [row] = await this.db.select().from(workshopSettings).where(eq(workshopSettings.key, "businessCalendar"));
+    const parsed = businessCalendarSchema.safeParse(row?.value);
+    return parsed.success ? parsed.data : DEFAULT_BUSINESS_CALENDAR;
+  }
+
+  async setBusinessCalendar(calendar: BusinessCalendar): Promise<void> {
+    await this.ready;
+    await this.db.insert(workshopSettings)
+      .values({ key: "businessCalendar", value: calendar })
+      .onConflictDoUpdate({ target: workshopSettings.key, set: { value: calendar } });
+  }
+
+  // Price list
+  async getPriceList(): Promise<PriceList> {
+    await this.ready;
+    const [row] = await this.db.select().from(workshopSettings).where(eq(workshopSettings.key, "priceList"));
+    const parsed = priceListSchema.safeParse(row?.value);
+    return parsed.success ? parsed.data : DEFAULT_PRICE_LIST;
+  }
+
+  async setPriceList(priceList: PriceList): Promise<void> {
+    await this.ready;
+    await this.db.insert(workshopSettings)
+      .values({ key: "priceList", value: priceList })
+      .onConflictDoUpdate({ target: workshopSettings.key, set: { value: priceList } });
+  }
+
+  // Letterhead
+  async getLetterhead(): Promise<Letterhead> {
+    await this.ready;
+    const [row] = await this.db.select().from(workshopSettings).where(eq(workshopSettings.key, "letterhead"));
+    const parsed = letterheadSchema.safeParse(row?.value);
+    return parsed.success ? parsed.data : DEFAULT_LETTERHEAD;
+  }
+
+  async setLetterhead(letterhead: Letterhead): Promise<void> {
+    await this.ready;
+    await this.db.insert(workshopSettings)
+      .values({ key: "letterhead", value: letterhead })
+      .onConflictDoUpdate({ target: workshopSettings.key, set: { value: letterhead } });
+  }
+
+  // Completed Services records
+  async getCompletedServices(): Promise<CompletedService[]> {
+    await this.ready;
+    const rows = await this.db.select().from(completedServices).orderBy(desc(completedServices.completedAt));
+    if (rows.length === 0) return [];
+    const items = await this.db.select().from(invoiceItems)
+      .where(inArray(invoiceItems.completedServiceId, rows.map((r) => r.id)))
+      .orderBy(asc(invoiceItems.position));
+    return rows.map((row) => toCompletedService(row, items.filter((i) => i.completedServiceId === row.id)));
+  }
+
+  async getCompletedService(id: string): Promise<CompletedService | undefined> {
+    await this.ready;
+    const [row] = await this.db.select().from(completedServices).where(eq(completedServices.id, id));
+    if (!row) return undefined;
+    const items = await this.db.select().from(invoiceItems)
+      .where(eq(invoiceItems.completedServiceId, id))
+      .orderBy(asc(invoiceItems.position));
+    return toCompletedService(row, items);
+  }
+
+  async addCompletedServiceRecord(record: NewCompletedService): Promise<CompletedService> {
+    await this.ready;
+    const { items, completedAt, ...rest } = record;
+    await this.db.transaction(async (tx) => {
+      // Replacing a record keeps the invoice number it was given
+      await tx.insert(completedServices)
+        .values({ ...rest, completedAt: new Date(completedAt) })
+        .onConflictDoUpdate({ target: completedServices.id, set: { ...rest, completedAt: new Date(completedAt) } });
+      await tx.delete(invoiceItems).where(eq(invoiceItems.completedServiceId, record.id));
+      if (items.length > 0) {
+        await tx.insert(invoiceItems).values(toInvoiceItemRows(record.id, items));
+      }
+    });
+    return (await this.getCompletedService(record.id))!;
+  }
+
+  async updateCompletedServiceRecord(id: string, updates: Partial<CompletedService>): Promise<CompletedService | undefined> {
+    await this.ready;
+    const existing = await this.getCompletedService(id);
+    if (!existing) return undefined;
+    const { id: _ignored, items, completedAt, ...rest } = updates;
+    await this.db.transaction(async (tx) => {
+      const set = { ...rest, ...(completedAt ? { completedAt: new Date(completedAt) } : {}) };
+      if (Object.keys(set).length > 0) {
+        await tx.update(completedServices).set(set).where(eq(completedServices.id, id));
+      }
+      if (items) {
+        await tx.delete(invoiceItems).where(eq(invoiceItems.completedServiceId, id));
+        if (items.length > 0) {
+          await tx.insert(invoiceItems).values(toInvoiceItemRows(id, items));
+        }
+      }
+    });
+    return this.getCompletedService(id);
+  }
+
+  async getVehicleServiceHistory(carNumber: string): Promise<CompletedService[]> {
+    await this.ready;
+    // Older records may have been saved with spaces or lower-case plates
+    const rows = await this.db.select().from(completedServices)
+      .where(sql`upper(regexp_replace(${completedServices.carNumber}, '\\s+', '', 'g')) = ${normalizeCarNumber(carNumber)}`)
+      .orderBy(desc(completedServices.completedAt));
+    if (rows.length === 0) return [];
+    const items = await this.db.select().from(invoiceItems)
+      .where(inArray(invoiceItems.completedServiceId, rows.map((r) => r.id)))
+      .orderBy(asc(invoiceItems.position));
+    return rows.map((row) => toCompletedService(row, items.filter((i) => i.completedServiceId === row.id)));
+  }
+
+  // Cancelled services
+  async getCancelledServices(): Promise<CancelledService[]> {
+    await this.ready;
+    return this.db.select().from(cancelledServices).orderBy(desc(cancelledServices.cancelledAt));
+  }
+
+  async addCancelledService(record: InsertCancelledService): Promise<CancelledService> {
+    await this.ready;
+    const [saved] = await this.db.insert(cancelledServices).values(record).returning();
+    return saved;
+  }
+
+  // Payments
+  async getPayments(completedServiceId: string): Promise<Payment[]> {
+    await this.ready;
+    return this.db.select().from(payments)
+      .where(eq(payments.completedServiceId, completedServiceId))
+      .orderBy(asc(payments.receivedAt));
+  }
+
+  async recordPayments(entries: InsertPayment[]): Promise<Payment[] | undefined> {
+    await this.ready;
+    if (entries.length === 0) return [];
+    return this.db.transaction(async (tx) => {
+      // Locking the records first means a concurrent payment waits. The sums are
+      // read by a later statement, whose snapshot includes the payment it waited for.
+      const serviceIds = Array.from(new Set(entries.map((e) => e.completedServiceId)));
+      await tx.select({ id: completedServices.id }).from(completedServices)
+        .where(inArray(completedServices.id, serviceIds))
+        .for("update");
+      const records = await tx.select({ id: completedServices.id, total: completedServices.total, paid: amountPaidSql })
+        .from(completedServices)
+        .where(inArray(completedServices.id, serviceIds));
+      for (const id of serviceIds) {
+        const record = records.find((r) => r.id === id);
+        const change = entries
+          .filter((e) => e.completedServiceId === id)
+          .reduce((sum, e) => sum + (e.kind === "Refund" ? -e.amount : e.amount), 0);
+        const paid = Math.round(((record?.paid ?? 0) + change) * 100) / 100;
+        if (!record || paid < 0 || paid > record.total) return undefined;
+      }
+
+      const created = await tx.insert(payments)
+        .values(entries.map((entry) => ({ ...entry, id: randomUUID() })))
+        .returning();
+      await tx.update(completedServices).set({ amountPaid: amountPaidSql }).where(inArray(completedServices.id, serviceIds));
+      return created;
+    });
+  }
+}
+
+function toCompletedService(
+  row: typeof completedServices.$inferSelect,
+  items: (typeof invoiceItems.$inferSelect)[],
+): CompletedService {
+  return {
+    ...row,
+    completedAt: row.completedAt.toISOString(),
+    items: items.map(({ id, description, quantity, unitPrice, amount, kind, warrantyCovered }) =>
+      ({ id, description, quantity, unitPrice, amount, kind, warrantyCovered })),
+  };
+}
+
+function toInvoiceItemRows(completedServiceId: string, items: InvoiceItem[]) {
+  return items.map((item, position) => ({ ...item, completedServiceId, position }));
+}
@@ -0,0 +1,15 @@
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema> & { $client: pg.Pool };
+
+// Creates a Drizzle client over a node-postgres pool. Tables are created
+// from shared/schema.ts with `npm run db:push`.
+export function createDb(connectionString = process.env.DATABASE_URL): Database {
+  if (!connectionString) {
+    throw new Error("DATABASE_URL must be set to use the postgres storage driver");
+  }
+  const pool = new pg.Pool({ connectionString });
+  return drizzle(pool, { schema });
+}
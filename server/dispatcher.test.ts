@@ -0,0 +1,193 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { holdStatuses, type ActiveService, type MachineBay, type ServiceTask, type Worker } from "@shared/schema";
+import { DEFAULT_BUSINESS_CALENDAR } from "@shared/business-calendar";
+import { DEFAULT_QUEUE_WEIGHTS, type QueuePolicy } from "@shared/queue-policy";
+import { dispatchQueue, planDispatch, type DispatchState } from "./dispatcher";
+import { MemStorage } from "./storage";
+
+const now = new Date("2026-10-19T06:00:00Z"); // Monday 11:30 in the default calendar
+
+const task = (name: string, category: string, extra: Partial<ServiceTask> = {}): ServiceTask => ({
+  id: name,
+  name,
+  baseTimeHours: 1,
+  category,
+  requiredParts: [],
+  requiredBayType: null,
+  requiredTools: [],
+  requiredCertifications: [],
+  ...extra,
+});
+const oilChange = task("Oil Change", "General");
+const acService = task("AC Service", "AC", { requiredCertifications: ["HVAC Certified"] });
+const engineRebuild = task("Engine Rebuild", "Engine", { requiredBayType: "Heavy Repair Bay" });
+
+const worker = (id: string, skill: string, extra: Partial<Worker> = {}): Worker => ({
+  id,
+  name: id,
+  skill,
+  skills: [{ category: skill, proficiency: 3 }],
+  experienceLevel: 5,
+  certifications: [],
+  rating: 4,
+  loadPercent: 0,
+  activeJobs: [],
+  status: "Available",
+  ...extra,
+});
+
+const bay = (bayNumber: number, extra: Partial<MachineBay> = {}): MachineBay => ({
+  id: `bay-${bayNumber}`,
+  bayNumber,
+  bayType: "General Service Bay",
+  isAvailable: true,
+  inService: true,
+  assignedWorkers: [],
+  currentLoad: 0,
+  toolsPresent: [],
+  ...extra,
+});
+
+// Queued n minutes before `now`
+const queued = (id: string, minutesAgo: number, extra: Partial<ActiveService> = {}): ActiveService => ({
+  id,
+  carNumber: id,
+  status: "Queued",
+  priority: "Normal",
+  fuelType: "Petrol",
+  predictedHours: 1,
+  assignedWorkers: [],
+  assignedMachine: "QUEUED",
+  queuePosition: 1,
+  queueReason: null,
+  customerId: null,
+  actualStartTime: new Date(now.getTime() - minutesAgo * 60 * 1000),
+  estimatedCompletion: new Date(now.getTime() + 60 * 60 * 1000),
+  ...extra,
+} as ActiveService);
+
+const running = (id: string, status = "In Progress"): ActiveService =>
+  queued(id, 120, { status, assignedMachine: "Bay 1", queuePosition: null });
+
+function state(
+  services: ActiveService[],
+  options: { machines?: MachineBay[]; workers?: Worker[]; tasks?: Record<string, ServiceTask[]>; policy?: QueuePolicy } = {},
+): DispatchState {
+  return {
+    services,
+    machines: options.machines ?? [bay(1), bay(2)],
+    workers: options.workers ?? [worker("w1", "General"), worker("w2", "General"), worker("w3", "General")],
+    tasks: new Map(services.map((s) => [s.id, options.tasks?.[s.id] ?? [oilChange]])),
+    queue: {
+      policy: options.policy ?? "FIFO",
+      weights: DEFAULT_QUEUE_WEIGHTS,
+      calendar: DEFAULT_BUSINESS_CALENDAR,
+      now,
+      tiers: new Map(),
+    },
+  };
+}
+
+describe("planDispatch", () => {
+  it("starts queued services in policy order until capacity runs out", () => {
+    const plan = planDispatch(state([queued("B", 10), queued("A", 30), queued("C", 5)]));
+    assert.deepEqual(plan.starts.map((s) => s.serviceId), ["A", "B"]);
+    assert.deepEqual(plan.waiting, [{ serviceId: "C", reason: "Workshop at capacity" }]);
+  });
+
+  it("follows the active policy", () => {
+    const services = [queued("early", 30), queued("urgent", 5, { priority: "Urgent" })];
+    const plan = planDispatch(state(services, { machines: [bay(1)], policy: "PRIORITY" }));
+    assert.deepEqual(plan.starts.map((s) => s.serviceId), ["urgent"]);
+  });
+
+  it("does not let a job that cannot start hold up the ones behind it", () => {
+    const services = [queued("heavy", 30), queued("oil", 10)];
+    const plan = planDispatch(state(services, { tasks: { heavy: [engineRebuild] } }));
+    assert.deepEqual(plan.starts.map((s) => s.serviceId), ["oil"]);
+    assert.equal(plan.waiting.length, 1);
+    assert.equal(plan.waiting[0].serviceId, "heavy");
+    assert.match(plan.waiting[0].reason, /Heavy Repair Bay/);
+  });
+
+  it("counts services on hold against capacity, since they keep their bay", () => {
+    const services = [running("held", holdStatuses[0]), running("busy"), queued("next", 10)];
+    const plan = planDispatch(state(services));
+    assert.deepEqual(plan.starts, []);
+    assert.deepEqual(plan.waiting, [{ serviceId: "next", reason: "Workshop at capacity" }]);
+  });
+
+  it("leaves bays out of service out of the capacity", () => {
+    const plan = planDispatch(state([queued("A", 30), queued("B", 10)], { machines: [bay(1), bay(2, { inService: false })] }));
+    assert.deepEqual(plan.starts.map((s) => s.serviceId), ["A"]);
+    assert.deepEqual(plan.starts[0].machineId, "bay-1");
+  });
+
+  it("holds a job until a qualified crew is free, with the shortfall as its reason", () => {
+    const services = [queued("ac", 30), queued("oil", 10)];
+    const plan = planDispatch(state(services, { tasks: { ac: [acService] }, workers: [worker("w1", "AC"), worker("w2", "General")] }));
+    assert.deepEqual(plan.starts.map((s) => s.serviceId), ["oil"]);
+    assert.deepEqual(plan.waiting, [{ serviceId: "ac", reason: "No available AC technician with HVAC Certified is on shift" }]);
+  });
+
+  it("starts the job once a certified technician is on shift", () => {
+    const certified = worker("w1", "AC", { certifications: ["HVAC Certified"] });
+    const plan = planDispatch(state([queued("ac", 30)], { tasks: { ac: [acService] }, workers: [certified] }));
+    assert.deepEqual(plan.starts.map((s) => s.workerIds), [["w1"]]);
+  });
+
+  it("waits when every technician on shift has a full set of jobs", () => {
+    const busy = worker("w1", "General", { activeJobs: ["x", "y", "z"], loadPercent: 100 });
+    const plan = planDispatch(state([queued("A", 30)], { workers: [busy] }));
+    assert.deepEqual(plan.waiting, [{ serviceId: "A", reason: "All workers are at maximum capacity" }]);
+  });
+
+  it("fills each technician's free slots across the jobs it starts", () => {
+    const services = [queued("A", 40), queued("B", 30), queued("C", 20), queued("D", 10)];
+    const machines = [bay(1), bay(2), bay(3), bay(4)];
+    const plan = planDispatch(state(services, { machines, workers: [worker("w1", "General", { activeJobs: ["x"] })] }));
+    assert.deepEqual(plan.starts.map((s) => s.serviceId), ["A", "B"]);
+    assert.deepEqual(plan.waiting, [
+      { serviceId: "C", reason: "All workers are at maximum capacity" },
+      { serviceId: "D", reason: "All workers are at maximum capacity" },
+    ]);
+  });
+
+  it("keeps the crew picked at intake while all of it is free", () => {
+    const workers = [worker("w1", "General"), worker("w2", "General", { loadPercent: 66, activeJobs: ["x", "y"] })];
+    const plan = planDispatch(state([queued("A", 30, { assignedWorkers: ["w2"] })], { workers }));
+    assert.deepEqual(plan.starts[0].workerIds, ["w2"]);
+  });
+
+  it("builds a new crew when someone from intake is no longer free", () => {
+    const workers = [worker("w1", "General")];
+    const plan = planDispatch(state([queued("A", 30, { assignedWorkers: ["gone"] })], { workers }));
+    assert.deepEqual(plan.starts[0].workerIds, ["w1"]);
+  });
+
+  it("does not modify the state it plans from", () => {
+    const input = state([queued("A", 30), queued("B", 10)]);
+    const before = JSON.stringify({ ...input, tasks: Array.from(input.tasks), queue: { ...input.queue, tiers: [] } });
+    planDispatch(input);
+    assert.equal(JSON.stringify({ ...input, tasks: Array.from(input.tasks), queue: { ...input.queue, tiers: [] } }), before);
+  });
+});
+
+describe("dispatchQueue", () => {
+  it("leaves loads alone when a planned service is gone by the time it would start", async () => {
+    const storage = new MemStorage();
+    const { id: _id, actualStartTime: _at, ...service } = queued("A", 30);
+    await storage.createActiveService({ ...service, id: "A", carModel: "XC60", selectedTasks: ["Oil Change"] });
+    // Cancelled between loading the queue and starting it
+    const gone = async () => undefined;
+    const raced = Object.assign(Object.create(storage), { getActiveService: gone, updateActiveService: gone }) as MemStorage;
+
+    assert.deepEqual(await dispatchQueue(raced, { now }), []);
+    assert.ok((await storage.getWorkers()).every((w) => w.loadPercent === 0 && w.activeJobs.length === 0));
+    assert.ok((await storage.getMachines()).every((m) => m.currentLoad === 0));
+
+    assert.deepEqual((await dispatchQueue(storage, { now })).map((s) => s.id), ["A"]);
+    (storage.sessionStore as unknown as { stopInterval(): void }).stopInterval();
+  });
+});
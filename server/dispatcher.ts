@@ -0,0 +1,206 @@
+import type { ActiveService, MachineBay, ServiceRequest, ServiceTask, Worker } from "@shared/schema";
+import type { WorkshopEvent } from "@shared/realtime";
+import type { IStorage } from "./storage";
+import { applyBusinessHours, getBusinessCalendar } from "./business-hours";
+import { bayRequirementsFor, chooseBay, serviceCapacity, servicesHoldingBays } from "./bays";
+import { buildCrew, MAX_CREW_SIZE, MAX_JOBS_PER_WORKER } from "./crew";
+import { loadQueueContext, rankQueue, type QueueContext, type RankableService } from "./queue-ranking";
+import { loadRoster, workersOnShift } from "./roster";
+
+// The dispatcher works on storage alone; the server passes in how to publish
+// events and report failures, so it runs the same without Express or sockets
+export interface DispatchOptions {
+  now?: Date;
+  notify?: (event: WorkshopEvent) => void;
+}
+
+// The fields of a service the dispatcher plans from: its place in the queue,
+// whether it holds a bay, and what its crew must cover
+export type DispatchService = RankableService & Pick<ActiveService, "id" | "status" | "fuelType" | "assignedWorkers">;
+
+// Everything the dispatcher decides from, loaded once per run
+export interface DispatchState<S extends DispatchService = ActiveService> {
+  services: S[]; // every active service, queued or not
+  machines: MachineBay[];
+  workers: Worker[]; // technicians on shift when the work would start
+  tasks: Map<string, ServiceTask[]>; // selected tasks of each queued service
+  queue: QueueContext; // policy and what it ranks by
+}
+
+export interface DispatchStart {
+  serviceId: string;
+  machineId: string;
+  bayNumber: number;
+  workerIds: string[];
+}
+
+export interface DispatchPlan {
+  starts: DispatchStart[];
+  waiting: Array<{ serviceId: string; reason: string }>; // queued services left waiting, and why
+}
+
+// Decides which queued services start now. Services are taken in policy
+// order and each one that a compatible bay and a qualified crew can take is
+// started, until the workshop is at capacity; a service that cannot start does
+// not hold up the ones behind it. The crew picked at intake is kept while every
+// member is still on shift with a free slot, otherwise a new one is built.
+// Pure: the state is not modified.
+export function planDispatch<S extends DispatchService>(state: DispatchState<S>): DispatchPlan {
+  const machines = state.machines.map((m) => ({ ...m, assignedWorkers: [...m.assignedWorkers] }));
+  const workers = new Map(state.workers.map((w) => [w.id, { ...w, activeJobs: [...w.activeJobs] }]));
+  const queued = state.services.filter((s) => s.status === "Queued");
+  let running = servicesHoldingBays(state.services).length;
+  const capacity = serviceCapacity(machines);
+
+  const plan: DispatchPlan = { starts: [], waiting: [] };
+  for (const { service } of rankQueue(queued, state.queue)) {
+    if (running >= capacity) {
+      plan.waiting.push({ serviceId: service.id, reason: "Workshop at capacity" });
+      continue;
+    }
+    const tasks = state.tasks.get(service.id) ?? [];
+    const choice = chooseBay(machines, bayRequirementsFor(tasks));
+    if (!choice.bay) {
+      plan.waiting.push({ serviceId: service.id, reason: choice.reason });
+      continue;
+    }
+
+    const free = Array.from(workers.values()).filter((w) => w.activeJobs.length < MAX_JOBS_PER_WORKER);
+    const keepCrew = service.assignedWorkers.length > 0
+      && service.assignedWorkers.every((id) => free.some((w) => w.id === id));
+    const crew = keepCrew
+      ? undefined
+      : buildCrew(
+        Array.from(workers.values()),
+        tasks,
+        { fuelType: service.fuelType as ServiceRequest["fuelType"] },
+        Math.min(MAX_CREW_SIZE, Math.ceil(service.predictedHours / 2)),
+      );
+    if (crew?.shortfall) {
+      plan.waiting.push({ serviceId: service.id, reason: crew.shortfall });
+      continue;
+    }
+    const crewIds = crew?.workerIds ?? service.assignedWorkers;
+
+    const bay = choice.bay;
+    bay.currentLoad = Math.min(100, bay.currentLoad + 50);
+    bay.assignedWorkers = Array.from(new Set([...bay.assignedWorkers, ...crewIds]));
+    for (const id of crewIds) {
+      const worker = workers.get(id)!;
+      worker.activeJobs.push(service.id);
+      worker.loadPercent = Math.min(100, worker.loadPercent + (100 / 3));
+    }
+    running++;
+    plan.starts.push({ serviceId: service.id, machineId: bay.id, bayNumber: bay.bayNumber, workerIds: crewIds });
+  }
+  return plan;
+}
+
+export async function loadDispatchState(storage: IStorage, now: Date): Promise<DispatchState> {
+  const services = await storage.getActiveServices();
+  const tasks = new Map<string, ServiceTask[]>();
+  for (const service of services.filter((s) => s.status === "Queued")) {
+    const selected: ServiceTask[] = [];
+    for (const name of (service.selectedTasks as string[]) || []) {
+      const task = await storage.getServiceTask(name);
+      if (task) selected.push(task);
+    }
+    tasks.set(service.id, selected);
+  }
+  return {
+    services,
+    machines: await storage.getMachines(),
+    workers: workersOnShift(await loadRoster(storage), applyBusinessHours(now, 0), now),
+    tasks,
+    queue: await loadQueueContext(storage, getBusinessCalendar(), now),
+  };
+}
+
+// Plans a dispatch and carries it out: started services get their bay, crew
+// and ETA, worker and bay loads go up, and services still waiting are told
+// why. A service cancelled, held or started since the plan was made is left
+// alone. Returns the services started.
+export async function dispatchQueue(storage: IStorage, options: DispatchOptions = {}): Promise<ActiveService[]> {
+  const { now = new Date(), notify = () => undefined } = options;
+  const state = await loadDispatchState(storage, now);
+  const plan = planDispatch(state);
+
+  for (const { serviceId, reason } of plan.waiting) {
+    const service = state.services.find((s) => s.id === serviceId);
+    if (service && service.queueReason !== reason) {
+      const waiting = await storage.updateActiveService(serviceId, { queueReason: reason });
+      if (waiting) notify({ type: "service.updated", service: waiting });
+    }
+  }
+
+  const started: ActiveService[] = [];
+  for (const start of plan.starts) {
+    const service = await storage.getActiveService(start.serviceId);
+    if (service?.status !== "Queued") continue;
+    const updated = await storage.updateActiveService(start.serviceId, {
+      status: "In Progress",
+      queuePosition: null,
+      queueReason: null,
+      assignedWorkers: start.workerIds,
+      assignedMachine: `Bay ${start.bayNumber}`,
+      actualStartTime: now,
+      estimatedCompletion: applyBusinessHours(now, service.predictedHours),
+    });
+    if (!updated) continue;
+    for (const workerId of start.workerIds) {
+      const w = await storage.getWorker(workerId);
+      if (w) {
+        const newLoad = Math.min(100, w.loadPercent + (100 / 3));
+        await storage.updateWorkerLoad(workerId, Math.round(newLoad), [...w.activeJobs, start.serviceId]);
+      }
+    }
+    const machine = await storage.getMachine(start.machineId);
+    if (machine) {
+      const newWorkers = Array.from(new Set([...machine.assignedWorkers, ...start.workerIds]));
+      await storage.updateMachineLoad(machine.id, Math.min(100, machine.currentLoad + 50), newWorkers);
+    }
+    started.push(updated);
+    notify({ type: "service.started", service: updated });
+  }
+  const starts = plan.starts.filter((s) => started.some((service) => service.id === s.serviceId));
+  if (starts.length > 0) {
+    notify({ type: "worker.load_changed", workerIds: Array.from(new Set(starts.flatMap((s) => s.workerIds))) });
+    notify({ type: "bay.changed", bayIds: starts.map((s) => s.machineId) });
+  }
+  return started;
+}
+
+export interface Dispatcher {
+  // Runs a dispatch after any already under way, so two never overlap
+  dispatch(): Promise<ActiveService[]>;
+  // Runs other work that assigns crews and bays (intake, reassignment) in
+  // turn with dispatches, so neither plans from loads the other is changing.
+  // The work must not wait on dispatch() itself.
+  exclusive<T>(work: () => Promise<T>): Promise<T>;
+  stop(): void;
+}
+
+// Dispatches on demand (after events that free or add capacity) and on an
+// interval, which picks up shifts starting and the workshop opening.
+export function startDispatcher(
+  storage: IStorage,
+  options: { notify?: (event: WorkshopEvent) => void; onError?: (error: unknown) => void; intervalMs?: number } = {},
+): Dispatcher {
+  const { notify, onError, intervalMs = 60_000 } = options;
+  let last: Promise<unknown> = Promise.resolve();
+  const exclusive = <T>(work: () => Promise<T>): Promise<T> => {
+    const run = last.then(work);
+    last = run.catch(() => undefined);
+    return run;
+  };
+  const dispatch = () => {
+    const run = exclusive(() => dispatchQueue(storage, { notify }));
+    run.catch((error) => onError?.(error));
+    return run;
+  };
+  const timer = setInterval(() => {
+    dispatch().catch(() => undefined);
+  }, intervalMs);
+  timer.unref();
+  return { dispatch, exclusive, stop: () => clearInterval(timer) };
+}
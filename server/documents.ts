@@ -0,0 +1,324 @@
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import {
+  balanceDue,
+  formatInvoiceNumber,
+  type ActiveService,
+  type CompletedService,
+  type Customer,
+  type Letterhead,
+  type PartReservation,
+  type ServiceTask,
+} from "@shared/schema";
+
+// Server-rendered invoices and job cards. Both share the letterhead, page
+// layout and QR code, so a document printed in the workshop matches the one
+// emailed to the customer.
+
+type Doc = PDFKit.PDFDocument;
+
+export type DocumentOptions = {
+  letterhead: Letterhead;
+  recordUrl: string; // encoded in the QR code
+  timezone: string; // IANA zone used for printed dates
+};
+
+type Column = { header: string; width: number; align?: "left" | "right" };
+
+const MARGIN = 50;
+const PAGE_WIDTH = 595.28; // A4
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const QR_SIZE = 72;
+const MUTED = "#64748b";
+const ACCENT = "#1A73E8";
+const RULE = "#CBD3DF";
+
+// Links printed documents back to the record in the app. PUBLIC_URL wins over
+// the address the document was requested from, for servers behind a proxy.
+export function recordUrl(requestOrigin: string, serviceId: string): string {
+  const base = (process.env.PUBLIC_URL || requestOrigin).replace(/\/+$/, "");
+  return `${base}/services?service=${encodeURIComponent(serviceId)}`;
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return `${currency} ${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDate(date: Date | string, timezone: string): string {
+  return new Intl.DateTimeFormat("en-IN", { timeZone: timezone, dateStyle: "medium", timeStyle: "short" })
+    .format(new Date(date));
+}
+
+// Renders into memory; the creation date is fixed so the same record always
+// produces the same file
+function renderPdf(title: string, createdAt: Date, draw: (doc: Doc) => void): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: MARGIN,
+      info: { Title: title, CreationDate: createdAt, ModDate: createdAt },
+    });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+    try {
+      draw(doc);
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+function drawLetterhead(doc: Doc, letterhead: Letterhead, qr: Buffer) {
+  const top = MARGIN;
+  doc.image(qr, PAGE_WIDTH - MARGIN - QR_SIZE, top, { width: QR_SIZE });
+  doc.fontSize(7).fillColor(MUTED)
+    .text("Scan to open record", PAGE_WIDTH - MARGIN - QR_SIZE, top + QR_SIZE + 2, { width: QR_SIZE, align: "center" });
+
+  const textWidth = CONTENT_WIDTH - QR_SIZE - 16;
+  doc.font("Helvetica-Bold").fontSize(18).fillColor(ACCENT).text(letterhead.name, MARGIN, top, { width: textWidth });
+  doc.font("Helvetica").fontSize(9).fillColor(MUTED);
+  for (const line of letterhead.addressLines) doc.text(line, { width: textWidth });
+  const contact = [letterhead.phone, letterhead.email, letterhead.website].filter(Boolean).join("  |  ");
+  if (contact) doc.text(contact, { width: textWidth });
+  if (letterhead.taxId) doc.text(`GSTIN: ${letterhead.taxId}`, { width: textWidth });
+
+  const bottom = Math.max(doc.y, top + QR_SIZE + 12) + 8;
+  doc.moveTo(MARGIN, bottom).lineTo(PAGE_WIDTH - MARGIN, bottom).lineWidth(1).strokeColor(RULE).stroke();
+  doc.x = MARGIN;
+  doc.y = bottom + 12;
+}
+
+function drawTitle(doc: Doc, title: string, details: [string, string][]) {
+  doc.font("Helvetica-Bold").fontSize(14).fillColor("#0f172a").text(title, MARGIN, doc.y);
+  doc.moveDown(0.3);
+  drawFields(doc, details);
+}
+
+// Label/value pairs in two columns
+function drawFields(doc: Doc, fields: [string, string][]) {
+  const half = CONTENT_WIDTH / 2;
+  for (let i = 0; i < fields.length; i += 2) {
+    const y = doc.y;
+    let bottom = y;
+    fields.slice(i, i + 2).forEach(([label, value], col) => {
+      const x = MARGIN + col * half;
+      doc.font("Helvetica-Bold").fontSize(9).fillColor(MUTED).text(`${label}: `, x, y, { continued: true, width: half - 8 });
+      doc.font("Helvetica").fillColor("#0f172a").text(value || "—");
+      bottom = Math.max(bottom, doc.y);
+    });
+    doc.y = bottom + 2;
+  }
+  doc.x = MARGIN;
+  doc.moveDown(0.6);
+}
+
+function drawSectionHeading(doc: Doc, heading: string) {
+  ensureSpace(doc, 48);
+  doc.font("Helvetica-Bold").fontSize(11).fillColor(ACCENT).text(heading, MARGIN, doc.y);
+  doc.moveDown(0.3);
+}
+
+function ensureSpace(doc: Doc, height: number) {
+  if (doc.y + height > doc.page.height - MARGIN) {
+    doc.addPage();
+    doc.y = MARGIN;
+  }
+}
+
+function drawRow(doc: Doc, columns: Column[], cells: string[], options: { bold?: boolean; shade?: boolean; color?: string } = {}) {
+  doc.font(options.bold ? "Helvetica-Bold" : "Helvetica").fontSize(9);
+  const height = Math.max(...cells.map((cell, i) => doc.heightOfString(cell, { width: columns[i].width - 8 }))) + 8;
+  ensureSpace(doc, height);
+  const y = doc.y;
+  if (options.shade) doc.rect(MARGIN, y, CONTENT_WIDTH, height).fill("#eaf1fb");
+  let x = MARGIN;
+  cells.forEach((cell, i) => {
+    doc.fillColor(options.color ?? "#0f172a")
+      .text(cell, x + 4, y + 4, { width: columns[i].width - 8, align: columns[i].align ?? "left" });
+    x += columns[i].width;
+  });
+  doc.moveTo(MARGIN, y + height).lineTo(PAGE_WIDTH - MARGIN, y + height).lineWidth(0.5).strokeColor(RULE).stroke();
+  doc.x = MARGIN;
+  doc.y = y + height;
+}
+
+function drawTable(doc: Doc, columns: Column[], rows: string[][]) {
+  drawRow(doc, columns, columns.map((c) => c.header), { bold: true, shade: true });
+  for (const row of rows) drawRow(doc, columns, row);
+  doc.moveDown(0.8);
+}
+
+function drawFooter(doc: Doc, letterhead: Letterhead) {
+  if (!letterhead.footer) return;
+  ensureSpace(doc, 30);
+  doc.moveDown(1);
+  doc.font("Helvetica-Oblique").fontSize(9).fillColor(MUTED)
+    .text(letterhead.footer, MARGIN, doc.y, { width: CONTENT_WIDTH, align: "center" });
+}
+
+// Tax invoice for a completed service: its lines, discount, tax breakdown and
+// total, with covered lines marked for vehicles in warranty
+export async function renderInvoicePdf(
+  record: CompletedService,
+  customer: Customer | undefined,
+  options: DocumentOptions,
+): Promise<Buffer> {
+  const { letterhead, timezone } = options;
+  const qr = await QRCode.toBuffer(options.recordUrl, { margin: 0, width: 240 });
+  const number = formatInvoiceNumber(record);
+  const money = (amount: number) => formatMoney(amount, record.currency);
+
+  return renderPdf(`Invoice ${number}`, new Date(record.completedAt), (doc) => {
+    drawLetterhead(doc, letterhead, qr);
+    drawTitle(doc, "Tax Invoice", [
+      ["Invoice No", number],
+      ["Date", formatDate(record.completedAt, timezone)],
+      ["Service ID", record.id],
+      ["Service Type", record.serviceType],
+    ]);
+
+    drawSectionHeading(doc, "Billed To");
+    drawFields(doc, [
+      ["Customer", customer?.name ?? "Walk-in customer"],
+      ["Phone", customer?.phone ?? ""],
+      ["Vehicle", `${record.carModel} (${record.carNumber})`],
+      ["Odometer", record.totalKilometers !== null ? `${record.totalKilometers.toLocaleString("en-IN")} km` : ""],
+      ["Warranty", record.warrantyStatus],
+      ["Bay", record.assignedMachine],
+    ]);
+
+    const columns: Column[] = [
+      { header: "#", width: 28 },
+      { header: "Description", width: 227 },
+      { header: "Qty", width: 50, align: "right" },
+      { header: "Rate", width: 95, align: "right" },
+      { header: "Amount", width: CONTENT_WIDTH - 400, align: "right" },
+    ];
+    drawTable(doc, columns, record.items.map((item, i) => [
+      String(i + 1),
+      item.warrantyCovered ? `${item.description}\nCovered by warranty` : item.description,
+      String(item.quantity),
+      money(item.unitPrice),
+      money(item.amount),
+    ]));
+
+    const totalsColumns: Column[] = [
+      { header: "", width: CONTENT_WIDTH - 150, align: "right" },
+      { header: "", width: 150, align: "right" },
+    ];
+    const totals: string[][] = [["Subtotal", money(record.subtotal)]];
+    if (record.discount > 0) totals.push(["Discount", `- ${money(record.discount)}`]);
+    for (const tax of record.taxLines) totals.push([`${tax.name} (${tax.ratePercent}%)`, money(tax.amount)]);
+    for (const row of totals) drawRow(doc, totalsColumns, row);
+    drawRow(doc, totalsColumns, ["Total", money(record.total)], { bold: true, color: ACCENT });
+    if (record.amountPaid !== 0) {
+      drawRow(doc, totalsColumns, ["Paid", money(record.amountPaid)]);
+      drawRow(doc, totalsColumns, ["Balance Due", money(Math.max(0, balanceDue(record)))], { bold: true });
+    }
+
+    if (record.warrantyStatus === "In Warranty") {
+      doc.moveDown(0.6);
+      doc.font("Helvetica").fontSize(9).fillColor(MUTED)
+        .text("Vehicle in warranty: covered items are not charged.", MARGIN, doc.y);
+    }
+    if (record.assignedWorkers.length > 0) {
+      doc.moveDown(0.4);
+      doc.font("Helvetica").fontSize(9).fillColor(MUTED)
+        .text(`Serviced by ${record.assignedWorkers.join(", ")}`, MARGIN, doc.y);
+    }
+    drawFooter(doc, letterhead);
+  });
+}
+
+// Job card for the floor: the vehicle, who and where, each task with a tick
+// box, the parts set aside for it, and sign-off lines
+export async function renderJobCardPdf(
+  service: ActiveService,
+  details: {
+    customer?: Customer;
+    tasks: ServiceTask[];
+    workerNames: string[];
+    parts: PartReservation[];
+  },
+  options: DocumentOptions,
+): Promise<Buffer> {
+  const { letterhead, timezone } = options;
+  const qr = await QRCode.toBuffer(options.recordUrl, { margin: 0, width: 240 });
+
+  return renderPdf(`Job Card ${service.id}`, new Date(service.actualStartTime), (doc) => {
+    drawLetterhead(doc, letterhead, qr);
+    drawTitle(doc, "Job Card", [
+      ["Service ID", service.id],
+      ["Opened", formatDate(service.actualStartTime, timezone)],
+      ["Status", service.status],
+      ["Priority", service.priority],
+      ["Estimated Completion", formatDate(service.estimatedCompletion, timezone)],
+      ["Predicted Time", `${service.predictedHours.toFixed(2)} h`],
+    ]);
+
+    drawSectionHeading(doc, "Vehicle");
+    drawFields(doc, [
+      ["Customer", details.customer?.name ?? "Walk-in customer"],
+      ["Phone", details.customer?.phone ?? ""],
+      ["Vehicle", `${service.carModel} (${service.carNumber})`],
+      ["Year / Fuel", `${service.manufactureYear} / ${service.fuelType}`],
+      ["Odometer", `${service.totalKilometers.toLocaleString("en-IN")} km`],
+      ["Warranty", service.warrantyStatus],
+      ["Service Type", service.serviceType],
+      ["Health Score", `${service.healthScore}/100`],
+      ["Rust / Body", `${service.rustLevel} / ${service.bodyDamage}`],
+      ["Error Codes", service.errorCodes.join(", ") || "None"],
+    ]);
+
+    drawSectionHeading(doc, "Assignment");
+    drawFields(doc, [
+      ["Bay", service.assignedMachine],
+      ["Technicians", details.workerNames.join(", ") || "Not assigned"],
+    ]);
+
+    drawSectionHeading(doc, "Tasks");
+    const statusOf = (name: string) => service.taskChecklist.find((t) => t.name === name)?.status ?? "Pending";
+    drawTable(doc, [
+      { header: "Done", width: 40 },
+      { header: "Task", width: 200 },
+      { header: "Category", width: 90 },
+      { header: "Est. Hours", width: 70, align: "right" },
+      { header: "Status", width: CONTENT_WIDTH - 400 },
+    ], details.tasks.map((task) => [
+      statusOf(task.name) === "Done" ? "[x]" : "[  ]",
+      task.name,
+      task.category,
+      task.baseTimeHours.toFixed(2),
+      statusOf(task.name),
+    ]));
+
+    if (details.parts.length > 0) {
+      drawSectionHeading(doc, "Parts");
+      drawTable(doc, [
+        { header: "Part", width: 200 },
+        { header: "For Task", width: 180 },
+        { header: "Qty", width: 50, align: "right" },
+        { header: "Status", width: CONTENT_WIDTH - 430 },
+      ], details.parts.map((part) => [part.partName, part.taskName, String(part.quantity), part.status]));
+    }
+
+    drawSectionHeading(doc, "Notes");
+    doc.rect(MARGIN, doc.y, CONTENT_WIDTH, 60).lineWidth(0.5).strokeColor(RULE).stroke();
+    doc.y += 80;
+
+    ensureSpace(doc, 50);
+    const signatureWidth = (CONTENT_WIDTH - 40) / 3;
+    const lineY = doc.y + 24;
+    ["Service Advisor", "Technician", "Customer"].forEach((label, i) => {
+      const x = MARGIN + i * (signatureWidth + 20);
+      doc.moveTo(x, lineY).lineTo(x + signatureWidth, lineY).lineWidth(0.5).strokeColor("#0f172a").stroke();
+      doc.font("Helvetica").fontSize(8).fillColor(MUTED).text(label, x, lineY + 4, { width: signatureWidth, align: "center" });
+    });
+    doc.x = MARGIN;
+    doc.y = lineY + 20;
+    drawFooter(doc, letterhead);
+  });
+}
@@ -0,0 +1,120 @@
+import {
+  availableStock,
+  openPurchaseOrderStatuses,
+  type InventoryForecast,
+  type PartForecast,
+  type PartRequirement,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { cheapestOffer } from "./purchasing";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Lead time assumed for parts no supplier lists
+const DEFAULT_LEAD_TIME_DAYS = 3;
+// Extra days of usage kept on hand against demand spikes and late deliveries
+const SAFETY_DAYS = 2;
+
+// Adds each task's parts to a running per-part total
+function addTaskParts(totals: Map<string, number>, taskNames: string[], partsByTask: Map<string, PartRequirement[]>) {
+  for (const name of taskNames) {
+    for (const { partName, quantity } of partsByTask.get(name) ?? []) {
+      totals.set(partName, (totals.get(partName) ?? 0) + quantity);
+    }
+  }
+}
+
+// Projects each part's stock day by day over the horizon. Usage runs at the
+// average daily rate of services completed in the look-back window; booked
+// appointments draw their parts on the day they start, reservations still
+// awaiting stock draw theirs at once, and sent purchase orders add stock on
+// their expected arrival. The reorder point covers the supplier's lead time
+// plus SAFETY_DAYS of usage; parts at or below it get a suggested order
+// sized to last the horizon beyond the reorder point.
+export async function forecastInventory(
+  storage: IStorage,
+  options: { now?: Date; horizonDays?: number; lookbackDays?: number } = {},
+): Promise<InventoryForecast> {
+  const { now = new Date(), horizonDays = 14, lookbackDays = 28 } = options;
+  const horizonEnd = new Date(now.getTime() + horizonDays * DAY_MS);
+  const partsByTask = new Map((await storage.getServiceTasks()).map((t) => [t.name, t.requiredParts]));
+
+  const used = new Map<string, number>();
+  const since = now.getTime() - lookbackDays * DAY_MS;
+  for (const record of await storage.getCompletedServices()) {
+    if (new Date(record.completedAt).getTime() >= since) addTaskParts(used, record.selectedTasks, partsByTask);
+  }
+
+  const awaiting = new Map<string, number>();
+  for (const reservation of await storage.getPartReservations({ statuses: ["Awaiting Stock"] })) {
+    awaiting.set(reservation.partName, (awaiting.get(reservation.partName) ?? 0) + reservation.quantity);
+  }
+
+  // Demand and deliveries keyed by day index from now
+  const bookedByDay = new Map<number, Map<string, number>>();
+  for (const appointment of await storage.getAppointments({ from: now, to: horizonEnd })) {
+    if (appointment.status !== "Booked") continue;
+    const day = Math.floor((appointment.scheduledStart.getTime() - now.getTime()) / DAY_MS);
+    if (!bookedByDay.has(day)) bookedByDay.set(day, new Map());
+    addTaskParts(bookedByDay.get(day)!, appointment.selectedTasks, partsByTask);
+  }
+  const onOrder = new Map<string, number>();
+  const arrivingByDay = new Map<number, Map<string, number>>();
+  for (const order of await storage.getPurchaseOrders({ statuses: openPurchaseOrderStatuses })) {
+    const day = order.status === "Sent" && order.expectedArrival
+      ? Math.max(0, Math.floor((order.expectedArrival.getTime() - now.getTime()) / DAY_MS))
+      : null;
+    for (const line of order.lines) {
+      onOrder.set(line.partName, (onOrder.get(line.partName) ?? 0) + line.quantity);
+      if (day === null || day >= horizonDays) continue;
+      if (!arrivingByDay.has(day)) arrivingByDay.set(day, new Map());
+      const arriving = arrivingByDay.get(day)!;
+      arriving.set(line.partName, (arriving.get(line.partName) ?? 0) + line.quantity);
+    }
+  }
+
+  const suppliers = await storage.getSuppliers();
+  const parts: PartForecast[] = (await storage.getInventory()).map((item) => {
+    const dailyUsage = (used.get(item.partName) ?? 0) / lookbackDays;
+    const source = cheapestOffer(suppliers, item.partName);
+    const leadTimeDays = source?.supplier.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS;
+
+    let stock = availableStock(item) - (awaiting.get(item.partName) ?? 0);
+    let stockOutDate: string | null = stock < 0 ? now.toISOString() : null;
+    let bookedDemand = 0;
+    let leadTimeBooked = 0;
+    for (let day = 0; day < horizonDays; day++) {
+      const booked = bookedByDay.get(day)?.get(item.partName) ?? 0;
+      bookedDemand += booked;
+      if (day < leadTimeDays) leadTimeBooked += booked;
+      stock += (arrivingByDay.get(day)?.get(item.partName) ?? 0) - dailyUsage - booked;
+      if (stock < 0 && !stockOutDate) stockOutDate = new Date(now.getTime() + day * DAY_MS).toISOString();
+    }
+
+    const reorderPoint = Math.max(item.minimumStock, Math.ceil(dailyUsage * (leadTimeDays + SAFETY_DAYS) + leadTimeBooked));
+    const position = availableStock(item) - (awaiting.get(item.partName) ?? 0) + (onOrder.get(item.partName) ?? 0);
+    let suggestedOrderQuantity = 0;
+    if (position <= reorderPoint) {
+      const needed = Math.ceil(reorderPoint + dailyUsage * horizonDays + bookedDemand - position);
+      suggestedOrderQuantity = Math.max(needed, source?.offer.minimumOrder ?? 1);
+    }
+
+    return {
+      partName: item.partName,
+      available: availableStock(item),
+      awaiting: awaiting.get(item.partName) ?? 0,
+      onOrder: onOrder.get(item.partName) ?? 0,
+      dailyUsage: Math.round(dailyUsage * 100) / 100,
+      bookedDemand,
+      projectedStock: Math.floor(stock),
+      stockOutDate,
+      supplierName: source?.supplier.name ?? null,
+      leadTimeDays,
+      reorderPoint,
+      suggestedOrderQuantity,
+    };
+  });
+
+  parts.sort((a, b) =>
+    (a.stockOutDate ?? "9999").localeCompare(b.stockOutDate ?? "9999") || a.partName.localeCompare(b.partName));
+  return { generatedAt: now.toISOString(), horizonDays, lookbackDays, parts };
+}
@@ -1,5 +1,6 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -47,6 +48,14 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Fail at startup, not on the first request, when the database is unreachable
+  try {
+    await storage.ready;
+  } catch (error) {
+    log(`storage failed to start: ${error instanceof Error ? error.message : error}`, "storage");
+    process.exit(1);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,228 @@
+import { availableStock, type ActiveService, type ServiceRequest, type ServiceTask } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { estimateServiceHours } from "./prediction";
+import { applyBusinessHours, businessHoursBetween } from "./business-hours";
+import { loadRoster, workersOnShift } from "./roster";
+import { buildCrew, type CrewChoice } from "./crew";
+import { bayRequirementsFor, chooseBay, serviceCapacity, servicesHoldingBays } from "./bays";
+import { broadcast } from "./realtime";
+import { buildChecklist } from "./checklist";
+import { registerVisit } from "./registry";
+import { reserveServiceParts } from "./reservations";
+import { reorderLowStock } from "./purchasing";
+
+export interface IntakeResult {
+  serviceId: string;
+  predictedHours: number; // includes queue wait for queued services
+  assignedWorkers: string[]; // worker names
+  crew: CrewChoice[]; // why each worker was chosen
+  assignedMachine: string;
+  estimatedCompletion: string;
+  queuePosition?: number;
+  modelVersion: string;
+  modelNote?: string;
+  warnings: string[];
+  service: ActiveService;
+}
+
+// Looks up the selected tasks and sums their base time and required part names
+export async function resolveTasks(storage: IStorage, taskNames: string[]) {
+  let baseTime = 0;
+  const tasks: ServiceTask[] = [];
+  const requiredParts: string[] = [];
+
+  for (const taskName of taskNames) {
+    const task = await storage.getServiceTask(taskName);
+    if (task) {
+      baseTime += task.baseTimeHours;
+      tasks.push(task);
+      requiredParts.push(...task.requiredParts.map((part) => part.partName));
+    }
+  }
+  return { baseTime, tasks, requiredParts };
+}
+
+// Skill category of the longest task, which decides who is assigned
+export function primarySkillFor(tasks: ServiceTask[]): string {
+  return tasks.length > 0
+    ? [...tasks].sort((a, b) => b.baseTimeHours - a.baseTimeHours)[0].category
+    : "General";
+}
+
+// Turns a validated service request into an active service: predicts the
+// duration, reserves parts, assigns workers and a bay (or queues it) and
+// notifies connected clients.
+export async function intakeServiceRequest(storage: IStorage, request: ServiceRequest): Promise<IntakeResult> {
+  // Link the request to the vehicle registry (first visits create the records)
+  const { vehicle, customer } = await registerVisit(storage, request);
+
+  // Step 1: Calculate base time from selected tasks
+  const { baseTime, tasks: selectedTaskDetails, requiredParts } = await resolveTasks(storage, request.selectedTasks);
+
+  // Per-task checklist, in the order the tasks were selected
+  const taskChecklist = buildChecklist(selectedTaskDetails);
+
+  // Step 2: AI Service Time Prediction (trained model, heuristic fallback)
+  const activeServices = await storage.getActiveServices();
+  const machineCount = (await storage.getMachines()).length;
+  const { hours: predictedHours, modelVersion, modelNote } = estimateServiceHours(request, {
+    baseTime,
+    activeServiceCount: activeServices.length,
+    machineCount,
+  });
+
+  const warnings: string[] = [];
+
+  // Step 3: Build a crew covering every task category with the certifications
+  // the tasks and fuel type need (max 3 workers per machine, max 3 jobs per
+  // worker), choosing only technicians on shift when the job can start (the
+  // next open instant if the workshop is closed)
+  const workStart = applyBusinessHours(new Date(), 0);
+  const workers = workersOnShift(await loadRoster(storage), workStart);
+  const numWorkersNeeded = Math.min(3, Math.ceil(predictedHours / 2)); // 1-3 workers based on time
+  const crew = buildCrew(workers, selectedTaskDetails, request, numWorkersNeeded);
+  const assignedWorkers = crew.workerIds;
+
+  // Step 4: Assign a bay of the required type with the required tools
+  const machines = await storage.getMachines();
+  const bayChoice = chooseBay(machines, bayRequirementsFor(selectedTaskDetails));
+
+  let assignedMachine = "";
+  let queuePosition: number | undefined = undefined;
+  let queueReason: string | undefined = undefined;
+
+  // Only services holding a bay count, so a job waiting for a bay it may never
+  // get does not block work that fits elsewhere. The checks and reasons are the
+  // dispatcher's, so a job it would hold back does not start here either.
+  if (servicesHoldingBays(activeServices).length >= serviceCapacity(machines)) {
+    queueReason = "Workshop at capacity";
+  } else if (!bayChoice.bay) {
+    queueReason = bayChoice.reason;
+  } else if (crew.shortfall) {
+    queueReason = crew.shortfall;
+  } else {
+    assignedMachine = `Bay ${bayChoice.bay.bayNumber}`;
+  }
+  if (queueReason !== crew.shortfall) warnings.push(...crew.warnings);
+  if (queueReason) {
+    queuePosition = activeServices.filter(s => s.status === "Queued").length + 1;
+    assignedMachine = "QUEUED";
+    warnings.push(`${queueReason}. Service queued at position ${queuePosition}`);
+  }
+
+  // Step 5: Generate Service ID (VOL_YYYYMMDDHHMMSS_WID format)
+  const now = new Date();
+  const dateStr = now.toISOString().replace(/[-:T.Z]/g, '').slice(0, 14);
+  const workerId = assignedWorkers.length > 0 ? assignedWorkers[0].slice(0, 3).toUpperCase() : "QUE";
+  const serviceId = `VOL_${dateStr}_${workerId}`;
+
+  // Step 6: Calculate estimated completion
+  // If queued, include wait time equal to the minimum remaining time among active in-progress services
+  let displayPredictedHours = predictedHours;
+  let waitHours = 0;
+  if (queuePosition) {
+    const inProgress = activeServices.filter(s => s.status === "In Progress");
+    // Waits are counted in working hours so closed time is not added twice
+    const remainingHours = inProgress
+      .map(s => businessHoursBetween(now, new Date(s.estimatedCompletion)))
+      .filter(h => isFinite(h));
+    if (remainingHours.length > 0) {
+      waitHours = Math.min(...remainingHours);
+      displayPredictedHours = predictedHours + waitHours;
+    }
+  }
+  const estimatedCompletion = applyBusinessHours(now, predictedHours + waitHours);
+
+  // Step 7: Create active service
+  const activeService = await storage.createActiveService({
+    id: serviceId,
+    vehicleId: vehicle.id,
+    customerId: customer?.id ?? null,
+    carNumber: vehicle.carNumber,
+    carModel: request.carModel,
+    manufactureYear: request.manufactureYear,
+    fuelType: request.fuelType,
+    totalKilometers: request.totalKilometers,
+    kmSinceLastService: request.kmSinceLastService,
+    daysSinceLastService: request.daysSinceLastService,
+    serviceType: request.serviceType,
+    selectedTasks: request.selectedTasks as any,
+    taskChecklist,
+    healthScore: request.healthScore,
+    errorCodes: request.errorCodes,
+    rustLevel: request.rustLevel,
+    bodyDamage: request.bodyDamage,
+    predictedHours,
+    estimatedCompletion,
+    progress: 0,
+    assignedWorkers,
+    assignedMachine,
+    reservedParts: Array.from(new Set(requiredParts)) as any,
+    queuePosition,
+    queueReason: queueReason ?? null,
+    priority: request.priority as any,
+    warrantyStatus: request.warrantyStatus,
+    status: queuePosition ? "Queued" : "In Progress",
+  });
+
+  // Step 8: Reserve each task's parts; tasks whose parts are short wait for a
+  // restock and cannot be started until it arrives
+  const reservations = await reserveServiceParts(storage, serviceId, selectedTaskDetails);
+  const awaited = new Set<string>();
+  for (const reservation of reservations.filter(r => r.status === "Awaiting Stock")) {
+    warnings.push(`${reservation.partName} is out of stock; ${reservation.taskName} is blocked until it arrives`);
+    awaited.add(reservation.partName);
+  }
+  for (const partName of Array.from(new Set(reservations.map(r => r.partName)))) {
+    const item = await storage.getInventoryItem(partName);
+    if (item && !awaited.has(partName) && availableStock(item) < item.minimumStock) {
+      warnings.push(`${partName} stock is running low`);
+    }
+  }
+
+  // Step 9: Update worker loads only if service starts immediately (not queued)
+  if (!queuePosition) {
+    for (const workerId of assignedWorkers) {
+      const worker = await storage.getWorker(workerId);
+      if (worker) {
+        const newJobs = [...worker.activeJobs, serviceId];
+        const newLoad = Math.min(100, worker.loadPercent + (100 / 3)); // Each job adds ~33% load
+        await storage.updateWorkerLoad(workerId, Math.round(newLoad), newJobs);
+      }
+    }
+  }
+
+  // Step 10: Update machine load
+  if (!queuePosition && bayChoice.bay) {
+    const machine = bayChoice.bay;
+    const newWorkers = Array.from(new Set([...machine.assignedWorkers, ...assignedWorkers]));
+    const newLoad = Math.min(100, machine.currentLoad + 50);
+    await storage.updateMachineLoad(machine.id, newLoad, newWorkers);
+  }
+
+  broadcast({ type: "service.created", service: activeService });
+  if (!queuePosition) broadcast({ type: "worker.load_changed", workerIds: assignedWorkers });
+  if (reservations.length > 0) {
+    const partNames = Array.from(new Set(reservations.map(r => r.partName)));
+    broadcast({ type: "stock.changed", partNames });
+    await reorderLowStock(storage, partNames);
+  }
+
+  // Step 11: Return prediction result
+  return {
+    serviceId,
+    predictedHours: parseFloat(displayPredictedHours.toFixed(2)),
+    assignedWorkers: assignedWorkers.map(id => {
+      const w = workers.find(worker => worker.id === id);
+      return w ? w.name : id;
+    }),
+    crew: crew.explanations,
+    assignedMachine,
+    estimatedCompletion: estimatedCompletion.toISOString(),
+    queuePosition,
+    modelVersion,
+    modelNote,
+    warnings,
+    service: activeService,
+  };
+}
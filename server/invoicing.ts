@@ -0,0 +1,96 @@
+import type { ActiveService, CompletedService, InvoiceItem, InvoiceItemKind, PartReservation, ServiceTask } from "@shared/schema";
+import { invoiceTotals, roundMoney, type InvoiceTotals, type PriceList } from "@shared/pricing";
+
+export type Invoice = InvoiceTotals & { currency: string; items: InvoiceItem[] };
+
+// Tasks a finished service is billed for: the ones done (or under way) when
+// the checklist was used, otherwise every selected task
+export function billableTasks(service: ActiveService, tasks: ServiceTask[]): ServiceTask[] {
+  const tracked = service.taskChecklist.some((t) => t.status !== "Pending");
+  if (!tracked) return tasks;
+  return tasks.filter((task) => {
+    const state = service.taskChecklist.find((t) => t.name === task.name);
+    return state?.status === "Done" || state?.status === "In Progress";
+  });
+}
+
+function lineItem(
+  id: string,
+  kind: InvoiceItemKind,
+  description: string,
+  quantity: number,
+  unitPrice: number,
+  warrantyCovered: boolean,
+): InvoiceItem {
+  return {
+    id,
+    kind,
+    description,
+    quantity,
+    unitPrice,
+    warrantyCovered,
+    amount: warrantyCovered ? 0 : roundMoney(quantity * unitPrice),
+  };
+}
+
+// Bills a finished service from the price list: each task at its fixed price
+// or its base hours at the labour rate of its category, and the parts the
+// service consumed. Work and parts covered by warranty stay on the invoice
+// at zero charge for vehicles in warranty.
+export function buildInvoice(
+  service: ActiveService,
+  tasks: ServiceTask[],
+  partsUsed: PartReservation[],
+  priceList: PriceList,
+): Invoice {
+  const inWarranty = service.warrantyStatus === "In Warranty";
+  const coveredTasks = inWarranty ? priceList.warrantyCoverage.tasks : [];
+  const coveredParts = inWarranty ? priceList.warrantyCoverage.parts : [];
+
+  const items: InvoiceItem[] = billableTasks(service, tasks).map((task, i) => {
+    const id = `${service.id}-labour-${i}`;
+    const covered = coveredTasks.includes(task.name);
+    const fixed = priceList.taskPrices[task.name];
+    if (fixed !== undefined) return lineItem(id, "Labour", task.name, 1, fixed, covered);
+    const rate = priceList.labourRates[task.category] ?? priceList.labourRates.General ?? 0;
+    return lineItem(id, "Labour", `${task.name} (${task.category} labour)`, task.baseTimeHours, rate, covered);
+  });
+
+  const quantities = new Map<string, number>();
+  for (const part of partsUsed) quantities.set(part.partName, (quantities.get(part.partName) ?? 0) + part.quantity);
+  Array.from(quantities.entries()).forEach(([partName, quantity], i) => {
+    const unitPrice = priceList.partPrices[partName] ?? 0;
+    items.push(lineItem(`${service.id}-part-${i}`, "Part", partName, quantity, unitPrice, coveredParts.includes(partName)));
+  });
+
+  const totals = invoiceTotals(items.map((i) => i.amount), 0, priceList.taxes);
+  return { ...totals, currency: priceList.currency, items };
+}
+
+// Re-prices an edited invoice. Lines are charged at quantity × rate unless
+// covered by warranty; the discount is an amount or a percentage of the
+// subtotal, and tax uses the rates the invoice was raised with.
+export function repriceInvoice(
+  record: CompletedService,
+  items: Array<Partial<InvoiceItem>>,
+  discount: { amount?: number; percent?: number },
+): Invoice {
+  const priced = items.map((it, idx) => lineItem(
+    it.id || `${record.id}-item-${idx}`,
+    it.kind ?? "Other",
+    String(it.description || `Item ${idx + 1}`),
+    typeof it.quantity === "number" && it.quantity >= 0 ? it.quantity : 1,
+    typeof it.unitPrice === "number" && it.unitPrice >= 0 ? it.unitPrice : 0,
+    it.warrantyCovered === true,
+  ));
+  const subtotal = priced.reduce((sum, i) => sum + i.amount, 0);
+  const discountAmount = discount.percent !== undefined
+    ? (subtotal * discount.percent) / 100
+    : discount.amount ?? record.discount;
+  const totals = invoiceTotals(
+    priced.map((i) => i.amount),
+    discountAmount,
+    record.taxLines.map(({ name, ratePercent }) => ({ name, ratePercent })),
+  );
+  return { ...totals, currency: record.currency, items: priced };
+}
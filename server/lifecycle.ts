@@ -0,0 +1,106 @@
+import { isOnHold, type ActiveService, type CancelledService, type HoldStatus } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { applyBusinessHours } from "./business-hours";
+import { bayOf } from "./bays";
+import { hasChecklistActivity, remainingChecklistHours } from "./checklist";
+import { allocateAwaitingStock, releaseParts } from "./reservations";
+
+export type ServiceTransitionResult =
+  | { service: ActiveService }
+  | { error: string };
+
+export type CancellationResult = { record: CancelledService; partNames: string[] };
+
+// Takes a service off its crew and bay. Queued services never took either.
+export async function releaseBayAndCrew(storage: IStorage, service: ActiveService): Promise<void> {
+  for (const workerId of service.assignedWorkers) {
+    const worker = await storage.getWorker(workerId);
+    if (worker && worker.activeJobs.includes(service.id)) {
+      const updatedJobs = worker.activeJobs.filter(jobId => jobId !== service.id);
+      const newLoad = Math.max(0, worker.loadPercent - (100 / 3)); // Each job is ~33% load
+      await storage.updateWorkerLoad(workerId, Math.round(newLoad), updatedJobs);
+    }
+  }
+
+  if (service.status === "Queued") return;
+  const machine = bayOf(service, await storage.getMachines());
+  if (machine) {
+    const updatedWorkers = machine.assignedWorkers.filter(w => !service.assignedWorkers.includes(w));
+    const newLoad = Math.max(0, machine.currentLoad - 50); // Reduce load
+    await storage.updateMachineLoad(machine.id, newLoad, updatedWorkers);
+  }
+}
+
+// Pauses a running service. It keeps its bay and crew; progress stops
+// advancing until it is resumed.
+export async function holdService(
+  storage: IStorage,
+  service: ActiveService,
+  status: HoldStatus,
+  now: Date,
+): Promise<ServiceTransitionResult> {
+  if (service.status === status) return { error: `Service is already ${status.toLowerCase()}` };
+  if (service.status !== "In Progress" && !isOnHold(service)) {
+    return { error: `Only services in progress can be put on hold; this one is ${service.status.toLowerCase()}` };
+  }
+  // Switching between hold reasons keeps the original hold time
+  const updated = await storage.updateActiveService(service.id, { status, heldAt: service.heldAt ?? now });
+  return updated ? { service: updated } : { error: "Service not found" };
+}
+
+// Working hours left on a service: the unfinished share of the predicted
+// time, or the open checklist tasks' book time scaled to the prediction
+export function remainingWorkHours(service: ActiveService): number {
+  if (hasChecklistActivity(service.taskChecklist)) {
+    const totalBaseHours = service.taskChecklist.reduce((sum, t) => sum + t.baseTimeHours, 0);
+    const scale = totalBaseHours > 0 ? service.predictedHours / totalBaseHours : 1;
+    return remainingChecklistHours(service.taskChecklist) * scale;
+  }
+  return service.predictedHours * (100 - service.progress) / 100;
+}
+
+// Restarts a held service from where it stopped: the progress it had is
+// carried forward as a report made now, and the ETA is the remaining work
+// from now, so the time on hold is not counted.
+export async function resumeService(storage: IStorage, service: ActiveService, now: Date): Promise<ServiceTransitionResult> {
+  if (!isOnHold(service)) return { error: `Only services on hold can be resumed; this one is ${service.status.toLowerCase()}` };
+  const updated = await storage.updateActiveService(service.id, {
+    status: "In Progress",
+    heldAt: null,
+    reportedProgress: service.progress,
+    progressReportedAt: now,
+    estimatedCompletion: applyBusinessHours(now, remainingWorkHours(service)),
+  });
+  return updated ? { service: updated } : { error: "Service not found" };
+}
+
+// Calls a job off before it is finished. Nothing is billed: the crew and bay
+// are freed, every part held for it goes back to stock (and to whoever is
+// waiting for it), and the job is kept in the cancelled history. Returns the
+// part names released.
+export async function cancelService(
+  storage: IStorage,
+  service: ActiveService,
+  options: { reason: string; username?: string },
+): Promise<CancellationResult> {
+  await releaseBayAndCrew(storage, service);
+  const partNames = await releaseParts(storage, service.id);
+  await allocateAwaitingStock(storage, partNames);
+
+  const record = await storage.addCancelledService({
+    id: service.id,
+    vehicleId: service.vehicleId,
+    customerId: service.customerId,
+    carNumber: service.carNumber,
+    carModel: service.carModel,
+    serviceType: service.serviceType,
+    selectedTasks: (service.selectedTasks as string[]) || [],
+    predictedHours: service.predictedHours,
+    progress: service.progress,
+    statusAtCancellation: service.status,
+    reason: options.reason,
+    cancelledBy: options.username ?? null,
+  });
+  await storage.removeActiveService(service.id);
+  return { record, partNames };
+}
@@ -0,0 +1,103 @@
+import {
+  balanceDue,
+  formatInvoiceNumber,
+  paymentStatus,
+  type CompletedService,
+  type Payment,
+  type PaymentEntry,
+  type Receivable,
+  type Receivables,
+} from "@shared/schema";
+import { roundMoney } from "@shared/pricing";
+import type { IStorage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Age buckets for outstanding invoices, by days since completion
+const AGE_BUCKETS = [
+  { label: "0-30 days", maxDays: 30 },
+  { label: "31-60 days", maxDays: 60 },
+  { label: "61-90 days", maxDays: 90 },
+  { label: "Over 90 days", maxDays: Infinity },
+];
+
+export type PaymentResult =
+  | { record: CompletedService; payments: Payment[] }
+  | { error: string };
+
+// Records a payment, split across as many methods as the customer used, or
+// a refund. Payments cannot exceed the balance due and refunds cannot exceed
+// what has been paid. Storage checks both again as it records, so a payment
+// taken meanwhile on the same invoice cannot push it past either.
+export async function takePayment(
+  storage: IStorage,
+  record: CompletedService,
+  entry: PaymentEntry,
+  username?: string,
+): Promise<PaymentResult> {
+  const amount = roundMoney(entry.splits.reduce((sum, split) => sum + split.amount, 0));
+  if (entry.kind === "Refund") {
+    if (amount > record.amountPaid) {
+      return { error: `Refund of ${amount.toFixed(2)} is more than the ${record.amountPaid.toFixed(2)} paid` };
+    }
+  } else {
+    const due = balanceDue(record);
+    if (due <= 0) return { error: `${formatInvoiceNumber(record)} is already paid` };
+    if (amount > due) return { error: `Payment of ${amount.toFixed(2)} is more than the ${due.toFixed(2)} due` };
+  }
+
+  const payments = await storage.recordPayments(entry.splits.map((split) => ({
+    completedServiceId: record.id,
+    kind: entry.kind,
+    method: split.method,
+    amount: roundMoney(split.amount),
+    reference: split.reference || null,
+    recordedBy: username ?? null,
+    note: entry.note || null,
+  })));
+  if (!payments) {
+    return { error: `The amount paid on ${formatInvoiceNumber(record)} changed meanwhile; reload it and try again` };
+  }
+  const updated = await storage.getCompletedService(record.id);
+  if (!updated) return { error: "Record not found" };
+  return { record: updated, payments };
+}
+
+// Invoices with money still owed, oldest first, with totals per age bucket
+export async function buildReceivables(storage: IStorage, now = new Date()): Promise<Receivables> {
+  const customers = new Map((await storage.getCustomers()).map((c) => [c.id, c]));
+  const invoices: Receivable[] = (await storage.getCompletedServices())
+    .filter((record) => balanceDue(record) > 0)
+    .map((record) => {
+      const ageDays = Math.max(0, Math.floor((now.getTime() - new Date(record.completedAt).getTime()) / DAY_MS));
+      const customer = record.customerId ? customers.get(record.customerId) : undefined;
+      return {
+        serviceId: record.id,
+        invoiceNumber: record.invoiceNumber,
+        carNumber: record.carNumber,
+        carModel: record.carModel,
+        customerName: customer?.name ?? null,
+        customerPhone: customer?.phone ?? null,
+        completedAt: record.completedAt,
+        ageDays,
+        ageBucket: AGE_BUCKETS.find((b) => ageDays <= b.maxDays)!.label,
+        currency: record.currency,
+        total: record.total,
+        amountPaid: record.amountPaid,
+        balance: balanceDue(record),
+        status: paymentStatus(record),
+      };
+    })
+    .sort((a, b) => b.ageDays - a.ageDays || a.invoiceNumber - b.invoiceNumber);
+
+  const buckets = AGE_BUCKETS.map(({ label }) => {
+    const inBucket = invoices.filter((i) => i.ageBucket === label);
+    return { label, count: inBucket.length, balance: roundMoney(inBucket.reduce((sum, i) => sum + i.balance, 0)) };
+  });
+  return {
+    asOf: now.toISOString(),
+    totalOutstanding: roundMoney(invoices.reduce((sum, i) => sum + i.balance, 0)),
+    buckets,
+    invoices,
+  };
+}
@@ -0,0 +1,184 @@
+import fs from "fs";
+import path from "path";
+import type { ServiceRequest } from "@shared/schema";
+import {
+  encodeCategorical,
+  predictWithModel,
+  type ServiceTimeFeatures,
+  type ServiceTimeModel,
+} from "@shared/service-time-model";
+import { log } from "./vite";
+
+// Reported as the model version when no trained artifact is available
+export const HEURISTIC_MODEL_VERSION = "heuristic";
+
+export type PredictionContext = {
+  baseTime: number; // sum of the selected tasks' base hours
+  activeServiceCount: number;
+  machineCount: number;
+};
+
+export type ServiceTimeEstimate = {
+  hours: number;
+  modelVersion: string;
+  modelNote?: string; // why an artifact on disk was not used
+};
+
+type LoadedModel = { model: ServiceTimeModel | null; note?: string };
+
+// The model as last loaded, keyed by the artifact's modification time (0 when absent)
+let cachedModel: ({ mtimeMs: number } & LoadedModel) | undefined;
+
+function modelFile(): string {
+  return process.env.SERVICE_TIME_MODEL_PATH || "models/service-time.json";
+}
+
+// Reads the artifact written by `npm run train:service`. The path can be
+// overridden with SERVICE_TIME_MODEL_PATH; a missing or unreadable file
+// means predictions fall back to the heuristic. So does a model trained
+// without baseHours: it cannot see the selected tasks and would quote the
+// same time for an oil change as for a transmission service.
+export function loadServiceTimeModel(file = modelFile()): LoadedModel {
+  const full = path.resolve(process.cwd(), file);
+  if (!fs.existsSync(full)) {
+    log(`no service time model at ${file}, using heuristic`, "model");
+    return { model: null };
+  }
+  try {
+    const model = JSON.parse(fs.readFileSync(full, "utf-8")) as ServiceTimeModel;
+    const width = model.features.length + 1;
+    if (model.weights.length !== width || model.means.length !== width || model.stds.length !== width) {
+      throw new Error("weights, means and stds must match the feature list");
+    }
+    if (!model.features.includes("baseHours")) {
+      log(`service time model ${model.version} has no baseHours feature and ignores the selected tasks, using heuristic`, "model");
+      return { model: null, note: `Model ${model.version} was trained without task data` };
+    }
+    log(`loaded service time model ${model.version} (r2=${model.metrics.r2.toFixed(3)})`, "model");
+    return { model };
+  } catch (error: any) {
+    log(`failed to load service time model ${file}: ${error.message}`, "model");
+    return { model: null, note: "The trained model could not be loaded" };
+  }
+}
+
+// Reloads the artifact whenever it changes on disk, so a retrained model is
+// used from the next prediction without restarting the server
+export function getServiceTimeModel(): LoadedModel {
+  const full = path.resolve(process.cwd(), modelFile());
+  const mtimeMs = fs.existsSync(full) ? fs.statSync(full).mtimeMs : 0;
+  if (cachedModel?.mtimeMs !== mtimeMs) {
+    cachedModel = { mtimeMs, ...loadServiceTimeModel() };
+  }
+  return cachedModel;
+}
+
+export function toModelFeatures(request: ServiceRequest, ctx: PredictionContext): ServiceTimeFeatures {
+  return {
+    baseHours: ctx.baseTime,
+    age: new Date().getFullYear() - request.manufactureYear,
+    kmSinceLastService: request.kmSinceLastService,
+    healthScore: request.healthScore,
+    dtcCount: request.errorCodes.length,
+    rustLevel: encodeCategorical("rustLevel", request.rustLevel),
+    bodyDamage: encodeCategorical("bodyDamage", request.bodyDamage),
+    batterySOH: request.batterySOH,
+    fluidDegradation: request.fluidDegradation,
+    wearTearScore: request.wearTearScore,
+    package: encodeCategorical("package", request.servicePackage),
+    approvalSpeed: encodeCategorical("approvalSpeed", request.customerApprovalSpeed),
+    appointmentType: encodeCategorical("appointmentType", request.appointmentType),
+    peakHours: request.peakHours ? 1 : 0,
+    weather: encodeCategorical("weather", request.weather),
+    shopLoad: ctx.machineCount > 0 ? Math.min(1, ctx.activeServiceCount / ctx.machineCount) : 0,
+  };
+}
+
+export function estimateServiceHours(request: ServiceRequest, ctx: PredictionContext): ServiceTimeEstimate {
+  const { model, note } = getServiceTimeModel();
+  if (model) {
+    const hours = predictWithModel(model, toModelFeatures(request, ctx));
+    // A job never takes less than the book time of its tasks
+    if (Number.isFinite(hours)) {
+      return { hours: Math.max(ctx.baseTime, hours), modelVersion: model.version };
+    }
+  }
+  return { hours: heuristicServiceHours(request, ctx), modelVersion: HEURISTIC_MODEL_VERSION, modelNote: note };
+}
+
+// Hand-tuned condition multipliers applied on top of the tasks' base time
+export function heuristicServiceHours(request: ServiceRequest, ctx: PredictionContext): number {
+  const baseTime = ctx.baseTime;
+
+  // Car age factor (older cars take longer)
+  const carAge = new Date().getFullYear() - request.manufactureYear;
+  const carAgeFactor = carAge > 10 ? 0.2 : carAge > 5 ? 0.1 : 0;
+
+  // Condition multipliers
+  const healthFactor = (100 - request.healthScore) / 200;
+
+  const rustMultiplier = {
+    "None": 0,
+    "Minor": 0.1,
+    "Moderate": 0.2,
+    "Severe": 0.4,
+  }[request.rustLevel];
+
+  const damageMultiplier = {
+    "None": 0,
+    "Minor": 0.05,
+    "Moderate": 0.15,
+    "Severe": 0.3,
+  }[request.bodyDamage];
+
+  // Mileage factor
+  const kmFactor = request.kmSinceLastService > 10000 ? 0.15 : request.kmSinceLastService > 5000 ? 0.08 : 0;
+
+  // Error codes factor
+  const errorCodesFactor = request.errorCodes.length * 0.25;
+
+  const batteryFactor = request.fuelType === "Electric" ? (100 - request.batterySOH) / 300 : 0;
+  const fluidsFactor = request.fluidDegradation / 300;
+  const wearTearFactor = request.wearTearScore / 300;
+
+  const packageFactor = {
+    Basic: 0,
+    Standard: 0.05,
+    Premium: 0.12,
+  }[request.servicePackage];
+
+  const approvalFactor = {
+    Fast: 0,
+    Normal: 0.05,
+    Slow: 0.15,
+  }[request.customerApprovalSpeed];
+
+  // Shop load factor
+  const shopLoadFactor = ctx.activeServiceCount >= 6 ? 0.3 : ctx.activeServiceCount >= 4 ? 0.2 : 0;
+  const appointmentFactor = request.appointmentType === "Walk-in" ? 0.1 : 0;
+  const peakHoursFactor = request.peakHours ? 0.08 : 0;
+  const weatherFactor = {
+    Clear: 0,
+    Rain: 0.05,
+    Extreme: 0.12,
+  }[request.weather];
+
+  // Calculate predicted time
+  const conditionAdjustment = baseTime * (
+    carAgeFactor +
+    healthFactor +
+    rustMultiplier +
+    damageMultiplier +
+    kmFactor +
+    errorCodesFactor +
+    batteryFactor +
+    fluidsFactor +
+    wearTearFactor +
+    packageFactor +
+    approvalFactor +
+    appointmentFactor +
+    peakHoursFactor +
+    weatherFactor
+  );
+  return baseTime + conditionAdjustment + shopLoadFactor;
+}
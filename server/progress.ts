@@ -0,0 +1,60 @@
+import type { ActiveService } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { businessHoursBetween } from "./business-hours";
+import { checklistProgress, hasChecklistActivity } from "./checklist";
+import { log } from "./vite";
+
+function clampProgress(value: number): number {
+  return Math.max(0, Math.min(100, Math.floor(value)));
+}
+
+// Time-based progress of an In Progress service: elapsed business hours as a
+// share of predictedHours. Once a technician has reported progress, the
+// estimate continues from the reported value instead of the start time.
+// Services whose task checklist is in use report checklist progress instead.
+export function estimateProgress(service: ActiveService, now: Date): number {
+  if (hasChecklistActivity(service.taskChecklist)) {
+    return checklistProgress(service.taskChecklist);
+  }
+  const predictedHours = Math.max(service.predictedHours, 0.01);
+  if (service.reportedProgress !== null && service.progressReportedAt) {
+    const sinceReport = businessHoursBetween(new Date(service.progressReportedAt), now);
+    return clampProgress(service.reportedProgress + (sinceReport / predictedHours) * 100);
+  }
+  const elapsed = businessHoursBetween(new Date(service.actualStartTime), now);
+  return clampProgress((elapsed / predictedHours) * 100);
+}
+
+// Advances every In Progress service; updateServiceProgress flips a service
+// to Completing when it reaches 100%. Returns the ids that changed.
+export async function advanceProgress(storage: IStorage, now = new Date()): Promise<string[]> {
+  const changed: string[] = [];
+  const services = await storage.getActiveServices();
+  for (const service of services) {
+    if (service.status !== "In Progress") continue;
+    const progress = estimateProgress(service, now);
+    if (progress !== service.progress) {
+      await storage.updateServiceProgress(service.id, progress);
+      changed.push(service.id);
+    }
+  }
+  return changed;
+}
+
+// Runs advanceProgress on an interval; `onAdvance` receives the ids of the
+// services whose progress changed on each tick.
+export function startProgressEngine(
+  storage: IStorage,
+  onAdvance?: (serviceIds: string[]) => void | Promise<void>,
+  intervalMs = 60_000,
+): () => void {
+  const timer = setInterval(() => {
+    advanceProgress(storage).then(async (changed) => {
+      if (changed.length > 0 && onAdvance) await onAdvance(changed);
+    }).catch((error) => {
+      log(`progress update failed: ${error?.message ?? error}`, "progress");
+    });
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
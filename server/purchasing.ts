@@ -0,0 +1,169 @@
+import {
+  availableStock,
+  openPurchaseOrderStatuses,
+  purchaseOrderNumber,
+  type PartReceipt,
+  type PurchaseOrder,
+  type PurchaseOrderLine,
+  type Supplier,
+  type SupplierPart,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { broadcast } from "./realtime";
+import { validateStockMovement } from "./stock";
+
+export const purchaseOrderActions = ["approve", "send", "receive", "cancel"] as const;
+export type PurchaseOrderAction = typeof purchaseOrderActions[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Cheapest supplier listing the part; the shorter lead time breaks ties
+export function cheapestOffer(suppliers: Supplier[], partName: string): { supplier: Supplier; offer: SupplierPart } | undefined {
+  return suppliers
+    .flatMap((supplier) => supplier.parts
+      .filter((offer) => offer.partName === partName)
+      .map((offer) => ({ supplier, offer })))
+    .sort((a, b) => a.offer.unitPrice - b.offer.unitPrice || a.supplier.leadTimeDays - b.supplier.leadTimeDays)[0];
+}
+
+// Units of each part on purchase orders that have not arrived yet
+export async function unitsOnOrder(storage: IStorage): Promise<Map<string, number>> {
+  const onOrder = new Map<string, number>();
+  for (const order of await storage.getPurchaseOrders({ statuses: openPurchaseOrderStatuses })) {
+    for (const line of order.lines) {
+      onOrder.set(line.partName, (onOrder.get(line.partName) ?? 0) + line.quantity);
+    }
+  }
+  return onOrder;
+}
+
+// Prices requested lines from the supplier's catalog. Every part must be
+// listed by the supplier and ordered in at least its minimum quantity.
+export function priceOrderLines(
+  supplier: Supplier,
+  lines: { partName: string; quantity: number }[],
+): { lines: PurchaseOrderLine[] } | { error: string } {
+  if (!Array.isArray(lines) || lines.length === 0) return { error: "An order needs at least one line" };
+  const priced: PurchaseOrderLine[] = [];
+  for (const { partName, quantity } of lines) {
+    const offer = supplier.parts.find((p) => p.partName === partName);
+    if (!offer) return { error: `${supplier.name} does not supply ${partName}` };
+    if (!Number.isInteger(quantity) || quantity < offer.minimumOrder) {
+      return { error: `${partName} must be ordered in whole units of at least ${offer.minimumOrder}` };
+    }
+    if (priced.some((l) => l.partName === partName)) return { error: `${partName} is listed twice` };
+    priced.push({ partName, quantity, unitPrice: offer.unitPrice });
+  }
+  return { lines: priced };
+}
+
+// Drafts purchase orders for parts whose available stock, counting units
+// already on order, is below the minimum. Each order tops the part up to twice
+// its minimum (at least the supplier's minimum order) from the cheapest
+// supplier, joining that supplier's open automatic draft when there is one.
+// Checks every part when `partNames` is omitted; returns the drafts touched.
+export async function draftReorders(storage: IStorage, partNames?: string[]): Promise<PurchaseOrder[]> {
+  const items = (await storage.getInventory())
+    .filter((item) => !partNames || partNames.includes(item.partName));
+  const suppliers = await storage.getSuppliers();
+  const onOrder = await unitsOnOrder(storage);
+  const touched = new Map<string, PurchaseOrder>();
+
+  for (const item of items) {
+    const expected = availableStock(item) + (onOrder.get(item.partName) ?? 0);
+    if (expected >= item.minimumStock) continue;
+    const source = cheapestOffer(suppliers, item.partName);
+    if (!source) continue;
+
+    const quantity = Math.max(item.minimumStock * 2 - expected, source.offer.minimumOrder);
+    const line: PurchaseOrderLine = { partName: item.partName, quantity, unitPrice: source.offer.unitPrice };
+    const [draft] = (await storage.getPurchaseOrders({ supplierId: source.supplier.id, statuses: ["Draft"] }))
+      .filter((o) => o.autoDrafted);
+    const order = draft
+      ? await storage.updatePurchaseOrder(draft.id, {
+        lines: draft.lines.some((l) => l.partName === line.partName)
+          ? draft.lines.map((l) => (l.partName === line.partName ? { ...l, quantity: l.quantity + quantity } : l))
+          : [...draft.lines, line],
+      })
+      : await storage.createPurchaseOrder({ supplierId: source.supplier.id, status: "Draft", lines: [line], autoDrafted: true });
+    if (order) touched.set(order.id, order);
+    onOrder.set(item.partName, (onOrder.get(item.partName) ?? 0) + quantity);
+  }
+  return Array.from(touched.values());
+}
+
+// Drafts reorders after stock changed and tells clients about the drafts
+export async function reorderLowStock(storage: IStorage, partNames?: string[]): Promise<PurchaseOrder[]> {
+  const drafted = await draftReorders(storage, partNames);
+  if (drafted.length > 0) broadcast({ type: "purchase_order.changed", orderIds: drafted.map((o) => o.id) });
+  return drafted;
+}
+
+export type PurchaseOrderTransitionResult =
+  | { order: PurchaseOrder; partNames: string[] }
+  | { error: string };
+
+// Moves an order through its workflow. Sending fixes the expected arrival
+// from the supplier's lead time; receiving posts every line into inventory as
+// a purchase-order receipt, together with the status change, and returns the
+// part names restocked.
+export async function transitionPurchaseOrder(
+  storage: IStorage,
+  order: PurchaseOrder,
+  action: PurchaseOrderAction,
+  options: { now: Date; username?: string },
+): Promise<PurchaseOrderTransitionResult> {
+  const { now, username } = options;
+  const status = order.status.toLowerCase();
+  let updated: PurchaseOrder | undefined;
+  const partNames: string[] = [];
+
+  switch (action) {
+    case "approve":
+      if (order.status !== "Draft") return { error: `Cannot approve an order that is ${status}` };
+      if (order.lines.length === 0) return { error: "Cannot approve an order without lines" };
+      updated = await storage.updatePurchaseOrder(order.id, { status: "Approved", approvedBy: username ?? null, approvedAt: now });
+      break;
+    case "send": {
+      if (order.status !== "Approved") return { error: `Cannot send an order that is ${status}` };
+      const supplier = await storage.getSupplier(order.supplierId);
+      const leadTimeDays = supplier?.leadTimeDays ?? 0;
+      updated = await storage.updatePurchaseOrder(order.id, {
+        status: "Sent",
+        sentAt: now,
+        expectedArrival: new Date(now.getTime() + leadTimeDays * DAY_MS),
+      });
+      break;
+    }
+    case "receive": {
+      if (order.status !== "Sent") return { error: `Cannot receive an order that is ${status}` };
+      // Every line is checked before any is posted, so a bad line leaves the
+      // order sent and stock untouched
+      const stocked = new Map((await storage.getInventory({ includeDiscontinued: true })).map((i) => [i.partName, i]));
+      const receipts: PartReceipt[] = [];
+      for (const line of order.lines) {
+        const item = stocked.get(line.partName) ?? { id: "", partName: line.partName, quantity: 0, reserved: 0 };
+        const checked = validateStockMovement(item, {
+          type: "Receipt",
+          reasonCode: "Purchase Order",
+          quantity: line.quantity,
+          note: purchaseOrderNumber(order),
+          recordedBy: username,
+        });
+        if ("error" in checked) return { error: `${line.partName}: ${checked.error}` };
+        const { inventoryId: _id, ...receipt } = checked.movement;
+        receipts.push({ ...receipt, partName: line.partName });
+        partNames.push(line.partName);
+      }
+      updated = await storage.receivePurchaseOrder(order.id, receipts, now);
+      if (!updated) return { error: "Purchase order is no longer awaiting delivery" };
+      break;
+    }
+    case "cancel":
+      if (!openPurchaseOrderStatuses.includes(order.status)) return { error: `Cannot cancel an order that is ${status}` };
+      updated = await storage.updatePurchaseOrder(order.id, { status: "Cancelled" });
+      break;
+  }
+  if (!updated) return { error: "Purchase order not found" };
+  return { order: updated, partNames };
+}
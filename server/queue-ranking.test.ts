@@ -0,0 +1,114 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ActiveService, CustomerTier } from "@shared/schema";
+import { DEFAULT_BUSINESS_CALENDAR } from "@shared/business-calendar";
+import { DEFAULT_QUEUE_WEIGHTS, type QueuePolicy, type QueueWeights } from "@shared/queue-policy";
+import { rankQueue, type QueueContext, type RankedService } from "./queue-ranking";
+
+// Times are in the default calendar's zone (Asia/Kolkata, open 10:00-19:00 Monday to Saturday)
+const at = (local: string) => new Date(`${local}:00+05:30`);
+
+const service = (id: string, queuedAt: string, extra: Partial<ActiveService> = {}): ActiveService => ({
+  id,
+  carNumber: id,
+  status: "Queued",
+  priority: "Normal",
+  fuelType: "Petrol",
+  predictedHours: 1,
+  assignedWorkers: [],
+  assignedMachine: "QUEUED",
+  queuePosition: 1,
+  queueReason: null,
+  customerId: null,
+  actualStartTime: at(queuedAt),
+  estimatedCompletion: at("2026-10-19T18:00"),
+  ...extra,
+} as ActiveService);
+
+function context(
+  policy: QueuePolicy,
+  now: string,
+  options: { weights?: QueueWeights; tiers?: Record<string, CustomerTier> } = {},
+): QueueContext {
+  return {
+    policy,
+    weights: options.weights ?? DEFAULT_QUEUE_WEIGHTS,
+    calendar: DEFAULT_BUSINESS_CALENDAR,
+    now: at(now),
+    tiers: new Map(Object.entries(options.tiers ?? {})),
+  };
+}
+
+const order = (ranked: RankedService[]) => ranked.map((r) => r.service.id);
+
+describe("rankQueue", () => {
+  it("serves the queue first in, first out by default, with the queue position breaking ties", () => {
+    const services = [
+      service("later", "2026-10-19T11:00"),
+      service("second", "2026-10-19T10:00", { queuePosition: 2 }),
+      service("first", "2026-10-19T10:00", { queuePosition: 1 }),
+    ];
+    const ranked = rankQueue(services, context("FIFO", "2026-10-19T11:30"));
+    assert.deepEqual(order(ranked), ["first", "second", "later"]);
+    assert.deepEqual(ranked.map((r) => r.rank), [1, 2, 3]);
+  });
+
+  it("lets a long low-priority job overtake a short one under WSJF once it has waited long enough", () => {
+    const long = service("long", "2026-10-19T10:00", { priority: "Low", predictedHours: 4 });
+
+    // After an hour: (1 + 1) / 4 against (2 + 0) / 1
+    const early = rankQueue([long, service("short", "2026-10-19T11:00")], context("WSJF", "2026-10-19T11:00"));
+    assert.deepEqual(order(early), ["short", "long"]);
+    assert.deepEqual(early.map((r) => r.score), [2, 0.5]);
+
+    // After ten working hours, Monday's nine and Tuesday's first: (1 + 10) / 4
+    const late = rankQueue([long, service("short", "2026-10-20T11:00")], context("WSJF", "2026-10-20T11:00"));
+    assert.deepEqual(order(late), ["long", "short"]);
+    assert.deepEqual(late.map((r) => r.score), [2.75, 2]);
+    assert.deepEqual(late[0].factors.slice(0, 2).map((f) => f.points), [1, 10]);
+    assert.equal(late[0].explanation, "Next under Weighted shortest job, with aging: score 2.75 = (Low 1 + 10 for waiting) / 4 h");
+  });
+
+  it("serves the earliest promise first under EDF, whatever the queue order", () => {
+    const services = [
+      service("A", "2026-10-19T10:00", { estimatedCompletion: at("2026-10-19T17:00") }),
+      service("B", "2026-10-19T10:30", { estimatedCompletion: at("2026-10-19T14:00") }),
+      service("C", "2026-10-19T11:00", { estimatedCompletion: at("2026-10-19T15:30") }),
+    ];
+    const ranked = rankQueue(services, context("EDF", "2026-10-19T11:30"));
+    assert.deepEqual(order(ranked), ["B", "C", "A"]);
+    assert.equal(ranked[0].score, null);
+    assert.equal(ranked[0].explanation, "Next under Earliest promise first: promised by 2026-10-19 14:00");
+    assert.equal(ranked[1].explanation, "Behind B (promised by 2026-10-19 14:00); this job: promised by 2026-10-19 15:30");
+  });
+
+  it("adds up the SCORED weights and explains each part", () => {
+    const gold = service("gold", "2026-10-19T10:00", { priority: "High", predictedHours: 2, customerId: "c1" });
+    const plain = service("plain", "2026-10-19T11:00");
+    const ranked = rankQueue([plain, gold], context("SCORED", "2026-10-19T11:30", { tiers: { c1: "Gold" } }));
+
+    // High 2 x 2, waited 1.5 h x 1, 2 h x -0.5, Gold 2 x 1
+    assert.deepEqual(order(ranked), ["gold", "plain"]);
+    assert.equal(ranked[0].score, 6.5);
+    assert.deepEqual(ranked[0].factors.map((f) => [f.name, f.points]), [
+      ["Priority", 4],
+      ["Waited", 1.5],
+      ["Predicted", -1],
+      ["Customer tier", 2],
+      ["Promised by", undefined],
+    ]);
+    assert.equal(ranked[0].explanation, "Next under Weighted score: score 6.5 (priority +4, waiting +1.5, length -1, Gold tier +2)");
+    // Normal 1 x 2, waited 0.5 h, 1 h x -0.5, Standard
+    assert.equal(ranked[1].score, 2);
+  });
+
+  it("ranks by whichever SCORED weights are set", () => {
+    const services = [
+      service("long", "2026-10-19T10:00", { priority: "Urgent", predictedHours: 3 }),
+      service("short", "2026-10-19T11:00", { priority: "Low", predictedHours: 1 }),
+    ];
+    const lengthOnly = { priority: 0, waitTime: 0, predictedHours: 1, customerTier: 0 };
+    assert.deepEqual(order(rankQueue(services, context("SCORED", "2026-10-19T11:30"))), ["long", "short"]);
+    assert.deepEqual(order(rankQueue(services, context("SCORED", "2026-10-19T11:30", { weights: lengthOnly }))), ["short", "long"]);
+  });
+});
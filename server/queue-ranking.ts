@@ -0,0 +1,175 @@
+import { customerTiers, type ActiveService, type CustomerTier } from "@shared/schema";
+import { businessHoursBetween, localDateTime, type BusinessCalendar } from "@shared/business-calendar";
+import {
+  priorityLevels,
+  priorityWeights,
+  queuePolicyDescriptions,
+  WSJF_AGING_PER_HOUR,
+  type QueuePolicy,
+  type QueueWeights,
+} from "@shared/queue-policy";
+import type { IStorage } from "./storage";
+
+// What a queue ordering depends on besides the queued services themselves
+export interface QueueContext {
+  policy: QueuePolicy;
+  weights: QueueWeights;
+  calendar: BusinessCalendar;
+  now: Date;
+  tiers: Map<string, CustomerTier>; // by customer id; customers not listed are Standard
+}
+
+// The fields of a service that its place in the queue depends on
+export type RankableService = Pick<
+  ActiveService,
+  "carNumber" | "customerId" | "priority" | "predictedHours" | "actualStartTime" | "estimatedCompletion" | "queuePosition"
+>;
+
+export interface QueueFactor {
+  name: string;
+  value: string;
+  points?: number; // what the factor adds to the score, under the scored policies
+}
+
+export interface RankedService<S extends RankableService = ActiveService> {
+  service: S;
+  rank: number; // 1 is served first
+  score: number | null; // WSJF and SCORED only; higher is served sooner
+  factors: QueueFactor[];
+  explanation: string;
+}
+
+const round = (n: number, digits = 1) => Number(n.toFixed(digits));
+
+// A queued service's actualStartTime is when it joined the queue; it is
+// overwritten when the service starts
+export function queuedHours(service: Pick<ActiveService, "actualStartTime">, context: Pick<QueueContext, "calendar" | "now">): number {
+  return businessHoursBetween(context.calendar, new Date(service.actualStartTime), context.now);
+}
+
+function tierLevel(service: Pick<ActiveService, "customerId">, tiers: Map<string, CustomerTier>): { tier: CustomerTier; level: number } {
+  const tier = (service.customerId && tiers.get(service.customerId)) || "Standard";
+  return { tier, level: customerTiers.indexOf(tier) };
+}
+
+interface Scored<S extends RankableService> {
+  service: S;
+  keys: number[]; // compared in turn, lowest first
+  score: number | null;
+  factors: QueueFactor[];
+  standing: string; // the policy's view of this job, e.g. "predicted 2 h"
+}
+
+function scoreService<S extends RankableService>(service: S, context: QueueContext): Scored<S> {
+  const { policy, weights, calendar } = context;
+  const priority = service.priority || "Normal";
+  const waited = queuedHours(service, context);
+  const hours = service.predictedHours || 0;
+  const { tier, level } = tierLevel(service, context.tiers);
+  const promised = new Date(service.estimatedCompletion);
+  const at = (d: Date) => {
+    const local = localDateTime(calendar, d);
+    return `${local.date} ${local.time}`;
+  };
+  const queuedAt = new Date(service.actualStartTime).getTime();
+  // Ties go to the job queued first
+  const fifo = [queuedAt, service.queuePosition || 0];
+
+  const factors: QueueFactor[] = [
+    { name: "Priority", value: priority },
+    { name: "Waited", value: `${round(waited)} h` },
+    { name: "Predicted", value: `${round(hours)} h` },
+    { name: "Customer tier", value: tier },
+    { name: "Promised by", value: at(promised) },
+  ];
+
+  switch (policy) {
+    case "SJF":
+      return { service, keys: [hours, ...fifo], score: null, factors, standing: `predicted ${round(hours)} h` };
+    case "PRIORITY":
+      return {
+        service,
+        keys: [-(priorityLevels[priority] ?? 1), ...fifo],
+        score: null,
+        factors,
+        standing: `${priority} priority, queued ${at(new Date(queuedAt))}`,
+      };
+    case "EDF":
+      return { service, keys: [promised.getTime(), ...fifo], score: null, factors, standing: `promised by ${at(promised)}` };
+    case "WSJF": {
+      const weight = priorityWeights[priority] ?? 2;
+      const aged = waited * WSJF_AGING_PER_HOUR;
+      // Jobs shorter than a quarter hour count as a quarter hour, so a near-zero
+      // prediction cannot jump the whole queue
+      const score = round((weight + aged) / Math.max(hours, 0.25), 2);
+      factors[0].points = weight;
+      factors[1].points = round(aged, 2);
+      return {
+        service,
+        keys: [-score, ...fifo],
+        score,
+        factors,
+        standing: `score ${score} = (${priority} ${weight} + ${round(aged)} for waiting) / ${round(hours)} h`,
+      };
+    }
+    case "SCORED": {
+      const parts = {
+        priority: (priorityLevels[priority] ?? 1) * weights.priority,
+        waited: waited * weights.waitTime,
+        hours: -hours * weights.predictedHours,
+        tier: level * weights.customerTier,
+      };
+      const score = round(parts.priority + parts.waited + parts.hours + parts.tier, 2);
+      factors[0].points = round(parts.priority, 2);
+      factors[1].points = round(parts.waited, 2);
+      factors[2].points = round(parts.hours, 2);
+      factors[3].points = round(parts.tier, 2);
+      const signed = (n: number) => (n < 0 ? `${round(n, 2)}` : `+${round(n, 2)}`);
+      return {
+        service,
+        keys: [-score, ...fifo],
+        score,
+        factors,
+        standing: `score ${score} (priority ${signed(parts.priority)}, waiting ${signed(parts.waited)}, `
+          + `length ${signed(parts.hours)}, ${tier} tier ${signed(parts.tier)})`,
+      };
+    }
+    default:
+      return { service, keys: fifo, score: null, factors, standing: `queued ${at(new Date(queuedAt))}` };
+  }
+}
+
+// Orders queued services by the policy, each with the factors behind its
+// place and a sentence on why it is where it is: the first is why it is next,
+// the rest say which job is ahead of them and on what grounds.
+export function rankQueue<S extends RankableService>(queued: S[], context: QueueContext): RankedService<S>[] {
+  const scored = queued.map((service) => scoreService(service, context));
+  scored.sort((a, b) => {
+    for (let i = 0; i < a.keys.length; i++) {
+      if (a.keys[i] !== b.keys[i]) return a.keys[i] - b.keys[i];
+    }
+    return 0;
+  });
+  const label = queuePolicyDescriptions[context.policy].label;
+  return scored.map((entry, i) => ({
+    service: entry.service,
+    rank: i + 1,
+    score: entry.score,
+    factors: entry.factors,
+    explanation: i === 0
+      ? `Next under ${label}: ${entry.standing}`
+      : `Behind ${scored[i - 1].service.carNumber} (${scored[i - 1].standing}); this job: ${entry.standing}`,
+  }));
+}
+
+export async function loadQueueContext(storage: IStorage, calendar: BusinessCalendar, now: Date): Promise<QueueContext> {
+  const tiers = new Map<string, CustomerTier>();
+  for (const customer of await storage.getCustomers()) tiers.set(customer.id, customer.tier);
+  return {
+    policy: await storage.getQueuePolicy(),
+    weights: await storage.getQueueWeights(),
+    calendar,
+    now,
+    tiers,
+  };
+}
@@ -0,0 +1,43 @@
+import type { IncomingMessage, Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { REALTIME_PATH, type WorkshopEvent } from "@shared/realtime";
+import { log } from "./vite";
+
+let wss: WebSocketServer | null = null;
+
+// Accepts WebSocket upgrades on REALTIME_PATH only, leaving every other
+// upgrade (e.g. the Vite HMR socket in development) to its own handler.
+// Handshakes rejected by `authorize` are answered with 401 and dropped.
+export function attachRealtime(
+  httpServer: Server,
+  authorize: (req: IncomingMessage) => Promise<boolean> = async () => true,
+): WebSocketServer {
+  const server = new WebSocketServer({ noServer: true });
+  httpServer.on("upgrade", async (req, socket, head) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== REALTIME_PATH) return;
+    if (!(await authorize(req))) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+    server.handleUpgrade(req, socket, head, (ws) => {
+      server.emit("connection", ws, req);
+    });
+  });
+  server.on("connection", (ws) => {
+    ws.on("error", (error) => log(`client error: ${error.message}`, "ws"));
+  });
+  wss = server;
+  return server;
+}
+
+export function broadcast(event: WorkshopEvent): void {
+  if (!wss) return;
+  const payload = JSON.stringify(event);
+  wss.clients.forEach((client) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(payload);
+    }
+  });
+}
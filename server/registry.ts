@@ -0,0 +1,71 @@
+import type { Customer, ServiceRequest, Vehicle } from "@shared/schema";
+import { normalizeCarNumber } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Finds or creates the owner named on a request. A customer is keyed by phone
+// number, so requests without one fall back to the vehicle's existing owner.
+async function resolveCustomer(storage: IStorage, request: ServiceRequest): Promise<Customer | undefined> {
+  const phone = request.customerPhone?.trim();
+  if (!phone) return undefined;
+  const existing = await storage.getCustomerByPhone(phone);
+  if (existing) {
+    const updates: { name?: string; email?: string } = {};
+    if (request.customerName?.trim() && request.customerName.trim() !== existing.name) updates.name = request.customerName.trim();
+    if (request.customerEmail && request.customerEmail !== existing.email) updates.email = request.customerEmail;
+    if (Object.keys(updates).length === 0) return existing;
+    return storage.updateCustomer(existing.id, updates);
+  }
+  if (!request.customerName?.trim()) return undefined;
+  return storage.createCustomer({
+    name: request.customerName.trim(),
+    phone,
+    email: request.customerEmail ?? null,
+  });
+}
+
+// Records the vehicle (and owner) a service request is for, creating registry
+// entries on first visit and refreshing model details and odometer afterwards.
+export async function registerVisit(
+  storage: IStorage,
+  request: ServiceRequest,
+): Promise<{ vehicle: Vehicle; customer?: Customer }> {
+  const carNumber = normalizeCarNumber(request.carNumber);
+  const vin = request.vin?.toUpperCase();
+
+  const existing = await storage.getVehicleByCarNumber(carNumber);
+  if (vin) {
+    const vinOwner = (await storage.getVehicles()).find((v) => v.vin === vin);
+    if (vinOwner && vinOwner.id !== existing?.id) {
+      throw new Error(`VIN ${vin} is already registered to ${vinOwner.carNumber}`);
+    }
+  }
+
+  const newCustomer = await resolveCustomer(storage, request);
+  const customerId = newCustomer?.id ?? existing?.customerId ?? null;
+
+  let vehicle: Vehicle | undefined;
+  if (existing) {
+    vehicle = await storage.updateVehicle(existing.id, {
+      carModel: request.carModel,
+      manufactureYear: request.manufactureYear,
+      fuelType: request.fuelType,
+      lastKnownKilometers: Math.max(existing.lastKnownKilometers, request.totalKilometers),
+      vin: vin ?? existing.vin,
+      customerId,
+    });
+  }
+  if (!vehicle) {
+    vehicle = await storage.createVehicle({
+      carNumber,
+      vin: vin ?? null,
+      customerId,
+      carModel: request.carModel,
+      manufactureYear: request.manufactureYear,
+      fuelType: request.fuelType,
+      lastKnownKilometers: request.totalKilometers,
+    });
+  }
+
+  const customer = newCustomer ?? (customerId ? await storage.getCustomer(customerId) : undefined);
+  return { vehicle, customer };
+}
@@ -0,0 +1,37 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { consumeTaskParts, reserveTaskParts } from "./reservations";
+
+const oilChange = { name: "Oil Change", requiredParts: [{ partName: "Test Oil", quantity: 4 }] };
+
+describe("consumeTaskParts", () => {
+  const storage = new MemStorage();
+  after(() => (storage.sessionStore as unknown as { stopInterval(): void }).stopInterval());
+
+  it("takes a done task's reserved parts out of stock", async () => {
+    const item = await storage.createInventoryItem({ partName: "Test Oil", minimumStock: 0 });
+    await storage.recordStockMovement({ inventoryId: item.id, type: "Receipt", quantity: 10, reasonCode: "Restock" });
+    await reserveTaskParts(storage, "SVC1", oilChange);
+
+    assert.deepEqual(await consumeTaskParts(storage, "SVC1", "Oil Change"), ["Test Oil"]);
+    const stocked = await storage.getInventoryItem("Test Oil");
+    assert.equal(stocked?.quantity, 6);
+    assert.equal(stocked?.reserved, 0);
+    assert.equal((await storage.getPartReservations({ serviceId: "SVC1" }))[0].status, "Consumed");
+  });
+
+  it("leaves the reservation open when its units are no longer on hand", async () => {
+    await reserveTaskParts(storage, "SVC2", oilChange);
+    const item = (await storage.getInventoryItem("Test Oil"))!;
+    // Stock lost outside the ledger checks, below what is reserved
+    await storage.recordStockMovement({ inventoryId: item.id, type: "Adjustment", quantity: -4, reasonCode: "Stock Count" });
+
+    assert.deepEqual(await consumeTaskParts(storage, "SVC2", "Oil Change"), []);
+    const stocked = await storage.getInventoryItem("Test Oil");
+    assert.equal(stocked?.quantity, 2);
+    assert.equal(stocked?.reserved, 4);
+    assert.equal((await storage.getPartReservations({ serviceId: "SVC2" }))[0].status, "Reserved");
+    assert.equal((await storage.getStockMovements(item.id)).filter((m) => m.serviceId === "SVC2").length, 0);
+  });
+});
@@ -0,0 +1,132 @@
+import { availableStock, type PartReservation, type ServiceTask, type ServiceTaskState } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { postStockMovement } from "./stock";
+import { log } from "./vite";
+
+// Reservations still holding (or waiting for) stock
+const OPEN_STATUSES = ["Reserved", "Awaiting Stock"] as const;
+
+// Holds the parts one task needs. Parts that are not stocked in inventory are
+// not tracked; parts short of stock wait for a restock and block the task.
+export async function reserveTaskParts(
+  storage: IStorage,
+  serviceId: string,
+  task: Pick<ServiceTask, "name" | "requiredParts">,
+): Promise<PartReservation[]> {
+  const reservations: PartReservation[] = [];
+  for (const { partName, quantity } of task.requiredParts) {
+    const item = await storage.getInventoryItem(partName);
+    if (!item) continue;
+    const inStock = availableStock(item) >= quantity;
+    if (inStock) await storage.updateReservedStock(partName, item.reserved + quantity);
+    reservations.push(await storage.createPartReservation({
+      serviceId,
+      taskName: task.name,
+      partName,
+      quantity,
+      status: inStock ? "Reserved" : "Awaiting Stock",
+    }));
+  }
+  return reservations;
+}
+
+export async function reserveServiceParts(storage: IStorage, serviceId: string, tasks: ServiceTask[]): Promise<PartReservation[]> {
+  const reservations: PartReservation[] = [];
+  for (const task of tasks) {
+    reservations.push(...await reserveTaskParts(storage, serviceId, task));
+  }
+  return reservations;
+}
+
+// Parts a task is still waiting for; the task cannot be worked on until they arrive
+export async function partsAwaited(storage: IStorage, serviceId: string, taskName: string): Promise<string[]> {
+  const waiting = await storage.getPartReservations({ serviceId, taskName, statuses: ["Awaiting Stock"] });
+  return Array.from(new Set(waiting.map((r) => r.partName)));
+}
+
+// Takes a finished task's reserved parts out of stock through the ledger.
+// A reservation the ledger refuses (the units are no longer on hand) stays
+// open and is logged, rather than being marked consumed without a movement.
+// Returns the part names touched.
+export async function consumeTaskParts(
+  storage: IStorage,
+  serviceId: string,
+  taskName?: string,
+  recordedBy?: string,
+): Promise<string[]> {
+  const touched = new Set<string>();
+  for (const reservation of await storage.getPartReservations({ serviceId, taskName, statuses: ["Reserved"] })) {
+    const item = await storage.getInventoryItem(reservation.partName);
+    if (item) {
+      const result = await postStockMovement(storage, item, {
+        type: "Consumption",
+        reasonCode: "Service Use",
+        quantity: reservation.quantity,
+        serviceId,
+        recordedBy,
+      });
+      if ("error" in result) {
+        log(`cannot consume ${reservation.quantity} ${reservation.partName} for ${serviceId}: ${result.error}`, "stock");
+        continue;
+      }
+      await storage.updateReservedStock(item.partName, Math.max(0, item.reserved - reservation.quantity));
+    }
+    await storage.updatePartReservation(reservation.id, { status: "Consumed", settledAt: new Date() });
+    touched.add(reservation.partName);
+  }
+  return Array.from(touched);
+}
+
+// Gives back the stock held for a task (or the whole service) and drops
+// anything still waiting for stock. Returns the part names touched.
+export async function releaseParts(storage: IStorage, serviceId: string, taskName?: string): Promise<string[]> {
+  const touched = new Set<string>();
+  for (const reservation of await storage.getPartReservations({ serviceId, taskName, statuses: [...OPEN_STATUSES] })) {
+    if (reservation.status === "Reserved") {
+      const item = await storage.getInventoryItem(reservation.partName);
+      if (item) await storage.updateReservedStock(item.partName, Math.max(0, item.reserved - reservation.quantity));
+    }
+    await storage.updatePartReservation(reservation.id, { status: "Released", settledAt: new Date() });
+    touched.add(reservation.partName);
+  }
+  return Array.from(touched);
+}
+
+// Settles a finished service: parts of tasks that were done (or of the whole
+// job when the checklist was not used) are consumed, the rest released
+export async function settleServiceParts(
+  storage: IStorage,
+  serviceId: string,
+  checklist: ServiceTaskState[],
+  recordedBy?: string,
+): Promise<string[]> {
+  const touched = new Set<string>();
+  const tracked = checklist.some((t) => t.status !== "Pending");
+  const open = await storage.getPartReservations({ serviceId, statuses: ["Reserved"] });
+  for (const taskName of Array.from(new Set(open.map((r) => r.taskName)))) {
+    const task = checklist.find((t) => t.name === taskName);
+    const used = !tracked || task?.status === "Done" || task?.status === "In Progress";
+    const parts = used
+      ? await consumeTaskParts(storage, serviceId, taskName, recordedBy)
+      : await releaseParts(storage, serviceId, taskName);
+    parts.forEach((p) => touched.add(p));
+  }
+  (await releaseParts(storage, serviceId)).forEach((p) => touched.add(p));
+  return Array.from(touched);
+}
+
+// Hands newly available stock to reservations waiting for it, oldest first.
+// Returns the ids of services whose reservations were filled.
+export async function allocateAwaitingStock(storage: IStorage, partNames: string[]): Promise<string[]> {
+  const services = new Set<string>();
+  for (const partName of partNames) {
+    for (const reservation of await storage.getPartReservations({ partName, statuses: ["Awaiting Stock"] })) {
+      const item = await storage.getInventoryItem(partName);
+      if (!item || availableStock(item) < reservation.quantity) break;
+      await storage.updateReservedStock(partName, item.reserved + reservation.quantity);
+      await storage.updatePartReservation(reservation.id, { status: "Reserved" });
+      services.add(reservation.serviceId);
+    }
+  }
+  return Array.from(services);
+}
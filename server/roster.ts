@@ -0,0 +1,88 @@
+import type { LeaveRequest, RosterEntry, Worker, WorkerShift } from "@shared/schema";
+import { localDateTime, weekdays, type BusinessCalendar, type Weekday } from "@shared/business-calendar";
+import type { IStorage } from "./storage";
+import { getBusinessCalendar } from "./business-hours";
+
+// Everything needed to decide who is on the floor, loaded once per decision
+export interface RosterSnapshot {
+  calendar: BusinessCalendar;
+  workers: Worker[];
+  shiftsByWorker: Map<string, WorkerShift[]>;
+  approvedLeave: LeaveRequest[];
+  clockedIn: Set<string>;
+}
+
+export async function loadRoster(storage: IStorage): Promise<RosterSnapshot> {
+  const workers = await storage.getWorkers();
+  const shiftsByWorker = new Map<string, WorkerShift[]>();
+  for (const shift of await storage.getWorkerShifts()) {
+    shiftsByWorker.set(shift.workerId, [...(shiftsByWorker.get(shift.workerId) ?? []), shift]);
+  }
+  const approvedLeave = (await storage.getLeaveRequests()).filter((l) => l.status === "Approved");
+  const clockedIn = new Set<string>();
+  for (const worker of workers) {
+    if (await storage.getOpenAttendance(worker.id)) clockedIn.add(worker.id);
+  }
+  return { calendar: getBusinessCalendar(), workers, shiftsByWorker, approvedLeave, clockedIn };
+}
+
+// Shift windows on a weekday: the worker's own pattern, or the workshop's
+// opening hours for workers who have never been given one
+export function shiftsOn(roster: RosterSnapshot, workerId: string, weekday: Weekday): Array<{ start: string; end: string }> {
+  const own = roster.shiftsByWorker.get(workerId);
+  if (own && own.length > 0) {
+    return own.filter((s) => s.weekday === weekday).map(({ start, end }) => ({ start, end }));
+  }
+  const hours = roster.calendar.openingHours[weekday];
+  return hours ? [{ start: hours.open, end: hours.close }] : [];
+}
+
+export function isOnLeave(roster: RosterSnapshot, workerId: string, date: string): boolean {
+  return roster.approvedLeave.some((l) => l.workerId === workerId && l.startDate <= date && date <= l.endDate);
+}
+
+// Whether a worker can take work at `at`. For the present, attendance wins:
+// a clocked-in worker counts even outside their shift (overtime) and a
+// clocked-out one does not. Future instants only use shifts and leave.
+export function isOnShift(roster: RosterSnapshot, worker: Worker, at: Date, now: Date = new Date()): boolean {
+  const { date, weekday, time } = localDateTime(roster.calendar, at);
+  if (isOnLeave(roster, worker.id, date)) return false;
+  if (at.getTime() <= now.getTime()) {
+    if (roster.clockedIn.has(worker.id)) return true;
+    if (worker.status === "Offline") return false;
+  }
+  return shiftsOn(roster, worker.id, weekday).some((s) => time >= s.start && time < s.end);
+}
+
+export function workersOnShift(roster: RosterSnapshot, at: Date, now: Date = new Date()): Worker[] {
+  return roster.workers.filter((w) => isOnShift(roster, w, at, now));
+}
+
+// Daily roster for a YYYY-MM-DD date in the business calendar timezone
+export async function buildRoster(storage: IStorage, date: string): Promise<RosterEntry[]> {
+  const roster = await loadRoster(storage);
+  const now = new Date();
+  const today = localDateTime(roster.calendar, now).date;
+  const dayStart = new Date(`${date}T00:00:00Z`);
+  const weekday = weekdays[dayStart.getUTCDay()];
+
+  // Fetch a padded UTC window, then keep clock-ins on the local date
+  const attendance = (await storage.getAttendance({
+    from: new Date(dayStart.getTime() - 24 * 60 * 60 * 1000),
+    to: new Date(dayStart.getTime() + 2 * 24 * 60 * 60 * 1000),
+  })).filter((a) => localDateTime(roster.calendar, a.clockIn).date === date);
+
+  return roster.workers.map((worker) => {
+    const onLeave = isOnLeave(roster, worker.id, date);
+    return {
+      workerId: worker.id,
+      workerName: worker.name,
+      skill: worker.skill,
+      shifts: onLeave ? [] : shiftsOn(roster, worker.id, weekday),
+      onLeave,
+      clockedIn: roster.clockedIn.has(worker.id),
+      onShiftNow: date === today && isOnShift(roster, worker, now, now),
+      attendance: attendance.filter((a) => a.workerId === worker.id),
+    };
+  });
+}
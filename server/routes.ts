@@ -1,40 +1,92 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { serviceRequestSchema } from "@shared/schema";
+import {
+  serviceRequestSchema,
+  insertCustomerSchema,
+  insertWorkerShiftSchema,
+  insertLeaveRequestSchema,
+  insertMachineBaySchema,
+  workerSkillSchema,
+  workerQualificationsSchema,
+  availableStock,
+  insertSupplierSchema,
+  openPurchaseOrderStatuses,
+  purchaseOrderStatuses,
+  letterheadSchema,
+  formatInvoiceNumber,
+  paymentEntrySchema,
+  holdServiceSchema,
+  serviceAssignmentSchema,
+  cancelServiceSchema,
+  isOnHold,
+  canComplete,
+  customerTiers,
+  type CustomerTier,
+  type PurchaseOrderStatus,
+} from "@shared/schema";
+import { businessCalendarSchema, businessHoursBetween, localDateTime } from "@shared/business-calendar";
+import { priceListSchema } from "@shared/pricing";
+import { queuePolicySettingsSchema } from "@shared/queue-policy";
+import { simulationRequestSchema } from "@shared/simulation";
+import { applyBusinessHours, getBusinessCalendar, loadBusinessCalendar, setBusinessCalendar } from "./business-hours";
+import { startProgressEngine } from "./progress";
+import { attachRealtime, broadcast } from "./realtime";
+import { log } from "./vite";
+import { intakeServiceRequest, resolveTasks } from "./intake";
+import { startDispatcher } from "./dispatcher";
+import { loadQueueContext, rankQueue } from "./queue-ranking";
+import { simulateWorkshop } from "./simulation";
+import { cancelService, holdService, releaseBayAndCrew, resumeService } from "./lifecycle";
+import { reassignService } from "./assignment";
+import { registerVisit } from "./registry";
+import { postStockMovement } from "./stock";
+import {
+  allocateAwaitingStock,
+  consumeTaskParts,
+  partsAwaited,
+  releaseParts,
+  reserveTaskParts,
+  settleServiceParts,
+} from "./reservations";
+import {
+  priceOrderLines,
+  purchaseOrderActions,
+  reorderLowStock,
+  transitionPurchaseOrder,
+  type PurchaseOrderAction,
+} from "./purchasing";
+import { forecastInventory } from "./forecast";
+import { buildInvoice, repriceInvoice } from "./invoicing";
+import { recordUrl, renderInvoicePdf, renderJobCardPdf, type DocumentOptions } from "./documents";
+import { buildReceivables, takePayment } from "./payments";
+import { parseAnalyticsRange, revenueAnalytics } from "./analytics";
+import { checkSlot, planAppointment, suggestSlots } from "./appointments";
+import { setupAuth, requireRole, authenticateUpgrade } from "./auth";
+import { buildRoster, loadRoster, workersOnShift } from "./roster";
+import {
+  checklistProgress,
+  hasChecklistActivity,
+  remainingChecklistHours,
+  taskActions,
+  transitionTask,
+  type TaskAction,
+} from "./checklist";
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  function applyBusinessHours(start: Date, hours: number): Date {
-    const WORK_START = 10; // 10:00
-    const WORK_END = 19;   // 19:00
-    const minutesToAdd = Math.round(hours * 60);
-    let current = new Date(start);
-    // align to business hours window
-    const sHour = current.getHours() + current.getMinutes()/60;
-    if (sHour < WORK_START) {
-      current.setHours(WORK_START, 0, 0, 0);
-    } else if (sHour >= WORK_END) {
-      current.setDate(current.getDate() + 1);
-      current.setHours(WORK_START, 0, 0, 0);
-    }
-    let remaining = minutesToAdd;
-    while (remaining > 0) {
-      const endToday = new Date(current);
-      endToday.setHours(WORK_END, 0, 0, 0);
-      const minutesAvailable = Math.max(0, Math.round((endToday.getTime() - current.getTime()) / (1000*60)));
-      if (remaining <= minutesAvailable) {
-        current = new Date(current.getTime() + remaining * 60 * 1000);
-        remaining = 0;
-      } else {
-        // consume today's window and move to next day
-        remaining -= minutesAvailable;
-        current.setDate(current.getDate() + 1);
-        current.setHours(WORK_START, 0, 0, 0);
-      }
-    }
-    return current;
-  }
-  
+  // Sessions, login endpoints and the staff account API; every route below requires a login
+  await setupAuth(app);
+  await loadBusinessCalendar(storage);
+
+  // Starts queued services whenever capacity may have opened up, and on a
+  // timer for shifts starting and the workshop opening. Failures are logged
+  // by the dispatcher and never fail the request that triggered them.
+  const dispatcher = startDispatcher(storage, {
+    notify: broadcast,
+    onError: (error: any) => log(`dispatch failed: ${error?.message ?? error}`, "dispatcher"),
+  });
+  const dispatchQueued = () => dispatcher.dispatch().catch(() => []);
+
   // GET /api/service-tasks - Get all available service tasks
   app.get("/api/service-tasks", async (_req, res) => {
     try {
@@ -56,15 +108,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/workers - Create a new worker
-  app.post("/api/workers", async (req, res) => {
+  app.post("/api/workers", requireRole("admin"), async (req, res) => {
     try {
-      const { name, skill, experienceLevel, rating, certifications } = req.body || {};
+      const { name, skill, skills, experienceLevel, rating, certifications } = req.body || {};
       if (!name || !skill || typeof experienceLevel !== 'number') {
         return res.status(400).json({ error: "name, skill, experienceLevel are required" });
       }
+      const parsedSkills = workerSkillSchema.array().safeParse(skills ?? []);
+      if (!parsedSkills.success) {
+        return res.status(400).json({ error: parsedSkills.error.errors[0]?.message ?? "Invalid skills" });
+      }
       const worker = await storage.createWorker({
         name,
         skill,
+        // the primary skill is always listed, at mid proficiency unless given
+        skills: parsedSkills.data.some((s) => s.category === skill)
+          ? parsedSkills.data
+          : [{ category: skill, proficiency: 3 }, ...parsedSkills.data],
         experienceLevel,
         rating: typeof rating === 'number' ? rating : 4.0,
         certifications: Array.isArray(certifications) ? certifications : [],
@@ -72,30 +132,278 @@ export async function registerRoutes(app: Express): Promise<Server> {
         activeJobs: [],
         status: 'Available',
       } as any);
+      broadcast({ type: "worker.load_changed", workerIds: [worker.id] });
+      await dispatchQueued();
       res.json(worker);
     } catch (error) {
       res.status(500).json({ error: "Failed to create worker" });
     }
   });
 
+  // PUT /api/workers/:id/qualifications - Replace a worker's skills and certifications
+  app.put("/api/workers/:id/qualifications", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = workerQualificationsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid qualifications" });
+      }
+      const { skills, certifications } = parsed.data;
+      const primary = [...skills].sort((a, b) => b.proficiency - a.proficiency)[0];
+      const worker = await storage.updateWorkerQualifications(req.params.id, {
+        skill: primary.category,
+        skills,
+        certifications: Array.from(new Set(certifications)),
+      });
+      if (!worker) {
+        return res.status(404).json({ error: "Worker not found" });
+      }
+      broadcast({ type: "worker.load_changed", workerIds: [worker.id] });
+      await dispatchQueued();
+      res.json(worker);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update qualifications" });
+    }
+  });
+
   // DELETE /api/workers/:id - Delete a worker (only if no active jobs)
-  app.delete("/api/workers/:id", async (req, res) => {
+  app.delete("/api/workers/:id", requireRole("admin"), async (req, res) => {
     try {
       const { id } = req.params;
       const worker = await storage.getWorker(id);
       if (!worker) {
         return res.status(404).json({ error: "Worker not found" });
       }
-      if (worker.activeJobs.length > 0 || worker.status !== 'Available') {
+      if (worker.activeJobs.length > 0 || worker.status === 'Busy') {
         return res.status(400).json({ error: "Cannot delete a busy worker" });
       }
       const ok = await storage.deleteWorker(id);
+      broadcast({ type: "worker.load_changed", workerIds: [id] });
       res.json({ success: ok });
     } catch (error) {
       res.status(500).json({ error: "Failed to delete worker" });
     }
   });
 
+  // Technicians may only act for the worker their account is linked to
+  const actsForWorker = (user: Express.User, workerId: string) =>
+    user.role === "admin" || user.workerId === workerId;
+
+  // GET /api/roster?date=YYYY-MM-DD - Shifts, leave and attendance for one day (default today)
+  app.get("/api/roster", async (req, res) => {
+    try {
+      const date = typeof req.query.date === "string" ? req.query.date : localDateTime(getBusinessCalendar(), new Date()).date;
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ error: "date must be YYYY-MM-DD" });
+      }
+      res.json(await buildRoster(storage, date));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch roster" });
+    }
+  });
+
+  // GET /api/shifts - Weekly shift patterns of all workers
+  app.get("/api/shifts", async (_req, res) => {
+    try {
+      res.json(await storage.getWorkerShifts());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch shifts" });
+    }
+  });
+
+  // PUT /api/workers/:id/shifts - Replace a worker's weekly shifts (empty list reverts to opening hours)
+  app.put("/api/workers/:id/shifts", requireRole("admin"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      if (!(await storage.getWorker(id))) {
+        return res.status(404).json({ error: "Worker not found" });
+      }
+      const input = (req.body || {}).shifts;
+      if (!Array.isArray(input)) {
+        return res.status(400).json({ error: "shifts must be an array" });
+      }
+      const parsed = input.map((shift) => insertWorkerShiftSchema.safeParse({ ...shift, workerId: id }));
+      const invalid = parsed.find((p) => !p.success);
+      if (invalid && !invalid.success) {
+        return res.status(400).json({ error: invalid.error.errors[0]?.message ?? "Invalid shift" });
+      }
+      const shifts = await storage.setWorkerShifts(id, parsed.flatMap((p) => (p.success ? [p.data] : [])));
+      broadcast({ type: "roster.changed", workerIds: [id] });
+      await dispatchQueued();
+      res.json(shifts);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update shifts" });
+    }
+  });
+
+  // POST /api/workers/:id/clock-in and /clock-out - Record attendance
+  app.post("/api/workers/:id/clock-in", requireRole("technician"), async (req, res) => {
+    try {
+      const worker = await storage.getWorker(req.params.id);
+      if (!worker) {
+        return res.status(404).json({ error: "Worker not found" });
+      }
+      if (!actsForWorker(req.user!, worker.id)) {
+        return res.status(403).json({ error: "You can only clock in yourself" });
+      }
+      if (await storage.getOpenAttendance(worker.id)) {
+        return res.status(409).json({ error: `${worker.name} is already clocked in` });
+      }
+      const record = await storage.clockIn(worker.id, new Date());
+      await storage.updateWorkerStatus(worker.id, worker.activeJobs.length === 0 ? "Available" : "Busy");
+      broadcast({ type: "roster.changed", workerIds: [worker.id] });
+      await dispatchQueued();
+      res.json(record);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to clock in" });
+    }
+  });
+
+  app.post("/api/workers/:id/clock-out", requireRole("technician"), async (req, res) => {
+    try {
+      const worker = await storage.getWorker(req.params.id);
+      if (!worker) {
+        return res.status(404).json({ error: "Worker not found" });
+      }
+      if (!actsForWorker(req.user!, worker.id)) {
+        return res.status(403).json({ error: "You can only clock out yourself" });
+      }
+      const record = await storage.clockOut(worker.id, new Date());
+      if (!record) {
+        return res.status(409).json({ error: `${worker.name} is not clocked in` });
+      }
+      await storage.updateWorkerStatus(worker.id, "Offline");
+      broadcast({ type: "roster.changed", workerIds: [worker.id] });
+      res.json(record);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to clock out" });
+    }
+  });
+
+  // GET /api/leave-requests - All leave requests by start date
+  app.get("/api/leave-requests", async (_req, res) => {
+    try {
+      res.json(await storage.getLeaveRequests());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch leave requests" });
+    }
+  });
+
+  // POST /api/leave-requests - Request leave (starts Pending until an admin decides)
+  app.post("/api/leave-requests", requireRole("technician"), async (req, res) => {
+    try {
+      const parsed = insertLeaveRequestSchema.safeParse({ ...(req.body || {}), status: "Pending" });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid leave request" });
+      }
+      if (!(await storage.getWorker(parsed.data.workerId))) {
+        return res.status(404).json({ error: "Worker not found" });
+      }
+      if (!actsForWorker(req.user!, parsed.data.workerId)) {
+        return res.status(403).json({ error: "You can only request leave for yourself" });
+      }
+      const request = await storage.createLeaveRequest(parsed.data);
+      broadcast({ type: "roster.changed", workerIds: [request.workerId] });
+      res.json(request);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create leave request" });
+    }
+  });
+
+  // POST /api/leave-requests/:id/approve and /reject - Decide a pending request
+  for (const [action, status] of [["approve", "Approved"], ["reject", "Rejected"]] as const) {
+    app.post(`/api/leave-requests/:id/${action}`, requireRole("admin"), async (req, res) => {
+      try {
+        const request = await storage.getLeaveRequest(req.params.id);
+        if (!request) {
+          return res.status(404).json({ error: "Leave request not found" });
+        }
+        if (request.status !== "Pending") {
+          return res.status(409).json({ error: `Leave request is already ${request.status.toLowerCase()}` });
+        }
+        const updated = await storage.updateLeaveRequest(request.id, { status });
+        broadcast({ type: "roster.changed", workerIds: [request.workerId] });
+        res.json(updated);
+      } catch (error) {
+        res.status(500).json({ error: `Failed to ${action} leave request` });
+      }
+    });
+  }
+
+  // GET /api/machines - Machine bays by bay number
+  app.get("/api/machines", async (_req, res) => {
+    try {
+      res.json(await storage.getMachines());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch machine bays" });
+    }
+  });
+
+  // POST /api/machines - Add a bay
+  app.post("/api/machines", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = insertMachineBaySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid machine bay" });
+      }
+      if ((await storage.getMachines()).some((m) => m.bayNumber === parsed.data.bayNumber)) {
+        return res.status(400).json({ error: `Bay ${parsed.data.bayNumber} already exists` });
+      }
+      const machine = await storage.createMachine(parsed.data);
+      broadcast({ type: "bay.changed", bayIds: [machine.id] });
+      await dispatchQueued();
+      res.json(machine);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create machine bay" });
+    }
+  });
+
+  // PUT /api/machines/:id - Change a bay's number, type, tools or whether it is in service
+  app.put("/api/machines/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const parsed = insertMachineBaySchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid machine bay" });
+      }
+      const existing = await storage.getMachine(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Machine bay not found" });
+      }
+      const bayNumber = parsed.data.bayNumber;
+      if (bayNumber !== undefined && (await storage.getMachines()).some((m) => m.id !== id && m.bayNumber === bayNumber)) {
+        return res.status(400).json({ error: `Bay ${bayNumber} already exists` });
+      }
+      if (bayNumber !== undefined && bayNumber !== existing.bayNumber && existing.assignedWorkers.length > 0) {
+        return res.status(400).json({ error: "Cannot renumber a bay that is in use" });
+      }
+      const machine = await storage.updateMachine(id, parsed.data);
+      broadcast({ type: "bay.changed", bayIds: [id] });
+      await dispatchQueued();
+      res.json(machine);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update machine bay" });
+    }
+  });
+
+  // DELETE /api/machines/:id - Remove an idle bay
+  app.delete("/api/machines/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const machine = await storage.getMachine(id);
+      if (!machine) {
+        return res.status(404).json({ error: "Machine bay not found" });
+      }
+      if (machine.assignedWorkers.length > 0) {
+        return res.status(400).json({ error: "Cannot delete a bay that is in use" });
+      }
+      const ok = await storage.deleteMachine(id);
+      broadcast({ type: "bay.changed", bayIds: [id] });
+      res.json({ success: ok });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete machine bay" });
+    }
+  });
+
   // GET /api/active-services - Get all active services
   app.get("/api/active-services", async (_req, res) => {
     try {
@@ -106,6 +414,233 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET /api/active-services/:id/parts - Part reservations of a service by task
+  app.get("/api/active-services/:id/parts", async (req, res) => {
+    try {
+      res.json(await storage.getPartReservations({ serviceId: req.params.id }));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch part reservations" });
+    }
+  });
+
+  // PATCH /api/active-services/:id/progress - Technician-reported progress
+  app.patch("/api/active-services/:id/progress", requireRole("technician"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { progress } = req.body || {};
+      if (typeof progress !== 'number' || !Number.isFinite(progress) || progress < 0 || progress > 100) {
+        return res.status(400).json({ error: "progress must be a number between 0 and 100" });
+      }
+      const service = await storage.getActiveService(id);
+      if (!service) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+      if (service.status !== "In Progress" && service.status !== "Completing") {
+        return res.status(400).json({ error: `Cannot report progress on a ${service.status.toLowerCase()} service` });
+      }
+      if (hasChecklistActivity(service.taskChecklist)) {
+        return res.status(409).json({ error: "Progress is derived from the task checklist for this service" });
+      }
+      const now = new Date();
+      const reported = Math.round(progress);
+      // Remaining work is the unreported share of the predicted time
+      const remainingHours = service.predictedHours * (100 - reported) / 100;
+      const updated = await storage.updateActiveService(id, {
+        progress: reported,
+        reportedProgress: reported,
+        progressReportedAt: now,
+        estimatedCompletion: applyBusinessHours(now, remainingHours),
+        status: reported >= 100 ? "Completing" : "In Progress",
+      });
+      if (updated) broadcast({ type: "service.updated", service: updated });
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update progress" });
+    }
+  });
+
+  // POST /api/active-services/:id/tasks/:taskName/:action - Start, complete, skip or reset a checklist task
+  app.post("/api/active-services/:id/tasks/:taskName/:action", requireRole("technician"), async (req, res) => {
+    try {
+      const { id, action } = req.params;
+      const taskName = decodeURIComponent(req.params.taskName);
+      if (!taskActions.includes(action as TaskAction)) {
+        return res.status(400).json({ error: `action must be one of ${taskActions.join(", ")}` });
+      }
+      const service = await storage.getActiveService(id);
+      if (!service) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+      if (service.status === "Queued") {
+        return res.status(400).json({ error: "Cannot work on tasks of a queued service" });
+      }
+      if (isOnHold(service)) {
+        return res.status(400).json({ error: "Resume the service before working on its tasks" });
+      }
+      const idx = service.taskChecklist.findIndex((t) => t.name === taskName);
+      if (idx === -1) {
+        return res.status(404).json({ error: "Task not found on this service" });
+      }
+
+      const { workerId, actualMinutes } = req.body || {};
+      if (workerId !== undefined) {
+        if (typeof workerId !== 'string' || !(await storage.getWorker(workerId))) {
+          return res.status(400).json({ error: "Unknown workerId" });
+        }
+      }
+      if (actualMinutes !== undefined && (typeof actualMinutes !== 'number' || actualMinutes < 0)) {
+        return res.status(400).json({ error: "actualMinutes must be a non-negative number" });
+      }
+
+      if (action === "start" || action === "complete") {
+        const awaited = await partsAwaited(storage, id, taskName);
+        if (awaited.length > 0) {
+          return res.status(409).json({ error: `${taskName} is waiting for parts: ${awaited.join(", ")}` });
+        }
+      }
+
+      const now = new Date();
+      const previous = service.taskChecklist[idx];
+      const result = transitionTask(previous, action as TaskAction, {
+        now,
+        // default to the lead technician on the job
+        workerId: workerId ?? service.taskChecklist[idx].workerId ?? service.assignedWorkers[0] ?? null,
+        actualMinutes,
+      });
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      const taskChecklist = service.taskChecklist.map((t, i) => (i === idx ? result.task : t));
+      const progress = checklistProgress(taskChecklist);
+      // Scale the remaining book time by how the prediction compares to the book time
+      const totalBaseHours = taskChecklist.reduce((sum, t) => sum + t.baseTimeHours, 0);
+      const scale = totalBaseHours > 0 ? service.predictedHours / totalBaseHours : 1;
+      const updated = await storage.updateActiveService(id, {
+        taskChecklist,
+        progress,
+        reportedProgress: null,
+        progressReportedAt: null,
+        estimatedCompletion: applyBusinessHours(now, remainingChecklistHours(taskChecklist) * scale),
+        status: progress >= 100 ? "Completing" : "In Progress",
+      });
+
+      // Done tasks use their parts, skipped ones hand them to whoever waits;
+      // a skipped task brought back needs its parts again
+      let partNames: string[] = [];
+      if (result.task.status === "Done") {
+        partNames = await consumeTaskParts(storage, id, taskName, req.user?.username);
+      } else if (result.task.status === "Skipped") {
+        partNames = await releaseParts(storage, id, taskName);
+        await allocateAwaitingStock(storage, partNames);
+      } else if (action === "reset" && previous.status === "Skipped") {
+        const task = await storage.getServiceTask(taskName);
+        if (task) partNames = (await reserveTaskParts(storage, id, task)).map((r) => r.partName);
+      }
+
+      if (updated) broadcast({ type: "service.updated", service: updated });
+      if (partNames.length > 0) {
+        broadcast({ type: "stock.changed", partNames });
+        await reorderLowStock(storage, partNames);
+      }
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update task" });
+    }
+  });
+
+  // PUT /api/active-services/:id/assignment - Swap the crew and/or move a running service to another bay
+  app.put("/api/active-services/:id/assignment", requireRole("service_advisor"), async (req, res) => {
+    try {
+      const parsed = serviceAssignmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid assignment" });
+      }
+      const result = await dispatcher.exclusive(async () => {
+        const service = await storage.getActiveService(req.params.id);
+        return service ? reassignService(storage, service, parsed.data, new Date()) : undefined;
+      });
+      if (!result) return res.status(404).json({ error: "Service not found" });
+      if ("error" in result) return res.status(409).json({ error: result.error });
+      broadcast({ type: "service.updated", service: result.service });
+      if (result.workerIds.length > 0) broadcast({ type: "worker.load_changed", workerIds: result.workerIds });
+      broadcast({ type: "bay.changed", bayIds: result.bayIds });
+      await dispatchQueued();
+      res.json(result.service);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to reassign service" });
+    }
+  });
+
+  // POST /api/active-services/:id/hold - Pause a running service while it waits for parts or the customer
+  app.post("/api/active-services/:id/hold", requireRole("service_advisor", "technician"), async (req, res) => {
+    try {
+      const parsed = holdServiceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid hold" });
+      }
+      const service = await storage.getActiveService(req.params.id);
+      if (!service) return res.status(404).json({ error: "Service not found" });
+
+      const result = await holdService(storage, service, parsed.data.status, new Date());
+      if ("error" in result) return res.status(409).json({ error: result.error });
+      broadcast({ type: "service.updated", service: result.service });
+      res.json(result.service);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to put service on hold" });
+    }
+  });
+
+  // POST /api/active-services/:id/resume - Restart a held service
+  app.post("/api/active-services/:id/resume", requireRole("service_advisor", "technician"), async (req, res) => {
+    try {
+      const service = await storage.getActiveService(req.params.id);
+      if (!service) return res.status(404).json({ error: "Service not found" });
+
+      const result = await resumeService(storage, service, new Date());
+      if ("error" in result) return res.status(409).json({ error: result.error });
+      broadcast({ type: "service.updated", service: result.service });
+      res.json(result.service);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to resume service" });
+    }
+  });
+
+  // POST /api/active-services/:id/cancel - Call off a job without billing it
+  app.post("/api/active-services/:id/cancel", requireRole("service_advisor"), async (req, res) => {
+    try {
+      const parsed = cancelServiceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid cancellation" });
+      }
+      const service = await storage.getActiveService(req.params.id);
+      if (!service) return res.status(404).json({ error: "Service not found" });
+
+      const { record, partNames } = await cancelService(storage, service, {
+        reason: parsed.data.reason,
+        username: req.user?.username,
+      });
+      broadcast({ type: "service.cancelled", serviceId: service.id });
+      if (service.status !== "Queued") broadcast({ type: "worker.load_changed", workerIds: service.assignedWorkers });
+      if (partNames.length > 0) broadcast({ type: "stock.changed", partNames });
+
+      // The freed bay and crew go to the jobs waiting in the queue
+      await dispatchQueued();
+      res.json(record);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to cancel service" });
+    }
+  });
+
+  // GET /api/cancelled-services - Jobs called off before completion, most recent first
+  app.get("/api/cancelled-services", async (_req, res) => {
+    try {
+      res.json(await storage.getCancelledServices());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch cancelled services" });
+    }
+  });
+
   // GET /api/inventory - Get inventory
   app.get("/api/inventory", async (_req, res) => {
     try {
@@ -116,51 +651,315 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET /api/inventory/forecast?days=14&lookbackDays=28 - Projected stock-outs and reorder suggestions
+  app.get("/api/inventory/forecast", async (req, res) => {
+    try {
+      const horizonDays = req.query.days ? Number(req.query.days) : undefined;
+      const lookbackDays = req.query.lookbackDays ? Number(req.query.lookbackDays) : undefined;
+      if (horizonDays !== undefined && (!Number.isInteger(horizonDays) || horizonDays < 1 || horizonDays > 90)) {
+        return res.status(400).json({ error: "days must be a whole number from 1 to 90" });
+      }
+      if (lookbackDays !== undefined && (!Number.isInteger(lookbackDays) || lookbackDays < 1 || lookbackDays > 365)) {
+        return res.status(400).json({ error: "lookbackDays must be a whole number from 1 to 365" });
+      }
+      res.json(await forecastInventory(storage, { horizonDays, lookbackDays }));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to forecast inventory" });
+    }
+  });
+
   // POST /api/inventory - Create inventory item
-  app.post("/api/inventory", async (req, res) => {
+  app.post("/api/inventory", requireRole("inventory_manager"), async (req, res) => {
     try {
       const { partName, quantity, minimumStock } = req.body || {};
       if (!partName || typeof partName !== 'string') {
         return res.status(400).json({ error: "partName is required" });
       }
-      const created = await storage.createInventoryItem({ partName, quantity, minimumStock });
-      res.json(created);
+      if (quantity !== undefined && (!Number.isInteger(quantity) || quantity < 0)) {
+        return res.status(400).json({ error: "quantity must be a non-negative whole number" });
+      }
+      const existed = await storage.getInventoryItem(partName);
+      const created = await storage.createInventoryItem({ partName, minimumStock });
+      // Stock enters through the ledger: an opening balance for new parts, a count for existing ones
+      const change = typeof quantity === 'number' ? quantity - created.quantity : 0;
+      if (change !== 0) {
+        const posted = await postStockMovement(storage, created, existed
+          ? { type: "Adjustment", reasonCode: "Stock Count", quantity: change, recordedBy: req.user?.username }
+          : { type: "Receipt", reasonCode: "Opening Balance", quantity: change, recordedBy: req.user?.username });
+        if ("error" in posted) return res.status(400).json({ error: posted.error });
+      }
+      await allocateAwaitingStock(storage, [created.partName]);
+      broadcast({ type: "stock.changed", partNames: [created.partName] });
+      await reorderLowStock(storage, [created.partName]);
+      res.json(await storage.getInventoryItem(created.partName));
     } catch (error) {
       res.status(500).json({ error: "Failed to create inventory item" });
     }
   });
 
   // PUT /api/inventory/:id - Update inventory item
-  app.put("/api/inventory/:id", async (req, res) => {
+  app.put("/api/inventory/:id", requireRole("inventory_manager"), async (req, res) => {
     try {
       const { id } = req.params;
-      const updates = req.body || {};
+      const { quantity, ...updates } = req.body || {};
+      const existing = (await storage.getInventory()).find((i) => i.id === id);
+      if (!existing) return res.status(404).json({ error: "Item not found" });
+      const hasReservations = (await storage.getPartReservations({ partName: existing.partName, statuses: ["Reserved", "Awaiting Stock"] })).length > 0;
+      if (updates.partName && updates.partName !== existing.partName && hasReservations) {
+        return res.status(400).json({ error: "Cannot rename a part reserved for active services" });
+      }
+      // Editing the count records the difference as a stock-count adjustment
+      if (typeof quantity === 'number' && quantity !== existing.quantity) {
+        const posted = await postStockMovement(storage, existing, {
+          type: "Adjustment",
+          reasonCode: "Stock Count",
+          quantity: quantity - existing.quantity,
+          recordedBy: req.user?.username,
+        });
+        if ("error" in posted) return res.status(400).json({ error: posted.error });
+      }
       const updated = await storage.updateInventoryItem(id, updates);
       if (!updated) return res.status(404).json({ error: "Item not found" });
-      res.json(updated);
+      await allocateAwaitingStock(storage, [updated.partName]);
+      broadcast({ type: "stock.changed", partNames: [updated.partName] });
+      await reorderLowStock(storage, [updated.partName]);
+      res.json(await storage.getInventoryItem(updated.partName));
     } catch (error) {
       res.status(500).json({ error: "Failed to update inventory item" });
     }
   });
 
+  // GET /api/inventory/:id/movements - Stock ledger of one part, newest first
+  app.get("/api/inventory/:id/movements", async (req, res) => {
+    try {
+      // Discontinued parts keep their ledger
+      const item = (await storage.getInventory({ includeDiscontinued: true })).find((i) => i.id === req.params.id);
+      if (!item) return res.status(404).json({ error: "Item not found" });
+      res.json(await storage.getStockMovements(item.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch stock movements" });
+    }
+  });
+
+  // POST /api/inventory/:id/movements - Record a receipt, adjustment, write-off or return
+  app.post("/api/inventory/:id/movements", requireRole("inventory_manager"), async (req, res) => {
+    try {
+      const item = (await storage.getInventory()).find((i) => i.id === req.params.id);
+      if (!item) return res.status(404).json({ error: "Item not found" });
+      const { type, reasonCode, quantity, note } = req.body || {};
+      if (type === "Consumption") {
+        return res.status(400).json({ error: "Consumption is recorded when service tasks are completed" });
+      }
+      const posted = await postStockMovement(storage, item, {
+        type,
+        reasonCode,
+        quantity,
+        note: typeof note === 'string' && note.trim() ? note.trim() : null,
+        recordedBy: req.user?.username,
+      });
+      if ("error" in posted) return res.status(400).json({ error: posted.error });
+      if (posted.movement.quantity > 0) await allocateAwaitingStock(storage, [item.partName]);
+      broadcast({ type: "stock.changed", partNames: [item.partName] });
+      await reorderLowStock(storage, [item.partName]);
+      res.json(posted.movement);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to record stock movement" });
+    }
+  });
+
   // DELETE /api/inventory/:id - Delete inventory item
-  app.delete("/api/inventory/:id", async (req, res) => {
+  app.delete("/api/inventory/:id", requireRole("inventory_manager"), async (req, res) => {
     try {
       const { id } = req.params;
-      const ok = await storage.deleteInventoryItem(id);
-      if (!ok) return res.status(404).json({ error: "Item not found" });
+      const item = (await storage.getInventory()).find((i) => i.id === id);
+      if (!item) return res.status(404).json({ error: "Item not found" });
+      if ((await storage.getPartReservations({ partName: item.partName, statuses: ["Reserved", "Awaiting Stock"] })).length > 0) {
+        return res.status(400).json({ error: "Cannot delete a part reserved for active services" });
+      }
+      // The ledger must still add up to zero, so stock on hand leaves through it first
+      if (item.quantity !== 0) {
+        return res.status(400).json({
+          error: `${item.partName} still has ${item.quantity} on hand; write it off or return it before removing the part`,
+        });
+      }
+      const discontinued = await storage.discontinueInventoryItem(id);
+      if (!discontinued) return res.status(404).json({ error: "Item not found" });
+      broadcast({ type: "stock.changed", partNames: [] });
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Failed to delete inventory item" });
     }
   });
 
-  // GET /api/analytics - Get analytics data
-  app.get("/api/analytics", async (_req, res) => {
+  // GET /api/suppliers - Suppliers with their part catalogs
+  app.get("/api/suppliers", async (_req, res) => {
     try {
-      const completedServices = await storage.getCompletedServicesCount();
-      const averageServiceTime = storage.getAverageServiceTime();
-      
+      res.json(await storage.getSuppliers());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch suppliers" });
+    }
+  });
+
+  // POST /api/suppliers - Add a supplier
+  app.post("/api/suppliers", requireRole("inventory_manager"), async (req, res) => {
+    try {
+      const parsed = insertSupplierSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid supplier" });
+      }
+      if ((await storage.getSuppliers()).some((s) => s.name === parsed.data.name)) {
+        return res.status(400).json({ error: "A supplier with that name already exists" });
+      }
+      const supplier = await storage.createSupplier(parsed.data);
+      await reorderLowStock(storage, supplier.parts.map((p) => p.partName));
+      res.json(supplier);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create supplier" });
+    }
+  });
+
+  // PUT /api/suppliers/:id - Update contact details, lead time or catalog
+  app.put("/api/suppliers/:id", requireRole("inventory_manager"), async (req, res) => {
+    try {
+      const parsed = insertSupplierSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid supplier" });
+      }
+      const { id } = req.params;
+      if (parsed.data.name && (await storage.getSuppliers()).some((s) => s.name === parsed.data.name && s.id !== id)) {
+        return res.status(400).json({ error: "A supplier with that name already exists" });
+      }
+      const supplier = await storage.updateSupplier(id, parsed.data);
+      if (!supplier) return res.status(404).json({ error: "Supplier not found" });
+      await reorderLowStock(storage, supplier.parts.map((p) => p.partName));
+      res.json(supplier);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update supplier" });
+    }
+  });
+
+  // DELETE /api/suppliers/:id - Remove a supplier nobody has ordered from
+  app.delete("/api/suppliers/:id", requireRole("inventory_manager"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      if ((await storage.getPurchaseOrders({ supplierId: id })).length > 0) {
+        return res.status(400).json({ error: "Cannot delete a supplier with purchase orders" });
+      }
+      const ok = await storage.deleteSupplier(id);
+      if (!ok) return res.status(404).json({ error: "Supplier not found" });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete supplier" });
+    }
+  });
+
+  // GET /api/purchase-orders?status=open|Draft|... - Purchase orders, newest first
+  app.get("/api/purchase-orders", async (req, res) => {
+    try {
+      const { status } = req.query;
+      let statuses: PurchaseOrderStatus[] | undefined;
+      if (status === "open") {
+        statuses = openPurchaseOrderStatuses;
+      } else if (typeof status === "string") {
+        if (!purchaseOrderStatuses.includes(status as PurchaseOrderStatus)) {
+          return res.status(400).json({ error: `status must be open or one of ${purchaseOrderStatuses.join(", ")}` });
+        }
+        statuses = [status as PurchaseOrderStatus];
+      }
+      res.json(await storage.getPurchaseOrders({ statuses }));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch purchase orders" });
+    }
+  });
+
+  // POST /api/purchase-orders - Draft an order by hand: { supplierId, lines: [{ partName, quantity }] }
+  app.post("/api/purchase-orders", requireRole("inventory_manager"), async (req, res) => {
+    try {
+      const { supplierId, lines } = req.body || {};
+      const supplier = typeof supplierId === "string" ? await storage.getSupplier(supplierId) : undefined;
+      if (!supplier) return res.status(400).json({ error: "supplierId must be a known supplier" });
+      const priced = priceOrderLines(supplier, lines);
+      if ("error" in priced) return res.status(400).json({ error: priced.error });
+      const order = await storage.createPurchaseOrder({
+        supplierId: supplier.id,
+        status: "Draft",
+        lines: priced.lines,
+        createdBy: req.user?.username ?? null,
+      });
+      broadcast({ type: "purchase_order.changed", orderIds: [order.id] });
+      res.json(order);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create purchase order" });
+    }
+  });
+
+  // POST /api/purchase-orders/reorder - Draft orders for every part below its minimum
+  app.post("/api/purchase-orders/reorder", requireRole("inventory_manager"), async (_req, res) => {
+    try {
+      res.json(await reorderLowStock(storage));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to draft reorders" });
+    }
+  });
+
+  // PUT /api/purchase-orders/:id - Replace the lines of a draft
+  app.put("/api/purchase-orders/:id", requireRole("inventory_manager"), async (req, res) => {
+    try {
+      const order = await storage.getPurchaseOrder(req.params.id);
+      if (!order) return res.status(404).json({ error: "Purchase order not found" });
+      if (order.status !== "Draft") return res.status(400).json({ error: "Only draft orders can be edited" });
+      const supplier = await storage.getSupplier(order.supplierId);
+      if (!supplier) return res.status(400).json({ error: "Supplier no longer exists" });
+      const priced = priceOrderLines(supplier, req.body?.lines);
+      if ("error" in priced) return res.status(400).json({ error: priced.error });
+      const updated = await storage.updatePurchaseOrder(order.id, { lines: priced.lines });
+      broadcast({ type: "purchase_order.changed", orderIds: [order.id] });
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update purchase order" });
+    }
+  });
+
+  // POST /api/purchase-orders/:id/:action - approve (admin), send, receive or cancel
+  app.post("/api/purchase-orders/:id/:action", requireRole("inventory_manager"), async (req, res) => {
+    try {
+      const { id, action } = req.params;
+      if (!purchaseOrderActions.includes(action as PurchaseOrderAction)) {
+        return res.status(404).json({ error: `Unknown action ${action}` });
+      }
+      if (action === "approve" && req.user?.role !== "admin") {
+        return res.status(403).json({ error: "Only admins can approve purchase orders" });
+      }
+      const order = await storage.getPurchaseOrder(id);
+      if (!order) return res.status(404).json({ error: "Purchase order not found" });
+
+      const result = await transitionPurchaseOrder(storage, order, action as PurchaseOrderAction, {
+        now: new Date(),
+        username: req.user?.username,
+      });
+      if ("error" in result) return res.status(409).json({ error: result.error });
+
+      broadcast({ type: "purchase_order.changed", orderIds: [id] });
+      if (result.partNames.length > 0) {
+        await allocateAwaitingStock(storage, result.partNames);
+        broadcast({ type: "stock.changed", partNames: result.partNames });
+      }
+      // A cancelled order no longer covers its parts
+      if (action === "cancel") await reorderLowStock(storage, order.lines.map((l) => l.partName));
+      res.json(result.order);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update purchase order" });
+    }
+  });
+
+  // GET /api/analytics?from=&to=&groupBy= - Revenue and service figures for a date range, plus current utilization
+  app.get("/api/analytics", async (req, res) => {
+    try {
+      const calendar = getBusinessCalendar();
+      const range = parseAnalyticsRange(req.query, calendar, new Date());
+      if ("error" in range) return res.status(400).json({ error: range.error });
+      const revenue = revenueAnalytics(await storage.getCompletedServices(), range, calendar);
+
       const workers = await storage.getWorkers();
       const totalLoad = workers.reduce((sum, w) => sum + w.loadPercent, 0);
       const workerUtilization = workers.length > 0 ? totalLoad / workers.length : 0;
@@ -170,9 +969,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const machineUtilization = machines.length > 0 ? totalMachineLoad / machines.length : 0;
 
       res.json({
-        completedServices,
-        averageServiceTime,
-        totalRevenue: completedServices * 250, // Mock revenue calculation
+        ...range,
+        ...revenue,
         workerUtilization,
         machineUtilization,
       });
@@ -189,9 +987,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const inventory = await storage.getInventory();
       const machines = await storage.getMachines();
 
-      const availableWorkers = workers.filter(w => w.status === "Available").length;
+      const onShift = workersOnShift(await loadRoster(storage), new Date());
+      const availableWorkers = onShift.filter(w => w.status === "Available").length;
       const queueCount = activeServices.filter(s => s.status === "Queued").length;
-      const lowStockItems = inventory.filter(i => i.quantity < i.minimumStock).length;
+      const lowStockItems = inventory.filter(i => availableStock(i) < i.minimumStock).length;
       const machinesActive = machines.filter(m => m.assignedWorkers.length > 0).length;
       
       // Capacity as machine utilization percentage (matches user expectation)
@@ -199,6 +998,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json({
         totalWorkers: workers.length,
+        onShiftWorkers: onShift.length,
         activeJobs: activeServices.filter(s => s.status === "In Progress").length,
         availableWorkers,
         queueCount,
@@ -214,7 +1014,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/restock/:partName - Restock inventory
-  app.post("/api/restock/:partName", async (req, res) => {
+  app.post("/api/restock/:partName", requireRole("inventory_manager"), async (req, res) => {
     try {
       const { partName } = req.params;
       const item = await storage.getInventoryItem(decodeURIComponent(partName));
@@ -223,15 +1023,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Part not found" });
       }
 
-      await storage.updateStock(item.partName, item.quantity + 5);
-      res.json({ success: true, newQuantity: item.quantity + 5 });
+      const posted = await postStockMovement(storage, item, {
+        type: "Receipt",
+        reasonCode: "Restock",
+        quantity: 5,
+        recordedBy: req.user?.username,
+      });
+      if ("error" in posted) return res.status(400).json({ error: posted.error });
+      await allocateAwaitingStock(storage, [item.partName]);
+      broadcast({ type: "stock.changed", partNames: [item.partName] });
+      res.json({ success: true, newQuantity: posted.item.quantity });
     } catch (error) {
       res.status(500).json({ error: "Failed to restock item" });
     }
   });
 
   // POST /api/complete-service/:id - Complete a service
-  app.post("/api/complete-service/:id", async (req, res) => {
+  app.post("/api/complete-service/:id", requireRole("service_advisor", "technician"), async (req, res) => {
     try {
       const { id } = req.params;
       const service = await storage.getActiveService(id);
@@ -239,114 +1047,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!service) {
         return res.status(404).json({ error: "Service not found" });
       }
-
-      // Free up workers
-      for (const workerId of service.assignedWorkers) {
-        const worker = await storage.getWorker(workerId);
-        if (worker) {
-          const updatedJobs = worker.activeJobs.filter(jobId => jobId !== id);
-          const newLoad = Math.max(0, worker.loadPercent - (100 / 3)); // Each job is ~33% load
-          await storage.updateWorkerLoad(workerId, Math.round(newLoad), updatedJobs);
-        }
+      if (!canComplete(service)) {
+        return res.status(409).json({ error: `Cannot complete a ${service.status.toLowerCase()} service` });
       }
 
-      // Free up machine
-      const machines = await storage.getMachines();
-      const machine = machines.find(m => m.assignedWorkers.some(w => service.assignedWorkers.includes(w)));
-      if (machine) {
-        const updatedWorkers = machine.assignedWorkers.filter(w => !service.assignedWorkers.includes(w));
-        const newLoad = Math.max(0, machine.currentLoad - 50); // Reduce load
-        await storage.updateMachineLoad(machine.id, newLoad, updatedWorkers);
-      }
+      // Free up workers and machine
+      await releaseBayAndCrew(storage, service);
+
+      // Use the parts of the work that was done and give back the rest
+      const settledParts = await settleServiceParts(storage, id, service.taskChecklist, req.user?.username);
+      await allocateAwaitingStock(storage, settledParts);
 
-      // Add to completed services
-      await storage.addCompletedService(service.predictedHours);
       // Build completed service record for receipt/history
       const workerNames: string[] = [];
       for (const workerId of service.assignedWorkers) {
         const w = await storage.getWorker(workerId);
         if (w) workerNames.push(w.name);
       }
+      // Bill the work done and the parts it used from the price list
+      const { tasks } = await resolveTasks(storage, (service.selectedTasks as string[]) || []);
+      const partsUsed = await storage.getPartReservations({ serviceId: id, statuses: ["Consumed"] });
+      const invoice = buildInvoice(service, tasks, partsUsed, await storage.getPriceList());
       const completedRecord = {
         id: service.id,
+        vehicleId: service.vehicleId,
+        customerId: service.customerId,
         carNumber: service.carNumber,
         carModel: service.carModel,
+        totalKilometers: service.totalKilometers,
         serviceType: service.serviceType,
         selectedTasks: (service.selectedTasks as any) as string[],
         predictedHours: service.predictedHours,
         assignedMachine: service.assignedMachine,
         assignedWorkers: workerNames,
         completedAt: new Date().toISOString(),
-        currency: "INR",
-        items: [
-          {
-            id: `${service.id}-labour`,
-            description: `Labour (${service.predictedHours.toFixed(2)}h)`,
-            quantity: service.predictedHours,
-            unitPrice: 250,
-            amount: parseFloat((service.predictedHours * 250).toFixed(2)),
-          },
-          ...((service.selectedTasks as any) as string[]).map((t: string, i: number) => ({
-            id: `${service.id}-task-${i}`,
-            description: t,
-            quantity: 1,
-            unitPrice: 0,
-            amount: 0,
-          })),
-        ],
-        amount: parseFloat((service.predictedHours * 250).toFixed(2)),
+        warrantyStatus: service.warrantyStatus,
+        ...invoice,
       };
       await storage.addCompletedServiceRecord(completedRecord);
       
       // Remove from active services
       await storage.removeActiveService(id);
-
-      // Try to start the next queued service if a machine is available
-      const queued = (await storage.getActiveServices()).filter(s => s.status === "Queued");
-      const policy = await storage.getQueuePolicy();
-      const prioRank: Record<string, number> = { Urgent: 0, High: 1, Normal: 2, Low: 3 };
-      const sortedQueued = queued.sort((a, b) => {
-        if (policy === "SJF") {
-          return (a.predictedHours || 0) - (b.predictedHours || 0);
-        }
-        if (policy === "PRIORITY") {
-          const ar = prioRank[(a as any).priority || "Normal"] ?? 2;
-          const br = prioRank[(b as any).priority || "Normal"] ?? 2;
-          if (ar !== br) return ar - br;
-        }
-        return (a.queuePosition || 0) - (b.queuePosition || 0);
-      });
-      if (queued.length > 0) {
-        const machinesAfter = await storage.getMachines();
-        const availableMachines = machinesAfter
-          .filter(m => m.assignedWorkers.length < 3 && m.currentLoad < 90)
-          .sort((a, b) => a.currentLoad - b.currentLoad);
-        const next = sortedQueued[0];
-        if (availableMachines.length > 0) {
-          const start = new Date();
-          const est = applyBusinessHours(start, next.predictedHours);
-          await storage.updateActiveService(next.id, {
-            status: "In Progress",
-            queuePosition: null as any,
-            assignedMachine: `Bay ${availableMachines[0].bayNumber}`,
-            actualStartTime: start as any,
-            estimatedCompletion: est as any,
-          } as any);
-          for (const workerId of next.assignedWorkers) {
-            const w = await storage.getWorker(workerId);
-            if (w) {
-              const newJobs = [...w.activeJobs, next.id];
-              const newLoad = Math.min(100, w.loadPercent + (100 / 3));
-              await storage.updateWorkerLoad(workerId, Math.round(newLoad), newJobs);
-            }
-          }
-          const machineToUse = availableMachines[0];
-          const newWorkers = Array.from(new Set([...machineToUse.assignedWorkers, ...next.assignedWorkers]));
-          const newLoad = Math.min(100, machineToUse.currentLoad + 50);
-          await storage.updateMachineLoad(machineToUse.id, newLoad, newWorkers);
-        }
+      broadcast({ type: "service.completed", serviceId: id });
+      broadcast({ type: "worker.load_changed", workerIds: service.assignedWorkers });
+      if (settledParts.length > 0) {
+        broadcast({ type: "stock.changed", partNames: settledParts });
+        await reorderLowStock(storage, settledParts);
       }
 
+      // Fill the freed capacity from the queue
+      await dispatchQueued();
+
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Failed to complete service" });
@@ -375,36 +1126,159 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // PUT /api/completed-services/:id - Update invoice items/currency/amount
-  app.put("/api/completed-services/:id", async (req, res) => {
+  // Letterhead, QR link and timezone for a printed document of a service
+  const documentOptions = async (req: Request, serviceId: string): Promise<DocumentOptions> => ({
+    letterhead: await storage.getLetterhead(),
+    recordUrl: recordUrl(`${req.protocol}://${req.get("host")}`, serviceId),
+    timezone: getBusinessCalendar().timezone,
+  });
+
+  // Served inline so the browser can print it or save it for emailing
+  const sendPdf = (res: Response, pdf: Buffer, filename: string) => {
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+    res.setHeader("Content-Length", pdf.length);
+    res.send(pdf);
+  };
+
+  // GET /api/completed-services/:id/invoice.pdf - Printable tax invoice
+  app.get("/api/completed-services/:id/invoice.pdf", async (req, res) => {
+    try {
+      const record = await storage.getCompletedService(req.params.id);
+      if (!record) return res.status(404).json({ error: "Record not found" });
+      const customer = record.customerId ? await storage.getCustomer(record.customerId) : undefined;
+      const pdf = await renderInvoicePdf(record, customer, await documentOptions(req, record.id));
+      sendPdf(res, pdf, `${formatInvoiceNumber(record)}.pdf`);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to generate invoice" });
+    }
+  });
+
+  // GET /api/active-services/:id/jobcard.pdf - Printable job card for the floor
+  app.get("/api/active-services/:id/jobcard.pdf", async (req, res) => {
+    try {
+      const service = await storage.getActiveService(req.params.id);
+      if (!service) return res.status(404).json({ error: "Service not found" });
+      const { tasks } = await resolveTasks(storage, (service.selectedTasks as string[]) || []);
+      const workerNames: string[] = [];
+      for (const workerId of service.assignedWorkers) {
+        workerNames.push((await storage.getWorker(workerId))?.name ?? workerId);
+      }
+      const pdf = await renderJobCardPdf(service, {
+        customer: service.customerId ? await storage.getCustomer(service.customerId) : undefined,
+        tasks,
+        workerNames,
+        parts: await storage.getPartReservations({ serviceId: service.id }),
+      }, await documentOptions(req, service.id));
+      sendPdf(res, pdf, `${service.id}_jobcard.pdf`);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to generate job card" });
+    }
+  });
+
+  // GET /api/customers - List registered customers
+  app.get("/api/customers", async (_req, res) => {
+    try {
+      const customers = await storage.getCustomers();
+      res.json(customers);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch customers" });
+    }
+  });
+
+  // POST /api/customers - Register a customer
+  app.post("/api/customers", requireRole("service_advisor"), async (req, res) => {
+    try {
+      const parsed = insertCustomerSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid customer" });
+      }
+      if (await storage.getCustomerByPhone(parsed.data.phone)) {
+        return res.status(400).json({ error: "A customer with this phone number already exists" });
+      }
+      const customer = await storage.createCustomer(parsed.data);
+      res.json(customer);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create customer" });
+    }
+  });
+
+  // PUT /api/customers/:id/tier - Change a customer's tier (weighed by the scored queue policy)
+  app.put("/api/customers/:id/tier", requireRole("service_advisor"), async (req, res) => {
+    try {
+      const tier = (req.body || {}).tier as CustomerTier;
+      if (!customerTiers.includes(tier)) {
+        return res.status(400).json({ error: `tier must be one of ${customerTiers.join(", ")}` });
+      }
+      const customer = await storage.updateCustomer(req.params.id, { tier });
+      if (!customer) {
+        return res.status(404).json({ error: "Customer not found" });
+      }
+      await dispatchQueued();
+      res.json(customer);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update customer tier" });
+    }
+  });
+
+  // GET /api/vehicles - List registered vehicles
+  app.get("/api/vehicles", async (_req, res) => {
+    try {
+      const vehicles = await storage.getVehicles();
+      res.json(vehicles);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch vehicles" });
+    }
+  });
+
+  // GET /api/vehicles/:carNumber/history - Vehicle, owner and past visits (newest first)
+  app.get("/api/vehicles/:carNumber/history", async (req, res) => {
+    try {
+      const { carNumber } = req.params;
+      const vehicle = await storage.getVehicleByCarNumber(carNumber);
+      const visits = await storage.getVehicleServiceHistory(carNumber);
+      if (!vehicle && visits.length === 0) {
+        return res.status(404).json({ error: "Vehicle not found" });
+      }
+      const customer = vehicle?.customerId ? await storage.getCustomer(vehicle.customerId) : undefined;
+      const last = visits[0];
+      res.json({
+        vehicle: vehicle ?? null,
+        customer: customer ?? null,
+        visits,
+        lastService: last ? { completedAt: last.completedAt, totalKilometers: last.totalKilometers } : null,
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch vehicle history" });
+    }
+  });
+
+  // PUT /api/completed-services/:id - Update invoice items, currency and discount (amount or percent); totals are recomputed
+  app.put("/api/completed-services/:id", requireRole("service_advisor"), async (req, res) => {
     try {
       const { id } = req.params;
       const record = await storage.getCompletedService(id);
       if (!record) return res.status(404).json({ error: "Record not found" });
 
       const updates = req.body || {};
+      const { discount, discountPercent } = updates;
+      if (discount !== undefined && (typeof discount !== 'number' || discount < 0)) {
+        return res.status(400).json({ error: "discount must be a non-negative amount" });
+      }
+      if (discountPercent !== undefined && (typeof discountPercent !== 'number' || discountPercent < 0 || discountPercent > 100)) {
+        return res.status(400).json({ error: "discountPercent must be between 0 and 100" });
+      }
       const items = Array.isArray(updates.items) ? updates.items : record.items;
-      const normalizedItems = items.map((it: any, idx: number) => {
-        const description = String(it.description || `Item ${idx + 1}`);
-        const quantity = typeof it.quantity === 'number' && it.quantity >= 0 ? it.quantity : 1;
-        const unitPrice = typeof it.unitPrice === 'number' && it.unitPrice >= 0 ? it.unitPrice : 0;
-        const amount = parseFloat((quantity * unitPrice).toFixed(2));
-        return {
-          id: it.id || `${id}-item-${idx}`,
-          description,
-          quantity,
-          unitPrice,
-          amount,
-        };
-      });
-      const total = normalizedItems.reduce((sum: number, i: any) => sum + (i.amount || 0), 0);
+      const invoice = repriceInvoice(record, items, { amount: discount, percent: discountPercent });
+      // An invoice cannot be billed at less than the customer has already paid
+      if (invoice.total < record.amountPaid) {
+        return res.status(409).json({
+          error: `New total of ${invoice.total.toFixed(2)} is less than the ${record.amountPaid.toFixed(2)} already paid; refund the difference first`,
+        });
+      }
       const currency = typeof updates.currency === 'string' ? updates.currency : record.currency || 'INR';
 
-      const updated = await storage.updateCompletedServiceRecord(id, {
-        items: normalizedItems,
-        amount: parseFloat(total.toFixed(2)),
-        currency,
-      } as any);
+      const updated = await storage.updateCompletedServiceRecord(id, { ...invoice, currency });
 
       res.json(updated);
     } catch (error) {
@@ -412,260 +1286,169 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // POST /api/service-request - Submit service request with AI prediction
-  app.post("/api/service-request", async (req, res) => {
+  // GET /api/completed-services/:id/payments - Payments and refunds on an invoice, oldest first
+  app.get("/api/completed-services/:id/payments", async (req, res) => {
     try {
-      // Validate request
-      const validatedData = serviceRequestSchema.parse(req.body);
-
-      // Step 1: Calculate base time from selected tasks
-      let baseTime = 0;
-      const selectedTaskDetails = [];
-      const requiredParts: string[] = [];
+      const record = await storage.getCompletedService(req.params.id);
+      if (!record) return res.status(404).json({ error: "Record not found" });
+      res.json(await storage.getPayments(record.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch payments" });
+    }
+  });
 
-      for (const taskName of validatedData.selectedTasks) {
-        const task = await storage.getServiceTask(taskName);
-        if (task) {
-          baseTime += task.baseTimeHours;
-          selectedTaskDetails.push(task);
-          requiredParts.push(...task.requiredParts);
-        }
+  // POST /api/completed-services/:id/payments - Take a payment (split across methods) or, for admins, a refund
+  app.post("/api/completed-services/:id/payments", requireRole("service_advisor"), async (req, res) => {
+    try {
+      const parsed = paymentEntrySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid payment" });
+      }
+      if (parsed.data.kind === "Refund" && req.user?.role !== "admin") {
+        return res.status(403).json({ error: "Only admins can record refunds" });
       }
+      const record = await storage.getCompletedService(req.params.id);
+      if (!record) return res.status(404).json({ error: "Record not found" });
 
-      // Step 2: AI Service Time Prediction
-      // Car age factor (older cars take longer)
-      const carAge = new Date().getFullYear() - validatedData.manufactureYear;
-      const carAgeFactor = carAge > 10 ? 0.2 : carAge > 5 ? 0.1 : 0;
+      const result = await takePayment(storage, record, parsed.data, req.user?.username);
+      if ("error" in result) return res.status(409).json({ error: result.error });
+      broadcast({ type: "payment.recorded", serviceId: record.id });
+      res.status(201).json(result);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to record payment" });
+    }
+  });
 
-      // Condition multipliers
-      const healthFactor = (100 - validatedData.healthScore) / 200;
-      
-      const rustMultiplier = {
-        "None": 0,
-        "Minor": 0.1,
-        "Moderate": 0.2,
-        "Severe": 0.4,
-      }[validatedData.rustLevel];
-
-      const damageMultiplier = {
-        "None": 0,
-        "Minor": 0.05,
-        "Moderate": 0.15,
-        "Severe": 0.3,
-      }[validatedData.bodyDamage];
-
-      // Mileage factor
-      const kmFactor = validatedData.kmSinceLastService > 10000 ? 0.15 : validatedData.kmSinceLastService > 5000 ? 0.08 : 0;
-
-      // Error codes factor
-      const errorCodesFactor = validatedData.errorCodes.length * 0.25;
-
-      const batteryFactor = validatedData.fuelType === "Electric" ? (100 - validatedData.batterySOH) / 300 : 0;
-      const fluidsFactor = validatedData.fluidDegradation / 300;
-      const wearTearFactor = validatedData.wearTearScore / 300;
-
-      const packageFactor = {
-        Basic: 0,
-        Standard: 0.05,
-        Premium: 0.12,
-      }[validatedData.servicePackage];
-
-      const approvalFactor = {
-        Fast: 0,
-        Normal: 0.05,
-        Slow: 0.15,
-      }[validatedData.customerApprovalSpeed];
-
-      // Shop load factor
-      const activeServices = await storage.getActiveServices();
-      const shopLoadFactor = activeServices.length >= 6 ? 0.3 : activeServices.length >= 4 ? 0.2 : 0;
-      const appointmentFactor = validatedData.appointmentType === "Walk-in" ? 0.1 : 0;
-      const peakHoursFactor = validatedData.peakHours ? 0.08 : 0;
-      const weatherFactor = {
-        Clear: 0,
-        Rain: 0.05,
-        Extreme: 0.12,
-      }[validatedData.weather];
-
-      // Calculate predicted time
-      const conditionAdjustment = baseTime * (
-        carAgeFactor +
-        healthFactor +
-        rustMultiplier +
-        damageMultiplier +
-        kmFactor +
-        errorCodesFactor +
-        batteryFactor +
-        fluidsFactor +
-        wearTearFactor +
-        packageFactor +
-        approvalFactor +
-        appointmentFactor +
-        peakHoursFactor +
-        weatherFactor
-      );
-      const predictedHours = baseTime + conditionAdjustment + shopLoadFactor;
-
-      // Step 3: Check inventory
-      const warnings: string[] = [];
-      for (const partName of Array.from(new Set(requiredParts))) {
-        const item = await storage.getInventoryItem(partName);
-        if (item) {
-          if (item.quantity === 0) {
-            warnings.push(`${partName} is out of stock`);
-          } else if (item.quantity < item.minimumStock) {
-            warnings.push(`${partName} stock is running low`);
-          }
-          // Reduce inventory
-          await storage.updateStock(partName, Math.max(0, item.quantity - 1));
-        }
-      }
+  // GET /api/receivables - Unpaid and part-paid invoices by age
+  app.get("/api/receivables", async (_req, res) => {
+    try {
+      res.json(await buildReceivables(storage));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch receivables" });
+    }
+  });
 
-      // Step 4: Determine primary skill needed
-      const primarySkill = selectedTaskDetails.length > 0 
-        ? selectedTaskDetails.sort((a, b) => b.baseTimeHours - a.baseTimeHours)[0].category
-        : "General";
+  // POST /api/service-request - Submit service request with AI prediction
+  app.post("/api/service-request", requireRole("service_advisor"), async (req, res) => {
+    try {
+      // Validate request
+      const validatedData = serviceRequestSchema.parse(req.body);
 
-      // Step 5: Assign workers (max 3 workers per machine, max 3 jobs per worker)
-      const workers = await storage.getWorkers();
-      const skillMatchedWorkers = workers
-        .filter(w => w.skill === primarySkill || primarySkill === "General")
-        .filter(w => w.activeJobs.length < 3)
-        .sort((a, b) => {
-          // Sort by: availability, then load, then rating
-          if (a.loadPercent !== b.loadPercent) return a.loadPercent - b.loadPercent;
-          return b.rating - a.rating;
-        });
+      const { service: _service, ...result } = await dispatcher.exclusive(() => intakeServiceRequest(storage, validatedData));
+      res.json(result);
+    } catch (error: any) {
+      console.error("Service request error:", error);
+      res.status(400).json({ error: error.message || "Invalid service request" });
+    }
+  });
 
-      let assignedWorkers: string[] = [];
-      const numWorkersNeeded = Math.min(3, Math.ceil(predictedHours / 2)); // 1-3 workers based on time
-      
-      for (let i = 0; i < numWorkersNeeded && i < skillMatchedWorkers.length; i++) {
-        assignedWorkers.push(skillMatchedWorkers[i].id);
+  // GET /api/appointments?from=&to= - Appointments by scheduled start (ISO dates)
+  app.get("/api/appointments", async (req, res) => {
+    try {
+      const from = req.query.from ? new Date(String(req.query.from)) : undefined;
+      const to = req.query.to ? new Date(String(req.query.to)) : undefined;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({ error: "from and to must be ISO dates" });
       }
+      const appointments = await storage.getAppointments({ from, to });
+      res.json(appointments);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch appointments" });
+    }
+  });
 
-      if (assignedWorkers.length === 0) {
-        // Fallback to any available worker
-        const anyAvailable = workers.filter(w => w.activeJobs.length < 3);
-        if (anyAvailable.length > 0) {
-          assignedWorkers.push(anyAvailable[0].id);
-        } else {
-          warnings.push("All workers are at maximum capacity");
-        }
+  // POST /api/appointments/suggest - Free slots for a request over the coming days
+  app.post("/api/appointments/suggest", requireRole("service_advisor"), async (req, res) => {
+    try {
+      const { request, from, days } = req.body || {};
+      const parsed = serviceRequestSchema.safeParse(request);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid service request" });
       }
-
-      // Step 6: Assign machine
-      const machines = await storage.getMachines();
-      const availableMachines = machines
-        .filter(m => m.assignedWorkers.length < 3 && m.currentLoad < 90)
-        .sort((a, b) => a.currentLoad - b.currentLoad);
-
-      let assignedMachine = "";
-      let queuePosition: number | undefined = undefined;
-
-      if (activeServices.length >= 6) {
-        // Queue the service
-        queuePosition = activeServices.filter(s => s.status === "Queued").length + 1;
-        assignedMachine = "QUEUED";
-        warnings.push(`Workshop at capacity. Service queued at position ${queuePosition}`);
-      } else if (availableMachines.length > 0) {
-        assignedMachine = `Bay ${availableMachines[0].bayNumber}`;
-      } else {
-        queuePosition = 1;
-        assignedMachine = "QUEUED";
-        warnings.push("All machines are currently in use");
-      }
-
-      // Step 7: Generate Service ID (VOL_YYYYMMDDHHMMSS_WID format)
-      const now = new Date();
-      const dateStr = now.toISOString().replace(/[-:T.Z]/g, '').slice(0, 14);
-      const workerId = assignedWorkers.length > 0 ? assignedWorkers[0].slice(0, 3).toUpperCase() : "QUE";
-      const serviceId = `VOL_${dateStr}_${workerId}`;
-
-      // Step 8: Calculate estimated completion
-      // If queued, include wait time equal to the minimum remaining time among active in-progress services
-      let displayPredictedHours = predictedHours;
-      let waitHours = 0;
-      if (queuePosition) {
-        const inProgress = activeServices.filter(s => s.status === "In Progress");
-        const nowMs = now.getTime();
-        const remainingHours = inProgress
-          .map(s => {
-            const est = (s as any).estimatedCompletion as Date;
-            const diffMs = Math.max(0, est.getTime() - nowMs);
-            return diffMs / (1000 * 60 * 60);
-          })
-          .filter(h => isFinite(h));
-        if (remainingHours.length > 0) {
-          waitHours = Math.min(...remainingHours);
-          displayPredictedHours = predictedHours + waitHours;
-        }
+      const fromDate = from ? new Date(from) : undefined;
+      if (fromDate && isNaN(fromDate.getTime())) {
+        return res.status(400).json({ error: "from must be an ISO date" });
       }
-      const estimatedCompletion = applyBusinessHours(now, predictedHours + waitHours);
-
-      // Step 9: Create active service
-      const activeService = await storage.createActiveService({
-        id: serviceId,
-        carNumber: validatedData.carNumber,
-        carModel: validatedData.carModel,
-        manufactureYear: validatedData.manufactureYear,
-        fuelType: validatedData.fuelType,
-        totalKilometers: validatedData.totalKilometers,
-        kmSinceLastService: validatedData.kmSinceLastService,
-        daysSinceLastService: validatedData.daysSinceLastService,
-        serviceType: validatedData.serviceType,
-        selectedTasks: validatedData.selectedTasks as any,
-        healthScore: validatedData.healthScore,
-        errorCodes: validatedData.errorCodes,
-        rustLevel: validatedData.rustLevel,
-        bodyDamage: validatedData.bodyDamage,
-        predictedHours,
-        estimatedCompletion,
-        progress: 0,
-        assignedWorkers,
-        assignedMachine,
-        reservedParts: Array.from(new Set(requiredParts)) as any,
-        queuePosition,
-        priority: validatedData.priority as any,
-        status: queuePosition ? "Queued" : "In Progress",
+      const plan = await planAppointment(storage, parsed.data);
+      const slots = await suggestSlots(storage, plan, {
+        from: fromDate,
+        days: typeof days === 'number' ? Math.min(Math.max(1, days), 30) : undefined,
       });
+      res.json({ ...plan, predictedHours: parseFloat(plan.predictedHours.toFixed(2)), slots });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message || "Failed to suggest slots" });
+    }
+  });
 
-      // Step 10: Update worker loads only if service starts immediately (not queued)
-      if (!queuePosition) {
-        for (const workerId of assignedWorkers) {
-          const worker = await storage.getWorker(workerId);
-          if (worker) {
-            const newJobs = [...worker.activeJobs, serviceId];
-            const newLoad = Math.min(100, worker.loadPercent + (100 / 3)); // Each job adds ~33% load
-            await storage.updateWorkerLoad(workerId, Math.round(newLoad), newJobs);
-          }
-        }
+  // POST /api/appointments - Book a slot for a vehicle
+  app.post("/api/appointments", requireRole("service_advisor"), async (req, res) => {
+    try {
+      const { request, scheduledStart, notes } = req.body || {};
+      const parsed = serviceRequestSchema.safeParse({ ...request, appointmentType: "Appointment" });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid service request" });
       }
-
-      // Step 11: Update machine load
-      if (!queuePosition && availableMachines.length > 0) {
-        const machine = availableMachines[0];
-        const newWorkers = Array.from(new Set([...machine.assignedWorkers, ...assignedWorkers]));
-        const newLoad = Math.min(100, machine.currentLoad + 50);
-        await storage.updateMachineLoad(machine.id, newLoad, newWorkers);
+      const start = new Date(scheduledStart);
+      if (!scheduledStart || isNaN(start.getTime())) {
+        return res.status(400).json({ error: "scheduledStart must be an ISO date" });
       }
 
-      // Step 12: Return prediction result
-      res.json({
-        serviceId,
-        predictedHours: parseFloat(displayPredictedHours.toFixed(2)),
-        assignedWorkers: assignedWorkers.map(id => {
-          const w = workers.find(worker => worker.id === id);
-          return w ? w.name : id;
-        }),
-        assignedMachine,
-        estimatedCompletion: estimatedCompletion.toISOString(),
-        queuePosition,
-        warnings,
+      const plan = await planAppointment(storage, parsed.data);
+      const check = await checkSlot(storage, start, plan);
+      if ("error" in check) return res.status(409).json({ error: check.error });
+
+      const { vehicle, customer } = await registerVisit(storage, parsed.data);
+      const appointment = await storage.createAppointment({
+        vehicleId: vehicle.id,
+        customerId: customer?.id ?? null,
+        carNumber: vehicle.carNumber,
+        carModel: parsed.data.carModel,
+        scheduledStart: start,
+        scheduledEnd: new Date(check.slot.end),
+        predictedHours: plan.predictedHours,
+        primarySkill: plan.primarySkill,
+        selectedTasks: parsed.data.selectedTasks,
+        request: parsed.data,
+        status: "Booked",
+        notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null,
       });
+      broadcast({ type: "appointment.changed", appointment });
+      res.json(appointment);
     } catch (error: any) {
-      console.error("Service request error:", error);
-      res.status(400).json({ error: error.message || "Invalid service request" });
+      res.status(400).json({ error: error.message || "Failed to book appointment" });
+    }
+  });
+
+  // POST /api/appointments/:id/check-in - Vehicle arrived: start it as an active service
+  app.post("/api/appointments/:id/check-in", requireRole("service_advisor"), async (req, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) return res.status(404).json({ error: "Appointment not found" });
+      if (appointment.status !== "Booked") {
+        return res.status(409).json({ error: `Appointment is already ${appointment.status.toLowerCase()}` });
+      }
+      const { service: _service, ...result } = await dispatcher.exclusive(() => intakeServiceRequest(storage, appointment.request));
+      const updated = await storage.updateAppointment(appointment.id, { status: "Checked In", serviceId: result.serviceId });
+      if (updated) broadcast({ type: "appointment.changed", appointment: updated });
+      res.json({ appointment: updated, ...result });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message || "Failed to check in appointment" });
+    }
+  });
+
+  // POST /api/appointments/:id/cancel - Release a booked slot
+  app.post("/api/appointments/:id/cancel", requireRole("service_advisor"), async (req, res) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) return res.status(404).json({ error: "Appointment not found" });
+      if (appointment.status !== "Booked") {
+        return res.status(409).json({ error: `Appointment is already ${appointment.status.toLowerCase()}` });
+      }
+      const updated = await storage.updateAppointment(appointment.id, { status: "Cancelled" });
+      if (updated) broadcast({ type: "appointment.changed", appointment: updated });
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to cancel appointment" });
     }
   });
 
@@ -673,24 +1456,152 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/queue-policy", async (_req, res) => {
     try {
       const policy = await storage.getQueuePolicy();
-      res.json({ policy });
+      res.json({ policy, weights: await storage.getQueueWeights() });
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch queue policy" });
     }
   });
 
-  app.put("/api/queue-policy", async (req, res) => {
+  app.put("/api/queue-policy", requireRole("admin"), async (req, res) => {
     try {
-      const p = String((req.body || {}).policy || "").toUpperCase();
-      const allowed = ["FIFO", "SJF", "PRIORITY"] as const;
-      if (!allowed.includes(p as any)) return res.status(400).json({ error: "Invalid policy" });
-      await storage.setQueuePolicy(p as any);
-      res.json({ policy: p });
+      const parsed = queuePolicySettingsSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid policy" });
+      }
+      const { policy, weights } = parsed.data;
+      await storage.setQueuePolicy(policy);
+      if (weights) await storage.setQueueWeights(weights);
+      broadcast({ type: "queue_policy.changed", policy });
+      await dispatchQueued();
+      res.json({ policy, weights: await storage.getQueueWeights() });
     } catch (error) {
       res.status(500).json({ error: "Failed to update queue policy" });
     }
   });
 
+  // GET /api/queue/explanation - Queued services in the order they will be served, and why
+  app.get("/api/queue/explanation", async (_req, res) => {
+    try {
+      const now = new Date();
+      const context = await loadQueueContext(storage, getBusinessCalendar(), now);
+      const queued = (await storage.getActiveServices()).filter((s) => s.status === "Queued");
+      res.json({
+        policy: context.policy,
+        weights: context.weights,
+        entries: rankQueue(queued, context).map(({ service, ...entry }) => ({
+          serviceId: service.id,
+          carNumber: service.carNumber,
+          queueReason: service.queueReason,
+          ...entry,
+        })),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to explain the queue" });
+    }
+  });
+
+  // POST /api/simulate - Replay a day of requests against the workshop and what-if scenarios
+  app.post("/api/simulate", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = simulationRequestSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid simulation" });
+      }
+      const result = await simulateWorkshop(storage, parsed.data);
+      if ("error" in result) return res.status(400).json(result);
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to run simulation" });
+    }
+  });
+
+  // Price list endpoints
+  app.get("/api/price-list", async (_req, res) => {
+    try {
+      res.json(await storage.getPriceList());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch price list" });
+    }
+  });
+
+  app.put("/api/price-list", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = priceListSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid price list" });
+      }
+      await storage.setPriceList(parsed.data);
+      res.json(parsed.data);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update price list" });
+    }
+  });
+
+  // Letterhead printed on invoices and job cards
+  app.get("/api/letterhead", async (_req, res) => {
+    try {
+      res.json(await storage.getLetterhead());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch letterhead" });
+    }
+  });
+
+  app.put("/api/letterhead", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = letterheadSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid letterhead" });
+      }
+      await storage.setLetterhead(parsed.data);
+      res.json(parsed.data);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update letterhead" });
+    }
+  });
+
+  // Business calendar endpoints
+  app.get("/api/business-calendar", async (_req, res) => {
+    res.json(getBusinessCalendar());
+  });
+
+  app.put("/api/business-calendar", requireRole("admin"), async (req, res) => {
+    try {
+      const parsed = businessCalendarSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message ?? "Invalid business calendar" });
+      }
+      const previous = getBusinessCalendar();
+      const calendar = parsed.data;
+      await storage.setBusinessCalendar(calendar);
+      setBusinessCalendar(calendar);
+
+      // Keep each running job's remaining working time and re-project it onto
+      // the new hours; queued and held jobs get an ETA when they (re)start
+      const now = new Date();
+      for (const service of (await storage.getActiveServices()).filter((s) => s.status === "In Progress")) {
+        const remaining = businessHoursBetween(previous, now, new Date(service.estimatedCompletion));
+        const updated = await storage.updateActiveService(service.id, {
+          estimatedCompletion: applyBusinessHours(now, remaining),
+        });
+        if (updated) broadcast({ type: "service.updated", service: updated });
+      }
+      broadcast({ type: "business_calendar.changed", calendar });
+      await dispatchQueued();
+      res.json(calendar);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update business calendar" });
+    }
+  });
+
   const httpServer = createServer(app);
+  attachRealtime(httpServer, async (req) => !!(await authenticateUpgrade(req)));
+
+  startProgressEngine(storage, async (serviceIds) => {
+    for (const id of serviceIds) {
+      const service = await storage.getActiveService(id);
+      if (service) broadcast({ type: "service.updated", service });
+    }
+  });
+
   return httpServer;
 }
@@ -0,0 +1,173 @@
+import { randomUUID } from "crypto";
+import type {
+  Worker,
+  MachineBay,
+  Inventory,
+  ServiceTask,
+  BayType,
+  WorkerSkill,
+  StockMovement,
+  Supplier,
+} from "@shared/schema";
+
+// Default workshop data shared by every storage backend so a fresh
+// in-memory store and an empty database start out identical.
+
+export function seedWorkers(): Worker[] {
+  // 20 workers with varied skills
+  const workerNames = [
+    "Alex Johnson", "Maria Garcia", "James Smith", "Sofia Rodriguez", "Michael Chen",
+    "Emma Wilson", "David Brown", "Isabella Martinez", "Robert Taylor", "Olivia Anderson",
+    "William Thomas", "Ava Jackson", "John White", "Mia Harris", "Daniel Martin",
+    "Charlotte Thompson", "Christopher Garcia", "Amelia Robinson", "Matthew Clark", "Harper Lewis"
+  ];
+
+  const skills = ["Engine", "Brake", "AC", "General"];
+  const specialistCertification: Record<string, string> = {
+    Engine: "Advanced Engine Diagnostics",
+    Brake: "Brake System Specialist",
+    AC: "HVAC Certified",
+  };
+
+  return workerNames.map((name, idx) => {
+    const skill = skills[idx % 4];
+    // Every third worker is cross-trained in the next specialty
+    const secondary = idx % 3 === 0 ? skills[(idx + 1) % 4] : undefined;
+    const workerSkills: WorkerSkill[] = [{ category: skill, proficiency: 3 + Math.floor(Math.random() * 3) }]; // 3-5
+    if (secondary && secondary !== "General") workerSkills.push({ category: secondary, proficiency: 2 });
+    if (skill !== "General") workerSkills.push({ category: "General", proficiency: 2 + Math.floor(Math.random() * 2) });
+    return {
+      id: randomUUID(),
+      name,
+      skill,
+      skills: workerSkills,
+      experienceLevel: Math.floor(Math.random() * 15) + 3, // 3-17 years
+      certifications: [
+        specialistCertification[skill],
+        secondary ? specialistCertification[secondary] : undefined,
+        idx % 5 === 0 ? "High Voltage Certified" : undefined,
+        "Volvo Certified Technician"
+      ].filter((c): c is string => !!c),
+      rating: parseFloat((3.5 + Math.random() * 1.5).toFixed(1)), // 3.5-5.0
+      loadPercent: 0,
+      activeJobs: [],
+      status: "Available",
+    };
+  });
+}
+
+const bayTools: Record<BayType, string[]> = {
+  "Diagnostic Bay": ["Diagnostic Scanner", "AC Recovery Machine"],
+  "General Service Bay": ["Hydraulic Lift", "Alignment Rig"],
+  "Heavy Repair Bay": ["Hydraulic Lift", "Diagnostic Scanner", "Engine Hoist"],
+};
+
+export function seedMachines(): MachineBay[] {
+  // 6 machine bays
+  const machines: MachineBay[] = [];
+  for (let i = 1; i <= 6; i++) {
+    const bayType: BayType = i <= 2 ? "Diagnostic Bay" : i <= 4 ? "General Service Bay" : "Heavy Repair Bay";
+    machines.push({
+      id: randomUUID(),
+      bayNumber: i,
+      bayType,
+      isAvailable: true,
+      inService: true,
+      assignedWorkers: [],
+      currentLoad: 0,
+      toolsPresent: ["Air Compressor", "Tool Set", ...bayTools[bayType]],
+    });
+  }
+  return machines;
+}
+
+export function seedInventory(): Inventory[] {
+  const inventoryData: { partName: string; quantity: number; minimumStock: number }[] = [
+    { partName: "AC Cleaner", quantity: 15, minimumStock: 5 },
+    { partName: "Air Filter", quantity: 25, minimumStock: 10 },
+    { partName: "Engine Oil (5W-30)", quantity: 30, minimumStock: 15 },
+    { partName: "Spark Plugs", quantity: 40, minimumStock: 20 },
+    { partName: "Brake Pads", quantity: 20, minimumStock: 8 },
+    { partName: "Coolant", quantity: 18, minimumStock: 10 },
+    { partName: "Transmission Fluid", quantity: 12, minimumStock: 8 },
+    { partName: "Battery (12V)", quantity: 8, minimumStock: 5 },
+  ];
+
+  return inventoryData.map((item) => ({
+    id: randomUUID(),
+    ...item,
+    reserved: 0,
+    discontinuedAt: null,
+  }));
+}
+
+export function seedSuppliers(): Supplier[] {
+  return [
+    {
+      id: randomUUID(),
+      name: "Nordic Parts Distribution",
+      contactEmail: "orders@nordicparts.example",
+      phone: "+91 80 4000 1200",
+      leadTimeDays: 5,
+      parts: [
+        { partName: "Engine Oil (5W-30)", unitPrice: 650, minimumOrder: 20 },
+        { partName: "Air Filter", unitPrice: 900, minimumOrder: 10 },
+        { partName: "Spark Plugs", unitPrice: 420, minimumOrder: 20 },
+        { partName: "Brake Pads", unitPrice: 3200, minimumOrder: 8 },
+        { partName: "Transmission Fluid", unitPrice: 1100, minimumOrder: 10 },
+        { partName: "Battery (12V)", unitPrice: 9800, minimumOrder: 4 },
+      ],
+    },
+    {
+      id: randomUUID(),
+      name: "CityAuto Supplies",
+      contactEmail: "sales@cityauto.example",
+      phone: "+91 80 4000 3400",
+      leadTimeDays: 2,
+      parts: [
+        { partName: "Engine Oil (5W-30)", unitPrice: 720, minimumOrder: 10 },
+        { partName: "AC Cleaner", unitPrice: 480, minimumOrder: 5 },
+        { partName: "Coolant", unitPrice: 560, minimumOrder: 10 },
+        { partName: "Brake Pads", unitPrice: 3450, minimumOrder: 4 },
+        { partName: "Battery (12V)", unitPrice: 10400, minimumOrder: 2 },
+      ],
+    },
+  ];
+}
+
+// Ledger entry that accounts for stock present before the ledger existed
+export function openingBalance(item: Inventory): StockMovement {
+  return {
+    id: randomUUID(),
+    inventoryId: item.id,
+    type: "Receipt",
+    quantity: item.quantity,
+    reasonCode: "Opening Balance",
+    serviceId: null,
+    recordedBy: null,
+    note: null,
+    createdAt: new Date(),
+  };
+}
+
+export function seedServiceTasks(): ServiceTask[] {
+  const tasks: Omit<ServiceTask, 'id'>[] = [
+    { name: "Oil Change", baseTimeHours: 0.5, category: "General", requiredParts: [{ partName: "Engine Oil (5W-30)", quantity: 4 }], requiredBayType: null, requiredTools: ["Hydraulic Lift"], requiredCertifications: [] },
+    { name: "Air Filter Replacement", baseTimeHours: 0.25, category: "General", requiredParts: [{ partName: "Air Filter", quantity: 1 }], requiredBayType: null, requiredTools: [], requiredCertifications: [] },
+    { name: "Brake Inspection", baseTimeHours: 0.75, category: "Brake", requiredParts: [], requiredBayType: null, requiredTools: ["Hydraulic Lift"], requiredCertifications: [] },
+    { name: "Brake Pad Replacement", baseTimeHours: 2.0, category: "Brake", requiredParts: [{ partName: "Brake Pads", quantity: 1 }], requiredBayType: null, requiredTools: ["Hydraulic Lift"], requiredCertifications: ["Brake System Specialist"] },
+    { name: "Engine Diagnostic", baseTimeHours: 1.5, category: "Engine", requiredParts: [], requiredBayType: null, requiredTools: ["Diagnostic Scanner"], requiredCertifications: ["Advanced Engine Diagnostics"] },
+    { name: "Spark Plug Replacement", baseTimeHours: 1.0, category: "Engine", requiredParts: [{ partName: "Spark Plugs", quantity: 4 }], requiredBayType: null, requiredTools: [], requiredCertifications: [] },
+    { name: "AC Service", baseTimeHours: 1.5, category: "AC", requiredParts: [{ partName: "AC Cleaner", quantity: 1 }], requiredBayType: "Diagnostic Bay", requiredTools: ["AC Recovery Machine"], requiredCertifications: ["HVAC Certified"] },
+    { name: "Coolant Flush", baseTimeHours: 1.0, category: "General", requiredParts: [{ partName: "Coolant", quantity: 2 }], requiredBayType: null, requiredTools: [], requiredCertifications: [] },
+    { name: "Transmission Service", baseTimeHours: 2.5, category: "General", requiredParts: [{ partName: "Transmission Fluid", quantity: 3 }], requiredBayType: "Heavy Repair Bay", requiredTools: ["Hydraulic Lift"], requiredCertifications: [] },
+    { name: "Battery Replacement", baseTimeHours: 0.5, category: "General", requiredParts: [{ partName: "Battery (12V)", quantity: 1 }], requiredBayType: null, requiredTools: [], requiredCertifications: [] },
+    { name: "Tire Rotation", baseTimeHours: 0.5, category: "General", requiredParts: [], requiredBayType: null, requiredTools: ["Hydraulic Lift"], requiredCertifications: [] },
+    { name: "Wheel Alignment", baseTimeHours: 1.0, category: "General", requiredParts: [], requiredBayType: "General Service Bay", requiredTools: ["Alignment Rig"], requiredCertifications: [] },
+  ];
+
+  return tasks.map((task) => ({
+    id: randomUUID(),
+    ...task,
+  }));
+}
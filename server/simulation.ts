@@ -0,0 +1,470 @@
+import { setImmediate as yieldToEventLoop } from "timers/promises";
+import { serviceRequestSchema, type MachineBay, type ServiceRequest, type ServiceTask, type Worker } from "@shared/schema";
+import {
+  addBusinessHours,
+  businessHoursBetween,
+  instantAt,
+  localDateTime,
+  workingHoursOn,
+  type BusinessCalendar,
+} from "@shared/business-calendar";
+import type { QueuePolicy, QueueWeights } from "@shared/queue-policy";
+import type {
+  SimulationMetrics,
+  SimulationRequest,
+  SimulationResult,
+  SimulationScenario,
+  SimulationScenarioResult,
+} from "@shared/simulation";
+import type { IStorage } from "./storage";
+import { getBusinessCalendar } from "./business-hours";
+import { bayRequirementsFor, isBayCompatible, serviceCapacity } from "./bays";
+import { planDispatch, type DispatchService } from "./dispatcher";
+import { estimateServiceHours } from "./prediction";
+import { isOnLeave, shiftsOn, workersOnShift, type RosterSnapshot } from "./roster";
+
+// How often the simulated dispatcher looks at the queue between arrivals and completions
+const TICK_MS = 15 * 60 * 1000;
+// Jobs still unfinished this long after the day starts are left unfinished
+const HORIZON_DAYS = 7;
+// Synthetic requests stop coming in this far through the day
+const LAST_ARRIVAL_SHARE = 0.8;
+// The simulator runs on the server's event loop, so it steps aside for other
+// requests after this many simulated events
+const EVENTS_PER_YIELD = 10;
+
+// A request coming in during the simulated day
+interface Arrival {
+  at: Date;
+  carNumber: string;
+  fuelType: string;
+  priority: string;
+  tasks: ServiceTask[];
+  request?: ServiceRequest; // synthetic requests are predicted on arrival
+  predictedHours?: number; // replayed requests keep the prediction made at the time
+}
+
+// The workshop as it is, which every scenario starts from
+interface BaseWorkshop {
+  calendar: BusinessCalendar;
+  date: string;
+  workers: Worker[];
+  machines: MachineBay[];
+  shiftsByWorker: RosterSnapshot["shiftsByWorker"];
+  approvedLeave: RosterSnapshot["approvedLeave"];
+  tasks: ServiceTask[];
+  policy: QueuePolicy;
+  weights: QueueWeights;
+}
+
+interface SimJob {
+  arrival: Arrival;
+  service: DispatchService;
+  predictedHours: number;
+  start?: Date;
+  end?: Date;
+  crew: string[];
+  machineId?: string;
+}
+
+const round = (n: number, digits = 2) => Number(n.toFixed(digits));
+
+function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+// Deterministic 0-1 generator (mulberry32), so a seed always gives the same day
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: () => number, items: readonly T[], weights?: number[]): T {
+  const w = weights ?? items.map(() => 1);
+  let r = random() * w.reduce((sum, x) => sum + x, 0);
+  for (let i = 0; i < items.length; i++) {
+    r -= w[i];
+    if (r < 0) return items[i];
+  }
+  return items[items.length - 1];
+}
+
+// Random requests spread over the day's opening hours: one to three tasks
+// from the catalog, a realistic mix of models, fuel types and priorities
+function syntheticArrivals(base: BaseWorkshop, count: number, seed: number): Arrival[] {
+  const random = seededRandom(seed);
+  const day = workingHoursOn(base.calendar, base.date);
+  const openHours = day.reduce((sum, i) => sum + businessHoursBetween(base.calendar, i.start, i.end), 0);
+  const shape = serviceRequestSchema.shape;
+  const currentYear = new Date().getFullYear();
+
+  const arrivals: Arrival[] = [];
+  for (let i = 0; i < count; i++) {
+    // Only tasks some bay can do together, as the service desk would book them
+    const taskCount = 1 + Math.floor(random() * 3);
+    const tasks: ServiceTask[] = [];
+    for (let tries = 0; tasks.length < taskCount && tries < 20; tries++) {
+      const task = pick(random, base.tasks);
+      const fits = base.machines.some((m) => isBayCompatible(m, bayRequirementsFor([...tasks, task])));
+      if (!tasks.includes(task) && fits) tasks.push(task);
+    }
+    const request = serviceRequestSchema.parse({
+      carNumber: `SIM${String(i + 1).padStart(3, "0")}`,
+      carModel: pick(random, shape.carModel.options),
+      manufactureYear: currentYear - Math.floor(random() * 12),
+      fuelType: pick(random, shape.fuelType.options, [40, 25, 20, 15]),
+      totalKilometers: 10000 + Math.floor(random() * 150000),
+      kmSinceLastService: Math.floor(random() * 15000),
+      daysSinceLastService: Math.floor(random() * 365),
+      serviceType: pick(random, shape.serviceType.options),
+      selectedTasks: tasks.map((t) => t.name),
+      healthScore: 60 + Math.floor(random() * 41),
+      priority: pick(random, shape.priority.removeDefault().options, [15, 60, 20, 5]),
+    });
+    arrivals.push({
+      at: addBusinessHours(base.calendar, day[0].start, random() * openHours * LAST_ARRIVAL_SHARE),
+      carNumber: request.carNumber,
+      fuelType: request.fuelType,
+      priority: request.priority,
+      tasks,
+      request,
+    });
+  }
+  return arrivals.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+// Service ids carry the intake time: VOL_YYYYMMDDHHMMSS_...
+function intakeTime(serviceId: string): Date | undefined {
+  const m = /^VOL_(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})_/.exec(serviceId);
+  return m ? new Date(Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6])) : undefined;
+}
+
+// The requests taken in on a past day, whether since completed, cancelled or
+// still open, at the time each came in and with the prediction made then
+async function historyArrivals(storage: IStorage, base: BaseWorkshop, date: string): Promise<Arrival[]> {
+  const byName = new Map(base.tasks.map((t) => [t.name, t]));
+  const records = [
+    ...(await storage.getCompletedServices()),
+    ...(await storage.getCancelledServices()),
+    ...(await storage.getActiveServices()),
+  ];
+  const arrivals: Arrival[] = [];
+  for (const record of records) {
+    const at = intakeTime(record.id);
+    if (!at || localDateTime(base.calendar, at).date !== date) continue;
+    const vehicle = record.vehicleId ? await storage.getVehicle(record.vehicleId) : undefined;
+    arrivals.push({
+      at,
+      carNumber: record.carNumber,
+      fuelType: "fuelType" in record ? record.fuelType : vehicle?.fuelType ?? "Petrol",
+      priority: "priority" in record ? record.priority : "Normal",
+      tasks: ((record.selectedTasks as string[]) || []).flatMap((name) => byName.get(name) ?? []),
+      predictedHours: record.predictedHours,
+    });
+  }
+  return arrivals.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+// Runs the day once for a scenario (null for the workshop as it is). The
+// workshop starts empty; requests arrive, are predicted with the live model
+// and queue, and the dispatcher's own planner starts them as bays and crews
+// allow. Work takes its predicted working hours.
+async function runScenario(
+  base: BaseWorkshop,
+  scenario: SimulationScenario | null,
+  arrivals: Arrival[],
+  slaGraceHours: number,
+): Promise<SimulationScenarioResult> {
+  const weekday = localDateTime(base.calendar, instantAt(base.calendar, base.date, "12:00")).weekday;
+  const calendar: BusinessCalendar = scenario?.openingHours
+    ? {
+      ...base.calendar,
+      openingHours: { ...base.calendar.openingHours, [weekday]: scenario.openingHours },
+      holidays: base.calendar.holidays.filter((d) => d !== base.date),
+    }
+    : base.calendar;
+  const policy = scenario?.queuePolicy ?? base.policy;
+  const weights = scenario?.weights ?? base.weights;
+
+  const removed = new Set(scenario?.removeWorkerIds ?? []);
+  const workers: Worker[] = base.workers
+    .filter((w) => !removed.has(w.id))
+    .map((w) => ({ ...w, loadPercent: 0, activeJobs: [], status: "Available" }));
+  for (const hire of scenario?.addWorkers ?? []) {
+    const certifications = hire.certifications ?? Array.from(new Set(
+      base.tasks.filter((t) => t.category === hire.skill).flatMap((t) => t.requiredCertifications ?? []),
+    ));
+    for (let i = 0; i < hire.count; i++) {
+      workers.push({
+        id: `sim-${hire.skill.toLowerCase()}-${workers.length + 1}`,
+        name: `New ${hire.skill} technician ${i + 1}`,
+        skill: hire.skill,
+        skills: [{ category: hire.skill, proficiency: 3 }],
+        experienceLevel: 3,
+        certifications,
+        rating: 4,
+        loadPercent: 0,
+        activeJobs: [],
+        status: "Available",
+      });
+    }
+  }
+
+  const machines: MachineBay[] = base.machines.map((m) => ({ ...m, currentLoad: 0, assignedWorkers: [] }));
+  for (const extra of scenario?.addBays ?? []) {
+    const like = base.machines.find((m) => m.bayType === extra.bayType);
+    for (let i = 0; i < extra.count; i++) {
+      const bayNumber = Math.max(0, ...machines.map((m) => m.bayNumber)) + 1;
+      machines.push({
+        id: `sim-bay-${bayNumber}`,
+        bayNumber,
+        bayType: extra.bayType,
+        isAvailable: true,
+        inService: true,
+        assignedWorkers: [],
+        currentLoad: 0,
+        toolsPresent: extra.toolsPresent ?? like?.toolsPresent ?? [],
+      });
+    }
+  }
+
+  // Simulated instants all lie after the epoch, so only shifts and leave
+  // decide who is working, never today's attendance
+  const roster: RosterSnapshot = {
+    calendar,
+    workers,
+    shiftsByWorker: base.shiftsByWorker,
+    approvedLeave: base.approvedLeave,
+    clockedIn: new Set(),
+  };
+  const epoch = new Date(0);
+
+  const day = workingHoursOn(calendar, base.date);
+  const dayOpen = day[0]?.start ?? instantAt(calendar, base.date, "00:00");
+  const dayClose = day[day.length - 1]?.end ?? dayOpen;
+  const horizon = new Date(dayOpen.getTime() + HORIZON_DAYS * 24 * 60 * 60 * 1000);
+
+  const jobs: SimJob[] = [];
+  const active: SimJob[] = [];
+  const pending = [...arrivals];
+  let now = pending[0] ? new Date(Math.min(pending[0].at.getTime(), dayOpen.getTime())) : dayOpen;
+
+  const release = (job: SimJob) => {
+    for (const worker of workers.filter((w) => job.crew.includes(w.id))) {
+      worker.activeJobs = worker.activeJobs.filter((id) => id !== job.service.id);
+      worker.loadPercent = Math.max(0, worker.loadPercent - (100 / 3));
+    }
+    const machine = machines.find((m) => m.id === job.machineId);
+    if (machine) {
+      machine.currentLoad = Math.max(0, machine.currentLoad - 50);
+      machine.assignedWorkers = machine.assignedWorkers.filter((w) => !job.crew.includes(w));
+    }
+    active.splice(active.indexOf(job), 1);
+  };
+
+  const admit = (arrival: Arrival) => {
+    const baseTime = arrival.tasks.reduce((sum, t) => sum + t.baseTimeHours, 0);
+    const predictedHours = arrival.predictedHours ?? estimateServiceHours(arrival.request!, {
+      baseTime,
+      activeServiceCount: active.length,
+      machineCount: machines.length,
+    }).hours;
+    const service: DispatchService = {
+      id: `SIM_${jobs.length + 1}`,
+      carNumber: arrival.carNumber,
+      customerId: null,
+      fuelType: arrival.fuelType,
+      priority: arrival.priority,
+      predictedHours,
+      status: "Queued",
+      queuePosition: jobs.length + 1,
+      assignedWorkers: [],
+      actualStartTime: arrival.at,
+      estimatedCompletion: addBusinessHours(calendar, arrival.at, predictedHours),
+    };
+    const job: SimJob = { arrival, service, predictedHours, crew: [] };
+    jobs.push(job);
+    active.push(job);
+  };
+
+  const dispatch = () => {
+    const plan = planDispatch({
+      services: active.map((j) => j.service),
+      machines,
+      workers: workersOnShift(roster, now, epoch),
+      tasks: new Map(active.map((j) => [j.service.id, j.arrival.tasks])),
+      queue: { policy, weights, calendar, now, tiers: new Map() },
+    });
+    for (const start of plan.starts) {
+      const job = active.find((j) => j.service.id === start.serviceId)!;
+      job.start = now;
+      job.end = addBusinessHours(calendar, now, job.predictedHours);
+      job.crew = start.workerIds;
+      job.machineId = start.machineId;
+      job.service.status = "In Progress";
+      job.service.assignedWorkers = start.workerIds;
+      for (const worker of workers.filter((w) => start.workerIds.includes(w.id))) {
+        worker.activeJobs = [...worker.activeJobs, job.service.id];
+        worker.loadPercent = Math.min(100, worker.loadPercent + (100 / 3));
+      }
+      const machine = machines.find((m) => m.id === start.machineId)!;
+      machine.currentLoad = Math.min(100, machine.currentLoad + 50);
+      machine.assignedWorkers = Array.from(new Set([...machine.assignedWorkers, ...start.workerIds]));
+    }
+  };
+
+  // Event loop: jump to the next arrival, completion or dispatcher tick
+  for (let events = 1; pending.length > 0 || active.length > 0; events++) {
+    if (events % EVENTS_PER_YIELD === 0) await yieldToEventLoop();
+    const candidates: number[] = [];
+    if (pending.length > 0) candidates.push(pending[0].at.getTime());
+    for (const job of active) if (job.end) candidates.push(job.end.getTime());
+    if (active.some((j) => !j.start)) {
+      candidates.push(addBusinessHours(calendar, new Date(now.getTime() + TICK_MS), 0).getTime());
+    }
+    const next = Math.min(...candidates);
+    if (next > horizon.getTime()) break;
+    now = new Date(Math.max(next, now.getTime()));
+
+    for (const job of active.filter((j) => j.end && j.end.getTime() <= now.getTime())) release(job);
+    while (pending.length > 0 && pending[0].at.getTime() <= now.getTime()) admit(pending.shift()!);
+    dispatch();
+  }
+
+  // Figures for the simulated day. Waits and turnaround count the workshop's
+  // current working hours, so a scenario that opens longer shows up as
+  // shorter waits rather than as a longer day.
+  const hoursBetween = (from: Date, to: Date) => businessHoursBetween(calendar, from, to);
+  const customerHours = (from: Date, to: Date) => businessHoursBetween(base.calendar, from, to);
+  const openHours = day.reduce((sum, i) => sum + hoursBetween(i.start, i.end), 0);
+  const inDay = (job: SimJob) => (job.start && job.end
+    ? hoursBetween(new Date(Math.max(job.start.getTime(), dayOpen.getTime())), new Date(Math.min(job.end.getTime(), dayClose.getTime())))
+    : 0);
+  const rosteredHours = workers
+    .filter((w) => !isOnLeave(roster, w.id, base.date))
+    .flatMap((w) => shiftsOn(roster, w.id, weekday))
+    .reduce((sum, s) => sum + hoursBetween(instantAt(calendar, base.date, s.start), instantAt(calendar, base.date, s.end)), 0);
+
+  const started = jobs.filter((j) => j.start);
+  const completed = jobs.filter((j) => j.end && j.end.getTime() <= now.getTime());
+  const waits = started.map((j) => customerHours(j.arrival.at, j.start!));
+  const slaMisses = jobs.filter((j) => !completed.includes(j)
+    || customerHours(j.arrival.at, j.end!) > j.predictedHours + slaGraceHours).length;
+  const completedSameDay = completed.filter((j) => j.end!.getTime() <= dayClose.getTime()).length;
+  const capacity = serviceCapacity(machines);
+
+  const metrics: SimulationMetrics = {
+    arrived: jobs.length,
+    started: started.length,
+    completed: completed.length,
+    completedSameDay,
+    throughputPerHour: openHours > 0 ? round(completedSameDay / openHours) : 0,
+    averageWaitHours: waits.length > 0 ? round(waits.reduce((a, b) => a + b, 0) / waits.length) : 0,
+    maxWaitHours: round(Math.max(0, ...waits)),
+    averageTurnaroundHours: completed.length > 0
+      ? round(completed.reduce((sum, j) => sum + customerHours(j.arrival.at, j.end!), 0) / completed.length)
+      : 0,
+    slaMisses,
+    slaMissRate: jobs.length > 0 ? round(slaMisses / jobs.length) : 0,
+    workerUtilization: rosteredHours > 0
+      ? round(Math.min(1, jobs.reduce((sum, j) => sum + j.crew.length * inDay(j), 0) / rosteredHours))
+      : 0,
+    bayUtilization: capacity > 0 && openHours > 0
+      ? round(Math.min(1, jobs.reduce((sum, j) => sum + inDay(j), 0) / (capacity * openHours)))
+      : 0,
+  };
+
+  // Queue length and jobs running on each hour of the day
+  const timeline: SimulationScenarioResult["timeline"] = [];
+  for (let hour = 0; hour < 24; hour++) {
+    const time = `${String(hour).padStart(2, "0")}:00`;
+    const at = instantAt(calendar, base.date, time).getTime();
+    if (at < dayOpen.getTime() || at > dayClose.getTime()) continue;
+    timeline.push({
+      time,
+      queued: jobs.filter((j) => j.arrival.at.getTime() <= at && (!j.start || j.start.getTime() > at)).length,
+      running: jobs.filter((j) => j.start && j.start.getTime() <= at && j.end!.getTime() > at).length,
+    });
+  }
+
+  return {
+    name: scenario?.name ?? "Current workshop",
+    workers: workers.length,
+    bays: capacity,
+    policy,
+    metrics,
+    timeline,
+  };
+}
+
+// Replays one day of requests against the workshop as it is and against
+// each scenario, with the same demand for all, so their figures compare.
+export async function simulateWorkshop(
+  storage: IStorage,
+  request: SimulationRequest,
+  now = new Date(),
+): Promise<SimulationResult | { error: string }> {
+  const calendar = getBusinessCalendar();
+  let date = request.date;
+  if (!date) {
+    date = localDateTime(calendar, now).date;
+    for (let i = 0; i < 366 && workingHoursOn(calendar, date).length === 0; i++) date = shiftDate(date, 1);
+  }
+  if (workingHoursOn(calendar, date).length === 0) return { error: `The workshop is closed on ${date}` };
+
+  const workers = await storage.getWorkers();
+  const known = new Set(workers.map((w) => w.id));
+  for (const scenario of request.scenarios) {
+    const unknown = scenario.removeWorkerIds.find((id) => !known.has(id));
+    if (unknown) return { error: `Worker ${unknown} not found` };
+  }
+
+  const shiftsByWorker: RosterSnapshot["shiftsByWorker"] = new Map();
+  for (const shift of await storage.getWorkerShifts()) {
+    shiftsByWorker.set(shift.workerId, [...(shiftsByWorker.get(shift.workerId) ?? []), shift]);
+  }
+  const base: BaseWorkshop = {
+    calendar,
+    date,
+    workers,
+    machines: await storage.getMachines(),
+    shiftsByWorker,
+    approvedLeave: (await storage.getLeaveRequests()).filter((l) => l.status === "Approved"),
+    tasks: await storage.getServiceTasks(),
+    policy: await storage.getQueuePolicy(),
+    weights: await storage.getQueueWeights(),
+  };
+
+  const arrivals = request.demand.source === "synthetic"
+    ? syntheticArrivals(base, request.demand.count, request.demand.seed)
+    : await historyArrivals(storage, base, request.demand.date);
+  if (arrivals.length === 0) return { error: `No service requests were taken in on ${request.demand.source === "history" ? request.demand.date : date}` };
+  // Replayed requests keep their time of day but move to the simulated date
+  if (request.demand.source === "history" && request.demand.date !== date) {
+    for (const arrival of arrivals) {
+      const { time } = localDateTime(calendar, arrival.at);
+      arrival.at = instantAt(calendar, date, time);
+    }
+    arrivals.sort((a, b) => a.at.getTime() - b.at.getTime());
+  }
+
+  const scenarios: SimulationScenarioResult[] = [];
+  for (const scenario of [null, ...request.scenarios]) {
+    scenarios.push(await runScenario(base, scenario, arrivals, request.slaGraceHours));
+  }
+  const day = workingHoursOn(calendar, date);
+  return {
+    date,
+    openHours: round(day.reduce((sum, i) => sum + businessHoursBetween(calendar, i.start, i.end), 0)),
+    requests: arrivals.length,
+    scenarios,
+  };
+}
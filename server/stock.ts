@@ -0,0 +1,82 @@
+import {
+  stockReasonCodes,
+  type InsertStockMovement,
+  type Inventory,
+  type StockMovement,
+  type StockMovementType,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export interface StockMovementInput {
+  type: StockMovementType;
+  reasonCode: string;
+  quantity: number; // units moved; only adjustments are signed
+  serviceId?: string | null;
+  note?: string | null;
+  recordedBy?: string | null;
+}
+
+// Direction a movement moves on-hand stock; adjustments carry their own sign
+function movementSign(type: StockMovementType, reasonCode: string): 1 | -1 | 0 {
+  switch (type) {
+    case "Receipt":
+      return 1;
+    case "Consumption":
+    case "Write-off":
+      return -1;
+    case "Return":
+      return reasonCode === "Returned to Supplier" ? -1 : 1;
+    case "Adjustment":
+      return 0;
+  }
+}
+
+// Checks a movement against an item's current stock and returns the signed
+// ledger entry. Stock may not go negative, and only consumption (which settles
+// a reservation) may eat into reserved units.
+export function validateStockMovement(
+  item: Pick<Inventory, "id" | "partName" | "quantity" | "reserved">,
+  input: StockMovementInput,
+): { movement: InsertStockMovement } | { error: string } {
+  const reasons = stockReasonCodes[input.type];
+  if (!reasons) return { error: `type must be one of ${Object.keys(stockReasonCodes).join(", ")}` };
+  if (!reasons.includes(input.reasonCode)) {
+    return { error: `reasonCode for ${input.type} must be one of ${reasons.join(", ")}` };
+  }
+  if (!Number.isInteger(input.quantity) || input.quantity === 0) {
+    return { error: "quantity must be a non-zero whole number" };
+  }
+
+  const sign = movementSign(input.type, input.reasonCode);
+  if (sign !== 0 && input.quantity < 0) return { error: "quantity must be positive" };
+  const change = sign === 0 ? input.quantity : sign * input.quantity;
+  const onHand = item.quantity + change;
+  if (onHand < 0) return { error: `Only ${item.quantity} ${item.partName} on hand` };
+  if (input.type !== "Consumption" && onHand < item.reserved) {
+    return { error: `${item.reserved} units are reserved for active services` };
+  }
+
+  return {
+    movement: {
+      inventoryId: item.id,
+      type: input.type,
+      quantity: change,
+      reasonCode: input.reasonCode,
+      serviceId: input.serviceId ?? null,
+      recordedBy: input.recordedBy ?? null,
+      note: input.note ?? null,
+    },
+  };
+}
+
+// Validates and appends a movement to an item's ledger
+export async function postStockMovement(
+  storage: IStorage,
+  item: Inventory,
+  input: StockMovementInput,
+): Promise<{ movement: StockMovement; item: Inventory } | { error: string }> {
+  const checked = validateStockMovement(item, input);
+  if ("error" in checked) return checked;
+  const movement = await storage.recordStockMovement(checked.movement);
+  return { movement, item: (await storage.getInventoryItem(item.partName)) ?? item };
+}
@@ -0,0 +1,225 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "node:module";
+import { PGlite } from "@electric-sql/pglite";
+import { PGLiteSocketServer } from "@electric-sql/pglite-socket";
+import { sql } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+import type { NewCompletedService } from "@shared/schema";
+import { MemStorage, type IStorage } from "./storage";
+import { DbStorage } from "./db-storage";
+import { createDb } from "./db";
+
+// drizzle-kit's ESM build cannot be loaded from tsx, so its API comes in through require
+const { pushSchema } = createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+// Both backends run the same checks. DbStorage runs against TEST_DATABASE_URL
+// when it is set, a database whose public schema is dropped and recreated on
+// every run, and otherwise against an in-memory PGlite served over the
+// Postgres protocol, so it goes through node-postgres as in production.
+const testDatabaseUrl = process.env.TEST_DATABASE_URL;
+
+async function startPglite(): Promise<{ url: string; stop(): Promise<void> }> {
+  const db = await PGlite.create();
+  const server = new PGLiteSocketServer({ db, port: 0, maxConnections: 10 });
+  await server.start();
+  return {
+    url: `postgres://postgres@${server.getServerConn()}/postgres`,
+    stop: async () => { await server.stop(); await db.close(); },
+  };
+}
+
+interface Backend {
+  name: string;
+  open(): Promise<{ storage: IStorage; close(): Promise<void> }>;
+}
+
+const backends: Backend[] = [
+  {
+    name: "MemStorage",
+    async open() {
+      const storage = new MemStorage();
+      const sessions = storage.sessionStore as unknown as { stopInterval(): void };
+      return { storage, close: async () => sessions.stopInterval() };
+    },
+  },
+  {
+    name: "DbStorage",
+    async open() {
+      const pglite = testDatabaseUrl ? undefined : await startPglite();
+      const db = createDb(testDatabaseUrl ?? pglite!.url);
+      await db.execute(sql`drop schema if exists public cascade`);
+      await db.execute(sql`create schema public`);
+      await (await pushSchema(schema, drizzle(db.$client))).apply();
+      const storage = new DbStorage(db);
+      const sessions = storage.sessionStore as unknown as { close(): Promise<void> };
+      return {
+        storage,
+        close: async () => {
+          await sessions.close();
+          await db.$client.end();
+          await pglite?.stop();
+        },
+      };
+    },
+  },
+];
+
+const completedRecord = (id: string, total: number): NewCompletedService => ({
+  id,
+  vehicleId: null,
+  customerId: null,
+  carNumber: `KA01${id}`,
+  carModel: "XC60",
+  totalKilometers: 42000,
+  serviceType: "Regular Service",
+  selectedTasks: ["Oil Change"],
+  predictedHours: 1.5,
+  assignedMachine: "Bay 1",
+  assignedWorkers: ["Asha"],
+  completedAt: "2026-10-19T08:00:00.000Z",
+  warrantyStatus: "Out of Warranty",
+  currency: "INR",
+  subtotal: total,
+  discount: 0,
+  taxLines: [],
+  tax: 0,
+  total,
+  items: [{ id: `${id}-1`, description: "Oil Change", quantity: 1, unitPrice: total, amount: total, kind: "Labour", warrantyCovered: false }],
+});
+
+for (const backend of backends) {
+  describe(backend.name, () => {
+    let storage: IStorage;
+    let close: () => Promise<void>;
+
+    before(async () => {
+      ({ storage, close } = await backend.open());
+      await storage.ready;
+    });
+    after(() => close());
+
+    it("seeds the workshop, with each part's stock as its opening balance", async () => {
+      assert.ok((await storage.getWorkers()).length > 0);
+      assert.ok((await storage.getMachines()).length > 0);
+      assert.ok((await storage.getServiceTasks()).length > 0);
+      for (const item of await storage.getInventory()) {
+        const movements = await storage.getStockMovements(item.id);
+        assert.equal(movements.reduce((sum, m) => sum + m.quantity, 0), item.quantity, item.partName);
+      }
+    });
+
+    it("keeps on-hand stock equal to the ledger", async () => {
+      const item = await storage.createInventoryItem({ partName: "Test Gasket", minimumStock: 2 });
+      await storage.recordStockMovement({ inventoryId: item.id, type: "Receipt", quantity: 5, reasonCode: "Restock" });
+      await storage.recordStockMovement({ inventoryId: item.id, type: "Write-off", quantity: -2, reasonCode: "Damaged" });
+      assert.equal((await storage.getInventoryItem("Test Gasket"))?.quantity, 3);
+      assert.deepEqual((await storage.getStockMovements(item.id)).map((m) => m.type), ["Write-off", "Receipt"]);
+    });
+
+    it("keeps a discontinued part's ledger and re-lists it when it is added again", async () => {
+      const item = await storage.createInventoryItem({ partName: "Test Bulb", minimumStock: 1 });
+      await storage.recordStockMovement({ inventoryId: item.id, type: "Receipt", quantity: 1, reasonCode: "Restock" });
+      await storage.recordStockMovement({ inventoryId: item.id, type: "Write-off", quantity: -1, reasonCode: "Lost" });
+
+      assert.ok(await storage.discontinueInventoryItem(item.id));
+      assert.equal(await storage.discontinueInventoryItem(item.id), undefined);
+      assert.equal(await storage.getInventoryItem("Test Bulb"), undefined);
+      assert.ok(!(await storage.getInventory()).some((i) => i.id === item.id));
+      assert.ok((await storage.getInventory({ includeDiscontinued: true })).some((i) => i.id === item.id));
+      assert.equal((await storage.getStockMovements(item.id)).length, 2);
+
+      const relisted = await storage.createInventoryItem({ partName: "Test Bulb", minimumStock: 4 });
+      assert.equal(relisted.id, item.id);
+      assert.equal(relisted.discontinuedAt, null);
+      assert.equal(relisted.minimumStock, 4);
+    });
+
+    it("receives a sent purchase order once, posting every line and listing new parts", async () => {
+      const [supplier] = await storage.getSuppliers();
+      const order = await storage.createPurchaseOrder({
+        supplierId: supplier.id,
+        status: "Sent",
+        lines: [{ partName: "Air Filter", quantity: 10, unitPrice: 5 }, { partName: "Test Wiper", quantity: 4, unitPrice: 8 }],
+      });
+      const before = (await storage.getInventoryItem("Air Filter"))!.quantity;
+      const receipts = order.lines.map((line) => ({
+        partName: line.partName,
+        type: "Receipt" as const,
+        quantity: line.quantity,
+        reasonCode: "Purchase Order",
+        note: "PO test",
+      }));
+      const receivedAt = new Date("2026-10-19T09:00:00Z");
+
+      const received = await storage.receivePurchaseOrder(order.id, receipts, receivedAt);
+      assert.equal(received?.status, "Received");
+      assert.deepEqual(received?.receivedAt, receivedAt);
+      assert.equal((await storage.getInventoryItem("Air Filter"))?.quantity, before + 10);
+      assert.equal((await storage.getInventoryItem("Test Wiper"))?.quantity, 4);
+
+      assert.equal(await storage.receivePurchaseOrder(order.id, receipts, receivedAt), undefined);
+      assert.equal((await storage.getInventoryItem("Air Filter"))?.quantity, before + 10);
+    });
+
+    it("numbers invoices in order and keeps the number when a record is replaced", async () => {
+      const first = await storage.addCompletedServiceRecord(completedRecord("SVC1", 500));
+      const second = await storage.addCompletedServiceRecord(completedRecord("SVC2", 300));
+      assert.equal(second.invoiceNumber, first.invoiceNumber + 1);
+
+      const replaced = await storage.addCompletedServiceRecord({ ...completedRecord("SVC1", 650), carModel: "XC90" });
+      assert.equal(replaced.invoiceNumber, first.invoiceNumber);
+      assert.equal(replaced.carModel, "XC90");
+      assert.equal(replaced.items[0].amount, 650);
+    });
+
+    it("nets refunds out of the amount paid", async () => {
+      await storage.addCompletedServiceRecord(completedRecord("SVC3", 400));
+      await storage.recordPayments([
+        { completedServiceId: "SVC3", kind: "Payment", method: "Cash", amount: 150 },
+        { completedServiceId: "SVC3", kind: "Payment", method: "UPI", amount: 250, reference: "UPI-1" },
+      ]);
+      await storage.recordPayments([{ completedServiceId: "SVC3", kind: "Refund", method: "Cash", amount: 40 }]);
+      assert.equal((await storage.getCompletedService("SVC3"))?.amountPaid, 360);
+      assert.equal((await storage.getPayments("SVC3")).length, 3);
+    });
+
+    it("records no payment that would overpay an invoice or refund more than was paid", async () => {
+      await storage.addCompletedServiceRecord(completedRecord("SVC4", 400));
+      const pay = (amount: number, kind: "Payment" | "Refund" = "Payment") =>
+        storage.recordPayments([{ completedServiceId: "SVC4", kind, method: "Cash", amount }]);
+
+      const results = await Promise.all([pay(300), pay(300)]);
+      assert.equal(results.filter(Boolean).length, 1);
+      assert.equal(await pay(100.01), undefined);
+      assert.equal(await pay(300.01, "Refund"), undefined);
+      assert.equal(await storage.recordPayments([{ completedServiceId: "SVC-missing", kind: "Payment", method: "Cash", amount: 1 }]), undefined);
+      assert.ok(await pay(100));
+      assert.equal((await storage.getCompletedService("SVC4"))?.amountPaid, 400);
+      assert.equal((await storage.getPayments("SVC4")).length, 2);
+    });
+
+    it("keeps a customer's tier, Standard unless given", async () => {
+      const gold = await storage.createCustomer({ name: "Test Gold", phone: "+91 90000 00001", tier: "Gold" });
+      const plain = await storage.createCustomer({ name: "Test Plain", phone: "+91 90000 00002" });
+      assert.equal((await storage.getCustomer(gold.id))?.tier, "Gold");
+      assert.equal((await storage.getCustomer(plain.id))?.tier, "Standard");
+    });
+
+    it("stores workshop settings", async () => {
+      await storage.setQueuePolicy("PRIORITY");
+      assert.equal(await storage.getQueuePolicy(), "PRIORITY");
+    });
+  });
+}
+
+describe("DbStorage startup", () => {
+  it("fails to become ready when the database cannot be reached", async () => {
+    const db = createDb("postgres://postgres@127.0.0.1:1/none");
+    const storage = new DbStorage(db);
+    await assert.rejects(storage.ready, /ECONNREFUSED/);
+    await (storage.sessionStore as unknown as { close(): Promise<void> }).close();
+    await db.$client.end();
+  });
+});
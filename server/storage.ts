@@ -1,19 +1,94 @@
 import { randomUUID } from "crypto";
+import session from "express-session";
+import createMemoryStore from "memorystore";
 import type {
+  User,
+  InsertUser,
+  Customer,
+  InsertCustomer,
+  Vehicle,
+  InsertVehicle,
+  Appointment,
+  InsertAppointment,
   Worker,
   InsertWorker,
+  WorkerShift,
+  InsertWorkerShift,
+  AttendanceRecord,
+  LeaveRequest,
+  InsertLeaveRequest,
   MachineBay,
   InsertMachineBay,
   Inventory,
   InsertInventory,
+  StockMovement,
+  InsertStockMovement,
+  PartReceipt,
+  PartReservation,
+  InsertPartReservation,
+  ReservationStatus,
+  Supplier,
+  InsertSupplier,
+  PurchaseOrder,
+  InsertPurchaseOrder,
+  PurchaseOrderStatus,
   ServiceTask,
   InsertServiceTask,
   ActiveService,
   InsertActiveService,
   CompletedService,
+  NewCompletedService,
+  CancelledService,
+  InsertCancelledService,
+  Letterhead,
+  Payment,
+  InsertPayment,
 } from "@shared/schema";
+import { DEFAULT_LETTERHEAD, normalizeCarNumber } from "@shared/schema";
+import { DEFAULT_BUSINESS_CALENDAR, type BusinessCalendar } from "@shared/business-calendar";
+import { DEFAULT_PRICE_LIST, type PriceList } from "@shared/pricing";
+import { DEFAULT_QUEUE_WEIGHTS, type QueuePolicy, type QueueWeights } from "@shared/queue-policy";
+import { seedWorkers, seedMachines, seedInventory, seedServiceTasks, seedSuppliers, openingBalance } from "./seed";
+import { DbStorage } from "./db-storage";
+import { createDb } from "./db";
+
+const MemoryStore = createMemoryStore(session);
 
 export interface IStorage {
+  // Sessions
+  sessionStore: session.Store;
+
+  // Settles once the backend is connected and seeded; rejects if it cannot be
+  // reached. The server waits for it before listening.
+  readonly ready: Promise<void>;
+
+  // Users
+  getUsers(): Promise<User[]>;
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  deleteUser(id: string): Promise<boolean>;
+
+  // Customers
+  getCustomers(): Promise<Customer[]>;
+  getCustomer(id: string): Promise<Customer | undefined>;
+  getCustomerByPhone(phone: string): Promise<Customer | undefined>;
+  createCustomer(customer: InsertCustomer): Promise<Customer>;
+  updateCustomer(id: string, updates: Partial<InsertCustomer>): Promise<Customer | undefined>;
+
+  // Vehicles (looked up by normalized registration number)
+  getVehicles(): Promise<Vehicle[]>;
+  getVehicle(id: string): Promise<Vehicle | undefined>;
+  getVehicleByCarNumber(carNumber: string): Promise<Vehicle | undefined>;
+  createVehicle(vehicle: InsertVehicle): Promise<Vehicle>;
+  updateVehicle(id: string, updates: Partial<InsertVehicle>): Promise<Vehicle | undefined>;
+
+  // Appointments (range filters on scheduled start; results ordered by start)
+  getAppointments(range?: { from?: Date; to?: Date }): Promise<Appointment[]>;
+  getAppointment(id: string): Promise<Appointment | undefined>;
+  createAppointment(appointment: InsertAppointment): Promise<Appointment>;
+  updateAppointment(id: string, updates: Partial<InsertAppointment>): Promise<Appointment | undefined>;
+
   // Workers
   getWorkers(): Promise<Worker[]>;
   getWorker(id: string): Promise<Worker | undefined>;
@@ -21,19 +96,62 @@ export interface IStorage {
   createWorker(worker: InsertWorker): Promise<Worker>;
   deleteWorker(id: string): Promise<boolean>;
   updateWorkerLoad(id: string, loadPercent: number, activeJobs: string[]): Promise<void>;
+  updateWorkerStatus(id: string, status: string): Promise<void>;
+  updateWorkerQualifications(id: string, updates: Pick<Worker, "skill" | "skills" | "certifications">): Promise<Worker | undefined>;
+
+  // Rosters: weekly shifts, attendance (filtered on clock-in time) and leave
+  getWorkerShifts(workerId?: string): Promise<WorkerShift[]>;
+  setWorkerShifts(workerId: string, shifts: InsertWorkerShift[]): Promise<WorkerShift[]>;
+  getAttendance(range?: { from?: Date; to?: Date }): Promise<AttendanceRecord[]>;
+  getOpenAttendance(workerId: string): Promise<AttendanceRecord | undefined>;
+  clockIn(workerId: string, at: Date): Promise<AttendanceRecord>;
+  clockOut(workerId: string, at: Date): Promise<AttendanceRecord | undefined>;
+  getLeaveRequests(): Promise<LeaveRequest[]>;
+  getLeaveRequest(id: string): Promise<LeaveRequest | undefined>;
+  createLeaveRequest(request: InsertLeaveRequest): Promise<LeaveRequest>;
+  updateLeaveRequest(id: string, updates: Partial<InsertLeaveRequest>): Promise<LeaveRequest | undefined>;
   
   // Machines
   getMachines(): Promise<MachineBay[]>;
   getMachine(id: string): Promise<MachineBay | undefined>;
+  createMachine(machine: InsertMachineBay): Promise<MachineBay>;
+  updateMachine(id: string, updates: Partial<InsertMachineBay>): Promise<MachineBay | undefined>;
+  deleteMachine(id: string): Promise<boolean>;
   updateMachineLoad(id: string, currentLoad: number, assignedWorkers: string[]): Promise<void>;
   
-  // Inventory
-  getInventory(): Promise<Inventory[]>;
+  // Inventory: parts on the stock list; discontinued parts are only listed on request
+  getInventory(options?: { includeDiscontinued?: boolean }): Promise<Inventory[]>;
   getInventoryItem(partName: string): Promise<Inventory | undefined>;
-  updateStock(partName: string, quantity: number): Promise<void>;
+  updateReservedStock(partName: string, reserved: number): Promise<void>;
   createInventoryItem(item: InsertInventory): Promise<Inventory>;
   updateInventoryItem(id: string, updates: Partial<InsertInventory>): Promise<Inventory | undefined>;
-  deleteInventoryItem(id: string): Promise<boolean>;
+  // Takes a part off the stock list, keeping it and its ledger; adding the part again re-lists it
+  discontinueInventoryItem(id: string): Promise<Inventory | undefined>;
+
+  // Stock ledger: recording a movement recomputes the item's on-hand quantity
+  getStockMovements(inventoryId: string): Promise<StockMovement[]>; // newest first
+  recordStockMovement(movement: InsertStockMovement): Promise<StockMovement>;
+
+  // Part reservations, oldest first
+  getPartReservations(filter?: { serviceId?: string; taskName?: string; partName?: string; statuses?: ReservationStatus[] }): Promise<PartReservation[]>;
+  createPartReservation(reservation: InsertPartReservation): Promise<PartReservation>;
+  updatePartReservation(id: string, updates: Partial<InsertPartReservation>): Promise<PartReservation | undefined>;
+
+  // Suppliers
+  getSuppliers(): Promise<Supplier[]>;
+  getSupplier(id: string): Promise<Supplier | undefined>;
+  createSupplier(supplier: InsertSupplier): Promise<Supplier>;
+  updateSupplier(id: string, updates: Partial<InsertSupplier>): Promise<Supplier | undefined>;
+  deleteSupplier(id: string): Promise<boolean>;
+
+  // Purchase orders, newest first
+  getPurchaseOrders(filter?: { supplierId?: string; statuses?: PurchaseOrderStatus[] }): Promise<PurchaseOrder[]>;
+  getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined>;
+  createPurchaseOrder(order: InsertPurchaseOrder): Promise<PurchaseOrder>;
+  updatePurchaseOrder(id: string, updates: Partial<InsertPurchaseOrder>): Promise<PurchaseOrder | undefined>;
+  // Marks a sent order received and posts its receipts as one step: either all
+  // of it happens or none does. Undefined when the order is not awaiting delivery.
+  receivePurchaseOrder(id: string, receipts: PartReceipt[], receivedAt: Date): Promise<PurchaseOrder | undefined>;
   
   // Service Tasks
   getServiceTasks(): Promise<ServiceTask[]>;
@@ -46,136 +164,254 @@ export interface IStorage {
   updateServiceProgress(id: string, progress: number): Promise<void>;
   updateActiveService(id: string, updates: Partial<ActiveService>): Promise<ActiveService | undefined>;
   removeActiveService(id: string): Promise<void>;
-  
-  // Analytics
-  getCompletedServicesCount(): Promise<number>;
-  addCompletedService(serviceTime: number): Promise<void>;
 
   // Queue Policy
-  getQueuePolicy(): Promise<"FIFO" | "SJF" | "PRIORITY">;
-  setQueuePolicy(policy: "FIFO" | "SJF" | "PRIORITY"): Promise<void>;
+  getQueuePolicy(): Promise<QueuePolicy>;
+  setQueuePolicy(policy: QueuePolicy): Promise<void>;
+  getQueueWeights(): Promise<QueueWeights>;
+  setQueueWeights(weights: QueueWeights): Promise<void>;
+
+  // Business Calendar
+  getBusinessCalendar(): Promise<BusinessCalendar>;
+  setBusinessCalendar(calendar: BusinessCalendar): Promise<void>;
+
+  // Price list
+  getPriceList(): Promise<PriceList>;
+  setPriceList(priceList: PriceList): Promise<void>;
+
+  // Letterhead printed on invoices and job cards
+  getLetterhead(): Promise<Letterhead>;
+  setLetterhead(letterhead: Letterhead): Promise<void>;
 
   // Completed Services records
   getCompletedServices(): Promise<CompletedService[]>;
   getCompletedService(id: string): Promise<CompletedService | undefined>;
-  addCompletedServiceRecord(record: CompletedService): Promise<void>;
+  // Saves (or replaces) a record; new records get the next invoice number
+  addCompletedServiceRecord(record: NewCompletedService): Promise<CompletedService>;
   updateCompletedServiceRecord(id: string, updates: Partial<CompletedService>): Promise<CompletedService | undefined>;
+  getVehicleServiceHistory(carNumber: string): Promise<CompletedService[]>;
+
+  // Cancelled services, most recent first
+  getCancelledServices(): Promise<CancelledService[]>;
+  addCancelledService(record: InsertCancelledService): Promise<CancelledService>;
+
+  // Payments against completed services; recording them updates the
+  // record's amountPaid in the same step. Nothing is recorded (undefined)
+  // when a record is missing or would end up paid below zero or above its total.
+  getPayments(completedServiceId: string): Promise<Payment[]>; // oldest first
+  recordPayments(payments: InsertPayment[]): Promise<Payment[] | undefined>;
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+  readonly ready = Promise.resolve();
+  private users: Map<string, User>;
+  private customers: Map<string, Customer>;
+  private vehicles: Map<string, Vehicle>;
+  private appointments: Map<string, Appointment>;
   private workers: Map<string, Worker>;
+  private workerShifts: Map<string, WorkerShift>;
+  private attendance: Map<string, AttendanceRecord>;
+  private leaveRequests: Map<string, LeaveRequest>;
   private machines: Map<string, MachineBay>;
   private inventoryItems: Map<string, Inventory>;
+  private stockMovements: StockMovement[];
+  private partReservations: Map<string, PartReservation>;
+  private suppliers: Map<string, Supplier>;
+  private purchaseOrders: Map<string, PurchaseOrder>;
   private serviceTasks: Map<string, ServiceTask>;
   private activeServices: Map<string, ActiveService>;
-  private completedServices: number;
   private completedServiceRecords: Map<string, CompletedService>;
-  private totalServiceTime: number;
-  private queuePolicy: "FIFO" | "SJF" | "PRIORITY";
+  private payments: Payment[];
+  private cancelledServices: Map<string, CancelledService>;
+  private queuePolicy: QueuePolicy;
+  private queueWeights: QueueWeights;
+  private businessCalendar: BusinessCalendar;
+  private priceList: PriceList;
+  private letterhead: Letterhead;
 
   constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
+    this.users = new Map();
+    this.customers = new Map();
+    this.vehicles = new Map();
+    this.appointments = new Map();
     this.workers = new Map();
+    this.workerShifts = new Map();
+    this.attendance = new Map();
+    this.leaveRequests = new Map();
     this.machines = new Map();
     this.inventoryItems = new Map();
+    this.stockMovements = [];
+    this.partReservations = new Map();
+    this.suppliers = new Map();
+    this.purchaseOrders = new Map();
     this.serviceTasks = new Map();
     this.activeServices = new Map();
-    this.completedServices = 0;
     this.completedServiceRecords = new Map();
-    this.totalServiceTime = 0;
+    this.payments = [];
+    this.cancelledServices = new Map();
     this.queuePolicy = "FIFO";
+    this.queueWeights = DEFAULT_QUEUE_WEIGHTS;
+    this.businessCalendar = DEFAULT_BUSINESS_CALENDAR;
+    this.priceList = DEFAULT_PRICE_LIST;
+    this.letterhead = DEFAULT_LETTERHEAD;
     
     this.initializeData();
   }
 
   private initializeData() {
-    // Initialize 20 workers with varied skills
-    const workerNames = [
-      "Alex Johnson", "Maria Garcia", "James Smith", "Sofia Rodriguez", "Michael Chen",
-      "Emma Wilson", "David Brown", "Isabella Martinez", "Robert Taylor", "Olivia Anderson",
-      "William Thomas", "Ava Jackson", "John White", "Mia Harris", "Daniel Martin",
-      "Charlotte Thompson", "Christopher Garcia", "Amelia Robinson", "Matthew Clark", "Harper Lewis"
-    ];
-
-    const skills = ["Engine", "Brake", "AC", "General"];
-    
-    workerNames.forEach((name, idx) => {
-      const skill = skills[idx % 4];
-      const worker: Worker = {
-        id: randomUUID(),
-        name,
-        skill,
-        experienceLevel: Math.floor(Math.random() * 15) + 3, // 3-17 years
-        certifications: [
-          skill === "Engine" ? "Advanced Engine Diagnostics" : "",
-          skill === "Brake" ? "Brake System Specialist" : "",
-          skill === "AC" ? "HVAC Certified" : "",
-          "Volvo Certified Technician"
-        ].filter(Boolean),
-        rating: parseFloat((3.5 + Math.random() * 1.5).toFixed(1)), // 3.5-5.0
-        loadPercent: 0,
-        activeJobs: [],
-        status: "Available",
-      };
-      this.workers.set(worker.id, worker);
+    seedWorkers().forEach((worker) => this.workers.set(worker.id, worker));
+    seedMachines().forEach((machine) => this.machines.set(machine.id, machine));
+    seedInventory().forEach((inv) => {
+      this.inventoryItems.set(inv.partName, inv);
+      this.stockMovements.push(openingBalance(inv));
     });
+    seedServiceTasks().forEach((task) => this.serviceTasks.set(task.name, task));
+    seedSuppliers().forEach((supplier) => this.suppliers.set(supplier.id, supplier));
+  }
 
-    // Initialize 6 machine bays
-    for (let i = 1; i <= 6; i++) {
-      const machine: MachineBay = {
-        id: randomUUID(),
-        bayNumber: i,
-        bayType: i <= 2 ? "Diagnostic Bay" : i <= 4 ? "General Service Bay" : "Heavy Repair Bay",
-        isAvailable: true,
-        assignedWorkers: [],
-        currentLoad: 0,
-        toolsPresent: ["Hydraulic Lift", "Diagnostic Scanner", "Air Compressor", "Tool Set"],
-      };
-      this.machines.set(machine.id, machine);
-    }
+  // Users
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
 
-    // Initialize inventory
-    const inventoryData: { partName: string; quantity: number; minimumStock: number }[] = [
-      { partName: "AC Cleaner", quantity: 15, minimumStock: 5 },
-      { partName: "Air Filter", quantity: 25, minimumStock: 10 },
-      { partName: "Engine Oil (5W-30)", quantity: 30, minimumStock: 15 },
-      { partName: "Spark Plugs", quantity: 40, minimumStock: 20 },
-      { partName: "Brake Pads", quantity: 20, minimumStock: 8 },
-      { partName: "Coolant", quantity: 18, minimumStock: 10 },
-      { partName: "Transmission Fluid", quantity: 12, minimumStock: 8 },
-      { partName: "Battery (12V)", quantity: 8, minimumStock: 5 },
-    ];
-
-    inventoryData.forEach((item) => {
-      const inv: Inventory = {
-        id: randomUUID(),
-        ...item,
-      };
-      this.inventoryItems.set(inv.partName, inv);
-    });
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
 
-    // Initialize service tasks
-    const tasks: Omit<ServiceTask, 'id'>[] = [
-      { name: "Oil Change", baseTimeHours: 0.5, category: "General", requiredParts: ["Engine Oil (5W-30)"] },
-      { name: "Air Filter Replacement", baseTimeHours: 0.25, category: "General", requiredParts: ["Air Filter"] },
-      { name: "Brake Inspection", baseTimeHours: 0.75, category: "Brake", requiredParts: [] },
-      { name: "Brake Pad Replacement", baseTimeHours: 2.0, category: "Brake", requiredParts: ["Brake Pads"] },
-      { name: "Engine Diagnostic", baseTimeHours: 1.5, category: "Engine", requiredParts: [] },
-      { name: "Spark Plug Replacement", baseTimeHours: 1.0, category: "Engine", requiredParts: ["Spark Plugs"] },
-      { name: "AC Service", baseTimeHours: 1.5, category: "AC", requiredParts: ["AC Cleaner"] },
-      { name: "Coolant Flush", baseTimeHours: 1.0, category: "General", requiredParts: ["Coolant"] },
-      { name: "Transmission Service", baseTimeHours: 2.5, category: "General", requiredParts: ["Transmission Fluid"] },
-      { name: "Battery Replacement", baseTimeHours: 0.5, category: "General", requiredParts: ["Battery (12V)"] },
-      { name: "Tire Rotation", baseTimeHours: 0.5, category: "General", requiredParts: [] },
-      { name: "Wheel Alignment", baseTimeHours: 1.0, category: "General", requiredParts: [] },
-    ];
-
-    tasks.forEach((task) => {
-      const serviceTask: ServiceTask = {
-        id: randomUUID(),
-        ...task,
-      };
-      this.serviceTasks.set(serviceTask.name, serviceTask);
-    });
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((u) => u.username === username);
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const newUser: User = {
+      id: randomUUID(),
+      username: user.username,
+      passwordHash: user.passwordHash,
+      displayName: user.displayName,
+      role: user.role,
+      workerId: user.workerId ?? null,
+    };
+    this.users.set(newUser.id, newUser);
+    return newUser;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    return this.users.delete(id);
+  }
+
+  // Customers
+  async getCustomers(): Promise<Customer[]> {
+    return Array.from(this.customers.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    return this.customers.get(id);
+  }
+
+  async getCustomerByPhone(phone: string): Promise<Customer | undefined> {
+    return Array.from(this.customers.values()).find((c) => c.phone === phone);
+  }
+
+  async createCustomer(customer: InsertCustomer): Promise<Customer> {
+    const newCustomer: Customer = {
+      id: randomUUID(),
+      name: customer.name,
+      phone: customer.phone,
+      email: customer.email ?? null,
+      tier: customer.tier ?? "Standard",
+      createdAt: new Date(),
+    };
+    this.customers.set(newCustomer.id, newCustomer);
+    return newCustomer;
+  }
+
+  async updateCustomer(id: string, updates: Partial<InsertCustomer>): Promise<Customer | undefined> {
+    const customer = this.customers.get(id);
+    if (!customer) return undefined;
+    const updated: Customer = { ...customer, ...updates, id: customer.id };
+    this.customers.set(id, updated);
+    return updated;
+  }
+
+  // Vehicles
+  async getVehicles(): Promise<Vehicle[]> {
+    return Array.from(this.vehicles.values()).sort((a, b) => a.carNumber.localeCompare(b.carNumber));
+  }
+
+  async getVehicle(id: string): Promise<Vehicle | undefined> {
+    return this.vehicles.get(id);
+  }
+
+  async getVehicleByCarNumber(carNumber: string): Promise<Vehicle | undefined> {
+    const key = normalizeCarNumber(carNumber);
+    return Array.from(this.vehicles.values()).find((v) => v.carNumber === key);
+  }
+
+  async createVehicle(vehicle: InsertVehicle): Promise<Vehicle> {
+    const newVehicle: Vehicle = {
+      id: randomUUID(),
+      carNumber: normalizeCarNumber(vehicle.carNumber),
+      vin: vehicle.vin ?? null,
+      customerId: vehicle.customerId ?? null,
+      carModel: vehicle.carModel,
+      manufactureYear: vehicle.manufactureYear,
+      fuelType: vehicle.fuelType,
+      lastKnownKilometers: vehicle.lastKnownKilometers ?? 0,
+    };
+    this.vehicles.set(newVehicle.id, newVehicle);
+    return newVehicle;
+  }
+
+  async updateVehicle(id: string, updates: Partial<InsertVehicle>): Promise<Vehicle | undefined> {
+    const vehicle = this.vehicles.get(id);
+    if (!vehicle) return undefined;
+    const updated: Vehicle = {
+      ...vehicle,
+      ...updates,
+      id: vehicle.id,
+      carNumber: updates.carNumber ? normalizeCarNumber(updates.carNumber) : vehicle.carNumber,
+    };
+    this.vehicles.set(id, updated);
+    return updated;
+  }
+
+  // Appointments
+  async getAppointments(range: { from?: Date; to?: Date } = {}): Promise<Appointment[]> {
+    return Array.from(this.appointments.values())
+      .filter((a) => !range.from || a.scheduledStart >= range.from)
+      .filter((a) => !range.to || a.scheduledStart < range.to)
+      .sort((a, b) => a.scheduledStart.getTime() - b.scheduledStart.getTime());
+  }
+
+  async getAppointment(id: string): Promise<Appointment | undefined> {
+    return this.appointments.get(id);
+  }
+
+  async createAppointment(appointment: InsertAppointment): Promise<Appointment> {
+    const newAppointment: Appointment = {
+      ...appointment,
+      id: randomUUID(),
+      vehicleId: appointment.vehicleId ?? null,
+      customerId: appointment.customerId ?? null,
+      status: appointment.status ?? "Booked",
+      serviceId: appointment.serviceId ?? null,
+      notes: appointment.notes ?? null,
+      createdAt: new Date(),
+    };
+    this.appointments.set(newAppointment.id, newAppointment);
+    return newAppointment;
+  }
+
+  async updateAppointment(id: string, updates: Partial<InsertAppointment>): Promise<Appointment | undefined> {
+    const appointment = this.appointments.get(id);
+    if (!appointment) return undefined;
+    const updated: Appointment = { ...appointment, ...updates, id: appointment.id };
+    this.appointments.set(id, updated);
+    return updated;
   }
 
   // Workers
@@ -197,6 +433,7 @@ export class MemStorage implements IStorage {
       id,
       name: worker.name,
       skill: worker.skill,
+      skills: worker.skills?.length ? worker.skills : [{ category: worker.skill, proficiency: 3 }],
       experienceLevel: worker.experienceLevel,
       certifications: worker.certifications ?? [],
       rating: worker.rating ?? 4.0,
@@ -209,7 +446,14 @@ export class MemStorage implements IStorage {
   }
 
   async deleteWorker(id: string): Promise<boolean> {
-    return this.workers.delete(id);
+    if (!this.workers.delete(id)) return false;
+    const rosterMaps: Array<Map<string, { workerId: string }>> = [this.workerShifts, this.attendance, this.leaveRequests];
+    for (const map of rosterMaps) {
+      for (const [key, row] of Array.from(map.entries())) {
+        if (row.workerId === id) map.delete(key);
+      }
+    }
+    return true;
   }
 
   async updateWorkerLoad(id: string, loadPercent: number, activeJobs: string[]): Promise<void> {
@@ -217,19 +461,129 @@ export class MemStorage implements IStorage {
     if (worker) {
       worker.loadPercent = loadPercent;
       worker.activeJobs = activeJobs;
-      worker.status = activeJobs.length === 0 ? "Available" : "Busy";
+      // clocked-out workers stay Offline until they clock in again
+      if (worker.status !== "Offline") worker.status = activeJobs.length === 0 ? "Available" : "Busy";
     }
   }
 
+  async updateWorkerStatus(id: string, status: string): Promise<void> {
+    const worker = this.workers.get(id);
+    if (worker) worker.status = status;
+  }
+
+  async updateWorkerQualifications(id: string, updates: Pick<Worker, "skill" | "skills" | "certifications">): Promise<Worker | undefined> {
+    const worker = this.workers.get(id);
+    if (!worker) return undefined;
+    Object.assign(worker, updates);
+    return worker;
+  }
+
+  // Rosters
+  async getWorkerShifts(workerId?: string): Promise<WorkerShift[]> {
+    return Array.from(this.workerShifts.values())
+      .filter((s) => !workerId || s.workerId === workerId)
+      .sort((a, b) => a.start.localeCompare(b.start));
+  }
+
+  async setWorkerShifts(workerId: string, shifts: InsertWorkerShift[]): Promise<WorkerShift[]> {
+    for (const [id, shift] of Array.from(this.workerShifts.entries())) {
+      if (shift.workerId === workerId) this.workerShifts.delete(id);
+    }
+    for (const shift of shifts) {
+      const created: WorkerShift = { ...shift, id: randomUUID(), workerId };
+      this.workerShifts.set(created.id, created);
+    }
+    return this.getWorkerShifts(workerId);
+  }
+
+  async getAttendance(range: { from?: Date; to?: Date } = {}): Promise<AttendanceRecord[]> {
+    return Array.from(this.attendance.values())
+      .filter((a) => !range.from || a.clockIn >= range.from)
+      .filter((a) => !range.to || a.clockIn < range.to)
+      .sort((a, b) => a.clockIn.getTime() - b.clockIn.getTime());
+  }
+
+  async getOpenAttendance(workerId: string): Promise<AttendanceRecord | undefined> {
+    return Array.from(this.attendance.values()).find((a) => a.workerId === workerId && !a.clockOut);
+  }
+
+  async clockIn(workerId: string, at: Date): Promise<AttendanceRecord> {
+    const record: AttendanceRecord = { id: randomUUID(), workerId, clockIn: at, clockOut: null };
+    this.attendance.set(record.id, record);
+    return record;
+  }
+
+  async clockOut(workerId: string, at: Date): Promise<AttendanceRecord | undefined> {
+    const open = await this.getOpenAttendance(workerId);
+    if (!open) return undefined;
+    open.clockOut = at;
+    return open;
+  }
+
+  async getLeaveRequests(): Promise<LeaveRequest[]> {
+    return Array.from(this.leaveRequests.values()).sort((a, b) => a.startDate.localeCompare(b.startDate));
+  }
+
+  async getLeaveRequest(id: string): Promise<LeaveRequest | undefined> {
+    return this.leaveRequests.get(id);
+  }
+
+  async createLeaveRequest(request: InsertLeaveRequest): Promise<LeaveRequest> {
+    const created: LeaveRequest = {
+      ...request,
+      id: randomUUID(),
+      reason: request.reason ?? null,
+      status: request.status ?? "Pending",
+      createdAt: new Date(),
+    };
+    this.leaveRequests.set(created.id, created);
+    return created;
+  }
+
+  async updateLeaveRequest(id: string, updates: Partial<InsertLeaveRequest>): Promise<LeaveRequest | undefined> {
+    const request = this.leaveRequests.get(id);
+    if (!request) return undefined;
+    const updated: LeaveRequest = { ...request, ...updates, id: request.id };
+    this.leaveRequests.set(id, updated);
+    return updated;
+  }
+
   // Machines
   async getMachines(): Promise<MachineBay[]> {
-    return Array.from(this.machines.values());
+    return Array.from(this.machines.values()).sort((a, b) => a.bayNumber - b.bayNumber);
   }
 
   async getMachine(id: string): Promise<MachineBay | undefined> {
     return this.machines.get(id);
   }
 
+  async createMachine(machine: InsertMachineBay): Promise<MachineBay> {
+    const created: MachineBay = {
+      id: randomUUID(),
+      bayNumber: machine.bayNumber,
+      bayType: machine.bayType,
+      isAvailable: true,
+      inService: machine.inService ?? true,
+      assignedWorkers: [],
+      currentLoad: 0,
+      toolsPresent: machine.toolsPresent ?? [],
+    };
+    this.machines.set(created.id, created);
+    return created;
+  }
+
+  async updateMachine(id: string, updates: Partial<InsertMachineBay>): Promise<MachineBay | undefined> {
+    const machine = this.machines.get(id);
+    if (!machine) return undefined;
+    const updated: MachineBay = { ...machine, ...updates, id: machine.id };
+    this.machines.set(id, updated);
+    return updated;
+  }
+
+  async deleteMachine(id: string): Promise<boolean> {
+    return this.machines.delete(id);
+  }
+
   async updateMachineLoad(id: string, currentLoad: number, assignedWorkers: string[]): Promise<void> {
     const machine = this.machines.get(id);
     if (machine) {
@@ -240,33 +594,36 @@ export class MemStorage implements IStorage {
   }
 
   // Inventory
-  async getInventory(): Promise<Inventory[]> {
-    return Array.from(this.inventoryItems.values());
+  async getInventory(options: { includeDiscontinued?: boolean } = {}): Promise<Inventory[]> {
+    return Array.from(this.inventoryItems.values()).filter((i) => options.includeDiscontinued || !i.discontinuedAt);
   }
 
   async getInventoryItem(partName: string): Promise<Inventory | undefined> {
-    return this.inventoryItems.get(partName);
+    const item = this.inventoryItems.get(partName);
+    return item && !item.discontinuedAt ? item : undefined;
   }
 
-  async updateStock(partName: string, quantity: number): Promise<void> {
+  async updateReservedStock(partName: string, reserved: number): Promise<void> {
     const item = this.inventoryItems.get(partName);
     if (item) {
-      item.quantity = quantity;
+      item.reserved = reserved;
     }
   }
 
   async createInventoryItem(item: InsertInventory): Promise<Inventory> {
     const exists = this.inventoryItems.get(item.partName);
     if (exists) {
-      exists.quantity = item.quantity ?? exists.quantity;
       exists.minimumStock = item.minimumStock ?? exists.minimumStock;
+      exists.discontinuedAt = null;
       return exists;
     }
     const inv: Inventory = {
       id: randomUUID(),
       partName: item.partName,
-      quantity: item.quantity ?? 0,
+      quantity: 0,
+      reserved: 0,
       minimumStock: item.minimumStock ?? 5,
+      discontinuedAt: null,
     };
     this.inventoryItems.set(inv.partName, inv);
     return inv;
@@ -281,15 +638,154 @@ export class MemStorage implements IStorage {
       item.partName = updates.partName;
       this.inventoryItems.set(item.partName, item);
     }
-    if (typeof updates.quantity === 'number') item.quantity = updates.quantity;
     if (typeof updates.minimumStock === 'number') item.minimumStock = updates.minimumStock;
     return item;
   }
 
-  async deleteInventoryItem(id: string): Promise<boolean> {
-    const item = Array.from(this.inventoryItems.values()).find(i => i.id === id);
-    if (!item) return false;
-    return this.inventoryItems.delete(item.partName);
+  async discontinueInventoryItem(id: string): Promise<Inventory | undefined> {
+    const item = Array.from(this.inventoryItems.values()).find(i => i.id === id && !i.discontinuedAt);
+    if (!item) return undefined;
+    item.discontinuedAt = new Date();
+    return item;
+  }
+
+  // Stock ledger
+  async getStockMovements(inventoryId: string): Promise<StockMovement[]> {
+    return this.stockMovements
+      .filter((m) => m.inventoryId === inventoryId)
+      .reverse();
+  }
+
+  async recordStockMovement(movement: InsertStockMovement): Promise<StockMovement> {
+    const created: StockMovement = {
+      ...movement,
+      id: randomUUID(),
+      serviceId: movement.serviceId ?? null,
+      recordedBy: movement.recordedBy ?? null,
+      note: movement.note ?? null,
+      createdAt: new Date(),
+    };
+    this.stockMovements.push(created);
+    const item = Array.from(this.inventoryItems.values()).find((i) => i.id === movement.inventoryId);
+    if (item) {
+      item.quantity = this.stockMovements
+        .filter((m) => m.inventoryId === item.id)
+        .reduce((sum, m) => sum + m.quantity, 0);
+    }
+    return created;
+  }
+
+  // Part reservations
+  async getPartReservations(filter: { serviceId?: string; taskName?: string; partName?: string; statuses?: ReservationStatus[] } = {}): Promise<PartReservation[]> {
+    return Array.from(this.partReservations.values())
+      .filter((r) => !filter.serviceId || r.serviceId === filter.serviceId)
+      .filter((r) => !filter.taskName || r.taskName === filter.taskName)
+      .filter((r) => !filter.partName || r.partName === filter.partName)
+      .filter((r) => !filter.statuses || filter.statuses.includes(r.status))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createPartReservation(reservation: InsertPartReservation): Promise<PartReservation> {
+    const created: PartReservation = {
+      ...reservation,
+      id: randomUUID(),
+      status: reservation.status ?? "Reserved",
+      createdAt: new Date(),
+      settledAt: reservation.settledAt ?? null,
+    };
+    this.partReservations.set(created.id, created);
+    return created;
+  }
+
+  async updatePartReservation(id: string, updates: Partial<InsertPartReservation>): Promise<PartReservation | undefined> {
+    const reservation = this.partReservations.get(id);
+    if (!reservation) return undefined;
+    const updated: PartReservation = { ...reservation, ...updates, id: reservation.id };
+    this.partReservations.set(id, updated);
+    return updated;
+  }
+
+  // Suppliers
+  async getSuppliers(): Promise<Supplier[]> {
+    return Array.from(this.suppliers.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getSupplier(id: string): Promise<Supplier | undefined> {
+    return this.suppliers.get(id);
+  }
+
+  async createSupplier(supplier: InsertSupplier): Promise<Supplier> {
+    const created: Supplier = {
+      id: randomUUID(),
+      name: supplier.name,
+      contactEmail: supplier.contactEmail ?? null,
+      phone: supplier.phone ?? null,
+      leadTimeDays: supplier.leadTimeDays ?? 3,
+      parts: supplier.parts ?? [],
+    };
+    this.suppliers.set(created.id, created);
+    return created;
+  }
+
+  async updateSupplier(id: string, updates: Partial<InsertSupplier>): Promise<Supplier | undefined> {
+    const supplier = this.suppliers.get(id);
+    if (!supplier) return undefined;
+    const updated: Supplier = { ...supplier, ...updates, id: supplier.id };
+    this.suppliers.set(id, updated);
+    return updated;
+  }
+
+  async deleteSupplier(id: string): Promise<boolean> {
+    return this.suppliers.delete(id);
+  }
+
+  // Purchase orders
+  async getPurchaseOrders(filter: { supplierId?: string; statuses?: PurchaseOrderStatus[] } = {}): Promise<PurchaseOrder[]> {
+    return Array.from(this.purchaseOrders.values())
+      .filter((o) => !filter.supplierId || o.supplierId === filter.supplierId)
+      .filter((o) => !filter.statuses || filter.statuses.includes(o.status))
+      .sort((a, b) => b.orderNumber - a.orderNumber);
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined> {
+    return this.purchaseOrders.get(id);
+  }
+
+  async createPurchaseOrder(order: InsertPurchaseOrder): Promise<PurchaseOrder> {
+    const created: PurchaseOrder = {
+      id: randomUUID(),
+      orderNumber: this.purchaseOrders.size + 1,
+      supplierId: order.supplierId,
+      status: order.status ?? "Draft",
+      lines: order.lines ?? [],
+      autoDrafted: order.autoDrafted ?? false,
+      createdBy: order.createdBy ?? null,
+      approvedBy: order.approvedBy ?? null,
+      createdAt: new Date(),
+      approvedAt: order.approvedAt ?? null,
+      sentAt: order.sentAt ?? null,
+      expectedArrival: order.expectedArrival ?? null,
+      receivedAt: order.receivedAt ?? null,
+    };
+    this.purchaseOrders.set(created.id, created);
+    return created;
+  }
+
+  async updatePurchaseOrder(id: string, updates: Partial<InsertPurchaseOrder>): Promise<PurchaseOrder | undefined> {
+    const order = this.purchaseOrders.get(id);
+    if (!order) return undefined;
+    const updated: PurchaseOrder = { ...order, ...updates, id: order.id };
+    this.purchaseOrders.set(id, updated);
+    return updated;
+  }
+
+  async receivePurchaseOrder(id: string, receipts: PartReceipt[], receivedAt: Date): Promise<PurchaseOrder | undefined> {
+    if (this.purchaseOrders.get(id)?.status !== "Sent") return undefined;
+    for (const { partName, ...receipt } of receipts) {
+      const item = await this.createInventoryItem({ partName });
+      await this.recordStockMovement({ ...receipt, inventoryId: item.id });
+    }
+    return this.updatePurchaseOrder(id, { status: "Received", receivedAt });
   }
 
   // Service Tasks
@@ -316,10 +812,18 @@ export class MemStorage implements IStorage {
       actualStartTime: new Date(),
       status: service.status ?? (service.queuePosition ? "Queued" : "In Progress"),
       progress: service.progress ?? 0,
+      vehicleId: service.vehicleId ?? null,
+      customerId: service.customerId ?? null,
+      taskChecklist: service.taskChecklist ?? [],
+      reportedProgress: service.reportedProgress ?? null,
+      progressReportedAt: service.progressReportedAt ?? null,
       errorCodes: service.errorCodes ?? [],
       reservedParts: service.reservedParts ?? [],
       priority: service.priority ?? 'Normal',
+      warrantyStatus: service.warrantyStatus ?? 'Out of Warranty',
       queuePosition: service.queuePosition ?? null,
+      queueReason: service.queueReason ?? null,
+      heldAt: service.heldAt ?? null,
     };
     this.activeServices.set(activeService.id, activeService);
     return activeService;
@@ -352,26 +856,46 @@ export class MemStorage implements IStorage {
     this.activeServices.delete(id);
   }
 
-  // Analytics
-  async getCompletedServicesCount(): Promise<number> {
-    return this.completedServices;
+  async getQueuePolicy(): Promise<QueuePolicy> {
+    return this.queuePolicy;
   }
 
-  async addCompletedService(serviceTime: number): Promise<void> {
-    this.completedServices++;
-    this.totalServiceTime += serviceTime;
+  async setQueuePolicy(policy: QueuePolicy): Promise<void> {
+    this.queuePolicy = policy;
   }
 
-  async getQueuePolicy(): Promise<"FIFO" | "SJF" | "PRIORITY"> {
-    return this.queuePolicy;
+  async getQueueWeights(): Promise<QueueWeights> {
+    return this.queueWeights;
   }
 
-  async setQueuePolicy(policy: "FIFO" | "SJF" | "PRIORITY"): Promise<void> {
-    this.queuePolicy = policy;
+  async setQueueWeights(weights: QueueWeights): Promise<void> {
+    this.queueWeights = weights;
+  }
+
+  async getBusinessCalendar(): Promise<BusinessCalendar> {
+    return this.businessCalendar;
+  }
+
+  async setBusinessCalendar(calendar: BusinessCalendar): Promise<void> {
+    this.businessCalendar = calendar;
+  }
+
+  // Price list
+  async getPriceList(): Promise<PriceList> {
+    return this.priceList;
+  }
+
+  async setPriceList(priceList: PriceList): Promise<void> {
+    this.priceList = priceList;
   }
 
-  getAverageServiceTime(): number {
-    return this.completedServices > 0 ? this.totalServiceTime / this.completedServices : 0;
+  // Letterhead
+  async getLetterhead(): Promise<Letterhead> {
+    return this.letterhead;
+  }
+
+  async setLetterhead(letterhead: Letterhead): Promise<void> {
+    this.letterhead = letterhead;
   }
 
   // Completed Services records
@@ -383,8 +907,15 @@ export class MemStorage implements IStorage {
     return this.completedServiceRecords.get(id);
   }
 
-  async addCompletedServiceRecord(record: CompletedService): Promise<void> {
-    this.completedServiceRecords.set(record.id, record);
+  async addCompletedServiceRecord(record: NewCompletedService): Promise<CompletedService> {
+    const existing = this.completedServiceRecords.get(record.id);
+    const saved: CompletedService = {
+      ...record,
+      invoiceNumber: existing?.invoiceNumber ?? this.completedServiceRecords.size + 1,
+      amountPaid: existing?.amountPaid ?? 0,
+    };
+    this.completedServiceRecords.set(record.id, saved);
+    return saved;
   }
 
   async updateCompletedServiceRecord(id: string, updates: Partial<CompletedService>): Promise<CompletedService | undefined> {
@@ -394,6 +925,78 @@ export class MemStorage implements IStorage {
     this.completedServiceRecords.set(id, updated);
     return updated;
   }
+
+  async getVehicleServiceHistory(carNumber: string): Promise<CompletedService[]> {
+    const key = normalizeCarNumber(carNumber);
+    const records = await this.getCompletedServices();
+    return records.filter((r) => normalizeCarNumber(r.carNumber) === key);
+  }
+
+  // Cancelled services
+  async getCancelledServices(): Promise<CancelledService[]> {
+    return Array.from(this.cancelledServices.values()).sort((a, b) => b.cancelledAt.getTime() - a.cancelledAt.getTime());
+  }
+
+  async addCancelledService(record: InsertCancelledService): Promise<CancelledService> {
+    const saved: CancelledService = {
+      ...record,
+      vehicleId: record.vehicleId ?? null,
+      customerId: record.customerId ?? null,
+      progress: record.progress ?? 0,
+      cancelledBy: record.cancelledBy ?? null,
+      cancelledAt: new Date(),
+    };
+    this.cancelledServices.set(saved.id, saved);
+    return saved;
+  }
+
+  // Payments
+  async getPayments(completedServiceId: string): Promise<Payment[]> {
+    return this.payments.filter((p) => p.completedServiceId === completedServiceId);
+  }
+
+  async recordPayments(payments: InsertPayment[]): Promise<Payment[] | undefined> {
+    const paidAfter = (serviceId: string, entries: Array<Pick<Payment, "completedServiceId" | "kind" | "amount">>) => {
+      const paid = entries
+        .filter((p) => p.completedServiceId === serviceId)
+        .reduce((sum, p) => sum + (p.kind === "Refund" ? -p.amount : p.amount), 0);
+      return Math.round(paid * 100) / 100;
+    };
+    const entries = payments.map((p) => ({ ...p, kind: p.kind ?? "Payment" }));
+    for (const serviceId of new Set(entries.map((p) => p.completedServiceId))) {
+      const record = this.completedServiceRecords.get(serviceId);
+      const paid = paidAfter(serviceId, [...this.payments, ...entries]);
+      if (!record || paid < 0 || paid > record.total) return undefined;
+    }
+
+    const created = payments.map((payment): Payment => ({
+      ...payment,
+      id: randomUUID(),
+      kind: payment.kind ?? "Payment",
+      reference: payment.reference ?? null,
+      recordedBy: payment.recordedBy ?? null,
+      note: payment.note ?? null,
+      receivedAt: new Date(),
+    }));
+    this.payments.push(...created);
+    for (const serviceId of new Set(created.map((p) => p.completedServiceId))) {
+      this.completedServiceRecords.get(serviceId)!.amountPaid = paidAfter(serviceId, this.payments);
+    }
+    return created;
+  }
+}
+
+// STORAGE_DRIVER selects the backend ("memory" or "postgres"); when unset,
+// Postgres is used whenever DATABASE_URL is configured.
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER ?? (process.env.DATABASE_URL ? "postgres" : "memory");
+  if (driver === "postgres") {
+    return new DbStorage(createDb());
+  }
+  if (driver !== "memory") {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "memory" or "postgres"`);
+  }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
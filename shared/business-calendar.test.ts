@@ -0,0 +1,123 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  addBusinessHours,
+  businessHoursBetween,
+  DEFAULT_BUSINESS_CALENDAR,
+  type BusinessCalendar,
+} from "./business-calendar";
+
+// 2026-10-19 is a Monday. The default calendar is Asia/Kolkata (UTC+05:30),
+// open 10:00-19:00 Monday to Saturday and closed on Sunday.
+const kolkata: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR;
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+const everyDay = { open: "09:00", close: "17:00" };
+const newYork: BusinessCalendar = {
+  timezone: "America/New_York",
+  openingHours: {
+    sunday: everyDay,
+    monday: everyDay,
+    tuesday: everyDay,
+    wednesday: everyDay,
+    thursday: everyDay,
+    friday: everyDay,
+    saturday: everyDay,
+  },
+  breaks: [],
+  holidays: [],
+};
+
+describe("addBusinessHours", () => {
+  it("counts from the calendar's timezone, not UTC", () => {
+    // 09:30 IST is before opening; work starts at 10:00 IST (04:30 UTC)
+    assert.deepEqual(addBusinessHours(kolkata, utc("2026-10-19T04:00:00"), 1), utc("2026-10-19T05:30:00"));
+  });
+
+  it("adds within the same working day", () => {
+    // 11:00 IST + 3 h = 14:00 IST
+    assert.deepEqual(addBusinessHours(kolkata, utc("2026-10-19T05:30:00"), 3), utc("2026-10-19T08:30:00"));
+  });
+
+  it("skips breaks", () => {
+    const lunch = { ...kolkata, breaks: [{ start: "13:00", end: "14:00" }] };
+    // 12:00 IST + 2 h, with 13:00-14:00 off = 15:00 IST
+    assert.deepEqual(addBusinessHours(lunch, utc("2026-10-19T06:30:00"), 2), utc("2026-10-19T09:30:00"));
+  });
+
+  it("carries over to the next working day at closing time", () => {
+    // Monday 18:00 IST + 2 h = Tuesday 11:00 IST
+    assert.deepEqual(addBusinessHours(kolkata, utc("2026-10-19T12:30:00"), 2), utc("2026-10-20T05:30:00"));
+  });
+
+  it("skips holidays", () => {
+    const holiday = { ...kolkata, holidays: ["2026-10-20"] };
+    // Monday 18:00 IST + 2 h, Tuesday off = Wednesday 11:00 IST
+    assert.deepEqual(addBusinessHours(holiday, utc("2026-10-19T12:30:00"), 2), utc("2026-10-21T05:30:00"));
+  });
+
+  it("skips closed weekdays", () => {
+    // Saturday 18:00 IST + 2 h, closed Sunday = Monday 11:00 IST
+    assert.deepEqual(addBusinessHours(kolkata, utc("2026-10-24T12:30:00"), 2), utc("2026-10-26T05:30:00"));
+  });
+
+  it("keeps wall-clock hours across the spring DST change", () => {
+    // Saturday 7 March 16:00 EST (UTC-5) + 2 h = Sunday 8 March 10:00 EDT (UTC-4)
+    assert.deepEqual(addBusinessHours(newYork, utc("2026-03-07T21:00:00"), 2), utc("2026-03-08T14:00:00"));
+  });
+
+  it("keeps wall-clock hours across the autumn DST change", () => {
+    // Saturday 31 October 16:00 EDT + 2 h = Sunday 1 November 10:00 EST
+    assert.deepEqual(addBusinessHours(newYork, utc("2026-10-31T20:00:00"), 2), utc("2026-11-01T15:00:00"));
+  });
+
+  it("returns the start for zero hours during opening hours", () => {
+    const start = utc("2026-10-19T06:00:00");
+    assert.deepEqual(addBusinessHours(kolkata, start, 0), start);
+  });
+
+  it("fails when the calendar never opens", () => {
+    const closed = { ...kolkata, openingHours: { ...kolkata.openingHours, monday: null, tuesday: null, wednesday: null, thursday: null, friday: null, saturday: null } };
+    assert.throws(() => addBusinessHours(closed, utc("2026-10-19T06:00:00"), 1), /no open time/);
+  });
+});
+
+describe("businessHoursBetween", () => {
+  it("is zero when the end is not after the start", () => {
+    const at = utc("2026-10-19T06:00:00");
+    assert.equal(businessHoursBetween(kolkata, at, at), 0);
+    assert.equal(businessHoursBetween(kolkata, at, utc("2026-10-19T05:00:00")), 0);
+  });
+
+  it("counts only opening hours in the calendar's timezone", () => {
+    // Monday 00:00 UTC (05:30 IST) to 12:00 UTC (17:30 IST) = 10:00-17:30 IST
+    assert.equal(businessHoursBetween(kolkata, utc("2026-10-19T00:00:00"), utc("2026-10-19T12:00:00")), 7.5);
+  });
+
+  it("leaves out breaks", () => {
+    const lunch = { ...kolkata, breaks: [{ start: "13:00", end: "14:00" }] };
+    assert.equal(businessHoursBetween(lunch, utc("2026-10-19T04:30:00"), utc("2026-10-19T13:30:00")), 8);
+  });
+
+  it("leaves out closed days and holidays", () => {
+    const holiday = { ...kolkata, holidays: ["2026-10-26"] };
+    // Saturday 18:00 IST to Tuesday 11:00 IST: 1 h Saturday, Sunday closed, Monday a holiday, 1 h Tuesday
+    assert.equal(businessHoursBetween(holiday, utc("2026-10-24T12:30:00"), utc("2026-10-27T05:30:00")), 2);
+  });
+
+  it("counts the real length of a day with a DST change", () => {
+    const night = { ...newYork, openingHours: { ...newYork.openingHours, sunday: { open: "01:00", close: "04:00" } } };
+    // 02:00-03:00 does not exist on 8 March, so the 01:00-04:00 opening is 2 real hours
+    assert.equal(businessHoursBetween(night, utc("2026-03-08T00:00:00"), utc("2026-03-09T00:00:00")), 2);
+    // while 01:00-02:00 happens twice on 1 November, making it 4
+    assert.equal(businessHoursBetween(night, utc("2026-11-01T00:00:00"), utc("2026-11-02T00:00:00")), 4);
+  });
+
+  it("agrees with addBusinessHours", () => {
+    const lunch = { ...kolkata, breaks: [{ start: "13:00", end: "14:00" }], holidays: ["2026-10-21"] };
+    const start = utc("2026-10-19T07:10:00");
+    for (const hours of [0.5, 3, 8, 17.25, 40]) {
+      assert.equal(businessHoursBetween(lunch, start, addBusinessHours(lunch, start, hours)), hours);
+    }
+  });
+});
@@ -0,0 +1,206 @@
+import { z } from "zod";
+
+// Workshop opening calendar shared by the server (ETAs, progress, slot
+// planning) and the client (remaining-time displays), so both count the same
+// working minutes. All wall-clock values are in the calendar's timezone.
+
+export const weekdays = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+export type Weekday = typeof weekdays[number];
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times must be HH:MM (24h)");
+
+const openingHoursSchema = z
+  .object({ open: timeOfDay, close: timeOfDay })
+  .refine((h) => h.open < h.close, "Opening time must be before closing time");
+
+function isValidTimeZone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const businessCalendarSchema = z
+  .object({
+    timezone: z.string().refine(isValidTimeZone, "Unknown IANA timezone"),
+    // null marks a closed day
+    openingHours: z.object(
+      Object.fromEntries(weekdays.map((d) => [d, openingHoursSchema.nullable()])) as Record<Weekday, z.ZodNullable<typeof openingHoursSchema>>,
+    ),
+    // daily breaks (e.g. lunch) during which no work is counted
+    breaks: z.array(z.object({ start: timeOfDay, end: timeOfDay }).refine((b) => b.start < b.end, "Break start must be before its end")).default([]),
+    holidays: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Holidays must be YYYY-MM-DD")).default([]),
+  })
+  .refine((c) => weekdays.some((d) => c.openingHours[d] !== null), "The workshop must open on at least one weekday");
+
+export type BusinessCalendar = z.infer<typeof businessCalendarSchema>;
+
+export const DEFAULT_BUSINESS_CALENDAR: BusinessCalendar = {
+  timezone: "Asia/Kolkata",
+  openingHours: {
+    sunday: null,
+    monday: { open: "10:00", close: "19:00" },
+    tuesday: { open: "10:00", close: "19:00" },
+    wednesday: { open: "10:00", close: "19:00" },
+    thursday: { open: "10:00", close: "19:00" },
+    friday: { open: "10:00", close: "19:00" },
+    saturday: { open: "10:00", close: "19:00" },
+  },
+  breaks: [],
+  holidays: [],
+};
+
+// Longest run of closed days searched before giving up
+const MAX_CLOSED_DAYS = 366;
+
+type LocalDate = { year: number; month: number; day: number };
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(date: Date, timeZone: string) {
+  let fmt = formatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, fmt);
+  }
+  const parts = Object.fromEntries(fmt.formatToParts(date).map((p) => [p.type, p.value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+function zoneOffset(instant: number, timeZone: string): number {
+  const p = zonedParts(new Date(instant), timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+// Instant of a wall-clock time in the zone (DST gaps resolve forward)
+function zonedTime(date: LocalDate, time: string, timeZone: string): number {
+  const [hour, minute] = time.split(":").map(Number);
+  const guess = Date.UTC(date.year, date.month - 1, date.day, hour, minute);
+  const first = guess - zoneOffset(guess, timeZone);
+  return guess - zoneOffset(first, timeZone);
+}
+
+function localDateOf(instant: Date, timeZone: string): LocalDate {
+  const { year, month, day } = zonedParts(instant, timeZone);
+  return { year, month, day };
+}
+
+function nextDate(date: LocalDate): LocalDate {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day + 1));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+function isoDate(date: LocalDate): string {
+  return `${date.year}-${String(date.month).padStart(2, "0")}-${String(date.day).padStart(2, "0")}`;
+}
+
+// Working intervals [start, end) in epoch ms for one local date
+function workingIntervals(calendar: BusinessCalendar, date: LocalDate): Array<[number, number]> {
+  if (calendar.holidays.includes(isoDate(date))) return [];
+  const weekday = weekdays[new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay()];
+  const hours = calendar.openingHours[weekday];
+  if (!hours) return [];
+
+  let intervals: Array<[number, number]> = [[
+    zonedTime(date, hours.open, calendar.timezone),
+    zonedTime(date, hours.close, calendar.timezone),
+  ]];
+  for (const br of calendar.breaks) {
+    const bStart = zonedTime(date, br.start, calendar.timezone);
+    const bEnd = zonedTime(date, br.end, calendar.timezone);
+    intervals = intervals.flatMap(([s, e]): Array<[number, number]> => {
+      if (bEnd <= s || bStart >= e) return [[s, e]];
+      const pieces: Array<[number, number]> = [];
+      if (bStart > s) pieces.push([s, bStart]);
+      if (bEnd < e) pieces.push([bEnd, e]);
+      return pieces;
+    });
+  }
+  return intervals;
+}
+
+// Adds `hours` of working time to `start`, skipping closed days, holidays and breaks
+export function addBusinessHours(calendar: BusinessCalendar, start: Date, hours: number): Date {
+  let remaining = Math.round(hours * 60) * 60 * 1000;
+  let cursor = start.getTime();
+  let date = localDateOf(start, calendar.timezone);
+  let closedDays = 0;
+  while (closedDays < MAX_CLOSED_DAYS) {
+    const intervals = workingIntervals(calendar, date);
+    closedDays = intervals.length === 0 ? closedDays + 1 : 0;
+    for (const [s, e] of intervals) {
+      if (e <= cursor) continue;
+      const from = Math.max(s, cursor);
+      if (remaining <= e - from) return new Date(from + remaining);
+      remaining -= e - from;
+      cursor = e;
+    }
+    date = nextDate(date);
+  }
+  throw new Error("Business calendar has no open time to schedule into");
+}
+
+// Working hours elapsed between two instants (0 if `to` is not after `from`)
+export function businessHoursBetween(calendar: BusinessCalendar, from: Date, to: Date): number {
+  if (to.getTime() <= from.getTime()) return 0;
+  let total = 0;
+  let date = localDateOf(from, calendar.timezone);
+  const last = isoDate(localDateOf(to, calendar.timezone));
+  while (isoDate(date) <= last) {
+    for (const [s, e] of workingIntervals(calendar, date)) {
+      const start = Math.max(s, from.getTime());
+      const end = Math.min(e, to.getTime());
+      if (end > start) total += end - start;
+    }
+    date = nextDate(date);
+  }
+  return total / (1000 * 60 * 60);
+}
+
+// Calendar date, weekday and HH:MM of an instant in the calendar's timezone
+export function localDateTime(calendar: BusinessCalendar, instant: Date): { date: string; weekday: Weekday; time: string } {
+  const p = zonedParts(instant, calendar.timezone);
+  return {
+    date: isoDate(p),
+    weekday: weekdays[new Date(Date.UTC(p.year, p.month - 1, p.day)).getUTCDay()],
+    time: `${String(p.hour).padStart(2, "0")}:${String(p.minute).padStart(2, "0")}`,
+  };
+}
+
+// Instant of a wall-clock time on a YYYY-MM-DD date in the calendar's timezone
+export function instantAt(calendar: BusinessCalendar, date: string, time: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(zonedTime({ year, month, day }, time, calendar.timezone));
+}
+
+// Working intervals of a YYYY-MM-DD date, in order (none on closed days)
+export function workingHoursOn(calendar: BusinessCalendar, date: string): Array<{ start: Date; end: Date }> {
+  const [year, month, day] = date.split("-").map(Number);
+  return workingIntervals(calendar, { year, month, day }).map(([s, e]) => ({ start: new Date(s), end: new Date(e) }));
+}
+
+// True when `instant` falls inside a working interval
+export function isOpenAt(calendar: BusinessCalendar, instant: Date): boolean {
+  const t = instant.getTime();
+  return workingIntervals(calendar, localDateOf(instant, calendar.timezone)).some(([s, e]) => t >= s && t < e);
+}
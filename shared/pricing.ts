@@ -0,0 +1,79 @@
+import { z } from "zod";
+
+// Workshop price list used to bill completed services, plus the invoice
+// total arithmetic shared by the server and the invoice editor. Amounts are
+// in the price list's currency.
+
+const price = z.number().nonnegative("Prices cannot be negative");
+
+export const taxRateSchema = z.object({
+  name: z.string().min(1), // e.g. CGST, SGST, VAT
+  ratePercent: z.number().min(0).max(100),
+});
+export type TaxRate = z.infer<typeof taxRateSchema>;
+
+export const priceListSchema = z.object({
+  currency: z.string().length(3, "Currency must be a 3-letter code"),
+  // hourly labour rate per skill category; tasks are billed at their base hours
+  labourRates: z.record(z.string(), price).refine((r) => "General" in r, "A General labour rate is required"),
+  // fixed prices that replace hourly labour for a task
+  taskPrices: z.record(z.string(), price).default({}),
+  partPrices: z.record(z.string(), price).default({}),
+  // applied, each in turn, to the subtotal after discount
+  taxes: z.array(taxRateSchema).default([]),
+  // tasks and parts billed to the manufacturer for vehicles in warranty
+  warrantyCoverage: z.object({
+    tasks: z.array(z.string()).default([]),
+    parts: z.array(z.string()).default([]),
+  }).default({ tasks: [], parts: [] }),
+});
+export type PriceList = z.infer<typeof priceListSchema>;
+
+export const DEFAULT_PRICE_LIST: PriceList = {
+  currency: "INR",
+  labourRates: { Engine: 1500, Brake: 1200, AC: 1300, General: 900 },
+  taskPrices: { "Tire Rotation": 400, "Wheel Alignment": 1200, "Engine Diagnostic": 1800 },
+  partPrices: {
+    "Engine Oil (5W-30)": 850,
+    "Air Filter": 1200,
+    "Brake Pads": 4200,
+    "Spark Plugs": 550,
+    "AC Cleaner": 650,
+    "Coolant": 750,
+    "Transmission Fluid": 1450,
+    "Battery (12V)": 12500,
+  },
+  taxes: [
+    { name: "CGST", ratePercent: 9 },
+    { name: "SGST", ratePercent: 9 },
+  ],
+  warrantyCoverage: {
+    tasks: ["Engine Diagnostic", "Battery Replacement"],
+    parts: ["Battery (12V)"],
+  },
+};
+
+export type TaxLine = TaxRate & { amount: number };
+
+export type InvoiceTotals = {
+  subtotal: number;
+  discount: number;
+  taxLines: TaxLine[];
+  tax: number;
+  total: number;
+};
+
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Totals for line amounts (warranty-covered lines count as zero), a discount
+// capped at the subtotal, and tax on what remains
+export function invoiceTotals(lineAmounts: number[], discount: number, taxes: TaxRate[]): InvoiceTotals {
+  const subtotal = roundMoney(lineAmounts.reduce((sum, amount) => sum + amount, 0));
+  const applied = roundMoney(Math.min(Math.max(0, discount), subtotal));
+  const taxable = subtotal - applied;
+  const taxLines = taxes.map((t) => ({ ...t, amount: roundMoney((taxable * t.ratePercent) / 100) }));
+  const tax = roundMoney(taxLines.reduce((sum, t) => sum + t.amount, 0));
+  return { subtotal, discount: applied, taxLines, tax, total: roundMoney(taxable + tax) };
+}
@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+// Policies the dispatcher can serve the queue by, with the text the dashboard
+// shows for each, and the weights of the scored policy.
+
+export const queuePolicies = ["FIFO", "SJF", "PRIORITY", "WSJF", "EDF", "SCORED"] as const;
+export type QueuePolicy = typeof queuePolicies[number];
+
+export const queuePolicyDescriptions: Record<QueuePolicy, { label: string; description: string }> = {
+  FIFO: { label: "First in, first out", description: "Jobs start in the order they were queued." },
+  SJF: { label: "Shortest job first", description: "The job with the least predicted time starts first. Long jobs can wait indefinitely." },
+  PRIORITY: { label: "Priority", description: "Urgent before High before Normal before Low, first in first out within a priority. Low-priority jobs can wait indefinitely." },
+  WSJF: {
+    label: "Weighted shortest job, with aging",
+    description: "Priority weight plus hours waited, divided by predicted hours. Short urgent jobs go first, and every job's claim grows the longer it waits, so none starves.",
+  },
+  EDF: { label: "Earliest promise first", description: "The job promised to the customer soonest starts first." },
+  SCORED: {
+    label: "Weighted score",
+    description: "Scores priority, time waited, predicted hours (shorter is better) and customer tier with the weights set here; the highest score starts first.",
+  },
+};
+
+// Points a job's priority contributes: to the WSJF numerator, and (0-3) to the scored policy
+export const priorityWeights: Record<string, number> = { Low: 1, Normal: 2, High: 4, Urgent: 8 };
+export const priorityLevels: Record<string, number> = { Low: 0, Normal: 1, High: 2, Urgent: 3 };
+
+// WSJF points a queued job gains per working hour waited
+export const WSJF_AGING_PER_HOUR = 1;
+
+const weight = z.number().min(0, "Weights cannot be negative").max(100, "Weights are at most 100");
+
+// Score = priority level (0-3) x priority + hours waited x waitTime
+//   - predicted hours x predictedHours + tier level (0-2) x customerTier
+export const queueWeightsSchema = z.object({
+  priority: weight,
+  waitTime: weight,
+  predictedHours: weight,
+  customerTier: weight,
+});
+export type QueueWeights = z.infer<typeof queueWeightsSchema>;
+
+export const DEFAULT_QUEUE_WEIGHTS: QueueWeights = {
+  priority: 2,
+  waitTime: 1,
+  predictedHours: 0.5,
+  customerTier: 1,
+};
+
+export const queuePolicySettingsSchema = z.object({
+  policy: z.string().transform((p) => p.toUpperCase()).pipe(z.enum(queuePolicies, {
+    errorMap: () => ({ message: `policy must be one of ${queuePolicies.join(", ")}` }),
+  })),
+  weights: queueWeightsSchema.optional(),
+});
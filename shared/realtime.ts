@@ -0,0 +1,22 @@
+import type { ActiveService, Appointment } from "./schema";
+import type { BusinessCalendar } from "./business-calendar";
+
+// Path of the workshop event WebSocket on the API server
+export const REALTIME_PATH = "/ws";
+
+// Events pushed to connected clients whenever workshop state changes
+export type WorkshopEvent =
+  | { type: "service.created"; service: ActiveService }
+  | { type: "service.started"; service: ActiveService }
+  | { type: "service.updated"; service: ActiveService }
+  | { type: "service.completed"; serviceId: string }
+  | { type: "service.cancelled"; serviceId: string }
+  | { type: "worker.load_changed"; workerIds: string[] }
+  | { type: "roster.changed"; workerIds: string[] }
+  | { type: "bay.changed"; bayIds: string[] }
+  | { type: "stock.changed"; partNames: string[] }
+  | { type: "purchase_order.changed"; orderIds: string[] }
+  | { type: "payment.recorded"; serviceId: string }
+  | { type: "queue_policy.changed"; policy: string }
+  | { type: "appointment.changed"; appointment: Appointment }
+  | { type: "business_calendar.changed"; calendar: BusinessCalendar };
@@ -1,13 +1,47 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, real, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, serial, real, doublePrecision, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { weekdays, type Weekday } from "./business-calendar";
+import type { TaxLine } from "./pricing";
+
+// Staff User Schema
+export const userRoles = ["service_advisor", "technician", "inventory_manager", "admin"] as const;
+export type UserRole = typeof userRoles[number];
+
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(), // scrypt hash with salt
+  displayName: text("display_name").notNull(),
+  role: text("role").$type<UserRole>().notNull(),
+  workerId: varchar("worker_id"), // technician accounts may link to a worker
+});
+
+export const insertUserSchema = createInsertSchema(users, {
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  role: z.enum(userRoles),
+}).omit({ id: true });
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "passwordHash">;
 
 // Worker Schema
+export const skillCategories = ["Engine", "Brake", "AC", "General"] as const;
+
+// Proficiency runs from 1 (assists) to 5 (expert)
+export type WorkerSkill = { category: string; proficiency: number };
+
+export const workerSkillSchema = z.object({
+  category: z.enum(skillCategories),
+  proficiency: z.number().int().min(1).max(5),
+});
+
 export const workers = pgTable("workers", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
-  skill: text("skill").notNull(), // Engine, Brake, AC, General
+  skill: text("skill").notNull(), // primary skill: Engine, Brake, AC, General
+  skills: jsonb("skills").$type<WorkerSkill[]>().notNull().default(sql`'[]'::jsonb`), // every skill, primary included
   experienceLevel: integer("experience_level").notNull(), // years
   certifications: text("certifications").array().notNull().default(sql`ARRAY[]::text[]`),
   rating: real("rating").notNull(), // 1-5
@@ -16,22 +50,109 @@ export const workers = pgTable("workers", {
   status: text("status").notNull().default('Available'), // Available, Busy, Offline
 });
 
-export const insertWorkerSchema = createInsertSchema(workers).omit({ id: true });
+export const insertWorkerSchema = createInsertSchema(workers, {
+  skills: z.array(workerSkillSchema),
+}).omit({ id: true });
 export type InsertWorker = z.infer<typeof insertWorkerSchema>;
 export type Worker = typeof workers.$inferSelect;
 
+// Skills and certifications as edited by an admin; the primary skill follows
+// the highest proficiency
+export const workerQualificationsSchema = z.object({
+  skills: z.array(workerSkillSchema).min(1, "At least one skill is required")
+    .refine((skills) => new Set(skills.map((s) => s.category)).size === skills.length, "Each skill can only be listed once"),
+  certifications: z.array(z.string().trim().min(1)),
+});
+export type WorkerQualifications = z.infer<typeof workerQualificationsSchema>;
+
+// Weekly shift pattern; workers without any rows work the workshop's opening hours
+export const workerShifts = pgTable("worker_shifts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workerId: varchar("worker_id").notNull().references(() => workers.id, { onDelete: "cascade" }),
+  weekday: text("weekday").$type<Weekday>().notNull(),
+  start: text("start").notNull(), // HH:MM in the business calendar timezone
+  end: text("end").notNull(),
+});
+
+const shiftTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times must be HH:MM (24h)");
+
+export const insertWorkerShiftSchema = createInsertSchema(workerShifts, {
+  weekday: z.enum(weekdays),
+  start: shiftTime,
+  end: shiftTime,
+})
+  .omit({ id: true })
+  .refine((s) => s.start < s.end, "Shift start must be before its end");
+export type InsertWorkerShift = z.infer<typeof insertWorkerShiftSchema>;
+export type WorkerShift = typeof workerShifts.$inferSelect;
+
+// Clock-in/clock-out record; clockOut is null while the worker is on the floor
+export const attendanceRecords = pgTable("attendance_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workerId: varchar("worker_id").notNull().references(() => workers.id, { onDelete: "cascade" }),
+  clockIn: timestamp("clock_in").notNull(),
+  clockOut: timestamp("clock_out"),
+});
+
+export type AttendanceRecord = typeof attendanceRecords.$inferSelect;
+
+export const leaveStatuses = ["Pending", "Approved", "Rejected"] as const;
+export type LeaveStatus = typeof leaveStatuses[number];
+
+export const leaveRequests = pgTable("leave_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workerId: varchar("worker_id").notNull().references(() => workers.id, { onDelete: "cascade" }),
+  startDate: text("start_date").notNull(), // YYYY-MM-DD, inclusive
+  endDate: text("end_date").notNull(),
+  reason: text("reason"),
+  status: text("status").$type<LeaveStatus>().notNull().default("Pending"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+const leaveDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+export const insertLeaveRequestSchema = createInsertSchema(leaveRequests, {
+  startDate: leaveDate,
+  endDate: leaveDate,
+  status: z.enum(leaveStatuses),
+})
+  .omit({ id: true, createdAt: true })
+  .refine((l) => l.startDate <= l.endDate, "Leave must end on or after its start date");
+export type InsertLeaveRequest = z.infer<typeof insertLeaveRequestSchema>;
+export type LeaveRequest = typeof leaveRequests.$inferSelect;
+
+// One worker's line on the daily roster
+export type RosterEntry = {
+  workerId: string;
+  workerName: string;
+  skill: string;
+  shifts: Array<{ start: string; end: string }>; // empty on days off
+  onLeave: boolean;
+  clockedIn: boolean;
+  onShiftNow: boolean;
+  attendance: AttendanceRecord[];
+};
+
 // Machine Bay Schema
+export const bayTypes = ["Diagnostic Bay", "General Service Bay", "Heavy Repair Bay"] as const;
+export type BayType = typeof bayTypes[number];
+
 export const machineBays = pgTable("machine_bays", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  bayNumber: integer("bay_number").notNull(),
-  bayType: text("bay_type").notNull(),
+  bayNumber: integer("bay_number").notNull().unique(),
+  bayType: text("bay_type").$type<BayType>().notNull(),
   isAvailable: boolean("is_available").notNull().default(true),
+  inService: boolean("in_service").notNull().default(true), // false takes the bay out of rotation
   assignedWorkers: text("assigned_workers").array().notNull().default(sql`ARRAY[]::text[]`), // max 3
   currentLoad: integer("current_load").notNull().default(0),
   toolsPresent: text("tools_present").array().notNull().default(sql`ARRAY[]::text[]`),
 });
 
-export const insertMachineBaySchema = createInsertSchema(machineBays).omit({ id: true });
+export const insertMachineBaySchema = createInsertSchema(machineBays, {
+  bayNumber: z.number().int().positive("Bay number must be positive"),
+  bayType: z.enum(bayTypes),
+  toolsPresent: z.array(z.string().min(1)),
+}).omit({ id: true, assignedWorkers: true, currentLoad: true });
 export type InsertMachineBay = z.infer<typeof insertMachineBaySchema>;
 export type MachineBay = typeof machineBays.$inferSelect;
 
@@ -39,30 +160,264 @@ export type MachineBay = typeof machineBays.$inferSelect;
 export const inventory = pgTable("inventory", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   partName: text("part_name").notNull().unique(),
-  quantity: integer("quantity").notNull().default(0),
+  quantity: integer("quantity").notNull().default(0), // on hand, reserved units included
+  reserved: integer("reserved").notNull().default(0), // held for active services
   minimumStock: integer("minimum_stock").notNull().default(5),
+  discontinuedAt: timestamp("discontinued_at"), // taken off the stock list; the part and its ledger are kept
 });
 
-export const insertInventorySchema = createInsertSchema(inventory).omit({ id: true });
+// Stock levels only change through the movement ledger below
+export const insertInventorySchema = createInsertSchema(inventory).omit({ id: true, quantity: true, reserved: true, discontinuedAt: true });
 export type InsertInventory = z.infer<typeof insertInventorySchema>;
 export type Inventory = typeof inventory.$inferSelect;
 
+// Units not held by any reservation
+export function availableStock(item: Pick<Inventory, "quantity" | "reserved">): number {
+  return Math.max(0, item.quantity - item.reserved);
+}
+
+// Append-only stock ledger; an item's on-hand quantity is the sum of its
+// movements. Quantities are signed: receipts add stock, consumption and
+// write-offs remove it.
+export const stockMovementTypes = ["Receipt", "Consumption", "Adjustment", "Write-off", "Return"] as const;
+export type StockMovementType = typeof stockMovementTypes[number];
+
+export const stockReasonCodes: Record<StockMovementType, readonly string[]> = {
+  Receipt: ["Opening Balance", "Restock", "Purchase Order"],
+  Consumption: ["Service Use"],
+  Adjustment: ["Stock Count", "Correction"],
+  "Write-off": ["Damaged", "Expired", "Lost"],
+  Return: ["Customer Return", "Returned to Supplier"],
+};
+
+export const stockMovements = pgTable("stock_movements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  inventoryId: varchar("inventory_id").notNull().references(() => inventory.id, { onDelete: "restrict" }), // the ledger is append-only
+  type: text("type").$type<StockMovementType>().notNull(),
+  quantity: integer("quantity").notNull(), // signed change in on-hand stock
+  reasonCode: text("reason_code").notNull(),
+  serviceId: varchar("service_id"), // service that consumed or returned the parts
+  recordedBy: text("recorded_by"), // username, null for system postings
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertStockMovementSchema = createInsertSchema(stockMovements, {
+  type: z.enum(stockMovementTypes),
+  quantity: z.number().int().refine((q) => q !== 0, "Quantity cannot be zero"),
+}).omit({ id: true, createdAt: true });
+export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
+export type StockMovement = typeof stockMovements.$inferSelect;
+// A receipt for a part by name; the part is listed if it is not stocked yet
+export type PartReceipt = Omit<InsertStockMovement, "inventoryId"> & { partName: string };
+
+// Parts held for one task of an active service. Reservations waiting for
+// stock block their task until a restock covers them.
+export const reservationStatuses = ["Reserved", "Awaiting Stock", "Consumed", "Released"] as const;
+export type ReservationStatus = typeof reservationStatuses[number];
+
+export const partReservations = pgTable("part_reservations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  serviceId: varchar("service_id").notNull(),
+  taskName: text("task_name").notNull(),
+  partName: text("part_name").notNull(),
+  quantity: integer("quantity").notNull(),
+  status: text("status").$type<ReservationStatus>().notNull().default("Reserved"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  settledAt: timestamp("settled_at"), // when consumed or released
+});
+
+export const insertPartReservationSchema = createInsertSchema(partReservations, {
+  quantity: z.number().int().positive(),
+  status: z.enum(reservationStatuses),
+}).omit({ id: true, createdAt: true });
+export type InsertPartReservation = z.infer<typeof insertPartReservationSchema>;
+export type PartReservation = typeof partReservations.$inferSelect;
+
+// Suppliers and the parts they sell
+export type SupplierPart = { partName: string; unitPrice: number; minimumOrder: number };
+
+export const supplierPartSchema = z.object({
+  partName: z.string().min(1),
+  unitPrice: z.number().positive("Unit price must be positive"),
+  minimumOrder: z.number().int().positive("Minimum order must be at least 1"),
+});
+
+export const suppliers = pgTable("suppliers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  contactEmail: text("contact_email"),
+  phone: text("phone"),
+  leadTimeDays: integer("lead_time_days").notNull().default(3), // order sent to goods arriving
+  parts: jsonb("parts").$type<SupplierPart[]>().notNull().default(sql`'[]'::jsonb`),
+});
+
+export const insertSupplierSchema = createInsertSchema(suppliers, {
+  name: z.string().trim().min(1, "Supplier name is required"),
+  leadTimeDays: z.number().int().min(0, "Lead time cannot be negative"),
+  parts: z.array(supplierPartSchema).refine(
+    (parts) => new Set(parts.map((p) => p.partName)).size === parts.length,
+    "Each part can only be listed once",
+  ),
+}).omit({ id: true });
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+export type Supplier = typeof suppliers.$inferSelect;
+
+// Purchase orders move Draft → Approved → Sent → Received; receiving posts
+// the ordered stock into inventory. Any order not yet received can be cancelled.
+export const purchaseOrderStatuses = ["Draft", "Approved", "Sent", "Received", "Cancelled"] as const;
+export type PurchaseOrderStatus = typeof purchaseOrderStatuses[number];
+
+export type PurchaseOrderLine = { partName: string; quantity: number; unitPrice: number };
+
+export const purchaseOrderLineSchema = z.object({
+  partName: z.string().min(1),
+  quantity: z.number().int().positive(),
+  unitPrice: z.number().positive(),
+});
+
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderNumber: serial("order_number").notNull().unique(),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id),
+  status: text("status").$type<PurchaseOrderStatus>().notNull().default("Draft"),
+  lines: jsonb("lines").$type<PurchaseOrderLine[]>().notNull().default(sql`'[]'::jsonb`),
+  autoDrafted: boolean("auto_drafted").notNull().default(false), // raised by the low-stock check
+  createdBy: text("created_by"), // username, null when auto-drafted
+  approvedBy: text("approved_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  approvedAt: timestamp("approved_at"),
+  sentAt: timestamp("sent_at"),
+  expectedArrival: timestamp("expected_arrival"), // set when sent, from the supplier's lead time
+  receivedAt: timestamp("received_at"),
+});
+
+export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders, {
+  status: z.enum(purchaseOrderStatuses),
+  lines: z.array(purchaseOrderLineSchema),
+}).omit({ id: true, orderNumber: true, createdAt: true });
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+
+export const openPurchaseOrderStatuses: PurchaseOrderStatus[] = ["Draft", "Approved", "Sent"];
+
+export function purchaseOrderNumber(order: Pick<PurchaseOrder, "orderNumber">): string {
+  return `PO-${String(order.orderNumber).padStart(5, "0")}`;
+}
+
+export function purchaseOrderTotal(order: Pick<PurchaseOrder, "lines">): number {
+  return order.lines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
+}
+
+// Projected demand and stock for one part over the forecast horizon
+export type PartForecast = {
+  partName: string;
+  available: number; // on hand less reserved
+  awaiting: number; // units reserved services are still waiting for
+  onOrder: number; // on open purchase orders; sent ones arrive on their expected date
+  dailyUsage: number; // average over the look-back window of completed services
+  bookedDemand: number; // parts for appointments booked within the horizon
+  projectedStock: number; // at the end of the horizon
+  stockOutDate: string | null; // ISO start of the first day demand cannot be met
+  supplierName: string | null;
+  leadTimeDays: number;
+  reorderPoint: number;
+  suggestedOrderQuantity: number;
+};
+
+export type InventoryForecast = {
+  generatedAt: string;
+  horizonDays: number;
+  lookbackDays: number;
+  parts: PartForecast[]; // soonest stock-out first
+};
+
 // Service Task Schema (predefined tasks with base times)
+export type PartRequirement = { partName: string; quantity: number };
+
 export const serviceTasks = pgTable("service_tasks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   baseTimeHours: real("base_time_hours").notNull(),
   category: text("category").notNull(), // Engine, Brake, AC, General
-  requiredParts: text("required_parts").array().notNull().default(sql`ARRAY[]::text[]`),
+  requiredParts: jsonb("part_requirements").$type<PartRequirement[]>().notNull().default(sql`'[]'::jsonb`),
+  requiredBayType: text("required_bay_type").$type<BayType>(), // null fits any bay
+  requiredTools: text("required_tools").array().notNull().default(sql`ARRAY[]::text[]`),
+  requiredCertifications: text("required_certifications").array().notNull().default(sql`ARRAY[]::text[]`),
 });
 
 export const insertServiceTaskSchema = createInsertSchema(serviceTasks).omit({ id: true });
 export type InsertServiceTask = z.infer<typeof insertServiceTaskSchema>;
 export type ServiceTask = typeof serviceTasks.$inferSelect;
 
+// Customer Schema (vehicle owners)
+// Customer tiers, lowest first; the scored queue policy favours higher tiers
+export const customerTiers = ["Standard", "Silver", "Gold"] as const;
+export type CustomerTier = typeof customerTiers[number];
+
+export const customers = pgTable("customers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  phone: text("phone").notNull().unique(),
+  email: text("email"),
+  tier: text("tier").$type<CustomerTier>().notNull().default("Standard"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertCustomerSchema = createInsertSchema(customers, {
+  name: z.string().min(1, "Customer name is required"),
+  phone: z.string().min(5, "Phone number is required"),
+  email: z.string().email().nullable().optional(),
+  tier: z.enum(customerTiers).optional(),
+}).omit({ id: true, createdAt: true });
+export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
+export type Customer = typeof customers.$inferSelect;
+
+// Vehicle Schema
+export const vehicles = pgTable("vehicles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  carNumber: text("car_number").notNull().unique(), // registration, upper-case without spaces
+  vin: text("vin").unique(),
+  customerId: varchar("customer_id").references(() => customers.id, { onDelete: "set null" }),
+  carModel: text("car_model").notNull(),
+  manufactureYear: integer("manufacture_year").notNull(),
+  fuelType: text("fuel_type").notNull(),
+  lastKnownKilometers: integer("last_known_kilometers").notNull().default(0),
+});
+
+export const insertVehicleSchema = createInsertSchema(vehicles, {
+  carNumber: z.string().min(1, "Car number is required"),
+  vin: z.string().length(17, "VIN must be 17 characters").nullable().optional(),
+}).omit({ id: true });
+export type InsertVehicle = z.infer<typeof insertVehicleSchema>;
+export type Vehicle = typeof vehicles.$inferSelect;
+
+// Registration numbers are compared without spaces and case
+export function normalizeCarNumber(carNumber: string): string {
+  return carNumber.replace(/\s+/g, "").toUpperCase();
+}
+
+// Per-task execution state within an active service
+export const taskStatuses = ["Pending", "In Progress", "Done", "Skipped"] as const;
+export type TaskStatus = typeof taskStatuses[number];
+
+export const serviceTaskStateSchema = z.object({
+  name: z.string(),
+  baseTimeHours: z.number(),
+  status: z.enum(taskStatuses),
+  workerId: z.string().nullable(), // technician who worked on the task
+  startedAt: z.string().nullable(), // ISO timestamp
+  completedAt: z.string().nullable(), // ISO timestamp, set when Done or Skipped
+  actualMinutes: z.number().nullable(),
+});
+
+export type ServiceTaskState = z.infer<typeof serviceTaskStateSchema>;
+
 // Active Service Schema
 export const activeServices = pgTable("active_services", {
   id: varchar("id").primaryKey(), // VOL_YYYYMMDDHHMMSS_WID format
+  vehicleId: varchar("vehicle_id").references(() => vehicles.id, { onDelete: "set null" }),
+  customerId: varchar("customer_id").references(() => customers.id, { onDelete: "set null" }),
   carNumber: text("car_number").notNull(),
   carModel: text("car_model").notNull(),
   manufactureYear: integer("manufacture_year").notNull(),
@@ -72,6 +427,7 @@ export const activeServices = pgTable("active_services", {
   daysSinceLastService: integer("days_since_last_service").notNull(),
   serviceType: text("service_type").notNull(),
   selectedTasks: jsonb("selected_tasks").notNull(), // array of task names
+  taskChecklist: jsonb("task_checklist").$type<ServiceTaskState[]>().notNull().default(sql`'[]'::jsonb`),
   healthScore: integer("health_score").notNull(), // 1-100
   errorCodes: text("error_codes").array().notNull().default(sql`ARRAY[]::text[]`),
   rustLevel: text("rust_level").notNull(), // None, Minor, Moderate, Severe
@@ -80,21 +436,81 @@ export const activeServices = pgTable("active_services", {
   actualStartTime: timestamp("actual_start_time").notNull().defaultNow(),
   estimatedCompletion: timestamp("estimated_completion").notNull(),
   progress: integer("progress").notNull().default(0), // 0-100
+  reportedProgress: integer("reported_progress"), // last value reported by a technician, overrides the time-based estimate
+  progressReportedAt: timestamp("progress_reported_at"),
   assignedWorkers: text("assigned_workers").array().notNull(),
   assignedMachine: text("assigned_machine").notNull(),
-  reservedParts: text("reserved_parts").array().notNull().default(sql`ARRAY[]::text[]`),
+  reservedParts: text("reserved_parts").array().notNull().default(sql`ARRAY[]::text[]`), // part names; quantities and state live in part_reservations
   queuePosition: integer("queue_position"),
+  queueReason: text("queue_reason"), // why a queued service could not get a bay
   priority: text("priority").notNull().default('Normal'),
-  status: text("status").notNull().default('In Progress'), // Queued, In Progress, Completing, Completed
+  warrantyStatus: text("warranty_status").notNull().default('Out of Warranty'), // In Warranty vehicles are not charged for covered work
+  status: text("status").notNull().default('In Progress'), // Queued, In Progress, Completing, or one of holdStatuses
+  heldAt: timestamp("held_at"), // set while on hold; the ETA clock is paused from then
 });
 
-export const insertActiveServiceSchema = createInsertSchema(activeServices).omit({ 
+export const insertActiveServiceSchema = createInsertSchema(activeServices, {
+  taskChecklist: z.array(serviceTaskStateSchema),
+}).omit({ 
   id: true,
   actualStartTime: true,
 });
 export type InsertActiveService = z.infer<typeof insertActiveServiceSchema>;
 export type ActiveService = typeof activeServices.$inferSelect;
 
+// An In Progress service can be put on hold, keeping its bay and crew, and
+// resumed later; progress and the ETA do not advance while it waits
+export const holdStatuses = ["On Hold – awaiting parts", "On Hold – awaiting customer approval"] as const;
+export type HoldStatus = typeof holdStatuses[number];
+
+export function isOnHold(service: Pick<ActiveService, "status">): boolean {
+  return (holdStatuses as readonly string[]).includes(service.status);
+}
+
+// Only running work can be completed: queued and held services have not
+// been worked through, so completing them would bill and consume too much
+export function canComplete(service: Pick<ActiveService, "status">): boolean {
+  return service.status === "In Progress" || service.status === "Completing";
+}
+
+export const holdServiceSchema = z.object({
+  status: z.enum(holdStatuses),
+});
+
+// Manual change of crew and/or bay on a running service
+export const serviceAssignmentSchema = z.object({
+  workerIds: z.array(z.string()).min(1, "A service needs at least one worker").max(3, "A crew has at most 3 workers").optional(),
+  machineId: z.string().optional(),
+}).refine((a) => a.workerIds !== undefined || a.machineId !== undefined, "Give workerIds, machineId or both");
+export type ServiceAssignment = z.infer<typeof serviceAssignmentSchema>;
+
+export const cancelServiceSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required"),
+});
+
+// Services cancelled before completion, kept for the vehicle's history
+export const cancelledServices = pgTable("cancelled_services", {
+  id: varchar("id").primaryKey(), // same id as the active service it came from
+  vehicleId: varchar("vehicle_id").references(() => vehicles.id, { onDelete: "set null" }),
+  customerId: varchar("customer_id").references(() => customers.id, { onDelete: "set null" }),
+  carNumber: text("car_number").notNull(),
+  carModel: text("car_model").notNull(),
+  serviceType: text("service_type").notNull(),
+  selectedTasks: jsonb("selected_tasks").$type<string[]>().notNull(),
+  predictedHours: doublePrecision("predicted_hours").notNull(),
+  progress: integer("progress").notNull().default(0), // how far the work had got
+  statusAtCancellation: text("status_at_cancellation").notNull(), // Queued, In Progress, On Hold – ...
+  reason: text("reason").notNull(),
+  cancelledBy: text("cancelled_by"), // username
+  cancelledAt: timestamp("cancelled_at").notNull().defaultNow(),
+});
+
+export const insertCancelledServiceSchema = createInsertSchema(cancelledServices, {
+  selectedTasks: z.array(z.string()),
+}).omit({ cancelledAt: true });
+export type InsertCancelledService = z.infer<typeof insertCancelledServiceSchema>;
+export type CancelledService = typeof cancelledServices.$inferSelect;
+
 // Service Request Schema (for user input)
 export const serviceRequestSchema = z.object({
   carNumber: z.string().min(1, "Car number is required"),
@@ -120,41 +536,255 @@ export const serviceRequestSchema = z.object({
   weather: z.enum(["Clear", "Rain", "Extreme"]).default("Clear"),
   peakHours: z.boolean().default(false),
   priority: z.enum(["Low", "Normal", "High", "Urgent"]).default("Normal"),
+  // Optional owner/vehicle registry details, stored against the car number
+  vin: z.string().length(17, "VIN must be 17 characters").optional(),
+  customerName: z.string().optional(),
+  customerPhone: z.string().optional(),
+  customerEmail: z.string().email().optional(),
 });
 
 export type ServiceRequest = z.infer<typeof serviceRequestSchema>;
 
+// Appointment Schema (future bookings converted to active services on check-in)
+export const appointmentStatuses = ["Booked", "Checked In", "Cancelled"] as const;
+export type AppointmentStatus = typeof appointmentStatuses[number];
+
+export const appointments = pgTable("appointments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  vehicleId: varchar("vehicle_id").references(() => vehicles.id, { onDelete: "set null" }),
+  customerId: varchar("customer_id").references(() => customers.id, { onDelete: "set null" }),
+  carNumber: text("car_number").notNull(),
+  carModel: text("car_model").notNull(),
+  scheduledStart: timestamp("scheduled_start").notNull(),
+  scheduledEnd: timestamp("scheduled_end").notNull(), // start plus predicted hours in business time
+  predictedHours: doublePrecision("predicted_hours").notNull(),
+  primarySkill: text("primary_skill").notNull(),
+  selectedTasks: jsonb("selected_tasks").$type<string[]>().notNull(),
+  request: jsonb("request").$type<ServiceRequest>().notNull(), // submitted as a service request on check-in
+  status: text("status").$type<AppointmentStatus>().notNull().default("Booked"),
+  serviceId: varchar("service_id"), // active service created at check-in
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAppointmentSchema = createInsertSchema(appointments, {
+  selectedTasks: z.array(z.string()),
+  request: serviceRequestSchema,
+  status: z.enum(appointmentStatuses),
+}).omit({ id: true, createdAt: true });
+export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
+export type Appointment = typeof appointments.$inferSelect;
+
+// A bookable start time returned by the slot finder
+export type AppointmentSlot = {
+  start: string; // ISO timestamp
+  end: string;
+  freeBays: number;
+  freeSkilledJobs: number; // remaining job capacity among workers with the needed skill
+};
+
 // Analytics Schema
+export const analyticsGroupings = ["day", "week", "month", "serviceType", "carModel"] as const;
+export type AnalyticsGrouping = typeof analyticsGroupings[number];
+
+// Revenue figures for a set of completed services. Labour, parts and other
+// are invoice line amounts before discount and tax; revenue is the invoiced
+// total after both.
+export const revenueFiguresSchema = z.object({
+  services: z.number(),
+  revenue: z.number(),
+  averageTicket: z.number(),
+  labour: z.number(),
+  parts: z.number(),
+  other: z.number(),
+  discount: z.number(),
+  tax: z.number(),
+});
+export type RevenueFigures = z.infer<typeof revenueFiguresSchema>;
+
 export const analyticsSchema = z.object({
+  from: z.string(), // YYYY-MM-DD, inclusive, in the workshop timezone
+  to: z.string(),
+  groupBy: z.enum(analyticsGroupings),
   completedServices: z.number(),
   averageServiceTime: z.number(),
   totalRevenue: z.number(),
-  workerUtilization: z.number(),
+  averageTicket: z.number(),
+  labourRevenue: z.number(),
+  partsRevenue: z.number(),
+  otherRevenue: z.number(),
+  workerUtilization: z.number(), // current, not limited to the date range
   machineUtilization: z.number(),
+  // periods in date order (empty ones included), or categories by revenue
+  groups: z.array(revenueFiguresSchema.extend({ key: z.string(), label: z.string() })),
 });
 
 export type Analytics = z.infer<typeof analyticsSchema>;
 
+// Completed Service Schema (for receipts and history)
+export const completedServices = pgTable("completed_services", {
+  id: varchar("id").primaryKey(), // same id as the active service it came from
+  invoiceNumber: serial("invoice_number").notNull().unique(), // sequential, assigned when the service is completed
+  vehicleId: varchar("vehicle_id").references(() => vehicles.id, { onDelete: "set null" }),
+  customerId: varchar("customer_id").references(() => customers.id, { onDelete: "set null" }),
+  carNumber: text("car_number").notNull(),
+  carModel: text("car_model").notNull(),
+  totalKilometers: integer("total_kilometers"), // odometer reading at this visit
+  serviceType: text("service_type").notNull(),
+  selectedTasks: jsonb("selected_tasks").$type<string[]>().notNull(), // array of task names
+  predictedHours: doublePrecision("predicted_hours").notNull(),
+  assignedMachine: text("assigned_machine").notNull(),
+  assignedWorkers: text("assigned_workers").array().notNull().default(sql`ARRAY[]::text[]`), // worker names
+  completedAt: timestamp("completed_at").notNull().defaultNow(),
+  warrantyStatus: text("warranty_status").notNull().default('Out of Warranty'),
+  currency: text("currency").notNull().default('INR'),
+  subtotal: doublePrecision("subtotal").notNull().default(0), // sum of line amounts
+  discount: doublePrecision("discount").notNull().default(0), // taken off the subtotal before tax
+  taxLines: jsonb("tax_lines").$type<TaxLine[]>().notNull().default(sql`'[]'::jsonb`),
+  tax: doublePrecision("tax").notNull().default(0),
+  total: doublePrecision("amount").notNull().default(0), // amount due from the customer
+  amountPaid: doublePrecision("amount_paid").notNull().default(0), // payments less refunds
+});
+
+export const invoiceItemKinds = ["Labour", "Part", "Other"] as const;
+export type InvoiceItemKind = typeof invoiceItemKinds[number];
+
+// Invoice line items belonging to a completed service
+export const invoiceItems = pgTable("invoice_items", {
+  id: varchar("id").primaryKey(),
+  completedServiceId: varchar("completed_service_id").notNull().references(() => completedServices.id, { onDelete: "cascade" }),
+  position: integer("position").notNull().default(0), // order on the invoice
+  description: text("description").notNull(),
+  quantity: doublePrecision("quantity").notNull().default(1),
+  unitPrice: doublePrecision("unit_price").notNull().default(0),
+  amount: doublePrecision("amount").notNull().default(0), // charged to the customer; zero when covered by warranty
+  kind: text("kind").$type<InvoiceItemKind>().notNull().default('Other'),
+  warrantyCovered: boolean("warranty_covered").notNull().default(false),
+});
+
+// Money taken against a completed service's invoice. A split payment is one
+// entry per method; refunds are entries of their own and count against the
+// amount paid.
+export const paymentMethods = ["Cash", "Card", "UPI"] as const;
+export type PaymentMethod = typeof paymentMethods[number];
+export const paymentKinds = ["Payment", "Refund"] as const;
+export type PaymentKind = typeof paymentKinds[number];
+
+export const payments = pgTable("payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  completedServiceId: varchar("completed_service_id").notNull().references(() => completedServices.id, { onDelete: "cascade" }),
+  kind: text("kind").$type<PaymentKind>().notNull().default("Payment"),
+  method: text("method").$type<PaymentMethod>().notNull(),
+  amount: doublePrecision("amount").notNull(), // always positive; the kind gives the direction
+  reference: text("reference"), // card slip or UPI transaction id
+  recordedBy: text("recorded_by"), // username
+  note: text("note"),
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+});
+
+export const insertPaymentSchema = createInsertSchema(payments, {
+  kind: z.enum(paymentKinds),
+  method: z.enum(paymentMethods),
+  amount: z.number().positive("Amount must be positive"),
+}).omit({ id: true, receivedAt: true });
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type Payment = typeof payments.$inferSelect;
+
+// A payment or refund as taken at the counter, split across methods
+export const paymentEntrySchema = z.object({
+  kind: z.enum(paymentKinds).default("Payment"),
+  splits: z.array(z.object({
+    method: z.enum(paymentMethods),
+    amount: z.number().positive("Amount must be positive"),
+    reference: z.string().optional(),
+  })).min(1, "Enter at least one payment method"),
+  note: z.string().optional(),
+});
+export type PaymentEntry = z.infer<typeof paymentEntrySchema>;
+
+// Workshop-wide settings stored as key/value pairs (e.g. queue policy)
+export const workshopSettings = pgTable("workshop_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+});
+
+export type WorkshopSetting = typeof workshopSettings.$inferSelect;
+
+// Workshop details printed at the top of invoices and job cards
+export const letterheadSchema = z.object({
+  name: z.string().min(1, "Workshop name is required"),
+  addressLines: z.array(z.string()).default([]),
+  phone: z.string().optional(),
+  email: z.string().email().optional(),
+  website: z.string().optional(),
+  taxId: z.string().optional(), // e.g. GSTIN, printed on invoices
+  footer: z.string().optional(), // terms or thank-you note under the totals
+});
+export type Letterhead = z.infer<typeof letterheadSchema>;
+
+export const DEFAULT_LETTERHEAD: Letterhead = {
+  name: "Car Service Workshop",
+  addressLines: [],
+  footer: "Thank you for servicing your vehicle with us.",
+};
+
 // Completed Service Record (for receipts and history)
-export type InvoiceItem = {
-  id: string;
-  description: string;
-  quantity: number;
-  unitPrice: number;
-  amount: number;
+export type InvoiceItem = Omit<typeof invoiceItems.$inferSelect, "completedServiceId" | "position">;
+
+export type CompletedService = Omit<typeof completedServices.$inferSelect, "completedAt"> & {
+  completedAt: string; // ISO timestamp
+  items: InvoiceItem[];
 };
+// A completed service before storage has given it an invoice number and
+// before any payment
+export type NewCompletedService = Omit<CompletedService, "invoiceNumber" | "amountPaid">;
 
-export type CompletedService = {
-  id: string;
+export function formatInvoiceNumber(record: Pick<CompletedService, "invoiceNumber">): string {
+  return `INV-${String(record.invoiceNumber).padStart(5, "0")}`;
+}
+
+export const paymentStatuses = ["Unpaid", "Partially Paid", "Paid"] as const;
+export type PaymentStatus = typeof paymentStatuses[number];
+
+// Still owed on an invoice; negative when the customer is owed a refund
+export function balanceDue(record: Pick<CompletedService, "total" | "amountPaid">): number {
+  return Math.round((record.total - record.amountPaid) * 100) / 100;
+}
+
+export function paymentStatus(record: Pick<CompletedService, "total" | "amountPaid">): PaymentStatus {
+  if (balanceDue(record) <= 0) return "Paid";
+  return record.amountPaid > 0 ? "Partially Paid" : "Unpaid";
+}
+
+// One unpaid or part-paid invoice in the receivables list
+export type Receivable = {
+  serviceId: string;
+  invoiceNumber: number;
   carNumber: string;
   carModel: string;
-  serviceType: string;
-  selectedTasks: string[];
-  predictedHours: number;
-  assignedMachine: string;
-  assignedWorkers: string[];
+  customerName: string | null;
+  customerPhone: string | null;
   completedAt: string;
+  ageDays: number; // whole days since completion
+  ageBucket: string;
   currency: string;
-  items: InvoiceItem[];
-  amount: number;
+  total: number;
+  amountPaid: number;
+  balance: number;
+  status: PaymentStatus;
+};
+
+export type Receivables = {
+  asOf: string;
+  totalOutstanding: number;
+  buckets: { label: string; count: number; balance: number }[]; // youngest first
+  invoices: Receivable[]; // oldest first
+};
+
+// Registry entry plus past visits for one registration number
+export type VehicleHistory = {
+  vehicle: Vehicle | null;
+  customer: Customer | null;
+  visits: CompletedService[]; // newest first
+  lastService: { completedAt: string; totalKilometers: number | null } | null;
 };
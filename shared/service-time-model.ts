@@ -0,0 +1,54 @@
+// Feature encoding and inference for the linear service time model.
+// Shared by scripts/train-service-time.ts (which writes the artifact) and
+// the server (which loads it), so both sides encode inputs identically.
+
+export const SERVICE_TIME_FEATURES = [
+  "baseHours", "age", "kmSinceLastService", "healthScore", "dtcCount", "rustLevel", "bodyDamage",
+  "batterySOH", "fluidDegradation", "wearTearScore", "priorServiceCount", "telematicsScore",
+  "package", "approvalSpeed", "appointmentType", "peakHours", "weather", "shopLoad",
+] as const;
+
+export type ServiceTimeFeature = typeof SERVICE_TIME_FEATURES[number];
+export type ServiceTimeFeatures = Partial<Record<ServiceTimeFeature, number>>;
+
+export const CATEGORICAL_ENCODINGS: Record<string, Record<string, number>> = {
+  rustLevel: { None: 0, Minor: 1, Moderate: 2, Severe: 3 },
+  bodyDamage: { None: 0, Minor: 1, Moderate: 2, Severe: 3 },
+  package: { Basic: 0, Standard: 1, Premium: 2 },
+  approvalSpeed: { Fast: 0, Normal: 1, Slow: 2 },
+  appointmentType: { Appointment: 0, "Walk-in": 1 },
+  weather: { Clear: 0, Rain: 1, Extreme: 2 },
+};
+
+export function encodeCategorical(feature: string, value: string): number | undefined {
+  return CATEGORICAL_ENCODINGS[feature]?.[value];
+}
+
+export type ServiceTimeModel = {
+  version: string;
+  trainedAt: string; // ISO timestamp
+  dataFile: string;
+  target: string;
+  features: string[]; // order of the non-bias columns
+  means: number[]; // index 0 is the bias column
+  stds: number[];
+  weights: number[];
+  metrics: {
+    rows: number;
+    rmse: number;
+    r2: number;
+  };
+};
+
+// Features missing from the input are imputed with the training mean, so
+// they contribute nothing once normalized.
+export function predictWithModel(model: ServiceTimeModel, input: ServiceTimeFeatures): number {
+  let sum = model.weights[0];
+  model.features.forEach((feature, idx) => {
+    const j = idx + 1;
+    const raw = input[feature as ServiceTimeFeature];
+    const value = typeof raw === "number" && Number.isFinite(raw) ? raw : model.means[j];
+    sum += ((value - model.means[j]) / (model.stds[j] || 1)) * model.weights[j];
+  });
+  return sum;
+}
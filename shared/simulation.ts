@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { bayTypes, skillCategories } from "./schema";
+import { queuePolicies, queueWeightsSchema, type QueuePolicy } from "./queue-policy";
+
+// What-if simulation of one workshop day: the request (demand and scenarios
+// to compare against the workshop as it is) and the figures reported back.
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times must be HH:MM (24h)");
+
+export const simulationScenarioSchema = z.object({
+  name: z.string().trim().min(1, "Every scenario needs a name").max(60),
+  // extra technicians; without certifications they hold those their skill's tasks require
+  addWorkers: z.array(z.object({
+    skill: z.enum(skillCategories),
+    count: z.number().int().min(1).max(10),
+    certifications: z.array(z.string().min(1)).optional(),
+  })).default([]),
+  removeWorkerIds: z.array(z.string()).default([]),
+  // extra bays; without tools they get those of the workshop's bays of that type
+  addBays: z.array(z.object({
+    bayType: z.enum(bayTypes),
+    count: z.number().int().min(1).max(10),
+    toolsPresent: z.array(z.string().min(1)).optional(),
+  })).default([]),
+  // opening hours of the simulated day, in place of the calendar's
+  openingHours: z.object({ open: timeOfDay, close: timeOfDay })
+    .refine((h) => h.open < h.close, "Opening time must be before closing time")
+    .optional(),
+  queuePolicy: z.enum(queuePolicies).optional(),
+  weights: queueWeightsSchema.optional(),
+});
+export type SimulationScenario = z.infer<typeof simulationScenarioSchema>;
+
+export const simulationRequestSchema = z.object({
+  date: isoDate.optional(), // default: the next day the workshop opens
+  demand: z.discriminatedUnion("source", [
+    // random requests (seeded, so reruns match) arriving through the day
+    z.object({
+      source: z.literal("synthetic"),
+      count: z.number().int().min(1).max(100).default(20),
+      seed: z.number().int().default(1),
+    }),
+    // the requests taken in on a past day, at the times they came in
+    z.object({ source: z.literal("history"), date: isoDate }),
+  ]).default({ source: "synthetic", count: 20, seed: 1 }),
+  // working hours a job may finish past its predicted time before it counts as an SLA miss
+  slaGraceHours: z.number().min(0).max(24).default(1),
+  scenarios: z.array(simulationScenarioSchema).max(4, "Compare at most 4 scenarios at a time").default([]),
+});
+export type SimulationRequest = z.infer<typeof simulationRequestSchema>;
+
+export interface SimulationMetrics {
+  arrived: number;
+  started: number;
+  completed: number; // by the end of the simulated horizon
+  completedSameDay: number;
+  throughputPerHour: number; // same-day completions per open hour
+  // waits and turnaround are in the workshop's current working hours, whatever a scenario's opening hours
+  averageWaitHours: number; // working hours from arrival to start, over started jobs
+  maxWaitHours: number;
+  averageTurnaroundHours: number; // arrival to completion, over completed jobs
+  slaMisses: number; // finished later than predicted plus the grace, or not at all
+  slaMissRate: number; // 0-1
+  workerUtilization: number; // 0-1, crew hours worked over rostered hours that day
+  bayUtilization: number; // 0-1, bay hours used over bay capacity that day
+}
+
+export interface SimulationScenarioResult {
+  name: string;
+  workers: number;
+  bays: number;
+  policy: QueuePolicy;
+  metrics: SimulationMetrics;
+  // queue length and jobs running at each hour of the day
+  timeline: { time: string; queued: number; running: number }[];
+}
+
+export interface SimulationResult {
+  date: string;
+  openHours: number;
+  requests: number;
+  scenarios: SimulationScenarioResult[]; // the current workshop first
+}